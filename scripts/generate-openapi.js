@@ -0,0 +1,243 @@
+#!/usr/bin/env node
+
+/**
+ * OpenAPI Schema Generator for Ask Reddit AI
+ *
+ * Converts the types used by /api/v1 in src/types/index.ts into JSON Schemas for the
+ * OpenAPI document. The root types are the names passed to schemaRef() or json() in
+ * src/lib/api-v1/openapi.ts; the types they reference are included too.
+ * Run with: npm run openapi (add -- --check to fail when the output is out of date)
+ */
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const typesPath = path.join(__dirname, '../src/types/index.ts');
+const openapiPath = path.join(__dirname, '../src/lib/api-v1/openapi.ts');
+const outputPath = path.join(__dirname, '../src/lib/api-v1/schemas.json');
+
+function parse(file) {
+  return ts.createSourceFile(file, fs.readFileSync(file, 'utf8'), ts.ScriptTarget.Latest, true);
+}
+
+const typesFile = parse(typesPath);
+const text = typesFile.getFullText();
+
+// Exported interfaces and type aliases by name
+const declarations = new Map();
+typesFile.statements.forEach(statement => {
+  if (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement)) {
+    declarations.set(statement.name.text, statement);
+  }
+});
+
+// Names passed as string literals to schemaRef() and json()
+function findRoots() {
+  const roots = new Set();
+  const visit = node => {
+    if (ts.isCallExpression(node) && ts.isIdentifier(node.expression)
+      && ['schemaRef', 'json'].includes(node.expression.text)
+      && node.arguments.length && ts.isStringLiteral(node.arguments[0])) {
+      roots.add(node.arguments[0].text);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(parse(openapiPath));
+  return [...roots].sort();
+}
+
+function fail(node, message) {
+  const { line } = typesFile.getLineAndCharacterOfPosition(node.getStart());
+  throw new Error(`src/types/index.ts:${line + 1}: ${message}: ${node.getText()}`);
+}
+
+// "// ..." comments on the line after a property, or on the lines before a declaration
+function trailingComment(node) {
+  const ranges = ts.getTrailingCommentRanges(text, node.end) || [];
+  return commentText(ranges);
+}
+
+// Only the comment block directly above counts. Section headings such as
+// "// AI Response types" describe a group, not the type below them.
+function leadingComment(node) {
+  const ranges = ts.getLeadingCommentRanges(text, node.getFullStart()) || [];
+  const block = [];
+  let next = node.getStart();
+  for (let i = ranges.length - 1; i >= 0 && !/\n\s*\n/.test(text.slice(ranges[i].end, next)); i--) {
+    block.unshift(ranges[i]);
+    next = ranges[i].pos;
+  }
+  return commentText(block.filter(range => !/^\/\/.*\btypes\s*$/.test(text.slice(range.pos, range.end))));
+}
+
+function commentText(ranges) {
+  const lines = ranges
+    .map(range => text.slice(range.pos, range.end))
+    .filter(comment => comment.startsWith('//') && !comment.includes('eslint-'))
+    .map(comment => comment.replace(/^\/\/\s?/, '').trim());
+  return lines.length ? lines.join(' ') : undefined;
+}
+
+const referenced = new Set();
+
+// Literal values of a union of literals (following aliases), or null if it has anything else
+function literalValues(node) {
+  if (ts.isParenthesizedTypeNode(node)) return literalValues(node.type);
+  if (ts.isLiteralTypeNode(node) && (ts.isStringLiteral(node.literal) || ts.isNumericLiteral(node.literal))) {
+    return [ts.isStringLiteral(node.literal) ? node.literal.text : Number(node.literal.text)];
+  }
+  if (ts.isUnionTypeNode(node)) {
+    const values = node.types.map(literalValues);
+    return values.every(Boolean) ? values.flat() : null;
+  }
+  if (ts.isTypeReferenceNode(node) && ts.isIdentifier(node.typeName)) {
+    const declaration = declarations.get(node.typeName.text);
+    return declaration && ts.isTypeAliasDeclaration(declaration) ? literalValues(declaration.type) : null;
+  }
+  return null;
+}
+
+function enumSchema(values) {
+  const types = [...new Set(values.map(value => typeof value === 'number' ? 'number' : 'string'))];
+  return { type: types.length === 1 ? types[0] : types, enum: values };
+}
+
+function isNull(node) {
+  return ts.isLiteralTypeNode(node) && node.literal.kind === ts.SyntaxKind.NullKeyword;
+}
+
+function membersSchema(members) {
+  const properties = {};
+  const required = [];
+  members.forEach(member => {
+    if (!ts.isPropertySignature(member) || !member.type) fail(member, 'Unsupported member');
+    const name = member.name.getText().replace(/^['"]|['"]$/g, '');
+    const schema = toSchema(member.type);
+    const description = trailingComment(member);
+    properties[name] = description ? { ...schema, description } : schema;
+    if (!member.questionToken) required.push(name);
+  });
+  return { type: 'object', properties, ...(required.length ? { required } : {}), additionalProperties: false };
+}
+
+function toSchema(node) {
+  if (ts.isParenthesizedTypeNode(node)) return toSchema(node.type);
+
+  switch (node.kind) {
+    case ts.SyntaxKind.StringKeyword: return { type: 'string' };
+    case ts.SyntaxKind.NumberKeyword: return { type: 'number' };
+    case ts.SyntaxKind.BooleanKeyword: return { type: 'boolean' };
+    case ts.SyntaxKind.UnknownKeyword:
+    case ts.SyntaxKind.AnyKeyword: return {};
+  }
+
+  if (ts.isLiteralTypeNode(node)) {
+    if (isNull(node)) return { type: 'null' };
+    if (node.literal.kind === ts.SyntaxKind.TrueKeyword || node.literal.kind === ts.SyntaxKind.FalseKeyword) {
+      return { type: 'boolean', const: node.literal.kind === ts.SyntaxKind.TrueKeyword };
+    }
+    const [value] = literalValues(node) || fail(node, 'Unsupported literal');
+    return { type: typeof value, const: value };
+  }
+
+  if (ts.isArrayTypeNode(node)) return { type: 'array', items: toSchema(node.elementType) };
+  if (ts.isTypeLiteralNode(node)) return membersSchema(node.members);
+
+  if (ts.isUnionTypeNode(node)) {
+    const values = literalValues(node);
+    if (values) return enumSchema(values);
+
+    const nullable = node.types.some(isNull);
+    const options = node.types.filter(type => !isNull(type)).map(toSchema);
+    if (nullable) options.push({ type: 'null' });
+    // "string | null" stays a simple type list
+    if (options.every(option => Object.keys(option).length === 1 && typeof option.type === 'string')) {
+      return { type: options.map(option => option.type) };
+    }
+    return { oneOf: options };
+  }
+
+  if (ts.isTypeReferenceNode(node) && ts.isIdentifier(node.typeName)) {
+    const name = node.typeName.text;
+    const args = node.typeArguments || [];
+
+    if (name === 'Record' && args.length === 2) {
+      const keys = literalValues(args[0]);
+      const value = toSchema(args[1]);
+      return keys
+        ? { type: 'object', properties: Object.fromEntries(keys.map(key => [key, value])), required: keys.map(String), additionalProperties: false }
+        : { type: 'object', additionalProperties: value };
+    }
+    if ((name === 'Exclude' || name === 'Extract') && args.length === 2) {
+      const from = literalValues(args[0]);
+      const matching = literalValues(args[1]);
+      if (!from || !matching) fail(node, 'Only literal unions are supported');
+      return enumSchema(from.filter(value => matching.includes(value) === (name === 'Extract')));
+    }
+    if (!declarations.has(name) || args.length) fail(node, 'Unsupported type reference');
+
+    referenced.add(name);
+    return { $ref: `#/components/schemas/${name}` };
+  }
+
+  return fail(node, 'Unsupported type');
+}
+
+function declarationSchema(declaration) {
+  let schema;
+  if (ts.isInterfaceDeclaration(declaration)) {
+    if (declaration.heritageClauses || declaration.typeParameters) fail(declaration.name, 'Unsupported interface');
+    schema = membersSchema(declaration.members);
+  } else {
+    if (declaration.typeParameters) fail(declaration.name, 'Unsupported generic type');
+    schema = toSchema(declaration.type);
+  }
+  const description = leadingComment(declaration);
+  return description ? { description, ...schema } : schema;
+}
+
+function generate() {
+  const roots = findRoots();
+  const schemas = {};
+  const pending = [...roots];
+  roots.forEach(name => referenced.add(name));
+
+  while (pending.length) {
+    const name = pending.shift();
+    if (schemas[name]) continue;
+    const declaration = declarations.get(name);
+    if (!declaration) throw new Error(`${name} is used in openapi.ts but not exported from src/types/index.ts`);
+
+    const before = new Set(referenced);
+    schemas[name] = declarationSchema(declaration);
+    referenced.forEach(reference => {
+      if (!before.has(reference)) pending.push(reference);
+    });
+  }
+
+  const sorted = Object.fromEntries(Object.keys(schemas).sort().map(name => [name, schemas[name]]));
+  return `${JSON.stringify({
+    $comment: 'Generated by scripts/generate-openapi.js from src/types/index.ts. Do not edit; run npm run openapi.',
+    schemas: sorted,
+  }, null, 2)}\n`;
+}
+
+try {
+  const output = generate();
+  const current = fs.existsSync(outputPath) ? fs.readFileSync(outputPath, 'utf8') : '';
+
+  if (process.argv.includes('--check')) {
+    if (output !== current) {
+      console.error('❌ src/lib/api-v1/schemas.json is out of date. Run npm run openapi.');
+      process.exit(1);
+    }
+    console.log('✅ OpenAPI schemas are up to date');
+  } else {
+    fs.writeFileSync(outputPath, output);
+    console.log(`✅ Wrote ${Object.keys(JSON.parse(output).schemas).length} schemas to src/lib/api-v1/schemas.json`);
+  }
+} catch (error) {
+  console.error('❌ Error generating OpenAPI schemas:', error.message);
+  process.exit(1);
+}
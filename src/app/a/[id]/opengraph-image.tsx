@@ -0,0 +1,38 @@
+import { ImageResponse } from 'next/og';
+import { getShare } from '@/lib/shares';
+import { truncateText } from '@/lib/utils';
+
+export const alt = 'An answer from Ask Reddit AI';
+export const size = { width: 1200, height: 630 };
+export const contentType = 'image/png';
+
+// Social preview card: the question, where it was answered from, and the app name
+export default async function Image({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const share = await getShare(id);
+
+  const question = share ? truncateText(share.question, 140) : 'Answer not found';
+  const subreddits = share ? share.subreddits.map(name => `r/${name}`).join(' · ') : '';
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'space-between',
+          padding: 72,
+          background: 'linear-gradient(135deg, #3B82F6 0%, #9333EA 100%)',
+          color: 'white',
+        }}
+      >
+        <div style={{ fontSize: 32, opacity: 0.85 }}>{subreddits}</div>
+        <div style={{ fontSize: 60, fontWeight: 700, lineHeight: 1.2 }}>{question}</div>
+        <div style={{ fontSize: 30, opacity: 0.85 }}>Ask Reddit AI · Answers from Reddit discussions</div>
+      </div>
+    ),
+    size
+  );
+}
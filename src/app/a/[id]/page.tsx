@@ -0,0 +1,171 @@
+import { cache } from 'react';
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { LinkIcon, SparklesIcon, InformationCircleIcon } from '@heroicons/react/24/outline';
+
+import { getShare } from '@/lib/shares';
+import { formatNumber, stripCitations, truncateText } from '@/lib/utils';
+import type { AnswerSource } from '@/types';
+
+import AnswerText from '@/components/AnswerText';
+import StructuredAnswerView from '@/components/StructuredAnswerView';
+import UnpublishButton from '@/components/UnpublishButton';
+import Footer from '@/components/Footer';
+
+// Shares can be unpublished at any time, so never serve a cached render
+export const dynamic = 'force-dynamic';
+
+interface SharedAnswerPageProps {
+  params: Promise<{ id: string }>;
+}
+
+// Metadata and the page both need the share; load it once per request
+const loadShare = cache(getShare);
+
+export async function generateMetadata({ params }: SharedAnswerPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const share = await loadShare(id);
+  if (!share) {
+    return { title: 'Answer not found - Ask Reddit AI' };
+  }
+
+  const subreddits = share.subreddits.map(name => `r/${name}`).join(', ');
+  const title = `${share.question} - Ask Reddit AI`;
+  const description = truncateText(stripCitations(share.answer.answer).replace(/\s+/g, ' ').trim(), 200);
+
+  return {
+    title,
+    description: `${subreddits}: ${description}`,
+    openGraph: {
+      title: share.question,
+      description,
+      type: 'article',
+      url: `/a/${share.id}`,
+      siteName: 'Ask Reddit AI',
+      publishedTime: new Date(share.created_at).toISOString(),
+      tags: share.subreddits,
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title: share.question,
+      description,
+    },
+  };
+}
+
+const SourceList = ({ sources }: { sources: AnswerSource[] }) => (
+  <ul className="space-y-2">
+    {sources.map((source) => (
+      <li key={source.id} className="flex items-start justify-between p-3 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-lg">
+        <div className="flex-1">
+          <p className="text-sm font-medium text-gray-900 dark:text-white">
+            <span className="text-blue-500 dark:text-blue-400 mr-1">[{source.id}]</span>
+            {source.title}
+          </p>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            {source.type === 'post' ? 'Post' : 'Comment'} by u/{source.author} • {formatNumber(source.score)} points
+          </p>
+        </div>
+        <a
+          href={source.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="ml-3 text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 transition-colors"
+        >
+          <LinkIcon className="w-4 h-4" />
+        </a>
+      </li>
+    ))}
+  </ul>
+);
+
+export default async function SharedAnswerPage({ params }: SharedAnswerPageProps) {
+  const { id } = await params;
+  const share = await loadShare(id);
+  if (!share) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      {/* Header */}
+      <header className="bg-white/80 dark:bg-gray-900/80 backdrop-blur-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex items-center justify-between">
+          <Link href="/" className="flex items-center space-x-3">
+            <div className="flex-shrink-0 w-10 h-10 bg-gradient-to-br from-blue-500 to-purple-600 rounded-lg flex items-center justify-center">
+              <SparklesIcon className="w-6 h-6 text-white" />
+            </div>
+            <span className="text-2xl font-bold gradient-text">Ask Reddit AI</span>
+          </Link>
+          <Link
+            href="/"
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-500 hover:bg-blue-600 rounded-lg transition-colors"
+          >
+            Ask your own question
+          </Link>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <article className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 space-y-6">
+          <div className="flex items-start justify-between">
+            <div>
+              <h1 className="text-xl font-semibold text-gray-900 dark:text-white">
+                {share.question}
+              </h1>
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                Answered from {share.subreddits.map(name => `r/${name}`).join(', ')} • {share.answer.model} • Shared {new Date(share.created_at).toLocaleDateString('en-US', { dateStyle: 'medium' })} • Available until {new Date(share.expires_at).toLocaleDateString('en-US', { dateStyle: 'medium' })}
+              </p>
+            </div>
+            <UnpublishButton shareId={share.id} />
+          </div>
+
+          {/* Answer */}
+          <div className="p-6 bg-gradient-to-br from-gray-50 to-white dark:from-gray-800 dark:to-gray-700 rounded-xl border border-gray-200 dark:border-gray-600">
+            {share.answer.structured ? (
+              <StructuredAnswerView answer={share.answer.structured} sources={share.answer.sources} />
+            ) : (
+              <AnswerText text={share.answer.answer} sources={share.answer.sources} />
+            )}
+          </div>
+
+          {share.answer.sources.length > 0 && (
+            <section>
+              <h2 className="text-sm font-medium text-gray-900 dark:text-white mb-3">
+                Sources ({share.answer.sources.length})
+              </h2>
+              <SourceList sources={share.answer.sources} />
+            </section>
+          )}
+
+          {/* Follow-ups */}
+          {share.follow_ups.map((turn, index) => (
+            <section key={index} className="border-t border-gray-200 dark:border-gray-700 pt-6 space-y-3">
+              <h2 className="text-base font-semibold text-gray-900 dark:text-white">
+                {turn.question}
+              </h2>
+              <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-xl border border-gray-200 dark:border-gray-600 text-sm">
+                <AnswerText text={turn.answer.answer} sources={turn.answer.sources} />
+              </div>
+              {turn.answer.sources.length > 0 && <SourceList sources={turn.answer.sources} />}
+            </section>
+          ))}
+
+          {/* Disclaimer */}
+          <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
+            <div className="flex items-start space-x-3">
+              <InformationCircleIcon className="w-5 h-5 text-yellow-600 dark:text-yellow-400 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-yellow-800 dark:text-yellow-200">
+                <strong>Disclaimer:</strong> This answer was generated by AI from Reddit discussions and shared by a user. It is informational guidance, not professional advice.
+              </p>
+            </div>
+          </div>
+        </article>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
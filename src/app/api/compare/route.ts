@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CONFIG, ERROR_MESSAGES } from '@/lib/constants';
+import { handleApiError, readJsonObject, buildSearchQuery, compareCost } from '@/lib/utils';
+import { buildRedditContext } from '@/lib/context';
+import { generateAIResponse, getErrorStatus, type AnswerContext } from '@/lib/answer';
+import { generateComparison } from '@/lib/compare';
+import { getSubredditSnapshot } from '@/lib/reddit';
+import { AskRequestError, planAsk } from '@/lib/ask';
+import { getRateLimitClient, isRateLimitEnabled, reserveRateLimit, rateLimitHeaders } from '@/lib/rate-limit';
+import type { CompareColumn, CompareRequest, CompareResponse, SubredditComparison } from '@/types';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonObject<CompareRequest>(request);
+    if (!body) {
+      return NextResponse.json(
+        { success: false, error: ERROR_MESSAGES.INVALID_BODY },
+        { status: 400 }
+      );
+    }
+    // Same rules as /api/ask-question, plus at least two subreddits
+    const { subreddits, question, timeframe, retrieval, mode, model } = planAsk({
+      subreddit: body.subreddits,
+      question: body.question,
+      timeframe: body.timeframe,
+      retrieval: body.retrieval,
+      mode: body.mode,
+      model: body.model,
+    });
+    if (subreddits.length < 2) {
+      return NextResponse.json(
+        { success: false, error: ERROR_MESSAGES.TOO_FEW_TO_COMPARE },
+        { status: 400 }
+      );
+    }
+
+    // Each column and the comparison itself is a model call, so each counts against the quota.
+    // All of them are reserved up front and refunded for the calls that never happen.
+    const cost = compareCost(subreddits.length);
+    const reservation = isRateLimitEnabled() ? await reserveRateLimit(getRateLimitClient(request), cost) : null;
+    if (reservation && !reservation.reserved) {
+      const { remaining } = reservation.status;
+      return NextResponse.json(
+        {
+          success: false,
+          error: remaining > 0
+            ? `Comparing ${subreddits.length} subreddits uses ${cost} requests, but only ${remaining} are left today.`
+            : ERROR_MESSAGES.DAILY_LIMIT,
+        },
+        { status: 429, headers: rateLimitHeaders(reservation.status, true) }
+      );
+    }
+
+    // Each subreddit gets its own snapshot and context, so one that fails doesn't sink the rest
+    console.log(`🔍 Comparing ${subreddits.map(name => `r/${name}`).join(', ')}: ${question}`);
+    const query = retrieval === 'best_match' ? buildSearchQuery(question, CONFIG.REDDIT.SEARCH_TERMS) : undefined;
+    const snapshots = await Promise.allSettled(
+      subreddits.map(subreddit => getSubredditSnapshot({ subreddit, timeframe, limit: 25, query: query || undefined }))
+    );
+
+    if (snapshots.every(result => result.status === 'rejected')) {
+      await reservation?.release();
+      throw (snapshots[0] as PromiseRejectedResult).reason;
+    }
+
+    const contexts = snapshots.map((result, index): AnswerContext | string => {
+      if (result.status === 'rejected') {
+        return handleApiError(result.reason).message;
+      }
+      const redditContent = buildRedditContext([result.value.data], { contextWindow: model.contextWindow, question });
+      if (!redditContent.text || redditContent.text.length < 100) {
+        return 'Insufficient recent content in this subreddit';
+      }
+      return {
+        question,
+        subreddits: [subreddits[index]],
+        timeframe,
+        retrieval,
+        mode,
+        model,
+        redditContent,
+        snapshot: result.value.snapshot,
+      };
+    });
+
+    if (contexts.every(context => typeof context === 'string')) {
+      await reservation?.release();
+      return NextResponse.json(
+        { success: false, error: 'Insufficient recent content in these subreddits' },
+        { status: 404 }
+      );
+    }
+
+    // Columns without content never reach the model
+    await reservation?.release(contexts.filter(context => typeof context === 'string').length);
+
+    const columns = await Promise.all(contexts.map(async (context, index): Promise<CompareColumn> => {
+      if (typeof context === 'string') {
+        return { subreddit: subreddits[index], error: context };
+      }
+      try {
+        return { subreddit: subreddits[index], answer: await generateAIResponse(context) };
+      } catch (error) {
+        return { subreddit: subreddits[index], error: handleApiError(error).message };
+      }
+    }));
+
+    // The comparison needs two answers to run
+    if (columns.filter(column => column.answer).length < 2) {
+      await reservation?.release(1);
+    }
+    const headers = reservation ? rateLimitHeaders(reservation.status) : {};
+
+    // The columns are still worth returning if the comparison itself fails
+    let comparison: SubredditComparison | null = null;
+    try {
+      comparison = await generateComparison(question, columns, model);
+    } catch (error) {
+      console.error('Comparison failed:', error);
+    }
+
+    const response: CompareResponse = {
+      success: true,
+      data: { question, columns, comparison },
+    };
+
+    return NextResponse.json(response, { headers });
+  } catch (error: unknown) {
+    if (error instanceof AskRequestError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Compare API Error:', error);
+
+    const response: CompareResponse = {
+      success: false,
+      error: handleApiError(error).message,
+    };
+
+    return NextResponse.json(response, { status: getErrorStatus(error) });
+  }
+}
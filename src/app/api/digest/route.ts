@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { handleApiError, readJsonObject } from '@/lib/utils';
+import { AskRequestError, resolveModel, resolveSubreddits, resolveTimeframe } from '@/lib/ask';
+import { getErrorStatus } from '@/lib/answer';
+import { generateDigest } from '@/lib/digest';
+import { getMultiSubredditSnapshot } from '@/lib/reddit';
+import { getRateLimitClient, isRateLimitEnabled, reserveRateLimit, rateLimitHeaders } from '@/lib/rate-limit';
+import type { DigestRequest, DigestResponse } from '@/types';
+
+// Summarize what's happening in the subreddits, no question needed
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonObject<DigestRequest>(request);
+    if (!body) {
+      return NextResponse.json(
+        { success: false, error: ERROR_MESSAGES.INVALID_BODY },
+        { status: 400 }
+      );
+    }
+    if (!body.subreddit) {
+      return NextResponse.json(
+        { success: false, error: 'Subreddit is required' },
+        { status: 400 }
+      );
+    }
+
+    // Same rules as /api/ask-question, without a question
+    const subreddits = resolveSubreddits(body.subreddit);
+    const timeframe = resolveTimeframe(body.timeframe);
+    const model = resolveModel(body.model);
+
+    // Reserve the client's quota before doing any work, so concurrent requests can't overrun it
+    const reservation = isRateLimitEnabled() ? await reserveRateLimit(getRateLimitClient(request)) : null;
+    if (reservation && !reservation.reserved) {
+      return NextResponse.json(
+        { success: false, error: ERROR_MESSAGES.DAILY_LIMIT },
+        { status: 429, headers: rateLimitHeaders(reservation.status, true) }
+      );
+    }
+
+    console.log(`📰 Building digest for ${subreddits.map(name => `r/${name}`).join(', ')} (${timeframe})`);
+    let fetched: Awaited<ReturnType<typeof getMultiSubredditSnapshot>>;
+    try {
+      fetched = await getMultiSubredditSnapshot(subreddits, { timeframe, limit: 25 });
+    } catch (error) {
+      // A request only counts against the quota once it reaches the model
+      await reservation?.release();
+      throw error;
+    }
+    const { datasets, snapshot } = fetched;
+
+    if (!datasets.some(data => data.posts.length)) {
+      await reservation?.release();
+      return NextResponse.json(
+        { success: false, error: 'No recent content available for this subreddit' },
+        { status: 404 }
+      );
+    }
+
+    const headers = reservation ? rateLimitHeaders(reservation.status) : {};
+
+    const response: DigestResponse = {
+      success: true,
+      data: await generateDigest(subreddits, timeframe, datasets, snapshot, model),
+    };
+
+    return NextResponse.json(response, { headers });
+  } catch (error: unknown) {
+    if (error instanceof AskRequestError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Digest API Error:', error);
+
+    const response: DigestResponse = {
+      success: false,
+      error: handleApiError(error).message,
+    };
+
+    return NextResponse.json(response, { status: getErrorStatus(error) });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { handleApiError, readJsonObject } from '@/lib/utils';
+import { renderExport, validateExportRequest } from '@/lib/export';
+import type { ExportRequest } from '@/types';
+
+// Export answers as a Markdown, JSON or PDF download
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonObject<ExportRequest>(request);
+    if (!body) {
+      return NextResponse.json(
+        { success: false, error: ERROR_MESSAGES.INVALID_BODY },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateExportRequest(body);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { success: false, error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const file = renderExport(body);
+
+    return new Response(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting answers:', error);
+    const appError = handleApiError(error);
+
+    return NextResponse.json(
+      { success: false, error: appError.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CONFIG, ERROR_MESSAGES, ANSWER_MODES } from '@/lib/constants';
+import { handleApiError, isOwnKey, readJsonObject, validateQuestion } from '@/lib/utils';
+import { buildRedditContext, fitConversationHistory, getContextBudget } from '@/lib/context';
+import { generateAIResponse, streamAIResponse, getErrorStatus, type AnswerContext } from '@/lib/answer';
+import { getConversation } from '@/lib/conversations';
+import { getModel, isProviderConfigured } from '@/lib/llm';
+import { getRateLimitClient, isRateLimitEnabled, reserveRateLimit, rateLimitHeaders } from '@/lib/rate-limit';
+import type { AskQuestionResponse, FollowUpRequest } from '@/types';
+
+// Answer a follow-up question against the conversation's stored Reddit snapshot
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonObject<FollowUpRequest>(request);
+    if (!body) {
+      return NextResponse.json(
+        { success: false, error: ERROR_MESSAGES.INVALID_BODY },
+        { status: 400 }
+      );
+    }
+    const { conversation_id: conversationId, question, mode = CONFIG.LLM.DEFAULT_ANSWER_MODE } = body;
+    const wantsStream = body.stream === true || request.headers.get('accept')?.includes('text/event-stream');
+
+    if (!conversationId || typeof conversationId !== 'string' || !question) {
+      return NextResponse.json(
+        { success: false, error: 'Conversation ID and question are required' },
+        { status: 400 }
+      );
+    }
+
+    const questionValidation = validateQuestion(question);
+    if (!questionValidation.isValid) {
+      return NextResponse.json(
+        { success: false, error: questionValidation.error },
+        { status: 400 }
+      );
+    }
+
+    if (!isOwnKey(ANSWER_MODES, mode)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid answer mode specified' },
+        { status: 400 }
+      );
+    }
+
+    const conversation = await getConversation(conversationId);
+    if (!conversation) {
+      return NextResponse.json(
+        { success: false, error: 'Conversation not found or expired. Ask a new question to start again.' },
+        { status: 404 }
+      );
+    }
+    if (conversation.turns.length >= CONFIG.CONVERSATION.MAX_TURNS) {
+      return NextResponse.json(
+        { success: false, error: `This conversation has reached its limit of ${CONFIG.CONVERSATION.MAX_TURNS} questions` },
+        { status: 400 }
+      );
+    }
+
+    const model = getModel(conversation.model);
+    if (!model || !isProviderConfigured(model.provider)) {
+      return NextResponse.json(
+        { success: false, error: `Model ${conversation.model} is no longer available on this server` },
+        { status: 400 }
+      );
+    }
+
+    // Reserve the client's quota before doing any work, so concurrent requests can't overrun it
+    const reservation = isRateLimitEnabled() ? await reserveRateLimit(getRateLimitClient(request)) : null;
+    if (reservation && !reservation.reserved) {
+      return NextResponse.json(
+        { success: false, error: ERROR_MESSAGES.DAILY_LIMIT },
+        { status: 429, headers: rateLimitHeaders(reservation.status, true) }
+      );
+    }
+
+    // Earlier turns take up to HISTORY_SHARE of the budget; Reddit content gets the rest.
+    // Ranking on the whole thread keeps content relevant to both the topic and the follow-up.
+    const budget = getContextBudget(model.contextWindow);
+    const history = fitConversationHistory(conversation.turns, Math.floor(budget * CONFIG.CONTEXT.HISTORY_SHARE));
+    const redditContent = buildRedditContext(conversation.datasets, {
+      contextWindow: model.contextWindow,
+      question: [...conversation.turns.map(turn => turn.question), question].join(' '),
+      reservedTokens: history.usedTokens,
+    });
+
+    const headers = reservation ? rateLimitHeaders(reservation.status) : {};
+
+    const context: AnswerContext = {
+      question,
+      subreddits: conversation.subreddits,
+      timeframe: conversation.timeframe,
+      retrieval: conversation.retrieval,
+      mode,
+      model,
+      redditContent,
+      snapshot: {
+        ...conversation.snapshot,
+        cached: true,
+        age_seconds: Math.round((Date.now() - conversation.snapshot.fetched_at) / 1000),
+      },
+      conversationId,
+      history: history.turns,
+    };
+
+    if (wantsStream) {
+      return streamAIResponse(context, headers);
+    }
+
+    const response: AskQuestionResponse = {
+      success: true,
+      data: await generateAIResponse(context),
+    };
+
+    return NextResponse.json(response, { headers });
+  } catch (error: unknown) {
+    console.error('Follow-up API Error:', error);
+
+    const response: AskQuestionResponse = {
+      success: false,
+      error: handleApiError(error).message,
+    };
+
+    return NextResponse.json(response, { status: getErrorStatus(error) });
+  }
+}
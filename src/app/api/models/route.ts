@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { getAvailableModels, getDefaultModel, toModelSummary } from '@/lib/llm';
+import type { ModelsResponse } from '@/types';
+
+// List the models this server can answer with
+export async function GET() {
+  const response: ModelsResponse = {
+    success: true,
+    data: {
+      models: getAvailableModels().map(toModelSummary),
+      default_model: getDefaultModel()?.id ?? null,
+    },
+  };
+
+  return NextResponse.json(response);
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRateLimitClient, isRateLimitEnabled, checkRateLimit, rateLimitHeaders } from '@/lib/rate-limit';
+
+// Report the caller's remaining quota without using any of it
+export async function GET(request: NextRequest) {
+  if (!isRateLimitEnabled()) {
+    return NextResponse.json({ success: true, data: null });
+  }
+
+  const status = await checkRateLimit(getRateLimitClient(request));
+
+  return NextResponse.json(
+    { success: true, data: status },
+    { headers: rateLimitHeaders(status) }
+  );
+}
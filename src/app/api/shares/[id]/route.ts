@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/utils';
+import { getShare, unpublishShare } from '@/lib/shares';
+
+// Public data of a shared answer
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const share = await getShare(id);
+
+  if (!share) {
+    return NextResponse.json(
+      { success: false, error: 'Shared answer not found' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, data: share });
+}
+
+// Unpublish a shared answer; needs the owner token issued when it was published
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const ownerToken = request.headers.get('x-owner-token');
+
+    if (!ownerToken) {
+      return NextResponse.json(
+        { success: false, error: 'X-Owner-Token header is required' },
+        { status: 401 }
+      );
+    }
+
+    const result = await unpublishShare(id, ownerToken);
+    if (result === 'not_found') {
+      return NextResponse.json(
+        { success: false, error: 'Shared answer not found' },
+        { status: 404 }
+      );
+    }
+    if (result === 'forbidden') {
+      return NextResponse.json(
+        { success: false, error: 'Only the owner can unpublish this answer' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error unpublishing answer:', error);
+    const appError = handleApiError(error);
+
+    return NextResponse.json(
+      { success: false, error: appError.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { handleApiError, readJsonObject } from '@/lib/utils';
+import { isRateLimitEnabled, rateLimitHeaders, reserveRateLimit } from '@/lib/rate-limit';
+import { createShare, getShareRateLimitClient, getShareUrl, ShareCapacityError, validateShareRequest } from '@/lib/shares';
+import type { ShareAnswerRequest, ShareAnswerResponse } from '@/types';
+
+// Publish a conversation's recorded answers at a public /a/[id] link
+export async function POST(request: NextRequest) {
+  let release: (() => Promise<void>) | undefined;
+  try {
+    const body = await readJsonObject<ShareAnswerRequest>(request);
+    if (!body) {
+      return NextResponse.json(
+        { success: false, error: ERROR_MESSAGES.INVALID_BODY },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateShareRequest(body);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { success: false, error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const reservation = isRateLimitEnabled() ? await reserveRateLimit(getShareRateLimitClient(request)) : null;
+    if (reservation && !reservation.reserved) {
+      return NextResponse.json(
+        { success: false, error: 'Daily sharing limit reached. Please try again later.' },
+        { status: 429, headers: rateLimitHeaders(reservation.status, true) }
+      );
+    }
+    release = reservation?.release;
+
+    const created = await createShare(body);
+    if (!created) {
+      await release?.();
+      return NextResponse.json(
+        { success: false, error: 'This answer is no longer available to share. Ask the question again to share it.' },
+        { status: 404 }
+      );
+    }
+
+    const { share, ownerToken } = created;
+    const response: ShareAnswerResponse = {
+      success: true,
+      data: {
+        id: share.id,
+        url: getShareUrl(share.id, request.nextUrl.origin),
+        owner_token: ownerToken,
+        expires_at: share.expires_at,
+      },
+    };
+
+    return NextResponse.json(response, { status: 201, headers: reservation ? rateLimitHeaders(reservation.status) : {} });
+  } catch (error) {
+    // Only published shares count against the allowance
+    await release?.();
+
+    if (error instanceof ShareCapacityError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 503 }
+      );
+    }
+
+    console.error('Error sharing answer:', error);
+    const appError = handleApiError(error);
+
+    return NextResponse.json(
+      { success: false, error: appError.message },
+      { status: 500 }
+    );
+  }
+}
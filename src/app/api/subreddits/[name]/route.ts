@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError, validateSubreddit } from '@/lib/utils';
+import { lookupSubreddit, RedditApiError } from '@/lib/reddit';
+import type { SubredditLookupResponse } from '@/types';
+
+// Whether a subreddit exists and can be read, with its member count, description, icon and NSFW flag.
+// Missing and private subreddits are reported in `status` rather than as errors.
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ name: string }> }) {
+  try {
+    const { name } = await params;
+
+    const validation = validateSubreddit(name);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { success: false, error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const response: SubredditLookupResponse = {
+      success: true,
+      data: await lookupSubreddit(name),
+    };
+
+    return NextResponse.json(response);
+  } catch (error: unknown) {
+    console.error('Subreddit Lookup Error:', error);
+
+    const response: SubredditLookupResponse = {
+      success: false,
+      error: handleApiError(error).message,
+    };
+
+    return NextResponse.json(response, { status: error instanceof RedditApiError ? error.status : 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/utils';
+import { searchSubreddits, RedditApiError } from '@/lib/reddit';
+import type { SubredditSearchResponse } from '@/types';
+
+// Subreddit autocomplete: GET /api/subreddits?q=invest
+export async function GET(request: NextRequest) {
+  try {
+    const query = (request.nextUrl.searchParams.get('q') || '').trim().replace(/^\/?r\//i, '');
+
+    if (query.length < 2 || query.length > 50) {
+      return NextResponse.json(
+        { success: false, error: 'Search query must be between 2 and 50 characters' },
+        { status: 400 }
+      );
+    }
+
+    const response: SubredditSearchResponse = {
+      success: true,
+      data: { subreddits: await searchSubreddits(query) },
+    };
+
+    return NextResponse.json(response);
+  } catch (error: unknown) {
+    console.error('Subreddit Search Error:', error);
+
+    const response: SubredditSearchResponse = {
+      success: false,
+      error: handleApiError(error).message,
+    };
+
+    return NextResponse.json(response, { status: error instanceof RedditApiError ? error.status : 500 });
+  }
+}
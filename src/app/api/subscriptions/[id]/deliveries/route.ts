@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeSubscriptionRequest, getSubscriptionStore, listDeliveries } from '@/lib/subscriptions';
+import type { DeliveryListResponse } from '@/types';
+
+// Recent deliveries of a subscription with every attempt, newest first
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = authorizeSubscriptionRequest(request);
+  if (denied) {
+    return NextResponse.json({ success: false, error: denied.error }, { status: denied.status });
+  }
+
+  const { id } = await params;
+  if (!(await getSubscriptionStore().get(id))) {
+    return NextResponse.json(
+      { success: false, error: 'Subscription not found' },
+      { status: 404 }
+    );
+  }
+
+  const response: DeliveryListResponse = { success: true, data: await listDeliveries(id) };
+  return NextResponse.json(response);
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { handleApiError, readJsonObject } from '@/lib/utils';
+import {
+  authorizeSubscriptionRequest,
+  deleteSubscription,
+  getSubscriptionStore,
+  toSubscriptionView,
+  updateSubscription,
+} from '@/lib/subscriptions';
+import type { SubscriptionRequest, SubscriptionResponse } from '@/types';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const denied = authorizeSubscriptionRequest(request);
+  if (denied) {
+    return NextResponse.json({ success: false, error: denied.error }, { status: denied.status });
+  }
+
+  const { id } = await params;
+  const subscription = await getSubscriptionStore().get(id);
+  if (!subscription) {
+    return NextResponse.json(
+      { success: false, error: 'Subscription not found' },
+      { status: 404 }
+    );
+  }
+
+  const response: SubscriptionResponse = { success: true, data: toSubscriptionView(subscription) };
+  return NextResponse.json(response);
+}
+
+// Change some fields, e.g. { "enabled": false } to pause it
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const denied = authorizeSubscriptionRequest(request);
+  if (denied) {
+    return NextResponse.json({ success: false, error: denied.error }, { status: denied.status });
+  }
+
+  try {
+    const { id } = await params;
+    const changes = await readJsonObject<Partial<SubscriptionRequest>>(request);
+    if (!changes) {
+      return NextResponse.json(
+        { success: false, error: ERROR_MESSAGES.INVALID_BODY },
+        { status: 400 }
+      );
+    }
+
+    const { subscription, error } = await updateSubscription(id, changes);
+    if (error) {
+      return NextResponse.json(
+        { success: false, error },
+        { status: 400 }
+      );
+    }
+    if (!subscription) {
+      return NextResponse.json(
+        { success: false, error: 'Subscription not found' },
+        { status: 404 }
+      );
+    }
+
+    const response: SubscriptionResponse = { success: true, data: toSubscriptionView(subscription) };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error updating subscription:', error);
+    return NextResponse.json(
+      { success: false, error: handleApiError(error).message },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete a subscription and its delivery history
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const denied = authorizeSubscriptionRequest(request);
+  if (denied) {
+    return NextResponse.json({ success: false, error: denied.error }, { status: denied.status });
+  }
+
+  try {
+    const { id } = await params;
+    if (!(await deleteSubscription(id))) {
+      return NextResponse.json(
+        { success: false, error: 'Subscription not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting subscription:', error);
+    return NextResponse.json(
+      { success: false, error: handleApiError(error).message },
+      { status: 500 }
+    );
+  }
+}
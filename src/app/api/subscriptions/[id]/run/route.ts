@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/utils';
+import { authorizeSubscriptionRequest, runSubscriptionNow } from '@/lib/subscriptions';
+import type { DeliveryResponse } from '@/types';
+
+// Deliver a subscription now, outside its schedule; responds after the first attempt
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = authorizeSubscriptionRequest(request);
+  if (denied) {
+    return NextResponse.json({ success: false, error: denied.error }, { status: denied.status });
+  }
+
+  try {
+    const { id } = await params;
+    const delivery = await runSubscriptionNow(id);
+    if (!delivery) {
+      return NextResponse.json(
+        { success: false, error: 'Subscription not found' },
+        { status: 404 }
+      );
+    }
+
+    const response: DeliveryResponse = { success: true, data: delivery };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error running subscription:', error);
+    return NextResponse.json(
+      { success: false, error: handleApiError(error).message },
+      { status: 500 }
+    );
+  }
+}
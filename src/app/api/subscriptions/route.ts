@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CONFIG, ERROR_MESSAGES } from '@/lib/constants';
+import { handleApiError, readJsonObject } from '@/lib/utils';
+import {
+  authorizeSubscriptionRequest,
+  createSubscription,
+  getSubscriptionStore,
+  toSubscriptionView,
+  validateSubscriptionRequest,
+} from '@/lib/subscriptions';
+import type { SubscriptionListResponse, SubscriptionRequest, SubscriptionResponse } from '@/types';
+
+// All subscriptions, next run first
+export async function GET(request: NextRequest) {
+  const denied = authorizeSubscriptionRequest(request);
+  if (denied) {
+    return NextResponse.json({ success: false, error: denied.error }, { status: denied.status });
+  }
+
+  try {
+    const subscriptions = (await getSubscriptionStore().list())
+      .sort((a, b) => (a.next_run_at ?? Infinity) - (b.next_run_at ?? Infinity))
+      .map(toSubscriptionView);
+
+    const response: SubscriptionListResponse = { success: true, data: subscriptions };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error listing subscriptions:', error);
+    return NextResponse.json(
+      { success: false, error: handleApiError(error).message },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a subscription
+export async function POST(request: NextRequest) {
+  const denied = authorizeSubscriptionRequest(request);
+  if (denied) {
+    return NextResponse.json({ success: false, error: denied.error }, { status: denied.status });
+  }
+
+  try {
+    const body = await readJsonObject<SubscriptionRequest>(request);
+    if (!body) {
+      return NextResponse.json(
+        { success: false, error: ERROR_MESSAGES.INVALID_BODY },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateSubscriptionRequest(body);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { success: false, error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const subscription = await createSubscription(body);
+    if (!subscription) {
+      return NextResponse.json(
+        { success: false, error: `This server already has the maximum of ${CONFIG.SUBSCRIPTIONS.MAX_SUBSCRIPTIONS} subscriptions` },
+        { status: 409 }
+      );
+    }
+
+    const response: SubscriptionResponse = { success: true, data: toSubscriptionView(subscription) };
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    console.error('Error creating subscription:', error);
+    return NextResponse.json(
+      { success: false, error: handleApiError(error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { getTrendingQuestions } from '@/lib/trending';
+import type { TrendingResponse } from '@/types';
+
+// Built from live Reddit activity and cached, so never prerender it at build time
+export const dynamic = 'force-dynamic';
+
+// Trending questions from the tracked subreddits' hot and top posts
+export async function GET() {
+  const response: TrendingResponse = {
+    success: true,
+    data: await getTrendingQuestions(),
+  };
+
+  return NextResponse.json(response);
+}
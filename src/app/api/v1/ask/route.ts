@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { generateAIResponse, streamAIResponse, type AnswerContext } from '@/lib/answer';
+import { askCost, planAsk, prepareAnswerContext } from '@/lib/ask';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { readJsonObject } from '@/lib/utils';
+import { rateLimitHeaders } from '@/lib/rate-limit';
+import { ApiError, authorizeApiRequest, reserveApiRequests, toApiErrorResponse, type ApiReservation } from '@/lib/api-v1';
+import type { ApiAskResponse, AskQuestionRequest } from '@/types';
+
+// Same pipeline as /api/ask-question, behind API key authentication. The key is charged once
+// the request is valid, since asking for the stance analysis makes it cost two requests.
+export async function POST(request: NextRequest) {
+  const auth = await authorizeApiRequest(request, { metered: false });
+  if (auth.denied) return auth.denied;
+
+  let reservation: ApiReservation | undefined;
+  let context: AnswerContext | undefined;
+  try {
+    const body = await readJsonObject<AskQuestionRequest>(request);
+    if (!body) {
+      throw new ApiError('invalid_request', ERROR_MESSAGES.INVALID_BODY);
+    }
+    const wantsStream = body.stream === true || request.headers.get('accept')?.includes('text/event-stream');
+
+    const plan = planAsk(body);
+    reservation = await reserveApiRequests(auth.key, askCost(plan));
+    if (reservation.denied) return reservation.denied;
+
+    context = await prepareAnswerContext(plan);
+    // Too few comments to classify, so the stance analysis won't reach the model
+    if (plan.analyzeStance && !context.analyzeStance) {
+      await reservation.release(1);
+    }
+    const headers = rateLimitHeaders(reservation.usage);
+
+    if (wantsStream) {
+      return streamAIResponse(context, headers);
+    }
+
+    const response: ApiAskResponse = { data: await generateAIResponse(context) };
+    return NextResponse.json(response, { headers });
+  } catch (error: unknown) {
+    // A request only counts against the key's limit once it reaches the model
+    if (!context && reservation && !reservation.denied) await reservation.release();
+    return toApiErrorResponse(error);
+  }
+}
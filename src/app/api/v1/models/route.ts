@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAvailableModels, getDefaultModel, toModelSummary } from '@/lib/llm';
+import { authorizeApiRequest } from '@/lib/api-v1';
+import type { ApiModelsResponse } from '@/types';
+
+// List the models this server can answer with; doesn't count against the key's limit
+export async function GET(request: NextRequest) {
+  const auth = await authorizeApiRequest(request, { metered: false });
+  if (auth.denied) return auth.denied;
+
+  const response: ApiModelsResponse = {
+    data: {
+      models: getAvailableModels().map(toModelSummary),
+      default_model: getDefaultModel()?.id ?? null,
+    },
+  };
+
+  return NextResponse.json(response);
+}
@@ -0,0 +1,9 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/api-v1';
+
+// The OpenAPI document is public so clients can be generated before a key is issued
+export async function GET(request: NextRequest) {
+  return NextResponse.json(buildOpenApiDocument(request.nextUrl.origin), {
+    headers: { 'Cache-Control': 'public, max-age=3600' },
+  });
+}
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { MemoryCacheStore, setCacheStore } from '@/lib/cache';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { MemoryRateLimitStore, setRateLimitStore } from '@/lib/rate-limit';
+import { GET as getUsage } from '../usage/route';
+import { POST } from './route';
+import type { SubredditData } from '@/types';
+
+const post = (body: unknown, headers: Record<string, string> = { authorization: 'Bearer secret-key' }) =>
+  POST(new NextRequest('http://localhost/api/v1/reddit-data', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  }));
+
+const remaining = async () => {
+  const response = await getUsage(new NextRequest('http://localhost/api/v1/usage', { headers: { 'x-api-key': 'secret-key' } }));
+  return (await response.json()).data.remaining;
+};
+
+const snapshot: SubredditData = { subreddit: 'rust', posts: [], comments: [], fetchedAt: Date.now() };
+
+// Reddit hands out tokens but refuses every listing, as it does for a private subreddit
+const privateReddit = vi.fn(async (url: string) => url.endsWith('/api/v1/access_token')
+  ? Response.json({ access_token: 'token', token_type: 'bearer', expires_in: 3600 })
+  : new Response('{}', { status: 403 }));
+
+describe('POST /api/v1/reddit-data', () => {
+  beforeEach(() => {
+    vi.stubEnv('API_KEYS', 'search:secret-key:2');
+    vi.stubEnv('REDDIT_CLIENT_ID', 'id');
+    vi.stubEnv('REDDIT_CLIENT_SECRET', 'secret');
+    vi.stubEnv('REDDIT_AUTH_BASE_URL', 'http://reddit.test');
+    vi.stubEnv('REDDIT_API_BASE_URL', 'http://reddit.test');
+    vi.stubGlobal('fetch', privateReddit);
+    setRateLimitStore(new MemoryRateLimitStore());
+    const cache = new MemoryCacheStore();
+    cache.set('subreddit:rust:week:25:top:', { value: snapshot, storedAt: Date.now() });
+    setCacheStore(cache);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('returns the snapshot in a data envelope and charges the key', async () => {
+    const response = await post({ subreddit: 'rust', timeframe: 'week' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('x-ratelimit-remaining')).toBe('1');
+    expect(await response.json()).toEqual({
+      data: snapshot,
+      snapshot: { cached: true, fetched_at: snapshot.fetchedAt, age_seconds: expect.any(Number) },
+    });
+    expect(await remaining()).toBe(1);
+  });
+
+  it('accepts the key in X-API-Key too', async () => {
+    const response = await post({ subreddit: 'rust', timeframe: 'week' }, { 'x-api-key': 'secret-key' });
+
+    expect(response.status).toBe(200);
+  });
+
+  it('rejects unknown and malformed keys without charging anyone', async () => {
+    const attempts: Record<string, string>[] = [{ authorization: 'Bearer made-up' }, { authorization: 'Token secret-key' }, {}];
+    for (const headers of attempts) {
+      const response = await post({ subreddit: 'rust', timeframe: 'week' }, headers);
+
+      expect(response.status).toBe(401);
+      expect((await response.json()).error.code).toBe('unauthorized');
+    }
+    expect(await remaining()).toBe(2);
+  });
+
+  it('answers 429 once the key\'s limit is used up', async () => {
+    await post({ subreddit: 'rust', timeframe: 'week' });
+    await post({ subreddit: 'rust', timeframe: 'week' });
+    const response = await post({ subreddit: 'rust', timeframe: 'week' });
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('retry-after')).toMatch(/^\d+$/);
+    expect(await response.json()).toEqual({
+      error: { code: 'rate_limited', message: 'Daily limit of 2 requests reached for this key' },
+    });
+  });
+
+  it('gives the request back when Reddit refuses it', async () => {
+    const response = await post({ subreddit: 'secretclub', timeframe: 'week' });
+
+    expect(privateReddit).toHaveBeenCalled();
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({
+      error: { code: 'forbidden', message: 'Subreddit r/secretclub is private or banned' },
+    });
+    expect(await remaining()).toBe(2);
+  });
+
+  it.each([
+    ['a non-string subreddit', { subreddit: 7 }, 'Subreddit name is required'],
+    ['an unknown timeframe', { subreddit: 'rust', timeframe: 'decade' }, 'Invalid timeframe specified'],
+    ['an out-of-range limit', { subreddit: 'rust', limit: 500 }, 'limit must be an integer between 1 and 100'],
+    ['malformed JSON', '{"subreddit":', ERROR_MESSAGES.INVALID_BODY],
+    ['a JSON array', ['rust'], ERROR_MESSAGES.INVALID_BODY],
+  ])('rejects %s without charging the key', async (_name, body, message) => {
+    const response = await post(body);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: { code: 'invalid_request', message } });
+    expect(await remaining()).toBe(2);
+  });
+});
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CONFIG, ERROR_MESSAGES, TIMEFRAMES } from '@/lib/constants';
+import { isOwnKey, readJsonObject, validateSubreddit } from '@/lib/utils';
+import { getSubredditSnapshot } from '@/lib/reddit';
+import { rateLimitHeaders } from '@/lib/rate-limit';
+import { ApiError, authorizeApiRequest, toApiErrorResponse } from '@/lib/api-v1';
+import type { ApiRedditDataResponse, RedditDataRequest } from '@/types';
+
+export async function POST(request: NextRequest) {
+  const auth = await authorizeApiRequest(request);
+  if (auth.denied) return auth.denied;
+
+  try {
+    const body = await readJsonObject<RedditDataRequest>(request);
+    if (!body) {
+      throw new ApiError('invalid_request', ERROR_MESSAGES.INVALID_BODY);
+    }
+    const { subreddit, timeframe = CONFIG.REDDIT.DEFAULT_TIMEFRAME, limit = CONFIG.REDDIT.DEFAULT_LIMIT } = body;
+
+    // Unlike /api/reddit-data, out-of-range values are rejected rather than clamped
+    const validation = validateSubreddit(subreddit);
+    if (!validation.isValid) {
+      throw new ApiError('invalid_request', validation.error || 'Subreddit name is required');
+    }
+    if (!isOwnKey(TIMEFRAMES, timeframe)) {
+      throw new ApiError('invalid_request', 'Invalid timeframe specified');
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > CONFIG.REDDIT.MAX_LIMIT) {
+      throw new ApiError('invalid_request', `limit must be an integer between 1 and ${CONFIG.REDDIT.MAX_LIMIT}`);
+    }
+
+    const { data, snapshot } = await getSubredditSnapshot({ subreddit, timeframe, limit });
+    const response: ApiRedditDataResponse = { data, snapshot };
+    return NextResponse.json(response, { headers: rateLimitHeaders(auth.usage) });
+  } catch (error: unknown) {
+    // Only successful fetches count against the key's limit
+    await auth.release();
+    return toApiErrorResponse(error);
+  }
+}
@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimitHeaders } from '@/lib/rate-limit';
+import { authorizeApiRequest, toApiUsage } from '@/lib/api-v1';
+import type { ApiUsageResponse } from '@/types';
+
+// Report the key's usage without using any of it
+export async function GET(request: NextRequest) {
+  const auth = await authorizeApiRequest(request, { metered: false });
+  if (auth.denied) return auth.denied;
+
+  const response: ApiUsageResponse = { data: toApiUsage(auth.key, auth.usage) };
+  return NextResponse.json(response, { headers: rateLimitHeaders(auth.usage) });
+}
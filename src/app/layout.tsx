@@ -9,6 +9,8 @@ const inter = Inter({
 });
 
 export const metadata: Metadata = {
+  // Resolves relative Open Graph URLs, e.g. on shared answer pages
+  metadataBase: new URL(process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'),
   title: "Ask Reddit AI - Get AI-powered answers from Reddit discussions",
   description: "Ask questions and get synthesized answers from the latest Reddit discussions using AI. Explore trending topics from any subreddit.",
   keywords: ["reddit", "ai", "questions", "subreddit", "discussions", "openai"],
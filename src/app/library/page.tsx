@@ -0,0 +1,181 @@
+'use client';
+
+import { Suspense, useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { toast } from 'react-hot-toast';
+import {
+  ArrowLeftIcon,
+  BookmarkIcon,
+  InformationCircleIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+
+import { loadSavedAnswers, storeSavedAnswers, EMPTY_FILTERS } from '@/lib/saved-answers';
+import { savedAnswerToExport } from '@/lib/export-download';
+import type { SavedAnswer, SavedAnswerFilters } from '@/types';
+
+import SavedAnswersLibrary from '@/components/SavedAnswersLibrary';
+import AnswerDisplay from '@/components/AnswerDisplay';
+import TagEditor from '@/components/TagEditor';
+import ExportMenu from '@/components/ExportMenu';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import Footer from '@/components/Footer';
+
+function Library() {
+  const router = useRouter();
+  const openId = useSearchParams().get('id');
+
+  const [answers, setAnswers] = useState<SavedAnswer[] | null>(null);
+  const [filters, setFilters] = useState<SavedAnswerFilters>(EMPTY_FILTERS);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  // Saved answers live in localStorage, so they are only readable after mount
+  useEffect(() => {
+    setAnswers(loadSavedAnswers());
+  }, []);
+
+  const updateAnswers = (next: SavedAnswer[]) => {
+    setAnswers(next);
+    if (!storeSavedAnswers(next)) {
+      toast.error('Failed to save changes. Browser storage may be full.');
+    }
+  };
+
+  const handleDelete = (ids: string[]) => {
+    if (!answers) return;
+    if (ids.length > 1 && !window.confirm(`Delete ${ids.length} saved answers?`)) return;
+
+    updateAnswers(answers.filter(saved => !ids.includes(saved.id)));
+    setSelectedIds(prev => prev.filter(id => !ids.includes(id)));
+    toast.success(ids.length === 1 ? 'Answer deleted' : `${ids.length} answers deleted`);
+
+    if (openId && ids.includes(openId)) {
+      router.push('/library');
+    }
+  };
+
+  const handleTagsChange = (id: string, tags: string[]) => {
+    if (!answers) return;
+    updateAnswers(answers.map(saved => saved.id === id ? { ...saved, tags } : saved));
+  };
+
+  if (!answers) {
+    return <LoadingSpinner text="Loading saved answers..." />;
+  }
+
+  const openAnswer = openId ? answers.find(saved => saved.id === openId) : undefined;
+
+  if (openId && !openAnswer) {
+    return (
+      <div className="py-8 text-center space-y-3">
+        <p className="text-sm text-gray-500 dark:text-gray-400">This saved answer no longer exists.</p>
+        <Link href="/library" className="text-sm text-blue-500 hover:text-blue-600 dark:text-blue-400">
+          Back to the library
+        </Link>
+      </div>
+    );
+  }
+
+  if (openAnswer) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <Link
+            href="/library"
+            className="flex items-center space-x-1 text-sm text-blue-500 hover:text-blue-600 dark:text-blue-400"
+          >
+            <ArrowLeftIcon className="w-4 h-4" />
+            <span>All saved answers</span>
+          </Link>
+          <div className="flex items-center space-x-2">
+            <ExportMenu getAnswers={() => [savedAnswerToExport(openAnswer)]} />
+            <button
+              onClick={() => handleDelete([openAnswer.id])}
+              className="p-2 text-gray-500 hover:text-red-500 transition-colors"
+              title="Delete saved answer"
+            >
+              <TrashIcon className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            {openAnswer.question}
+          </h2>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            {openAnswer.subreddits.map(name => `r/${name}`).join(', ')} • Saved {new Date(openAnswer.savedAt).toLocaleString()}
+          </p>
+          <div className="mt-3">
+            <TagEditor
+              tags={openAnswer.tags}
+              onTagsChange={(tags) => handleTagsChange(openAnswer.id, tags)}
+            />
+          </div>
+        </div>
+
+        {openAnswer.migrated && (
+          <div className="flex items-start space-x-2 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg text-sm text-gray-600 dark:text-gray-300">
+            <InformationCircleIcon className="w-5 h-5 flex-shrink-0" />
+            <p>This answer was saved by an earlier version, which kept only the answer text. Its sources and details are not available.</p>
+          </div>
+        )}
+
+        <AnswerDisplay answer={openAnswer.answer} followUps={openAnswer.followUps} />
+      </div>
+    );
+  }
+
+  return (
+    <SavedAnswersLibrary
+      answers={answers}
+      filters={filters}
+      onFiltersChange={setFilters}
+      selectedIds={selectedIds}
+      onSelectionChange={setSelectedIds}
+      onOpen={(id) => router.push(`/library?id=${encodeURIComponent(id)}`)}
+      onDelete={handleDelete}
+    />
+  );
+}
+
+export default function LibraryPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      {/* Header */}
+      <header className="bg-white/80 dark:bg-gray-900/80 backdrop-blur-sm border-b border-gray-200 dark:border-gray-700 sticky top-0 z-50">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="flex-shrink-0 w-10 h-10 bg-gradient-to-br from-blue-500 to-purple-600 rounded-lg flex items-center justify-center">
+              <BookmarkIcon className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold gradient-text">Saved Answers</h1>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Your library of answers, kept in this browser
+              </p>
+            </div>
+          </div>
+          <Link
+            href="/"
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-500 hover:bg-blue-600 rounded-lg transition-colors"
+          >
+            Ask a question
+          </Link>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 animate-fade-in">
+          <Suspense fallback={<LoadingSpinner text="Loading saved answers..." />}>
+            <Library />
+          </Suspense>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -1,76 +1,132 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { toast } from 'react-hot-toast';
 import { 
   SparklesIcon,
   ShareIcon,
   HeartIcon,
   ClipboardDocumentIcon,
+  NewspaperIcon,
 } from '@heroicons/react/24/outline';
 
 import { POPULAR_SUBREDDITS, TRENDING_QUESTIONS, CONFIG, API_ENDPOINTS } from '@/lib/constants';
 import { 
+  cn,
   validateSubreddit, 
   validateQuestion, 
   debounce, 
   formatForSharing,
   createTwitterUrl,
   copyToClipboard,
-  generateId,
-  saveToLocalStorage,
-  loadFromLocalStorage,
-  checkRateLimit,
-  incrementRateLimit,
+  parseRateLimitHeaders,
+  compareCost,
 } from '@/lib/utils';
-import type { ShareableAnswer, AppState } from '@/types';
+import { readSSE } from '@/lib/sse';
+import { loadSavedAnswers, storeSavedAnswers, addSavedAnswer } from '@/lib/saved-answers';
+import { publishAnswer } from '@/lib/share-links';
+import { findSubredditProblems } from '@/lib/subreddit-lookup';
+import type { AppState, AIResponse, AskQuestionStreamEvent, CompareResponse, DigestResponse, TrendingResponse, RateLimitStatus, Timeframe, RetrievalMode, AnswerMode, ModelSummary, ModelsResponse } from '@/types';
 
 // Component imports (will create these next)
 import SubredditSelector from '@/components/SubredditSelector';
+import TimeframeSelector from '@/components/TimeframeSelector';
+import RetrievalModeSelector from '@/components/RetrievalModeSelector';
+import AnswerModeSelector from '@/components/AnswerModeSelector';
 import QuestionInput from '@/components/QuestionInput';
 import TrendingQuestions from '@/components/TrendingQuestions';
 import AnswerDisplay from '@/components/AnswerDisplay';
+import ComparisonView from '@/components/ComparisonView';
+import DigestView from '@/components/DigestView';
+import ExportMenu from '@/components/ExportMenu';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import Disclaimer from '@/components/Disclaimer';
 import Footer from '@/components/Footer';
 
 export default function HomePage() {
   const [appState, setAppState] = useState<AppState>({
-    selectedSubreddit: 'AskReddit',
-    customSubreddit: '',
+    selectedSubreddits: ['AskReddit'],
+    selectedTimeframe: CONFIG.REDDIT.DEFAULT_TIMEFRAME,
+    selectedRetrieval: CONFIG.REDDIT.DEFAULT_RETRIEVAL,
+    selectedMode: CONFIG.LLM.DEFAULT_ANSWER_MODE,
     question: '',
     isLoading: false,
+    isStreaming: false,
     currentAnswer: null,
+    followUps: [],
+    isFollowUpLoading: false,
+    isFollowUpStreaming: false,
+    activeTab: 'ask',
+    digest: null,
+    compareMode: false,
+    analyzeStance: false,
+    comparison: null,
     savedAnswers: [],
-    selectedModel: 'gpt-4o-mini',
+    selectedModel: '', // Empty until the server's default model is known
   });
 
-  const [rateLimit, setRateLimit] = useState<{
-    allowed: boolean;
-    remaining: number;
-    resetTime: number;
-  }>({
+  const [models, setModels] = useState<ModelSummary[]>([]);
+  const [trending, setTrending] = useState<TrendingResponse['data'] | null>(null);
+
+  // Public link of the current answer, once published; stale as soon as the answer or its follow-ups change
+  const [publishedShare, setPublishedShare] = useState<{ answer: AIResponse; followUps: number; url: string } | null>(null);
+
+  const [rateLimit, setRateLimit] = useState<RateLimitStatus>({
     allowed: true,
+    limit: CONFIG.RATE_LIMIT.MAX_REQUESTS,
     remaining: CONFIG.RATE_LIMIT.MAX_REQUESTS,
     resetTime: Date.now(),
   });
+  // False when the server reports no quota (development, or RATE_LIMIT_DISABLED)
+  const [quotaEnforced, setQuotaEnforced] = useState(true);
+
+  // Each compared subreddit is a request, plus one for the comparison, so the quota caps the selection
+  const maxCompared = quotaEnforced
+    ? Math.min(CONFIG.REDDIT.MAX_SUBREDDITS, Math.max(0, rateLimit.remaining - compareCost(0)))
+    : CONFIG.REDDIT.MAX_SUBREDDITS;
+  const compareLimitReason = maxCompared < CONFIG.REDDIT.MAX_SUBREDDITS
+    ? `Comparing uses one request per subreddit plus one for the comparison. You have ${rateLimit.remaining} left today, so you can compare ${maxCompared >= 2 ? `up to ${maxCompared}` : 'none'} right now.`
+    : undefined;
 
   // Load saved answers and check rate limit on mount
   useEffect(() => {
-    const savedAnswers = loadFromLocalStorage<ShareableAnswer[]>(CONFIG.STORAGE.SAVED_ANSWERS_KEY, []);
-    const rateLimitStatus = checkRateLimit();
-    
-    setAppState(prev => ({ ...prev, savedAnswers }));
-    setRateLimit(rateLimitStatus);
+    setAppState(prev => ({ ...prev, savedAnswers: loadSavedAnswers() }));
+
+    // The server owns the quota; its headers tell us what is left
+    fetch(API_ENDPOINTS.RATE_LIMIT)
+      .then(response => {
+        const rateLimitStatus = parseRateLimitHeaders(response.headers);
+        if (rateLimitStatus) setRateLimit(rateLimitStatus);
+        setQuotaEnforced(Boolean(rateLimitStatus));
+      })
+      .catch(error => console.error('Failed to check rate limit:', error));
+
+    fetch(API_ENDPOINTS.MODELS)
+      .then(response => response.json() as Promise<ModelsResponse>)
+      .then(result => {
+        if (!result.data) return;
+        setModels(result.data.models);
+        const defaultModel = result.data.default_model;
+        if (defaultModel) {
+          setAppState(prev => ({ ...prev, selectedModel: prev.selectedModel || defaultModel }));
+        }
+      })
+      .catch(error => console.error('Failed to load models:', error));
+
+    // The built-in questions are only a fallback for when the server can't be reached
+    fetch(API_ENDPOINTS.TRENDING)
+      .then(response => response.json() as Promise<TrendingResponse>)
+      .then(result => {
+        if (!result.data) throw new Error(result.error || 'No trending questions');
+        setTrending(result.data);
+      })
+      .catch(error => {
+        console.error('Failed to load trending questions:', error);
+        setTrending({ questions: TRENDING_QUESTIONS, generated_at: null, source: 'fallback' });
+      });
   }, []);
 
-  // Save answers to localStorage when savedAnswers changes
-  useEffect(() => {
-    if (appState.savedAnswers.length > 0) {
-      saveToLocalStorage(CONFIG.STORAGE.SAVED_ANSWERS_KEY, appState.savedAnswers);
-    }
-  }, [appState.savedAnswers]);
-
   // Debounced question validation
   const debouncedValidateQuestion = debounce((question: string) => {
     if (question && question.length > 0) {
@@ -93,17 +149,33 @@ export default function HomePage() {
   };
 
   // Handle subreddit selection
-  const handleSubredditChange = (subreddit: string) => {
-    setAppState(prev => ({ 
-      ...prev, 
-      selectedSubreddit: subreddit,
-      customSubreddit: subreddit === 'custom' ? prev.customSubreddit : '',
-    }));
+  const handleSubredditsChange = (selectedSubreddits: string[]) => {
+    setAppState(prev => ({ ...prev, selectedSubreddits }));
+  };
+
+  // Handle timeframe selection
+  const handleTimeframeChange = (selectedTimeframe: Timeframe) => {
+    setAppState(prev => ({ ...prev, selectedTimeframe }));
+  };
+
+  // Handle retrieval mode selection
+  const handleRetrievalChange = (selectedRetrieval: RetrievalMode) => {
+    setAppState(prev => ({ ...prev, selectedRetrieval }));
   };
 
-  // Handle custom subreddit input
-  const handleCustomSubredditChange = (customSubreddit: string) => {
-    setAppState(prev => ({ ...prev, customSubreddit }));
+  // Handle answer format selection
+  const handleModeChange = (selectedMode: AnswerMode) => {
+    setAppState(prev => ({ ...prev, selectedMode }));
+  };
+
+  // Handle compare mode toggle
+  const handleCompareModeChange = (compareMode: boolean) => {
+    setAppState(prev => ({ ...prev, compareMode }));
+  };
+
+  // Handle community split toggle
+  const handleAnalyzeStanceChange = (analyzeStance: boolean) => {
+    setAppState(prev => ({ ...prev, analyzeStance }));
   };
 
   // Handle trending question selection
@@ -111,29 +183,69 @@ export default function HomePage() {
     setAppState(prev => ({
       ...prev,
       question: trendingQuestion,
-      selectedSubreddit: subreddit,
-      customSubreddit: '',
+      selectedSubreddits: [subreddit],
     }));
   };
 
+  // Read an answer from a streamed or JSON response, reporting partial text as it arrives
+  const receiveAnswer = async (response: Response, onPartial: (partialAnswer: AIResponse) => void): Promise<AIResponse> => {
+    const rateLimitStatus = parseRateLimitHeaders(response.headers);
+    if (rateLimitStatus) {
+      setRateLimit(rateLimitStatus);
+    }
+
+    if (response.headers.get('content-type')?.includes('text/event-stream')) {
+      let answerText = '';
+      let finalAnswer: AIResponse | null = null;
+
+      await readSSE<AskQuestionStreamEvent>(response, (event) => {
+        if (event.type === 'token') {
+          answerText += event.content;
+          onPartial({
+            answer: answerText,
+            sources: [],
+            confidence: 0,
+            model: appState.selectedModel,
+          });
+        } else if (event.type === 'done') {
+          finalAnswer = event.data;
+        } else {
+          throw new Error(event.error);
+        }
+      });
+
+      if (!finalAnswer) {
+        throw new Error('The answer stream ended unexpectedly');
+      }
+      return finalAnswer;
+    }
+
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to get answer');
+    }
+
+    return data.data;
+  };
+
   // Submit question to get AI answer
   const handleSubmitQuestion = async () => {
     // Check rate limit first
-    const rateLimitStatus = checkRateLimit();
-    if (!rateLimitStatus.allowed) {
-      setRateLimit(rateLimitStatus);
-      toast.error(`Daily limit reached. Try again in ${Math.ceil((rateLimitStatus.resetTime - Date.now()) / (1000 * 60 * 60))} hours.`);
+    if (!rateLimit.allowed) {
+      toast.error(`Daily limit reached. Try again in ${Math.ceil((rateLimit.resetTime - Date.now()) / (1000 * 60 * 60))} hours.`);
       return;
     }
 
-    const currentSubreddit = appState.selectedSubreddit === 'custom' 
-      ? appState.customSubreddit 
-      : appState.selectedSubreddit;
-
     // Validate inputs
-    const subredditValidation = validateSubreddit(currentSubreddit);
-    if (!subredditValidation.isValid) {
-      toast.error(subredditValidation.error!);
+    if (appState.selectedSubreddits.length === 0) {
+      toast.error('Please choose at least one subreddit');
+      return;
+    }
+
+    const invalidSubreddit = appState.selectedSubreddits.map(validateSubreddit).find(validation => !validation.isValid);
+    if (invalidSubreddit) {
+      toast.error(invalidSubreddit.error!);
       return;
     }
 
@@ -143,7 +255,19 @@ export default function HomePage() {
       return;
     }
 
-    setAppState(prev => ({ ...prev, isLoading: true, currentAnswer: null }));
+    // Catch typos and private subreddits before spending a request on them
+    const subredditProblems = await findSubredditProblems(appState.selectedSubreddits);
+    if (subredditProblems.length) {
+      toast.error(subredditProblems.join('. '));
+      return;
+    }
+
+    if (appState.compareMode) {
+      await handleCompareSubreddits();
+      return;
+    }
+
+    setAppState(prev => ({ ...prev, isLoading: true, currentAnswer: null, followUps: [], comparison: null }));
 
     try {
       const response = await fetch(API_ENDPOINTS.ASK_QUESTION, {
@@ -152,89 +276,275 @@ export default function HomePage() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          subreddit: currentSubreddit,
+          subreddit: appState.selectedSubreddits,
           question: appState.question,
-          model: appState.selectedModel,
+          timeframe: appState.selectedTimeframe,
+          retrieval: appState.selectedRetrieval,
+          mode: appState.selectedMode,
+          model: appState.selectedModel || undefined,
+          stance: appState.analyzeStance,
+          stream: true,
         }),
       });
 
-      const data = await response.json();
-
-      if (!data.success) {
-        throw new Error(data.error || 'Failed to get answer');
-      }
-
-      // Increment rate limit counter on successful request
-      incrementRateLimit();
-      const newRateLimitStatus = checkRateLimit();
-      setRateLimit(newRateLimitStatus);
+      const answer = await receiveAnswer(response, (partialAnswer) => {
+        setAppState(prev => ({ ...prev, isStreaming: true, currentAnswer: partialAnswer }));
+      });
+      setAppState(prev => ({ ...prev, isStreaming: false, currentAnswer: answer }));
 
-      setAppState(prev => ({ ...prev, currentAnswer: data.data }));
       toast.success('Answer generated successfully!');
     } catch (error) {
       console.error('Error getting answer:', error);
       toast.error(error instanceof Error ? error.message : 'Failed to get answer');
+      setAppState(prev => ({ ...prev, currentAnswer: null }));
+    } finally {
+      setAppState(prev => ({ ...prev, isLoading: false, isStreaming: false }));
+    }
+  };
+
+  // Answer the question for each selected subreddit separately, then compare them
+  const handleCompareSubreddits = async () => {
+    if (appState.selectedSubreddits.length < 2) {
+      toast.error('Please choose at least 2 subreddits to compare');
+      return;
+    }
+    if (appState.selectedSubreddits.length > maxCompared) {
+      toast.error(compareLimitReason!);
+      return;
+    }
+
+    setAppState(prev => ({ ...prev, isLoading: true, currentAnswer: null, followUps: [], comparison: null }));
+
+    try {
+      const response = await fetch(API_ENDPOINTS.COMPARE, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          subreddits: appState.selectedSubreddits,
+          question: appState.question,
+          timeframe: appState.selectedTimeframe,
+          retrieval: appState.selectedRetrieval,
+          mode: appState.selectedMode,
+          model: appState.selectedModel || undefined,
+        }),
+      });
+
+      const rateLimitStatus = parseRateLimitHeaders(response.headers);
+      if (rateLimitStatus) {
+        setRateLimit(rateLimitStatus);
+      }
+
+      const data: CompareResponse = await response.json();
+      if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to compare subreddits');
+      }
+
+      setAppState(prev => ({ ...prev, comparison: data.data! }));
+      toast.success('Comparison generated successfully!');
+    } catch (error) {
+      console.error('Error comparing subreddits:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to compare subreddits');
     } finally {
       setAppState(prev => ({ ...prev, isLoading: false }));
     }
   };
 
-  // Save current answer
-  const handleSaveAnswer = () => {
-    if (!appState.currentAnswer) return;
+  // Summarize what's happening in the selected subreddits, no question needed
+  const handleGenerateDigest = async () => {
+    if (!rateLimit.allowed) {
+      toast.error(`Daily limit reached. Try again in ${Math.ceil((rateLimit.resetTime - Date.now()) / (1000 * 60 * 60))} hours.`);
+      return;
+    }
 
-    const currentSubreddit = appState.selectedSubreddit === 'custom' 
-      ? appState.customSubreddit 
-      : appState.selectedSubreddit;
+    if (appState.selectedSubreddits.length === 0) {
+      toast.error('Please choose at least one subreddit');
+      return;
+    }
 
-    const shareableAnswer: ShareableAnswer = {
-      id: generateId(),
-      question: appState.question,
-      subreddit: currentSubreddit,
-      answer: appState.currentAnswer.answer,
-      timestamp: Date.now(),
-    };
+    const subredditProblems = await findSubredditProblems(appState.selectedSubreddits);
+    if (subredditProblems.length) {
+      toast.error(subredditProblems.join('. '));
+      return;
+    }
+
+    setAppState(prev => ({ ...prev, isLoading: true, digest: null }));
+
+    try {
+      const response = await fetch(API_ENDPOINTS.DIGEST, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          subreddit: appState.selectedSubreddits,
+          timeframe: appState.selectedTimeframe,
+          model: appState.selectedModel || undefined,
+        }),
+      });
 
+      const rateLimitStatus = parseRateLimitHeaders(response.headers);
+      if (rateLimitStatus) {
+        setRateLimit(rateLimitStatus);
+      }
+
+      const data: DigestResponse = await response.json();
+      if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to build digest');
+      }
+
+      setAppState(prev => ({ ...prev, digest: data.data! }));
+      toast.success('Digest generated successfully!');
+    } catch (error) {
+      console.error('Error building digest:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to build digest');
+    } finally {
+      setAppState(prev => ({ ...prev, isLoading: false }));
+    }
+  };
+
+  // Ask a follow-up in the current answer's conversation
+  const handleFollowUp = async (followUpQuestion: string) => {
+    const conversationId = appState.currentAnswer?.conversation_id;
+    if (!conversationId) return;
+
+    if (!rateLimit.allowed) {
+      toast.error(`Daily limit reached. Try again in ${Math.ceil((rateLimit.resetTime - Date.now()) / (1000 * 60 * 60))} hours.`);
+      return;
+    }
+
+    const questionValidation = validateQuestion(followUpQuestion);
+    if (!questionValidation.isValid) {
+      toast.error(questionValidation.error!);
+      return;
+    }
+
+    // Show the question straight away, then fill in its answer
+    const updateLastTurn = (answer: AIResponse) => {
+      setAppState(prev => ({
+        ...prev,
+        followUps: prev.followUps.map((turn, index) =>
+          index === prev.followUps.length - 1 ? { ...turn, answer } : turn
+        ),
+      }));
+    };
+    const pendingAnswer: AIResponse = { answer: '', sources: [], confidence: 0, model: appState.selectedModel };
     setAppState(prev => ({
       ...prev,
-      savedAnswers: [shareableAnswer, ...prev.savedAnswers.slice(0, CONFIG.STORAGE.MAX_SAVED_ANSWERS - 1)],
+      isFollowUpLoading: true,
+      followUps: [...prev.followUps, { question: followUpQuestion, answer: pendingAnswer }],
     }));
 
-    toast.success('Answer saved!');
+    try {
+      const response = await fetch(API_ENDPOINTS.FOLLOW_UP, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          conversation_id: conversationId,
+          question: followUpQuestion,
+          mode: appState.currentAnswer?.mode,
+          stream: true,
+        }),
+      });
+
+      const answer = await receiveAnswer(response, (partialAnswer) => {
+        setAppState(prev => ({ ...prev, isFollowUpStreaming: true }));
+        updateLastTurn(partialAnswer);
+      });
+      updateLastTurn(answer);
+    } catch (error) {
+      console.error('Error getting follow-up answer:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to get answer');
+      setAppState(prev => ({ ...prev, followUps: prev.followUps.slice(0, -1) }));
+    } finally {
+      setAppState(prev => ({ ...prev, isFollowUpLoading: false, isFollowUpStreaming: false }));
+    }
   };
 
-  // Share answer
-  const handleShareAnswer = async (platform: 'copy' | 'twitter') => {
+  // Save the current answer, with its follow-ups, to the library
+  const handleSaveAnswer = () => {
     if (!appState.currentAnswer) return;
 
-    const currentSubreddit = appState.selectedSubreddit === 'custom' 
-      ? appState.customSubreddit 
-      : appState.selectedSubreddit;
+    // Re-read storage so answers deleted in the library aren't written back
+    const { answers, updated } = addSavedAnswer(loadSavedAnswers(), {
+      question: appState.question,
+      subreddits: appState.currentAnswer.subreddits || appState.selectedSubreddits,
+      answer: appState.currentAnswer,
+      followUps: appState.followUps,
+    });
+
+    if (!storeSavedAnswers(answers)) {
+      toast.error('Failed to save answer. Browser storage may be full.');
+      return;
+    }
 
-    const shareText = formatForSharing(
-      appState.question,
-      currentSubreddit,
-      appState.currentAnswer.answer
+    setAppState(prev => ({ ...prev, savedAnswers: answers }));
+    toast.success(updated ? 'Saved answer updated!' : 'Answer saved!');
+  };
+
+  // Publish the current answer, reusing its link if nothing has changed since
+  const getShareUrl = async (): Promise<string> => {
+    const answer = appState.currentAnswer!;
+    if (publishedShare && publishedShare.answer === answer && publishedShare.followUps === appState.followUps.length) {
+      return publishedShare.url;
+    }
+
+    // The server publishes its own record of the conversation, so only answers it still holds can be shared
+    if (!answer.conversation_id) {
+      throw new Error('This answer is no longer available to share. Ask the question again to share it.');
+    }
+    const share = await publishAnswer(
+      { conversation_id: answer.conversation_id, turns: appState.followUps.length + 1 },
+      appState.question
     );
+    setPublishedShare({ answer, followUps: appState.followUps.length, url: share.url });
+    return share.url;
+  };
+
+  // Share answer as a public link
+  const handleShareAnswer = async (platform: 'copy' | 'twitter') => {
+    if (!appState.currentAnswer) return;
+
+    // Open the tweet window before awaiting, so popup blockers allow it
+    const twitterWindow = platform === 'twitter' ? window.open('', '_blank') : null;
 
-    if (platform === 'copy') {
-      const success = await copyToClipboard(shareText);
-      if (success) {
-        toast.success('Copied to clipboard!');
-      } else {
-        toast.error('Failed to copy to clipboard');
+    try {
+      const shareText = formatForSharing(
+        appState.question,
+        (appState.currentAnswer.subreddits || appState.selectedSubreddits).join('+'),
+        appState.currentAnswer.answer,
+        await getShareUrl()
+      );
+
+      if (platform === 'copy') {
+        const success = await copyToClipboard(shareText);
+        if (success) {
+          toast.success('Link copied to clipboard!');
+        } else {
+          toast.error('Failed to copy to clipboard');
+        }
+      } else if (twitterWindow) {
+        twitterWindow.location.href = createTwitterUrl(shareText);
       }
-    } else if (platform === 'twitter') {
-      const twitterUrl = createTwitterUrl(shareText);
-      window.open(twitterUrl, '_blank');
+    } catch (error) {
+      twitterWindow?.close();
+      console.error('Error sharing answer:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to share answer');
     }
   };
 
-  const currentSubreddit = appState.selectedSubreddit === 'custom' 
-    ? appState.customSubreddit 
-    : appState.selectedSubreddit;
-
-  const canSubmit = Boolean(currentSubreddit && appState.question && !appState.isLoading && rateLimit.allowed);
+  const minSubreddits = appState.compareMode ? 2 : 1;
+  const maxSubreddits = appState.compareMode ? maxCompared : CONFIG.REDDIT.MAX_SUBREDDITS;
+  const canSubmit = Boolean(
+    appState.selectedSubreddits.length >= minSubreddits
+    && appState.selectedSubreddits.length <= maxSubreddits
+    && appState.question && !appState.isLoading && rateLimit.allowed
+  );
+  const canDigest = Boolean(appState.selectedSubreddits.length && !appState.isLoading && rateLimit.allowed);
+  const isAskTab = appState.activeTab === 'ask';
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
@@ -255,16 +565,21 @@ export default function HomePage() {
             </div>
             
             {/* Model Selector */}
-            {/* <div className="mt-4 sm:mt-0">
-              <select
-                value={appState.selectedModel}
-                onChange={(e) => setAppState(prev => ({ ...prev, selectedModel: e.target.value as 'gpt-4o-mini' | 'gpt-3.5-turbo' }))}
-                className="px-3 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              >
-                <option value="gpt-4o-mini">GPT-4 (Better Quality)</option>
-                <option value="gpt-3.5-turbo">GPT-3.5 Turbo (Faster)</option>
-              </select>
-            </div> */}
+            {models.length > 1 && (
+              <div className="mt-4 sm:mt-0">
+                <select
+                  value={appState.selectedModel}
+                  onChange={(e) => setAppState(prev => ({ ...prev, selectedModel: e.target.value }))}
+                  className="px-3 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {models.map((model) => (
+                    <option key={model.id} value={model.id}>
+                      {model.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
           </div>
         </div>
       </header>
@@ -275,6 +590,7 @@ export default function HomePage() {
         <div className="mb-8">
           <Disclaimer 
             isRateLimited={!rateLimit.allowed}
+            limit={rateLimit.limit}
             remaining={rateLimit.remaining}
             resetTime={rateLimit.resetTime}
           />
@@ -286,29 +602,147 @@ export default function HomePage() {
             {/* Subreddit Selector */}
             <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 animate-fade-in">
               <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-                Choose a Subreddit
+                Choose Subreddits
               </h2>
               <SubredditSelector
-                selectedSubreddit={appState.selectedSubreddit}
-                customSubreddit={appState.customSubreddit}
-                onSubredditChange={handleSubredditChange}
-                onCustomSubredditChange={handleCustomSubredditChange}
+                selectedSubreddits={appState.selectedSubreddits}
+                onSubredditsChange={handleSubredditsChange}
                 popularSubreddits={POPULAR_SUBREDDITS}
+                maxSubreddits={isAskTab ? maxSubreddits : CONFIG.REDDIT.MAX_SUBREDDITS}
+                limitReason={isAskTab && appState.compareMode ? compareLimitReason : undefined}
               />
+              {isAskTab && (
+                <label className="mt-4 flex items-start space-x-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={appState.compareMode}
+                    onChange={(e) => handleCompareModeChange(e.target.checked)}
+                    disabled={appState.isLoading}
+                    className="mt-0.5 rounded border-gray-300 text-blue-500 focus:ring-blue-500"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Compare side by side
+                    </span>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                      Answer each subreddit separately, then see where they agree and differ
+                    </span>
+                  </span>
+                </label>
+              )}
+              <div className="mt-4">
+                <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Timeframe
+                </p>
+                <TimeframeSelector
+                  selectedTimeframe={appState.selectedTimeframe}
+                  onTimeframeChange={handleTimeframeChange}
+                  disabled={appState.isLoading}
+                />
+              </div>
+              {isAskTab && (
+                <>
+                  <div className="mt-4">
+                    <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Discussions
+                    </p>
+                    <RetrievalModeSelector
+                      selectedRetrieval={appState.selectedRetrieval}
+                      onRetrievalChange={handleRetrievalChange}
+                      disabled={appState.isLoading}
+                    />
+                  </div>
+                  <div className="mt-4">
+                    <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Answer format
+                    </p>
+                    <AnswerModeSelector
+                      selectedMode={appState.selectedMode}
+                      onModeChange={handleModeChange}
+                      disabled={appState.isLoading}
+                    />
+                  </div>
+                  {!appState.compareMode && (
+                    <label className="mt-4 flex items-start space-x-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={appState.analyzeStance}
+                        onChange={(e) => handleAnalyzeStanceChange(e.target.checked)}
+                        disabled={appState.isLoading}
+                        className="mt-0.5 rounded border-gray-300 text-blue-500 focus:ring-blue-500"
+                      />
+                      <span>
+                        <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                          Show the community split
+                        </span>
+                        <span className="block text-xs text-gray-500 dark:text-gray-400">
+                          Classify the top comments as for, against or neutral. Uses one more request.
+                        </span>
+                      </span>
+                    </label>
+                  )}
+                </>
+              )}
             </div>
 
-            {/* Question Input */}
+            {/* Question Input / Digest */}
             <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 animate-fade-in">
-              <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-                Ask Your Question
-              </h2>
-              <QuestionInput
-                question={appState.question}
-                onQuestionChange={handleQuestionChange}
-                onSubmit={handleSubmitQuestion}
-                isLoading={appState.isLoading}
-                canSubmit={canSubmit}
-              />
+              <div className="flex items-center space-x-1 mb-4 border-b border-gray-200 dark:border-gray-700">
+                {([['ask', 'Ask Your Question'], ['digest', 'Digest']] as const).map(([tab, label]) => (
+                  <button
+                    key={tab}
+                    onClick={() => setAppState(prev => ({ ...prev, activeTab: tab }))}
+                    disabled={appState.isLoading}
+                    className={cn(
+                      "px-3 pb-2 -mb-px text-lg font-semibold border-b-2 transition-colors disabled:cursor-not-allowed",
+                      appState.activeTab === tab
+                        ? "border-blue-500 text-gray-900 dark:text-white"
+                        : "border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                    )}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {isAskTab ? (
+                <QuestionInput
+                  question={appState.question}
+                  onQuestionChange={handleQuestionChange}
+                  onSubmit={handleSubmitQuestion}
+                  isLoading={appState.isLoading}
+                  canSubmit={canSubmit}
+                />
+              ) : (
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    What&apos;s happening in {appState.selectedSubreddits.map(name => `r/${name}`).join(', ') || 'your subreddits'}? The top posts are grouped into topics, each with a summary and its threads, plus the overall mood.
+                  </p>
+                  <button
+                    onClick={handleGenerateDigest}
+                    disabled={!canDigest}
+                    className={cn(
+                      "flex flex-shrink-0 items-center justify-center space-x-2 px-6 py-3 rounded-lg font-medium text-sm",
+                      "transition-all duration-200 transform",
+                      canDigest
+                        ? "bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white shadow-lg hover:shadow-xl hover:scale-105"
+                        : "bg-gray-300 dark:bg-gray-600 text-gray-500 dark:text-gray-400 cursor-not-allowed",
+                      appState.isLoading && "animate-pulse"
+                    )}
+                  >
+                    {appState.isLoading ? (
+                      <>
+                        <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                        <span>Building Digest...</span>
+                      </>
+                    ) : (
+                      <>
+                        <NewspaperIcon className="w-4 h-4" />
+                        <span>Get Digest</span>
+                      </>
+                    )}
+                  </button>
+                </div>
+              )}
               {!rateLimit.allowed && (
                 <div className="mt-4 text-sm text-red-600 dark:text-red-400">
                   Daily limit reached. Please check the disclaimer above for more information.
@@ -316,45 +750,78 @@ export default function HomePage() {
               )}
             </div>
 
+            {/* Digest Display */}
+            {!isAskTab && (appState.digest || appState.isLoading) && (
+              <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 animate-fade-in">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+                  {appState.digest
+                    ? `What's happening in ${appState.digest.subreddits.map(name => `r/${name}`).join(', ')}`
+                    : 'Digest'}
+                </h2>
+                {appState.digest && !appState.isLoading ? (
+                  <DigestView digest={appState.digest} />
+                ) : (
+                  <LoadingSpinner />
+                )}
+              </div>
+            )}
+
             {/* Answer Display */}
-            {(appState.currentAnswer || appState.isLoading) && (
+            {isAskTab && (appState.currentAnswer || (appState.isLoading && !appState.compareMode)) && (
               <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 animate-fade-in">
                 <div className="flex items-center justify-between mb-4">
                   <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
                     AI Response
                   </h2>
-                  {appState.currentAnswer && (
+                  {appState.currentAnswer && !appState.isLoading && (
                     <div className="flex items-center space-x-2">
                       <button
                         onClick={handleSaveAnswer}
-                        className="p-2 text-gray-500 hover:text-red-500 transition-colors"
+                        disabled={appState.isFollowUpLoading}
+                        className="p-2 text-gray-500 hover:text-red-500 transition-colors disabled:opacity-50"
                         title="Save answer"
                       >
                         <HeartIcon className="w-5 h-5" />
                       </button>
                       <button
                         onClick={() => handleShareAnswer('copy')}
-                        className="p-2 text-gray-500 hover:text-blue-500 transition-colors"
-                        title="Copy to clipboard"
+                        disabled={appState.isFollowUpLoading}
+                        className="p-2 text-gray-500 hover:text-blue-500 transition-colors disabled:opacity-50"
+                        title="Copy share link"
                       >
                         <ClipboardDocumentIcon className="w-5 h-5" />
                       </button>
                       <button
                         onClick={() => handleShareAnswer('twitter')}
-                        className="p-2 text-gray-500 hover:text-blue-400 transition-colors"
+                        disabled={appState.isFollowUpLoading}
+                        className="p-2 text-gray-500 hover:text-blue-400 transition-colors disabled:opacity-50"
                         title="Share on Twitter"
                       >
                         <ShareIcon className="w-5 h-5" />
                       </button>
+                      <ExportMenu
+                        getAnswers={() => [{
+                          question: appState.question,
+                          subreddits: appState.currentAnswer!.subreddits || appState.selectedSubreddits,
+                          answer: appState.currentAnswer!,
+                          follow_ups: appState.followUps,
+                        }]}
+                        disabled={appState.isFollowUpLoading}
+                      />
                     </div>
                   )}
                 </div>
-                {appState.isLoading ? (
-                  <LoadingSpinner />
+                {appState.currentAnswer ? (
+                  <AnswerDisplay
+                    answer={appState.currentAnswer}
+                    isStreaming={appState.isStreaming}
+                    followUps={appState.followUps}
+                    onFollowUp={handleFollowUp}
+                    isFollowUpLoading={appState.isFollowUpLoading}
+                    isFollowUpStreaming={appState.isFollowUpStreaming}
+                  />
                 ) : (
-                  appState.currentAnswer && (
-                    <AnswerDisplay answer={appState.currentAnswer} />
-                  )
+                  <LoadingSpinner />
                 )}
               </div>
             )}
@@ -367,44 +834,56 @@ export default function HomePage() {
                 Trending Questions
               </h2>
               <TrendingQuestions
-                questions={TRENDING_QUESTIONS}
+                questions={trending?.questions ?? []}
                 onQuestionSelect={handleTrendingQuestionSelect}
+                isLoading={!trending}
+                source={trending?.source}
+                generatedAt={trending?.generated_at}
               />
             </div>
 
             {/* Saved Answers */}
             {appState.savedAnswers.length > 0 && (
               <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 animate-fade-in">
-                <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-                  Saved Answers
-                </h2>
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                    Saved Answers
+                  </h2>
+                  <Link href="/library" className="text-sm text-blue-500 hover:text-blue-600 dark:text-blue-400">
+                    View all ({appState.savedAnswers.length})
+                  </Link>
+                </div>
                 <div className="space-y-3 max-h-96 overflow-y-auto">
-                  {appState.savedAnswers.slice(0, 5).map((answer) => (
-                    <div
-                      key={answer.id}
-                      className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
-                      onClick={() => {
-                        setAppState(prev => ({
-                          ...prev,
-                          question: answer.question,
-                          selectedSubreddit: answer.subreddit,
-                          customSubreddit: '',
-                        }));
-                      }}
+                  {appState.savedAnswers.slice(0, 5).map((saved) => (
+                    <Link
+                      key={saved.id}
+                      href={`/library?id=${encodeURIComponent(saved.id)}`}
+                      className="block p-3 bg-gray-50 dark:bg-gray-700 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
                     >
                       <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
-                        {answer.question}
+                        {saved.question}
                       </p>
                       <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                        r/{answer.subreddit} • {new Date(answer.timestamp).toLocaleDateString()}
+                        {saved.subreddits.map(name => `r/${name}`).join(', ')} • {new Date(saved.savedAt).toLocaleDateString()}
                       </p>
-                    </div>
+                    </Link>
                   ))}
                 </div>
               </div>
             )}
           </div>
         </div>
+
+        {/* Subreddit Comparison */}
+        {isAskTab && (appState.comparison ? (
+          <div className="mt-8">
+            <ComparisonView result={appState.comparison} />
+          </div>
+        ) : appState.isLoading && appState.compareMode && (
+          <div className="mt-8 bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 animate-fade-in">
+            <LoadingSpinner />
+          </div>
+        ))}
       </main>
 
       {/* Footer */}
@@ -6,48 +6,34 @@ import {
   ChevronDownIcon,
   ChevronUpIcon 
 } from '@heroicons/react/24/outline';
-import { cn, formatNumber } from '@/lib/utils';
-import type { AIResponse } from '@/types';
+import { cn, formatNumber, formatDate } from '@/lib/utils';
+import { TIMEFRAMES, RETRIEVAL_MODES } from '@/lib/constants';
+import type { AIResponse, ConversationTurn } from '@/types';
+import AnswerText from './AnswerText';
+import StructuredAnswerView from './StructuredAnswerView';
+import StanceBar from './StanceBar';
+import ConversationThread from './ConversationThread';
 
 interface AnswerDisplayProps {
   answer: AIResponse;
+  isStreaming?: boolean;
+  followUps?: ConversationTurn[];
+  onFollowUp?: (question: string) => void;
+  isFollowUpLoading?: boolean;
+  isFollowUpStreaming?: boolean;
 }
 
-const AnswerDisplay: React.FC<AnswerDisplayProps> = ({ answer }) => {
+const AnswerDisplay: React.FC<AnswerDisplayProps> = ({
+  answer,
+  isStreaming = false,
+  followUps = [],
+  onFollowUp,
+  isFollowUpLoading = false,
+  isFollowUpStreaming = false,
+}) => {
   const [showSources, setShowSources] = useState(false);
   const [showMetadata, setShowMetadata] = useState(false);
 
-  // Format the answer text with better readability
-  const formatAnswer = (text: string) => {
-    return text
-      .split('\n\n')
-      .map((paragraph, index) => {
-        if (paragraph.trim() === '') return null;
-        
-        // Check if paragraph is a list
-        if (paragraph.includes('•') || paragraph.includes('-') || /^\d+\./.test(paragraph.trim())) {
-          const items = paragraph.split('\n').filter(item => item.trim());
-          return (
-            <ul key={index} className="space-y-2 mb-4 pl-4">
-              {items.map((item, itemIndex) => (
-                <li key={itemIndex} className="text-gray-700 dark:text-gray-300 leading-relaxed">
-                  {item.replace(/^[•\-\d+\.]\s*/, '')}
-                </li>
-              ))}
-            </ul>
-          );
-        }
-        
-        // Regular paragraph
-        return (
-          <p key={index} className="text-gray-700 dark:text-gray-300 leading-relaxed mb-4">
-            {paragraph}
-          </p>
-        );
-      })
-      .filter(Boolean);
-  };
-
   const getConfidenceColor = (confidence: number) => {
     if (confidence >= 0.8) return 'text-green-500';
     if (confidence >= 0.6) return 'text-yellow-500';
@@ -73,135 +59,254 @@ const AnswerDisplay: React.FC<AnswerDisplayProps> = ({ answer }) => {
               AI Analysis
             </h3>
             <p className="text-sm text-gray-500 dark:text-gray-400">
-              Based on recent Reddit discussions
+              {answer.subreddits && answer.subreddits.length > 1
+                ? `Based on recent discussions in ${answer.subreddits.map(name => `r/${name}`).join(', ')}`
+                : 'Based on recent Reddit discussions'}
             </p>
           </div>
         </div>
         
         {/* Confidence Badge */}
-        <div className="flex items-center space-x-2">
-          <span className={cn("text-sm font-medium", getConfidenceColor(answer.confidence))}>
-            {getConfidenceLabel(answer.confidence)} Confidence
+        {isStreaming ? (
+          <span className="text-sm text-gray-500 dark:text-gray-400 animate-pulse">
+            Writing answer...
           </span>
-          <div className="w-16 h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
-            <div 
-              className={cn("h-full rounded-full transition-all duration-300", {
-                'bg-green-500': answer.confidence >= 0.8,
-                'bg-yellow-500': answer.confidence >= 0.6 && answer.confidence < 0.8,
-                'bg-orange-500': answer.confidence < 0.6,
-              })}
-              style={{ width: `${answer.confidence * 100}%` }}
-            />
+        ) : (
+          <div className="flex items-center space-x-2">
+            <span className={cn("text-sm font-medium", getConfidenceColor(answer.confidence))}>
+              {getConfidenceLabel(answer.confidence)} Confidence
+            </span>
+            <div className="w-16 h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+              <div 
+                className={cn("h-full rounded-full transition-all duration-300", {
+                  'bg-green-500': answer.confidence >= 0.8,
+                  'bg-yellow-500': answer.confidence >= 0.6 && answer.confidence < 0.8,
+                  'bg-orange-500': answer.confidence < 0.6,
+                })}
+                style={{ width: `${answer.confidence * 100}%` }}
+              />
+            </div>
           </div>
-        </div>
+        )}
       </div>
 
       {/* Answer Content */}
       <div className="prose prose-sm max-w-none">
         <div className="p-6 bg-gradient-to-br from-gray-50 to-white dark:from-gray-800 dark:to-gray-700 rounded-xl border border-gray-200 dark:border-gray-600">
-          {formatAnswer(answer.answer)}
+          {answer.structured ? (
+            <StructuredAnswerView answer={answer.structured} sources={answer.sources} />
+          ) : (
+            <AnswerText text={answer.answer} sources={answer.sources} />
+          )}
+          {isStreaming && (
+            <span className="inline-block w-2 h-4 bg-blue-500 align-middle animate-pulse" />
+          )}
         </div>
       </div>
 
+      {/* Community Split */}
+      {!isStreaming && answer.stance && (
+        <StanceBar stance={answer.stance} />
+      )}
+
       {/* Sources Section */}
-      <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
-        <button
-          onClick={() => setShowSources(!showSources)}
-          className="flex items-center justify-between w-full p-3 bg-gray-50 dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600 rounded-lg transition-colors"
-        >
-          <div className="flex items-center space-x-2">
-            <LinkIcon className="w-5 h-5 text-gray-500 dark:text-gray-400" />
-            <span className="text-sm font-medium text-gray-900 dark:text-white">
-              Sources ({answer.sources.length})
-            </span>
-          </div>
-          {showSources ? (
-            <ChevronUpIcon className="w-5 h-5 text-gray-500" />
-          ) : (
-            <ChevronDownIcon className="w-5 h-5 text-gray-500" />
-          )}
-        </button>
+      {!isStreaming && (
+        <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+          <button
+            onClick={() => setShowSources(!showSources)}
+            className="flex items-center justify-between w-full p-3 bg-gray-50 dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600 rounded-lg transition-colors"
+          >
+            <div className="flex items-center space-x-2">
+              <LinkIcon className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+              <span className="text-sm font-medium text-gray-900 dark:text-white">
+                Sources ({answer.sources.length})
+              </span>
+            </div>
+            {showSources ? (
+              <ChevronUpIcon className="w-5 h-5 text-gray-500" />
+            ) : (
+              <ChevronDownIcon className="w-5 h-5 text-gray-500" />
+            )}
+          </button>
 
-        {showSources && (
-          <div className="mt-3 space-y-2 animate-fade-in">
-            {answer.sources.map((source, index) => (
-              <div key={index} className="p-3 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-lg">
-                <div className="flex items-start justify-between">
-                  <div className="flex-1">
-                    <p className="text-sm font-medium text-gray-900 dark:text-white">
-                      {source.title}
-                    </p>
-                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                      Type: {source.type}
-                    </p>
+          {showSources && (
+            <div className="mt-3 space-y-2 animate-fade-in">
+              {answer.sources.map((source) => (
+                <div key={source.id} className="p-3 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-lg">
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white">
+                        <span className="text-blue-500 dark:text-blue-400 mr-1">[{source.id}]</span>
+                        {source.title}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {source.type === 'post' ? 'Post' : 'Comment'} by u/{source.author} • {formatNumber(source.score)} points
+                      </p>
+                    </div>
+                    <a
+                      href={source.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="ml-3 text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 transition-colors"
+                    >
+                      <LinkIcon className="w-4 h-4" />
+                    </a>
                   </div>
-                  <a
-                    href={source.url}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="ml-3 text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 transition-colors"
-                  >
-                    <LinkIcon className="w-4 h-4" />
-                  </a>
                 </div>
-              </div>
-            ))}
-          </div>
-        )}
-      </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
 
       {/* Metadata Section */}
-      <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
-        <button
-          onClick={() => setShowMetadata(!showMetadata)}
-          className="flex items-center justify-between w-full p-3 bg-gray-50 dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600 rounded-lg transition-colors"
-        >
-          <div className="flex items-center space-x-2">
-            <InformationCircleIcon className="w-5 h-5 text-gray-500 dark:text-gray-400" />
-            <span className="text-sm font-medium text-gray-900 dark:text-white">
-              Technical Details
-            </span>
-          </div>
-          {showMetadata ? (
-            <ChevronUpIcon className="w-5 h-5 text-gray-500" />
-          ) : (
-            <ChevronDownIcon className="w-5 h-5 text-gray-500" />
-          )}
-        </button>
+      {!isStreaming && (
+        <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+          <button
+            onClick={() => setShowMetadata(!showMetadata)}
+            className="flex items-center justify-between w-full p-3 bg-gray-50 dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600 rounded-lg transition-colors"
+          >
+            <div className="flex items-center space-x-2">
+              <InformationCircleIcon className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+              <span className="text-sm font-medium text-gray-900 dark:text-white">
+                Technical Details
+              </span>
+            </div>
+            {showMetadata ? (
+              <ChevronUpIcon className="w-5 h-5 text-gray-500" />
+            ) : (
+              <ChevronDownIcon className="w-5 h-5 text-gray-500" />
+            )}
+          </button>
 
-        {showMetadata && (
-          <div className="mt-3 p-4 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-lg animate-fade-in">
-            <div className="grid grid-cols-2 gap-4 text-sm">
-              <div>
-                <span className="text-gray-500 dark:text-gray-400">Model:</span>
-                <span className="ml-2 font-medium text-gray-900 dark:text-white">
-                  {answer.model}
-                </span>
-              </div>
-              <div>
-                <span className="text-gray-500 dark:text-gray-400">Confidence:</span>
-                <span className={cn("ml-2 font-medium", getConfidenceColor(answer.confidence))}>
-                  {Math.round(answer.confidence * 100)}%
-                </span>
-              </div>
-              {answer.tokens_used && (
+          {showMetadata && (
+            <div className="mt-3 p-4 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-lg animate-fade-in">
+              <div className="grid grid-cols-2 gap-4 text-sm">
                 <div>
-                  <span className="text-gray-500 dark:text-gray-400">Tokens Used:</span>
+                  <span className="text-gray-500 dark:text-gray-400">Model:</span>
                   <span className="ml-2 font-medium text-gray-900 dark:text-white">
-                    {formatNumber(answer.tokens_used)}
+                    {answer.model}
                   </span>
                 </div>
-              )}
-              <div>
-                <span className="text-gray-500 dark:text-gray-400">Sources:</span>
-                <span className="ml-2 font-medium text-gray-900 dark:text-white">
-                  {answer.sources.length} references
-                </span>
+                <div>
+                  <span className="text-gray-500 dark:text-gray-400">Confidence:</span>
+                  <span className={cn("ml-2 font-medium", getConfidenceColor(answer.confidence))}>
+                    {Math.round(answer.confidence * 100)}%
+                  </span>
+                </div>
+                {answer.tokens_used && (
+                  <div>
+                    <span className="text-gray-500 dark:text-gray-400">Tokens Used:</span>
+                    <span className="ml-2 font-medium text-gray-900 dark:text-white">
+                      {formatNumber(answer.tokens_used)}
+                    </span>
+                  </div>
+                )}
+                <div>
+                  <span className="text-gray-500 dark:text-gray-400">Sources:</span>
+                  <span className="ml-2 font-medium text-gray-900 dark:text-white">
+                    {answer.sources.length} references
+                  </span>
+                </div>
+                {answer.timeframe && (
+                  <div>
+                    <span className="text-gray-500 dark:text-gray-400">Timeframe:</span>
+                    <span className="ml-2 font-medium text-gray-900 dark:text-white">
+                      {TIMEFRAMES[answer.timeframe].label}
+                    </span>
+                  </div>
+                )}
+                {answer.retrieval && (
+                  <div>
+                    <span className="text-gray-500 dark:text-gray-400">Retrieval:</span>
+                    <span className="ml-2 font-medium text-gray-900 dark:text-white">
+                      {RETRIEVAL_MODES[answer.retrieval].label}
+                    </span>
+                  </div>
+                )}
+                {answer.context && (
+                  <div>
+                    <span className="text-gray-500 dark:text-gray-400">Context:</span>
+                    <span
+                      className="ml-2 font-medium text-gray-900 dark:text-white"
+                      title={`${formatNumber(answer.context.used_tokens)} of ${formatNumber(answer.context.budget_tokens)} tokens`}
+                    >
+                      {answer.context.included} items, {answer.context.truncated} truncated, {answer.context.dropped} dropped
+                    </span>
+                  </div>
+                )}
+                {answer.context?.ranking && (
+                  <div>
+                    <span className="text-gray-500 dark:text-gray-400">Ranking:</span>
+                    <span
+                      className="ml-2 font-medium text-gray-900 dark:text-white"
+                      title={answer.context.ranking.query_terms.length ? `Matched on: ${answer.context.ranking.query_terms.join(', ')}` : undefined}
+                    >
+                      {answer.context.ranking.method === 'bm25'
+                        ? `BM25 relevance ${Math.round(answer.context.ranking.weights.relevance * 100)}%, upvotes ${Math.round(answer.context.ranking.weights.popularity * 100)}%, recency ${Math.round(answer.context.ranking.weights.recency * 100)}%`
+                        : `Upvotes ${Math.round(answer.context.ranking.weights.popularity * 100)}%, recency ${Math.round(answer.context.ranking.weights.recency * 100)}%`}
+                    </span>
+                  </div>
+                )}
+                {answer.snapshot && (
+                  <div>
+                    <span className="text-gray-500 dark:text-gray-400">Reddit Data:</span>
+                    <span className="ml-2 font-medium text-gray-900 dark:text-white">
+                      {answer.snapshot.cached ? 'Cached snapshot' : 'Fetched live'}, {formatDate(answer.snapshot.fetched_at / 1000)}
+                    </span>
+                  </div>
+                )}
               </div>
+
+              {answer.confidence_breakdown && answer.confidence_breakdown.length > 0 && (
+                <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-600 space-y-3">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">
+                    Why {getConfidenceLabel(answer.confidence).toLowerCase()} confidence?
+                  </p>
+                  {answer.confidence_breakdown.map((factor) => (
+                    <div key={factor.name}>
+                      <div className="flex items-center justify-between text-xs">
+                        <span className="text-gray-700 dark:text-gray-300">
+                          {factor.label}
+                          <span className="ml-1 text-gray-400 dark:text-gray-500">
+                            ({Math.round(factor.weight * 100)}% weight)
+                          </span>
+                        </span>
+                        <span className={cn("font-medium", getConfidenceColor(factor.score))}>
+                          {Math.round(factor.score * 100)}%
+                        </span>
+                      </div>
+                      <div className="mt-1 w-full h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                        <div
+                          className={cn("h-full rounded-full", {
+                            'bg-green-500': factor.score >= 0.8,
+                            'bg-yellow-500': factor.score >= 0.6 && factor.score < 0.8,
+                            'bg-orange-500': factor.score < 0.6,
+                          })}
+                          style={{ width: `${factor.score * 100}%` }}
+                        />
+                      </div>
+                      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                        {factor.detail}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
-          </div>
-        )}
-      </div>
+          )}
+        </div>
+      )}
+
+      {/* Follow-up Conversation */}
+      {!isStreaming && (followUps.length > 0 || (answer.conversation_id && onFollowUp)) && (
+        <ConversationThread
+          turns={followUps}
+          onAsk={answer.conversation_id ? onFollowUp : undefined}
+          isLoading={isFollowUpLoading}
+          isStreaming={isFollowUpStreaming}
+        />
+      )}
 
       {/* Disclaimer */}
       <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
@@ -0,0 +1,44 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { ANSWER_MODES } from '@/lib/constants';
+import type { AnswerMode } from '@/types';
+
+interface AnswerModeSelectorProps {
+  selectedMode: AnswerMode;
+  onModeChange: (mode: AnswerMode) => void;
+  disabled?: boolean;
+}
+
+const AnswerModeSelector: React.FC<AnswerModeSelectorProps> = ({
+  selectedMode,
+  onModeChange,
+  disabled = false,
+}) => {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+      {(Object.keys(ANSWER_MODES) as AnswerMode[]).map((mode) => (
+        <button
+          key={mode}
+          onClick={() => onModeChange(mode)}
+          disabled={disabled}
+          className={cn(
+            "px-3 py-2 text-left rounded-lg border transition-colors duration-200",
+            "disabled:opacity-50 disabled:cursor-not-allowed",
+            selectedMode === mode
+              ? "bg-blue-50 dark:bg-blue-900/20 border-blue-500"
+              : "bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-600"
+          )}
+        >
+          <p className="text-sm font-medium text-gray-900 dark:text-white">
+            {ANSWER_MODES[mode].label}
+          </p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {ANSWER_MODES[mode].description}
+          </p>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default AnswerModeSelector;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { CITATION_PATTERN, parseCitationIds } from '@/lib/utils';
+import type { AnswerSource } from '@/types';
+import CitationLink from './CitationLink';
+
+interface AnswerTextProps {
+  text: string;
+  sources: AnswerSource[];
+}
+
+// Answer body with headings, paragraphs, lists and [n] citation links
+const AnswerText: React.FC<AnswerTextProps> = ({ text, sources }) => {
+  const sourcesById = new Map(sources.map(source => [source.id, source]));
+
+  // Turn inline [n] markers into footnote links pointing at the cited post or comment
+  const renderWithCitations = (line: string) => {
+    // Splitting on the pattern puts each marker's reference numbers at the odd indexes
+    return line.split(CITATION_PATTERN).map((part, partIndex) => {
+      if (partIndex % 2 === 0) return part;
+
+      return parseCitationIds(part).map(id => (
+        <CitationLink key={`${partIndex}-${id}`} id={id} source={sourcesById.get(id)} />
+      ));
+    });
+  };
+
+  // Format the answer text with better readability
+  const formatAnswer = (answerText: string) => {
+    return answerText
+      .split('\n\n')
+      .map((paragraph, index) => {
+        if (paragraph.trim() === '') return null;
+
+        // Section headings, as written by structured answers
+        const heading = paragraph.trim().match(/^#{1,6}\s+(.+)$/);
+        if (heading) {
+          return (
+            <h3 key={index} className="text-sm font-semibold uppercase tracking-wide text-gray-900 dark:text-white mb-2">
+              {heading[1]}
+            </h3>
+          );
+        }
+        
+        // Check if paragraph is a list
+        if (paragraph.includes('•') || paragraph.includes('-') || /^\d+\./.test(paragraph.trim())) {
+          const items = paragraph.split('\n').filter(item => item.trim());
+          return (
+            <ul key={index} className="space-y-2 mb-4 pl-4">
+              {items.map((item, itemIndex) => (
+                <li key={itemIndex} className="text-gray-700 dark:text-gray-300 leading-relaxed">
+                  {renderWithCitations(item.replace(/^[•\-\d+\.]\s*/, ''))}
+                </li>
+              ))}
+            </ul>
+          );
+        }
+        
+        // Regular paragraph
+        return (
+          <p key={index} className="text-gray-700 dark:text-gray-300 leading-relaxed mb-4">
+            {renderWithCitations(paragraph)}
+          </p>
+        );
+      })
+      .filter(Boolean);
+  };
+
+  return <>{formatAnswer(text)}</>;
+};
+
+export default AnswerText;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { formatNumber } from '@/lib/utils';
+import type { AnswerSource } from '@/types';
+
+interface CitationLinkProps {
+  id: number;
+  source?: AnswerSource;
+}
+
+// Superscript [n] footnote link pointing at the cited post or comment
+const CitationLink: React.FC<CitationLinkProps> = ({ id, source }) => {
+  if (!source) return null;
+
+  return (
+    <sup className="ml-0.5">
+      <a
+        href={source.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        title={`${source.title} — u/${source.author} (${formatNumber(source.score)} points)`}
+        className="text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 font-medium no-underline"
+      >
+        [{id}]
+      </a>
+    </sup>
+  );
+};
+
+export default CitationLink;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { ExclamationTriangleIcon, ScaleIcon } from '@heroicons/react/24/outline';
+import { cn } from '@/lib/utils';
+import type { CompareResult } from '@/types';
+import AnswerDisplay from './AnswerDisplay';
+import AnswerText from './AnswerText';
+
+interface ComparisonViewProps {
+  result: CompareResult;
+}
+
+// Split panes: the synthesized comparison on top, then one answer column per subreddit
+const ComparisonView: React.FC<ComparisonViewProps> = ({ result }) => {
+  return (
+    <div className="space-y-6">
+      {result.comparison && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 animate-fade-in">
+          <div className="flex items-center space-x-3 mb-4">
+            <div className="flex-shrink-0 w-8 h-8 bg-gradient-to-br from-blue-500 to-purple-600 rounded-lg flex items-center justify-center">
+              <ScaleIcon className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                How they compare
+              </h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {result.columns.filter(column => column.answer).map(column => `r/${column.subreddit}`).join(' vs ')}
+              </p>
+            </div>
+          </div>
+          <div className="p-6 bg-gradient-to-br from-gray-50 to-white dark:from-gray-800 dark:to-gray-700 rounded-xl border border-gray-200 dark:border-gray-600">
+            <AnswerText text={result.comparison.answer} sources={[]} />
+          </div>
+        </div>
+      )}
+
+      <div className={cn(
+        "grid grid-cols-1 gap-6",
+        result.columns.length === 2 ? "lg:grid-cols-2" : "lg:grid-cols-2 xl:grid-cols-3"
+      )}>
+        {result.columns.map((column) => (
+          <div key={column.subreddit} className="min-w-0 bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 animate-fade-in">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+              r/{column.subreddit}
+            </h2>
+            {column.answer ? (
+              <AnswerDisplay answer={column.answer} />
+            ) : (
+              <div className="flex items-start space-x-3 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
+                <ExclamationTriangleIcon className="w-5 h-5 text-yellow-600 dark:text-yellow-400 flex-shrink-0 mt-0.5" />
+                <p className="text-sm text-yellow-800 dark:text-yellow-200">
+                  {column.error || 'No answer for this subreddit'}
+                </p>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonView;
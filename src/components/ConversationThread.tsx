@@ -0,0 +1,133 @@
+import React, { useState, KeyboardEvent } from 'react';
+import { ChatBubbleLeftRightIcon, PaperAirplaneIcon, SparklesIcon } from '@heroicons/react/24/outline';
+import { cn, formatNumber } from '@/lib/utils';
+import { CONFIG, VALIDATION } from '@/lib/constants';
+import type { ConversationTurn } from '@/types';
+import AnswerText from './AnswerText';
+
+interface ConversationThreadProps {
+  turns: ConversationTurn[];
+  onAsk?: (question: string) => void; // Omit to show the thread read-only
+  isLoading?: boolean;
+  isStreaming?: boolean; // The last turn's answer is still arriving
+}
+
+const ConversationThread: React.FC<ConversationThreadProps> = ({
+  turns,
+  onAsk,
+  isLoading = false,
+  isStreaming = false,
+}) => {
+  const [question, setQuestion] = useState('');
+
+  // The first answer counts as one turn
+  const turnsLeft = CONFIG.CONVERSATION.MAX_TURNS - 1 - turns.length;
+  const canAsk = Boolean(question.trim()) && !isLoading && turnsLeft > 0
+    && question.length <= VALIDATION.QUESTION.MAX_LENGTH;
+
+  const handleAsk = () => {
+    if (!canAsk || !onAsk) return;
+    onAsk(question.trim());
+    setQuestion('');
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleAsk();
+    }
+  };
+
+  return (
+    <div className="border-t border-gray-200 dark:border-gray-700 pt-4 space-y-4">
+      <div className="flex items-center space-x-2">
+        <ChatBubbleLeftRightIcon className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+        <span className="text-sm font-medium text-gray-900 dark:text-white">
+          Follow-up questions
+        </span>
+      </div>
+
+      {turns.map((turn, index) => {
+        const isWriting = isStreaming && index === turns.length - 1;
+
+        return (
+          <div key={index} className="space-y-3 animate-fade-in">
+            {/* Question */}
+            <div className="flex justify-end">
+              <p className="max-w-[80%] px-4 py-2 rounded-2xl rounded-br-sm bg-blue-500 text-white text-sm">
+                {turn.question}
+              </p>
+            </div>
+
+            {/* Answer */}
+            <div className="flex items-start space-x-3">
+              <div className="flex-shrink-0 w-7 h-7 bg-gradient-to-br from-blue-500 to-purple-600 rounded-lg flex items-center justify-center">
+                <SparklesIcon className="w-4 h-4 text-white" />
+              </div>
+              <div className="flex-1 p-4 bg-gray-50 dark:bg-gray-700 rounded-xl border border-gray-200 dark:border-gray-600 text-sm">
+                {turn.answer.answer ? (
+                  <AnswerText text={turn.answer.answer} sources={turn.answer.sources} />
+                ) : (
+                  <span className="text-gray-500 dark:text-gray-400 animate-pulse">Thinking...</span>
+                )}
+                {isWriting && turn.answer.answer && (
+                  <span className="inline-block w-2 h-4 bg-blue-500 align-middle animate-pulse" />
+                )}
+                {!isWriting && turn.answer.sources.length > 0 && (
+                  <div className="mt-2 pt-2 border-t border-gray-200 dark:border-gray-600 flex flex-wrap gap-x-3 gap-y-1">
+                    {turn.answer.sources.map((source) => (
+                      <a
+                        key={source.id}
+                        href={source.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        title={`${source.title} — u/${source.author} (${formatNumber(source.score)} points)`}
+                        className="text-xs text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300"
+                      >
+                        [{source.id}] u/{source.author}
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+
+      {/* Follow-up Input */}
+      {!onAsk ? null : turnsLeft > 0 ? (
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={turns.length ? 'Ask another follow-up...' : 'Ask a follow-up, e.g. "What about for beginners?"'}
+            disabled={isLoading}
+            className="flex-1 px-4 py-2 text-sm bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+          />
+          <button
+            onClick={handleAsk}
+            disabled={!canAsk}
+            className={cn(
+              "p-2 rounded-lg transition-colors duration-200",
+              canAsk
+                ? "bg-blue-500 hover:bg-blue-600 text-white"
+                : "bg-gray-200 dark:bg-gray-700 text-gray-400 cursor-not-allowed"
+            )}
+            title="Send follow-up"
+          >
+            <PaperAirplaneIcon className="w-5 h-5" />
+          </button>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          This conversation has reached its limit. Ask a new question to start another.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ConversationThread;
@@ -0,0 +1,89 @@
+import React from 'react';
+import {
+  ArrowTopRightOnSquareIcon,
+  ChatBubbleLeftIcon,
+  ArrowUpIcon,
+} from '@heroicons/react/24/outline';
+import { cn, formatNumber, formatDate } from '@/lib/utils';
+import { DIGEST_MOODS, TIMEFRAMES } from '@/lib/constants';
+import type { Digest, DigestMood } from '@/types';
+
+interface DigestViewProps {
+  digest: Digest;
+}
+
+const MOOD_COLORS: Record<DigestMood, string> = {
+  positive: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  negative: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  mixed: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  neutral: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+};
+
+// The overall mood, then one card per topic with its headline, summary and threads
+const DigestView: React.FC<DigestViewProps> = ({ digest }) => {
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-gradient-to-br from-gray-50 to-white dark:from-gray-800 dark:to-gray-700 rounded-xl border border-gray-200 dark:border-gray-600">
+        <div className="flex items-center space-x-2 mb-2">
+          <span className="text-sm font-medium text-gray-900 dark:text-white">Overall mood</span>
+          <span className={cn('px-2 py-0.5 rounded-full text-xs font-medium', MOOD_COLORS[digest.mood.level])}>
+            {DIGEST_MOODS[digest.mood.level].label}
+          </span>
+        </div>
+        {digest.mood.summary && (
+          <p className="text-sm text-gray-700 dark:text-gray-300">{digest.mood.summary}</p>
+        )}
+      </div>
+
+      {digest.topics.map((topic, index) => (
+        <div key={index} className="border-l-4 border-blue-500 pl-4">
+          <h3 className="text-base font-semibold text-gray-900 dark:text-white">
+            {topic.headline}
+          </h3>
+          {topic.summary && (
+            <p className="mt-1 text-sm text-gray-700 dark:text-gray-300">{topic.summary}</p>
+          )}
+          <ul className="mt-3 space-y-2">
+            {topic.threads.map((thread) => (
+              <li key={thread.id}>
+                <a
+                  href={thread.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="group flex items-start justify-between p-2 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                >
+                  <span className="min-w-0">
+                    <span className="block text-sm text-gray-900 dark:text-white group-hover:text-blue-600 dark:group-hover:text-blue-400">
+                      {thread.title}
+                    </span>
+                    <span className="flex items-center space-x-3 mt-0.5 text-xs text-gray-500 dark:text-gray-400">
+                      {digest.subreddits.length > 1 && <span>r/{thread.subreddit}</span>}
+                      <span className="flex items-center">
+                        <ArrowUpIcon className="w-3 h-3 mr-0.5" />
+                        {formatNumber(thread.score)}
+                      </span>
+                      <span className="flex items-center">
+                        <ChatBubbleLeftIcon className="w-3 h-3 mr-0.5" />
+                        {formatNumber(thread.num_comments)}
+                      </span>
+                    </span>
+                  </span>
+                  <ArrowTopRightOnSquareIcon className="w-4 h-4 ml-2 flex-shrink-0 text-gray-400 group-hover:text-blue-500" />
+                </a>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {digest.topics.length} topics from the {digest.posts_considered} top posts
+        {digest.timeframe === 'all' ? ' of all time' : ` of the last ${TIMEFRAMES[digest.timeframe].label.toLowerCase()}`}
+        {' • '}{digest.snapshot.cached ? 'Cached snapshot' : 'Fetched live'}, {formatDate(digest.snapshot.fetched_at / 1000)}
+        {digest.tokens_used ? ` • ${formatNumber(digest.tokens_used)} tokens` : ''}
+      </p>
+    </div>
+  );
+};
+
+export default DigestView;
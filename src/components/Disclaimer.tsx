@@ -5,6 +5,7 @@ import { formatTimeRemaining } from '@/lib/utils';
 
 interface DisclaimerProps {
   isRateLimited?: boolean;
+  limit?: number;
   remaining?: number;
   resetTime?: number;
 }
@@ -20,7 +21,8 @@ const isDevelopment = () => {
 
 const Disclaimer: React.FC<DisclaimerProps> = ({ 
   isRateLimited = false, 
-  remaining = CONFIG.RATE_LIMIT.MAX_REQUESTS,
+  limit = CONFIG.RATE_LIMIT.MAX_REQUESTS,
+  remaining = limit,
   resetTime = Date.now() 
 }) => {
   const isInDevelopment = isDevelopment();
@@ -35,7 +37,7 @@ const Disclaimer: React.FC<DisclaimerProps> = ({
               Daily Limit Reached
             </h3>
             <p className="text-sm text-red-700 dark:text-red-300 mb-3">
-              You&apos;ve used all {CONFIG.RATE_LIMIT.MAX_REQUESTS} daily requests. The limit resets in{' '}
+              You&apos;ve used all {limit} daily requests. The limit resets in{' '}
               <strong>{formatTimeRemaining(resetTime)}</strong>.
             </p>
             <div className="space-y-2">
@@ -108,7 +110,7 @@ const Disclaimer: React.FC<DisclaimerProps> = ({
               professional advice.
             </p>
             <p>
-              <strong>Rate Limit:</strong> {remaining} of {CONFIG.RATE_LIMIT.MAX_REQUESTS} daily requests remaining. Feel free to contact me on LinkedIn or fork GitHub repo and use your own OpenAI key.
+              <strong>Rate Limit:</strong> {remaining} of {limit} daily requests remaining. Feel free to contact me on LinkedIn or fork GitHub repo and use your own OpenAI key.
             </p>
           </div>
         </div>
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import { cn } from '@/lib/utils';
+import { EXPORT_FORMATS } from '@/lib/constants';
+import { downloadExport } from '@/lib/export-download';
+import type { ExportFormat, ExportedAnswer } from '@/types';
+
+interface ExportMenuProps {
+  getAnswers: () => ExportedAnswer[]; // Read when a format is picked, so the export is current
+  label?: string; // Text beside the icon; icon only when omitted
+  disabled?: boolean;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ getAnswers, label, disabled = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsOpen(false);
+    setIsExporting(true);
+    try {
+      await downloadExport(format, getAnswers());
+    } catch (error) {
+      console.error('Error exporting answers:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to export answers');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled || isExporting}
+        className={cn(
+          "flex items-center space-x-1 p-2 text-gray-500 hover:text-blue-500 transition-colors disabled:opacity-50",
+          label && "px-3 py-1.5 text-sm rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700"
+        )}
+        title="Export"
+      >
+        <ArrowDownTrayIcon className={cn("w-5 h-5", isExporting && "animate-pulse")} />
+        {label && <span>{label}</span>}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-56 py-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-lg shadow-lg z-10 animate-fade-in">
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="block w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              {EXPORT_FORMATS[format].label}
+              {EXPORT_FORMATS[format].note && (
+                <span className="block text-xs text-gray-500 dark:text-gray-400">{EXPORT_FORMATS[format].note}</span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { RETRIEVAL_MODES } from '@/lib/constants';
+import type { RetrievalMode } from '@/types';
+
+interface RetrievalModeSelectorProps {
+  selectedRetrieval: RetrievalMode;
+  onRetrievalChange: (retrieval: RetrievalMode) => void;
+  disabled?: boolean;
+}
+
+const RetrievalModeSelector: React.FC<RetrievalModeSelectorProps> = ({
+  selectedRetrieval,
+  onRetrievalChange,
+  disabled = false,
+}) => {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+      {(Object.keys(RETRIEVAL_MODES) as RetrievalMode[]).map((mode) => (
+        <button
+          key={mode}
+          onClick={() => onRetrievalChange(mode)}
+          disabled={disabled}
+          className={cn(
+            "px-3 py-2 text-left rounded-lg border transition-colors duration-200",
+            "disabled:opacity-50 disabled:cursor-not-allowed",
+            selectedRetrieval === mode
+              ? "bg-blue-50 dark:bg-blue-900/20 border-blue-500"
+              : "bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-600"
+          )}
+        >
+          <p className="text-sm font-medium text-gray-900 dark:text-white">
+            {RETRIEVAL_MODES[mode].label}
+          </p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {RETRIEVAL_MODES[mode].description}
+          </p>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default RetrievalModeSelector;
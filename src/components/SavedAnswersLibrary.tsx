@@ -0,0 +1,205 @@
+import React, { useMemo } from 'react';
+import { MagnifyingGlassIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { cn, truncateText } from '@/lib/utils';
+import { collectFacets, filterSavedAnswers, EMPTY_FILTERS } from '@/lib/saved-answers';
+import { savedAnswerToExport } from '@/lib/export-download';
+import type { SavedAnswer, SavedAnswerFilters } from '@/types';
+import ExportMenu from './ExportMenu';
+
+interface SavedAnswersLibraryProps {
+  answers: SavedAnswer[];
+  filters: SavedAnswerFilters;
+  onFiltersChange: (filters: SavedAnswerFilters) => void;
+  selectedIds: string[];
+  onSelectionChange: (ids: string[]) => void;
+  onOpen: (id: string) => void;
+  onDelete: (ids: string[]) => void;
+}
+
+// <input type="date"> values are local calendar days
+const toDateInput = (timestamp: number | null) => {
+  if (timestamp === null) return '';
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const fromDateInput = (value: string, endOfDay: boolean) => {
+  if (!value) return null;
+  return new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).getTime();
+};
+
+const SavedAnswersLibrary: React.FC<SavedAnswersLibraryProps> = ({
+  answers,
+  filters,
+  onFiltersChange,
+  selectedIds,
+  onSelectionChange,
+  onOpen,
+  onDelete,
+}) => {
+  const facets = useMemo(() => collectFacets(answers), [answers]);
+  const visible = useMemo(() => filterSavedAnswers(answers, filters), [answers, filters]);
+
+  const visibleIds = visible.map(saved => saved.id);
+  const allVisibleSelected = visibleIds.length > 0 && visibleIds.every(id => selectedIds.includes(id));
+  const isFiltered = JSON.stringify(filters) !== JSON.stringify(EMPTY_FILTERS);
+
+  const toggleSelected = (id: string) => {
+    onSelectionChange(selectedIds.includes(id)
+      ? selectedIds.filter(selected => selected !== id)
+      : [...selectedIds, id]);
+  };
+
+  const toggleAllVisible = () => {
+    onSelectionChange(allVisibleSelected
+      ? selectedIds.filter(id => !visibleIds.includes(id))
+      : Array.from(new Set([...selectedIds, ...visibleIds])));
+  };
+
+  const inputClass = "px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+  return (
+    <div className="space-y-4">
+      {/* Search and Filters */}
+      <div className="relative">
+        <MagnifyingGlassIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+        <input
+          type="search"
+          value={filters.search}
+          onChange={(e) => onFiltersChange({ ...filters, search: e.target.value })}
+          placeholder="Search questions, answers, sources and tags..."
+          className={cn(inputClass, "w-full pl-10")}
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={filters.subreddit || ''}
+          onChange={(e) => onFiltersChange({ ...filters, subreddit: e.target.value || null })}
+          className={inputClass}
+        >
+          <option value="">All subreddits</option>
+          {facets.subreddits.map((name) => (
+            <option key={name} value={name}>r/{name}</option>
+          ))}
+        </select>
+        <select
+          value={filters.tag || ''}
+          onChange={(e) => onFiltersChange({ ...filters, tag: e.target.value || null })}
+          className={inputClass}
+        >
+          <option value="">All tags</option>
+          {facets.tags.map((tag) => (
+            <option key={tag} value={tag}>#{tag}</option>
+          ))}
+        </select>
+        <label className="flex items-center space-x-1 text-sm text-gray-500 dark:text-gray-400">
+          <span>From</span>
+          <input
+            type="date"
+            value={toDateInput(filters.from)}
+            onChange={(e) => onFiltersChange({ ...filters, from: fromDateInput(e.target.value, false) })}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex items-center space-x-1 text-sm text-gray-500 dark:text-gray-400">
+          <span>To</span>
+          <input
+            type="date"
+            value={toDateInput(filters.to)}
+            onChange={(e) => onFiltersChange({ ...filters, to: fromDateInput(e.target.value, true) })}
+            className={inputClass}
+          />
+        </label>
+        {isFiltered && (
+          <button
+            onClick={() => onFiltersChange(EMPTY_FILTERS)}
+            className="px-3 py-2 text-sm text-blue-500 hover:text-blue-600 dark:text-blue-400"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {/* Bulk Actions */}
+      <div className="flex items-center justify-between py-2 border-y border-gray-200 dark:border-gray-700">
+        <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={allVisibleSelected}
+            onChange={toggleAllVisible}
+            disabled={!visible.length}
+            className="rounded border-gray-300 text-blue-500 focus:ring-blue-500"
+          />
+          <span>
+            {selectedIds.length ? `${selectedIds.length} selected` : `${visible.length} of ${answers.length} answers`}
+          </span>
+        </label>
+        {selectedIds.length > 0 && (
+          <div className="flex items-center space-x-2">
+            <ExportMenu
+              label="Export selected"
+              getAnswers={() => answers.filter(saved => selectedIds.includes(saved.id)).map(savedAnswerToExport)}
+            />
+            <button
+              onClick={() => onDelete(selectedIds)}
+              className="flex items-center space-x-1 px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+            >
+              <TrashIcon className="w-4 h-4" />
+              <span>Delete selected</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Saved Answers */}
+      {visible.length === 0 ? (
+        <p className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+          {answers.length ? 'No saved answers match these filters.' : 'No saved answers yet. Save an answer with the heart button to keep it here.'}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {visible.map((saved) => (
+            <div
+              key={saved.id}
+              className="flex items-start space-x-3 p-4 bg-gray-50 dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600 rounded-lg transition-colors"
+            >
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(saved.id)}
+                onChange={() => toggleSelected(saved.id)}
+                className="mt-1 rounded border-gray-300 text-blue-500 focus:ring-blue-500"
+              />
+              <div className="flex-1 min-w-0 cursor-pointer" onClick={() => onOpen(saved.id)}>
+                <p className="text-sm font-medium text-gray-900 dark:text-white">
+                  {saved.question}
+                </p>
+                <p className="mt-1 text-sm text-gray-600 dark:text-gray-300">
+                  {truncateText(saved.answer.answer.replace(/\s*\[\d+\]/g, ''), 160)}
+                </p>
+                <div className="mt-2 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-500 dark:text-gray-400">
+                  <span>{saved.subreddits.map(name => `r/${name}`).join(', ')}</span>
+                  <span>{new Date(saved.savedAt).toLocaleDateString()}</span>
+                  {saved.followUps.length > 0 && (
+                    <span>{saved.followUps.length} follow-up{saved.followUps.length === 1 ? '' : 's'}</span>
+                  )}
+                  {saved.tags.map((tag) => (
+                    <span key={tag} className="text-blue-500 dark:text-blue-400">#{tag}</span>
+                  ))}
+                </div>
+              </div>
+              <button
+                onClick={() => onDelete([saved.id])}
+                className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                title="Delete"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SavedAnswersLibrary;
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { cn, formatNumber } from '@/lib/utils';
+import { STANCES } from '@/lib/constants';
+import type { StanceBreakdown, StanceSide } from '@/types';
+
+interface StanceBarProps {
+  stance: StanceBreakdown;
+}
+
+const SIDE_COLORS: Record<StanceSide['stance'], { bar: string; dot: string }> = {
+  for: { bar: 'bg-green-500 hover:bg-green-600', dot: 'bg-green-500' },
+  against: { bar: 'bg-red-500 hover:bg-red-600', dot: 'bg-red-500' },
+  neutral: { bar: 'bg-gray-400 hover:bg-gray-500', dot: 'bg-gray-400' },
+};
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+// Score-weighted split of the comments, with the comments behind the selected side
+const StanceBar: React.FC<StanceBarProps> = ({ stance }) => {
+  const [selected, setSelected] = useState<StanceSide['stance'] | null>(null);
+  const sides = stance.sides.filter(side => side.comments > 0);
+  const selectedSide = sides.find(side => side.stance === selected);
+
+  const toggle = (side: StanceSide['stance']) => setSelected(selected === side ? null : side);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-900 dark:text-white">Community split</span>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {stance.classified - stance.off_topic} comments, weighted by score
+          {stance.off_topic > 0 && ` • ${stance.off_topic} off topic`}
+        </span>
+      </div>
+
+      <div className="flex h-3 w-full overflow-hidden rounded-full bg-gray-200 dark:bg-gray-700">
+        {sides.map((side) => (
+          <button
+            key={side.stance}
+            onClick={() => toggle(side.stance)}
+            title={`${STANCES[side.stance].label}: ${percent(side.share)} (${side.comments} comments)`}
+            className={cn("h-full transition-colors", SIDE_COLORS[side.stance].bar)}
+            style={{ width: `${side.share * 100}%` }}
+          />
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1">
+        {sides.map((side) => (
+          <button
+            key={side.stance}
+            onClick={() => toggle(side.stance)}
+            className={cn(
+              "flex items-center space-x-1.5 text-xs transition-colors",
+              selected === side.stance
+                ? "text-gray-900 dark:text-white font-medium"
+                : "text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            )}
+          >
+            <span className={cn("w-2 h-2 rounded-full", SIDE_COLORS[side.stance].dot)} />
+            <span>{STANCES[side.stance].label} {percent(side.share)}</span>
+          </button>
+        ))}
+      </div>
+
+      {selectedSide && (
+        <ul className="space-y-1.5 pt-1">
+          {selectedSide.representatives.map((source) => (
+            <li key={source.id}>
+              <a
+                href={source.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block p-2 bg-gray-50 dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600 rounded-lg transition-colors"
+              >
+                <p className="text-sm text-gray-700 dark:text-gray-300">{source.title}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                  [{source.id}] u/{source.author} • {formatNumber(source.score)} points
+                </p>
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default StanceBar;
@@ -0,0 +1,110 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import type { AnswerSource, ConsensusLevel, StructuredAnswer } from '@/types';
+import CitationLink from './CitationLink';
+
+interface StructuredAnswerViewProps {
+  answer: StructuredAnswer;
+  sources: AnswerSource[];
+}
+
+const CONSENSUS_BADGES: Record<ConsensusLevel, { label: string; className: string }> = {
+  strong: { label: 'Strong consensus', className: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300' },
+  moderate: { label: 'Moderate consensus', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300' },
+  weak: { label: 'Weak consensus', className: 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-300' },
+  none: { label: 'No consensus', className: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300' },
+};
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="space-y-2">
+    <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-900 dark:text-white">
+      {title}
+    </h3>
+    {children}
+  </section>
+);
+
+// Structured answer rendered section by section, each claim followed by its citations
+const StructuredAnswerView: React.FC<StructuredAnswerViewProps> = ({ answer, sources }) => {
+  const sourcesById = new Map(sources.map(source => [source.id, source]));
+
+  const renderCitations = (ids: number[]) =>
+    ids.map(id => <CitationLink key={id} id={id} source={sourcesById.get(id)} />);
+
+  const badge = CONSENSUS_BADGES[answer.consensus.level];
+  const textClass = "text-gray-700 dark:text-gray-300 leading-relaxed";
+
+  return (
+    <div className="space-y-6">
+      <Section title="Summary">
+        <p className={textClass}>{answer.summary}</p>
+      </Section>
+
+      {answer.key_points.length > 0 && (
+        <Section title="Key points">
+          <ul className="space-y-2 pl-4 list-disc">
+            {answer.key_points.map((item, index) => (
+              <li key={index} className={textClass}>
+                {item.point}
+                {renderCitations(item.citations)}
+              </li>
+            ))}
+          </ul>
+        </Section>
+      )}
+
+      {answer.consensus.statement && (
+        <Section title="Consensus">
+          <span className={cn("inline-block px-2 py-0.5 text-xs font-medium rounded-full", badge.className)}>
+            {badge.label}
+          </span>
+          <p className={textClass}>
+            {answer.consensus.statement}
+            {renderCitations(answer.consensus.citations)}
+          </p>
+        </Section>
+      )}
+
+      {answer.dissenting_views.length > 0 && (
+        <Section title="Dissenting views">
+          <ul className="space-y-2 pl-4 list-disc">
+            {answer.dissenting_views.map((item, index) => (
+              <li key={index} className={textClass}>
+                {item.view}
+                {renderCitations(item.citations)}
+              </li>
+            ))}
+          </ul>
+        </Section>
+      )}
+
+      {answer.notable_quotes.length > 0 && (
+        <Section title="Notable quotes">
+          <div className="space-y-3">
+            {answer.notable_quotes.map((item, index) => (
+              <blockquote key={index} className="pl-4 border-l-4 border-blue-200 dark:border-blue-800">
+                <p className={cn(textClass, "italic")}>&ldquo;{item.quote}&rdquo;</p>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  — u/{item.author}
+                  {renderCitations([item.citation])}
+                </p>
+              </blockquote>
+            ))}
+          </div>
+        </Section>
+      )}
+
+      {answer.open_questions.length > 0 && (
+        <Section title="Open questions">
+          <ul className="space-y-2 pl-4 list-disc">
+            {answer.open_questions.map((question, index) => (
+              <li key={index} className={textClass}>{question}</li>
+            ))}
+          </ul>
+        </Section>
+      )}
+    </div>
+  );
+};
+
+export default StructuredAnswerView;
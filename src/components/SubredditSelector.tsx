@@ -1,53 +1,263 @@
-import React, { useState } from 'react';
-import { ChevronDownIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline';
-import { cn } from '@/lib/utils';
-import type { PopularSubreddit } from '@/types';
+import React, { useState, useEffect, KeyboardEvent } from 'react';
+import Image from 'next/image';
+import { ChevronDownIcon, MagnifyingGlassIcon, XMarkIcon, CheckIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { toast } from 'react-hot-toast';
+import { cn, formatNumber, parseSubreddits, validateSubreddit } from '@/lib/utils';
+import { CONFIG, ERROR_MESSAGES } from '@/lib/constants';
+import { describeLookupProblem, fetchSubredditLookup, fetchSubredditSuggestions } from '@/lib/subreddit-lookup';
+import type { PopularSubreddit, SubredditInfo, SubredditLookup } from '@/types';
 
 interface SubredditSelectorProps {
-  selectedSubreddit: string;
-  customSubreddit: string;
-  onSubredditChange: (subreddit: string) => void;
-  onCustomSubredditChange: (customSubreddit: string) => void;
+  selectedSubreddits: string[];
+  onSubredditsChange: (subreddits: string[]) => void;
   popularSubreddits: PopularSubreddit[];
+  maxSubreddits?: number; // Lower than MAX_SUBREDDITS when the quota can't cover more
+  limitReason?: string; // Why maxSubreddits is lower, shown instead of the usual hint
 }
 
+// Community icon, or the generic r/ badge when the subreddit has none
+const SubredditIcon: React.FC<{ info: SubredditInfo }> = ({ info }) => (
+  info.icon ? (
+    // Reddit's CDN URLs are already sized, so skip the optimizer and its host allowlist
+    <Image src={info.icon} alt="" width={32} height={32} unoptimized className="w-8 h-8 flex-shrink-0 rounded-full object-cover" />
+  ) : (
+    <div className="w-8 h-8 flex-shrink-0 bg-gradient-to-br from-orange-400 to-red-500 rounded-full flex items-center justify-center text-white font-bold text-sm">
+      r/
+    </div>
+  )
+);
+
 const SubredditSelector: React.FC<SubredditSelectorProps> = ({
-  selectedSubreddit,
-  customSubreddit,
-  onSubredditChange,
-  onCustomSubredditChange,
+  selectedSubreddits,
+  onSubredditsChange,
   popularSubreddits,
+  maxSubreddits = CONFIG.REDDIT.MAX_SUBREDDITS,
+  limitReason,
 }) => {
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
+  const [customSubreddit, setCustomSubreddit] = useState('');
+  const [suggestions, setSuggestions] = useState<SubredditInfo[]>([]);
+  const [highlighted, setHighlighted] = useState(-1);
+  const [lookups, setLookups] = useState<Record<string, SubredditLookup | null>>({});
+
+  // Check each newly selected subreddit against Reddit
+  useEffect(() => {
+    selectedSubreddits
+      .filter(name => !(name.toLowerCase() in lookups))
+      .forEach(name => {
+        fetchSubredditLookup(name).then(lookup => {
+          setLookups(prev => ({ ...prev, [name.toLowerCase()]: lookup }));
+        });
+      });
+  }, [selectedSubreddits, lookups]);
+
+  // Autocomplete the last name being typed, once typing pauses
+  const partialName = customSubreddit.split(/[+,\s]+/).pop()!.replace(/^\/?r\//i, '');
+  useEffect(() => {
+    if (partialName.length < 2 || !validateSubreddit(partialName).isValid) {
+      setSuggestions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      fetchSubredditSuggestions(partialName, controller.signal)
+        .then(results => {
+          setSuggestions(results);
+          setHighlighted(-1);
+        })
+        .catch(error => {
+          if (!controller.signal.aborted) console.error('Error searching subreddits:', error);
+        });
+    }, 250);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [partialName]);
+
+  const lookupOf = (name: string) => lookups[name.toLowerCase()];
 
   const filteredSubreddits = popularSubreddits.filter(subreddit =>
     subreddit.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     subreddit.description.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
-  const handleSubredditSelect = (subreddit: string) => {
-    onSubredditChange(subreddit);
-    setIsDropdownOpen(false);
-    setSearchTerm('');
+  const isSelected = (name: string) =>
+    selectedSubreddits.some(selected => selected.toLowerCase() === name.toLowerCase());
+
+  const addSubreddits = (names: string[]) => {
+    const additions = names.filter(name => !isSelected(name));
+    const invalid = additions.map(validateSubreddit).find(validation => !validation.isValid);
+    if (invalid) {
+      toast.error(invalid.error!);
+      return false;
+    }
+    if (selectedSubreddits.length + additions.length > maxSubreddits) {
+      toast.error(maxSubreddits < CONFIG.REDDIT.MAX_SUBREDDITS && limitReason ? limitReason : ERROR_MESSAGES.TOO_MANY_SUBREDDITS);
+      return false;
+    }
+    onSubredditsChange([...selectedSubreddits, ...additions]);
+    return true;
+  };
+
+  const removeSubreddit = (name: string) => {
+    onSubredditsChange(selectedSubreddits.filter(selected => selected !== name));
   };
 
-  const getDisplayText = () => {
-    if (selectedSubreddit === 'custom') {
-      return customSubreddit ? `r/${customSubreddit}` : 'Enter custom subreddit...';
+  const handleSubredditToggle = (name: string) => {
+    if (isSelected(name)) {
+      removeSubreddit(selectedSubreddits.find(selected => selected.toLowerCase() === name.toLowerCase())!);
+    } else {
+      addSubreddits([name]);
+    }
+  };
+
+  // Replace the partly typed name with the chosen suggestion
+  const handleSuggestionSelect = (suggestion: SubredditInfo) => {
+    const typed = parseSubreddits(customSubreddit).slice(0, -1);
+    if (addSubreddits([...typed, suggestion.name])) {
+      setCustomSubreddit('');
+      setSuggestions([]);
+    }
+  };
+
+  // Accepts "investing", "r/investing" or "investing+stocks"
+  const handleCustomSubredditAdd = () => {
+    const names = parseSubreddits(customSubreddit);
+    if (names.length && addSubreddits(names)) {
+      setCustomSubreddit('');
     }
-    return `r/${selectedSubreddit}`;
   };
 
-  const getSelectedSubredditInfo = () => {
-    if (selectedSubreddit === 'custom') return null;
-    return popularSubreddits.find(sub => sub.name === selectedSubreddit);
+  const handleCustomKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length && (e.key === 'ArrowDown' || e.key === 'ArrowUp')) {
+      e.preventDefault();
+      // Cycle through the suggestions and back to the typed text (-1)
+      const next = highlighted + (e.key === 'ArrowDown' ? 1 : -1);
+      setHighlighted(next >= suggestions.length ? -1 : next < -1 ? suggestions.length - 1 : next);
+    } else if (e.key === 'Enter' && highlighted >= 0 && suggestions[highlighted]) {
+      e.preventDefault();
+      handleSuggestionSelect(suggestions[highlighted]);
+    } else if (e.key === 'Escape') {
+      setSuggestions([]);
+    } else if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      handleCustomSubredditAdd();
+    } else if (e.key === 'Backspace' && !customSubreddit && selectedSubreddits.length) {
+      removeSubreddit(selectedSubreddits[selectedSubreddits.length - 1]);
+    }
   };
 
-  const selectedInfo = getSelectedSubredditInfo();
+  const getDisplayText = () => {
+    if (selectedSubreddits.length === 0) return 'Select subreddits...';
+    if (selectedSubreddits.length === 1) return `r/${selectedSubreddits[0]}`;
+    return `${selectedSubreddits.length} subreddits selected`;
+  };
+
+  const selectedInfo = selectedSubreddits.length === 1 ? lookupOf(selectedSubreddits[0])?.info : undefined;
+  const problems = selectedSubreddits
+    .map(name => describeLookupProblem(lookupOf(name)))
+    .filter((problem): problem is string => problem !== null);
 
   return (
     <div className="space-y-4">
+      {/* Selected Subreddit Chips */}
+      <div className="relative">
+        <div className="flex flex-wrap items-center gap-2 p-2 min-h-[3rem] bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg focus-within:ring-2 focus-within:ring-blue-500">
+          {selectedSubreddits.map((name) => {
+            const lookup = lookupOf(name);
+            const problem = describeLookupProblem(lookup);
+            return (
+              <span
+                key={name}
+                title={problem || undefined}
+                className={cn(
+                  "inline-flex items-center pl-3 pr-1 py-1 rounded-full text-sm",
+                  problem
+                    ? "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300"
+                    : "bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300"
+                )}
+              >
+                {problem && <ExclamationTriangleIcon className="w-3.5 h-3.5 mr-1" />}
+                r/{name}
+                {lookup?.info?.over18 && (
+                  <span className="ml-1 px-1 text-[10px] font-semibold rounded bg-red-500 text-white">18+</span>
+                )}
+                <button
+                  onClick={() => removeSubreddit(name)}
+                  className="ml-1 p-0.5 rounded-full hover:bg-blue-200 dark:hover:bg-blue-800 transition-colors"
+                  title={`Remove r/${name}`}
+                >
+                  <XMarkIcon className="w-3.5 h-3.5" />
+                </button>
+              </span>
+            );
+          })}
+          <input
+            type="text"
+            value={customSubreddit}
+            onChange={(e) => setCustomSubreddit(e.target.value)}
+            onKeyDown={handleCustomKeyDown}
+            onBlur={handleCustomSubredditAdd}
+            placeholder={selectedSubreddits.length ? 'Add another...' : 'Type a subreddit and press Enter'}
+            disabled={selectedSubreddits.length >= maxSubreddits}
+            className="flex-1 min-w-[10rem] px-2 py-1 text-sm bg-transparent border-none focus:outline-none focus:ring-0"
+          />
+        </div>
+
+        {/* Autocomplete Suggestions */}
+        {suggestions.length > 0 && customSubreddit && (
+          <div className="absolute z-20 w-full mt-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-lg overflow-hidden">
+            {suggestions.map((suggestion, index) => (
+              <button
+                key={suggestion.name}
+                // mousedown fires before the input's blur, which would add the typed text instead
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  handleSuggestionSelect(suggestion);
+                }}
+                className={cn(
+                  "w-full flex items-center space-x-3 px-4 py-2 text-left transition-colors",
+                  index === highlighted ? "bg-blue-50 dark:bg-blue-900/20" : "hover:bg-gray-50 dark:hover:bg-gray-700"
+                )}
+              >
+                <SubredditIcon info={suggestion} />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white">r/{suggestion.name}</p>
+                    {suggestion.over18 && (
+                      <span className="px-1 text-[10px] font-semibold rounded bg-red-500 text-white">18+</span>
+                    )}
+                    {suggestion.type === 'private' && (
+                      <span className="text-xs text-yellow-600 dark:text-yellow-400">Private</span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {formatNumber(suggestion.subscribers)} members{suggestion.description && ` • ${suggestion.description}`}
+                  </p>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <p className={cn("text-xs -mt-2", limitReason ? "text-yellow-700 dark:text-yellow-400" : "text-gray-500 dark:text-gray-400")}>
+        {limitReason || <>Pick up to {maxSubreddits} subreddits. You can also paste Reddit&apos;s &ldquo;investing+stocks&rdquo; syntax.</>}
+      </p>
+
+      {/* Lookup Warnings */}
+      {problems.length > 0 && (
+        <div className="flex items-start space-x-2 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+          <ExclamationTriangleIcon className="w-5 h-5 text-red-500 flex-shrink-0" />
+          <p className="text-sm text-red-700 dark:text-red-300">
+            {problems.join('. ')}. Remove {problems.length === 1 ? 'it' : 'them'} before asking.
+          </p>
+        </div>
+      )}
+
       {/* Dropdown Selector */}
       <div className="relative">
         <button
@@ -67,18 +277,16 @@ const SubredditSelector: React.FC<SubredditSelectorProps> = ({
               <p className="text-sm font-medium text-gray-900 dark:text-white">
                 {getDisplayText()}
               </p>
-              {selectedInfo && (
-                <p className="text-xs text-gray-500 dark:text-gray-400">
-                  {selectedInfo.description}
-                </p>
-              )}
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Browse popular subreddits
+              </p>
             </div>
           </div>
-          <ChevronDownIcon 
+          <ChevronDownIcon
             className={cn(
               "w-5 h-5 text-gray-400 transition-transform duration-200",
               isDropdownOpen && "rotate-180"
-            )} 
+            )}
           />
         </button>
 
@@ -101,49 +309,22 @@ const SubredditSelector: React.FC<SubredditSelectorProps> = ({
 
             {/* Subreddit List */}
             <div className="max-h-64 overflow-y-auto">
-              {/* Custom Subreddit Option */}
-              <button
-                onClick={() => handleSubredditSelect('custom')}
-                className={cn(
-                  "w-full flex items-center space-x-3 px-4 py-3 text-left hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors",
-                  selectedSubreddit === 'custom' && "bg-blue-50 dark:bg-blue-900/20 border-r-2 border-blue-500"
-                )}
-              >
-                <div className="w-8 h-8 bg-gradient-to-br from-purple-400 to-pink-500 rounded-full flex items-center justify-center text-white font-bold text-sm">
-                  +
-                </div>
-                <div>
-                  <p className="text-sm font-medium text-gray-900 dark:text-white">
-                    Custom Subreddit
-                  </p>
-                  <p className="text-xs text-gray-500 dark:text-gray-400">
-                    Enter any subreddit name
-                  </p>
-                </div>
-              </button>
-
-              {/* Popular Subreddits */}
               {filteredSubreddits.map((subreddit) => (
                 <button
                   key={subreddit.name}
-                  onClick={() => handleSubredditSelect(subreddit.name)}
+                  onClick={() => handleSubredditToggle(subreddit.name)}
                   className={cn(
                     "w-full flex items-center space-x-3 px-4 py-3 text-left hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors",
-                    selectedSubreddit === subreddit.name && "bg-blue-50 dark:bg-blue-900/20 border-r-2 border-blue-500"
+                    isSelected(subreddit.name) && "bg-blue-50 dark:bg-blue-900/20 border-r-2 border-blue-500"
                   )}
                 >
                   <div className="w-8 h-8 bg-gradient-to-br from-orange-400 to-red-500 rounded-full flex items-center justify-center text-white font-bold text-sm">
-                    r/
+                    {isSelected(subreddit.name) ? <CheckIcon className="w-4 h-4" /> : 'r/'}
                   </div>
                   <div className="flex-1">
-                    <div className="flex items-center justify-between">
-                      <p className="text-sm font-medium text-gray-900 dark:text-white">
-                        r/{subreddit.name}
-                      </p>
-                      <span className="text-xs text-gray-500 dark:text-gray-400">
-                        {subreddit.subscribers}
-                      </span>
-                    </div>
+                    <p className="text-sm font-medium text-gray-900 dark:text-white">
+                      r/{subreddit.name}
+                    </p>
                     <p className="text-xs text-gray-500 dark:text-gray-400">
                       {subreddit.description}
                     </p>
@@ -162,44 +343,26 @@ const SubredditSelector: React.FC<SubredditSelectorProps> = ({
         )}
       </div>
 
-      {/* Custom Subreddit Input */}
-      {selectedSubreddit === 'custom' && (
-        <div className="animate-slide-in">
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-            Enter Subreddit Name
-          </label>
-          <div className="relative">
-            <input
-              type="text"
-              value={customSubreddit}
-              onChange={(e) => onCustomSubredditChange(e.target.value.replace(/^r\//, ''))}
-              placeholder="Enter subreddit name (e.g., &ldquo;technology&rdquo;)"
-              className="w-full px-4 py-3 pr-12 text-sm bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-            />
-            <div className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 text-sm">
-              r/
-            </div>
-          </div>
-          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-            Enter the subreddit name without &ldquo;r/&rdquo; prefix
-          </p>
-        </div>
-      )}
-
       {/* Selected Subreddit Info */}
       {selectedInfo && (
         <div className="p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg">
           <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm font-medium text-gray-900 dark:text-white">
-                r/{selectedInfo.name}
-              </p>
-              <p className="text-xs text-gray-600 dark:text-gray-400">
-                {selectedInfo.description}
-              </p>
+            <div className="flex items-center space-x-3 min-w-0">
+              <SubredditIcon info={selectedInfo} />
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 dark:text-white">
+                  r/{selectedInfo.name}
+                  {selectedInfo.over18 && (
+                    <span className="ml-2 px-1 text-[10px] font-semibold rounded bg-red-500 text-white">18+</span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-600 dark:text-gray-400">
+                  {selectedInfo.description || selectedInfo.title}
+                </p>
+              </div>
             </div>
-            <span className="text-xs text-blue-600 dark:text-blue-400 font-medium">
-              {selectedInfo.subscribers} members
+            <span className="ml-3 flex-shrink-0 text-xs text-blue-600 dark:text-blue-400 font-medium">
+              {formatNumber(selectedInfo.subscribers)} members
             </span>
           </div>
         </div>
@@ -208,4 +371,4 @@ const SubredditSelector: React.FC<SubredditSelectorProps> = ({
   );
 };
 
-export default SubredditSelector; 
\ No newline at end of file
+export default SubredditSelector;
@@ -0,0 +1,66 @@
+import React, { useState, KeyboardEvent } from 'react';
+import { TagIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { CONFIG } from '@/lib/constants';
+import { normalizeTag } from '@/lib/saved-answers';
+
+interface TagEditorProps {
+  tags: string[];
+  onTagsChange: (tags: string[]) => void;
+}
+
+const TagEditor: React.FC<TagEditorProps> = ({ tags, onTagsChange }) => {
+  const [input, setInput] = useState('');
+
+  const canAdd = tags.length < CONFIG.STORAGE.MAX_TAGS;
+
+  const handleAdd = () => {
+    const tag = normalizeTag(input);
+    if (tag && canAdd && !tags.includes(tag)) {
+      onTagsChange([...tags, tag]);
+    }
+    setInput('');
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      handleAdd();
+    } else if (e.key === 'Backspace' && !input && tags.length) {
+      onTagsChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <TagIcon className="w-4 h-4 text-gray-400" />
+      {tags.map((tag) => (
+        <span
+          key={tag}
+          className="inline-flex items-center px-2 py-0.5 text-xs bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 rounded-full"
+        >
+          #{tag}
+          <button
+            onClick={() => onTagsChange(tags.filter(existing => existing !== tag))}
+            className="ml-1 hover:text-blue-900 dark:hover:text-blue-100"
+            title={`Remove #${tag}`}
+          >
+            <XMarkIcon className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+      {canAdd && (
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => input && handleAdd()}
+          placeholder={tags.length ? 'Add tag' : 'Add tags, e.g. investing'}
+          className="flex-1 min-w-[8rem] px-2 py-1 text-xs bg-transparent border-b border-gray-300 dark:border-gray-600 focus:outline-none focus:border-blue-500"
+        />
+      )}
+    </div>
+  );
+};
+
+export default TagEditor;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { TIMEFRAMES } from '@/lib/constants';
+import type { Timeframe } from '@/types';
+
+interface TimeframeSelectorProps {
+  selectedTimeframe: Timeframe;
+  onTimeframeChange: (timeframe: Timeframe) => void;
+  disabled?: boolean;
+}
+
+const TimeframeSelector: React.FC<TimeframeSelectorProps> = ({
+  selectedTimeframe,
+  onTimeframeChange,
+  disabled = false,
+}) => {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {(Object.keys(TIMEFRAMES) as Timeframe[]).map((timeframe) => (
+        <button
+          key={timeframe}
+          onClick={() => onTimeframeChange(timeframe)}
+          disabled={disabled}
+          className={cn(
+            "px-3 py-1.5 text-sm font-medium rounded-lg border transition-colors duration-200",
+            "disabled:opacity-50 disabled:cursor-not-allowed",
+            selectedTimeframe === timeframe
+              ? "bg-blue-500 border-blue-500 text-white"
+              : "bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600"
+          )}
+        >
+          {TIMEFRAMES[timeframe].label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default TimeframeSelector;
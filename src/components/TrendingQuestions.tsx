@@ -1,17 +1,28 @@
 import React from 'react';
-import { FireIcon, HashtagIcon } from '@heroicons/react/24/outline';
-import { cn } from '@/lib/utils';
+import { FireIcon, HashtagIcon, ArrowTopRightOnSquareIcon } from '@heroicons/react/24/outline';
+import { cn, formatDate, formatNumber } from '@/lib/utils';
 import type { TrendingQuestion } from '@/types';
+import LoadingSpinner from './LoadingSpinner';
 
 interface TrendingQuestionsProps {
   questions: TrendingQuestion[];
   onQuestionSelect: (question: string, subreddit: string) => void;
+  isLoading?: boolean;
+  source?: 'live' | 'fallback';
+  generatedAt?: number | null;
 }
 
 const TrendingQuestions: React.FC<TrendingQuestionsProps> = ({
   questions,
   onQuestionSelect,
+  isLoading = false,
+  source = 'fallback',
+  generatedAt = null,
 }) => {
+  if (isLoading) {
+    return <LoadingSpinner size="sm" />;
+  }
+
   const getPopularityColor = (popularity: number) => {
     if (popularity >= 90) return 'text-red-500';
     if (popularity >= 80) return 'text-orange-500';
@@ -45,7 +56,10 @@ const TrendingQuestions: React.FC<TrendingQuestionsProps> = ({
                   r/{item.subreddit}
                 </span>
               </div>
-              <div className="flex items-center space-x-1">
+              <div
+                className="flex items-center space-x-1"
+                title={item.score !== undefined ? `${formatNumber(item.score)} upvotes, ${formatNumber(item.num_comments ?? 0)} comments` : undefined}
+              >
                 <FireIcon className={cn("w-4 h-4", getPopularityColor(item.popularity))} />
                 <span className={cn("text-xs font-bold", getPopularityColor(item.popularity))}>
                   {item.popularity}%
@@ -59,7 +73,7 @@ const TrendingQuestions: React.FC<TrendingQuestionsProps> = ({
             </p>
 
             {/* Tags */}
-            <div className="flex flex-wrap gap-1">
+            <div className="flex flex-wrap items-center gap-1">
               {item.tags.map((tag, tagIndex) => (
                 <span
                   key={tagIndex}
@@ -69,6 +83,18 @@ const TrendingQuestions: React.FC<TrendingQuestionsProps> = ({
                   {tag}
                 </span>
               ))}
+              {item.post_url && (
+                <a
+                  href={item.post_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  onClick={(e) => e.stopPropagation()}
+                  className="ml-auto flex items-center text-xs text-gray-400 hover:text-blue-500 dark:text-gray-500 dark:hover:text-blue-400"
+                  title={item.rephrased ? 'Reworded from this post' : 'Asked in this post'}
+                >
+                  <ArrowTopRightOnSquareIcon className="w-3.5 h-3.5" />
+                </a>
+              )}
             </div>
 
             {/* Hover indicator */}
@@ -101,7 +127,9 @@ const TrendingQuestions: React.FC<TrendingQuestionsProps> = ({
           </span>
         </div>
         <p className="text-xs text-gray-600 dark:text-gray-400">
-          These questions are currently popular and getting great AI-powered answers from our community.
+          {source === 'live'
+            ? `Drawn from today's hot and top posts and ranked by upvotes and comments${generatedAt ? `, updated ${formatDate(generatedAt / 1000)}` : ''}.`
+            : 'Live Reddit activity is unavailable right now, so these are sample questions.'}
         </p>
       </div>
     </div>
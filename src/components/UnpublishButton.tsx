@@ -0,0 +1,51 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'react-hot-toast';
+import { EyeSlashIcon } from '@heroicons/react/24/outline';
+import { getOwnedShare, unpublishAnswer } from '@/lib/share-links';
+
+interface UnpublishButtonProps {
+  shareId: string;
+}
+
+// Shown only in the browser that published the answer, since it holds the owner token
+const UnpublishButton: React.FC<UnpublishButtonProps> = ({ shareId }) => {
+  const router = useRouter();
+  const [isOwner, setIsOwner] = useState(false);
+  const [isUnpublishing, setIsUnpublishing] = useState(false);
+
+  useEffect(() => {
+    setIsOwner(Boolean(getOwnedShare(shareId)));
+  }, [shareId]);
+
+  if (!isOwner) return null;
+
+  const handleUnpublish = async () => {
+    if (!window.confirm('Unpublish this answer? The link will stop working for everyone.')) return;
+
+    setIsUnpublishing(true);
+    try {
+      await unpublishAnswer(shareId);
+      toast.success('Answer unpublished');
+      router.replace('/');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to unpublish answer');
+      setIsUnpublishing(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleUnpublish}
+      disabled={isUnpublishing}
+      className="flex items-center space-x-1 px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-red-900/20 rounded-lg transition-colors disabled:opacity-50"
+    >
+      <EyeSlashIcon className="w-4 h-4" />
+      <span>{isUnpublishing ? 'Unpublishing...' : 'Unpublish'}</span>
+    </button>
+  );
+};
+
+export default UnpublishButton;
@@ -0,0 +1,13 @@
+// Runs once when a server process starts
+export async function register() {
+  // Background jobs need Node timers and Reddit credentials; skip them on the edge runtime
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || !process.env.REDDIT_CLIENT_ID) return;
+
+  const { startTrendingSchedule } = await import('./lib/trending');
+  startTrendingSchedule();
+
+  if (process.env.SUBSCRIPTIONS_ADMIN_TOKEN) {
+    const { startSubscriptionSchedule } = await import('./lib/subscriptions');
+    startSubscriptionSchedule();
+  }
+}
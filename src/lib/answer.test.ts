@@ -0,0 +1,175 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateAIResponse, streamAIResponse, type AnswerContext } from './answer';
+import { buildRedditContext } from './context';
+import { canAnalyzeStance } from './stance';
+import { FakeProvider, getModel, setLLMProvider, type ChatMessage } from './llm';
+import { readSSE } from './sse';
+import type { AskQuestionStreamEvent, SubredditData } from '@/types';
+
+const data: SubredditData = {
+  subreddit: 'rust',
+  fetchedAt: Date.now(),
+  posts: [{
+    id: 'p1',
+    title: 'Is Rust worth learning for backend work?',
+    selftext: 'I mostly write Go services and wonder whether Rust pays off for web backends.',
+    author: 'gopher',
+    score: 250,
+    num_comments: 2,
+    created_utc: Math.floor(Date.now() / 1000) - 3600,
+    url: 'https://reddit.com/r/rust/comments/p1',
+    subreddit: 'rust',
+    permalink: '/r/rust/comments/p1/is_rust_worth_learning/',
+    upvote_ratio: 0.95,
+  }],
+  comments: [{
+    id: 'c1',
+    body: 'Yes. Axum and Tokio are mature and the compiler catches whole classes of bugs before production.',
+    author: 'crab',
+    score: 120,
+    created_utc: Math.floor(Date.now() / 1000) - 1800,
+    permalink: '/r/rust/comments/p1/is_rust_worth_learning/c1/',
+    depth: 0,
+  }],
+};
+
+const question = 'Is Rust worth learning for backend work?';
+
+function createContext(overrides: Partial<AnswerContext> = {}): AnswerContext {
+  const model = getModel('fake')!;
+  return {
+    question,
+    subreddits: ['rust'],
+    timeframe: 'week',
+    retrieval: 'latest',
+    mode: 'prose',
+    model,
+    redditContent: buildRedditContext([data], { contextWindow: model.contextWindow, question }),
+    snapshot: { cached: false, fetched_at: data.fetchedAt, age_seconds: 0 },
+    ...overrides,
+  };
+}
+
+async function readEvents(response: Response): Promise<AskQuestionStreamEvent[]> {
+  const events: AskQuestionStreamEvent[] = [];
+  await readSSE<AskQuestionStreamEvent>(response, event => events.push(event));
+  return events;
+}
+
+describe('answers through the fake provider', () => {
+  let provider: FakeProvider;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    provider = new FakeProvider('Most commenters say it pays off [1].');
+    setLLMProvider('fake', provider);
+  });
+
+  it('answers with the provider\'s reply and the cited sources', async () => {
+    const response = await generateAIResponse(createContext());
+
+    expect(response.answer).toBe('Most commenters say it pays off [1].');
+    expect(response.model).toBe('fake');
+    expect(response.sources.length).toBeGreaterThan(0);
+    expect(provider.requests[0].messages.at(-1)?.content).toContain(question);
+  });
+
+  it('streams a token event per word, then the finished answer', async () => {
+    const events = await readEvents(streamAIResponse(createContext(), { 'X-RateLimit-Remaining': '2' }));
+    const tokens = events.filter(event => event.type === 'token');
+    const done = events.at(-1);
+
+    expect(tokens.map(event => event.content).join('')).toBe('Most commenters say it pays off [1].');
+    expect(done?.type).toBe('done');
+    expect(done?.type === 'done' && done.data.answer).toBe('Most commenters say it pays off [1].');
+  });
+
+  it('keeps the caller\'s headers on the event stream', () => {
+    const response = streamAIResponse(createContext(), { 'X-RateLimit-Remaining': '2' });
+
+    expect(response.headers.get('Content-Type')).toContain('text/event-stream');
+    expect(response.headers.get('X-RateLimit-Remaining')).toBe('2');
+  });
+
+  it('ends the stream with an error event when the provider fails', async () => {
+    setLLMProvider('fake', new FakeProvider(() => {
+      throw new Error('Model overloaded');
+    }));
+
+    const events = await readEvents(streamAIResponse(createContext()));
+
+    expect(events).toEqual([{ type: 'error', error: 'Model overloaded' }]);
+  });
+
+  it('aborts the provider request when the client disconnects', async () => {
+    const response = streamAIResponse(createContext());
+    const reader = response.body!.getReader();
+    await reader.read();
+    await reader.cancel();
+
+    expect(provider.requests[0].signal?.aborted).toBe(true);
+  });
+});
+
+describe('structured answers', () => {
+  const reply = JSON.stringify({
+    summary: 'Most commenters say Rust pays off for backend work [1].',
+    key_points: [{ point: 'Axum and Tokio are mature', citations: [2] }],
+    consensus: { level: 'moderate', statement: 'Worth it for long-lived services', citations: [2] },
+    dissenting_views: [],
+    notable_quotes: [],
+    open_questions: [],
+  });
+
+  let provider: FakeProvider;
+
+  beforeEach(() => {
+    provider = new FakeProvider(reply);
+    setLLMProvider('fake', provider);
+  });
+
+  it('asks for the JSON schema response format when the model supports it', async () => {
+    const response = await generateAIResponse(createContext({ mode: 'structured' }));
+
+    expect(provider.requests[0].jsonSchema?.name).toBe('structured_answer');
+    expect(response.structured?.consensus.level).toBe('moderate');
+  });
+
+  it('relies on the prompt and validation when the model does not', async () => {
+    const model = { ...getModel('fake')!, supportsJsonSchema: false };
+    const response = await generateAIResponse(createContext({ mode: 'structured', model }));
+
+    expect(provider.requests[0].jsonSchema).toBeUndefined();
+    expect(provider.requests[0].messages[0].content).toContain('"notable_quotes"');
+    expect(response.structured?.key_points).toHaveLength(1);
+  });
+});
+
+describe('stance analysis', () => {
+  const comments = ['Axum is great for services.', 'The borrow checker slowed our team down a lot.', 'Depends on what you are building.']
+    .map((body, index) => ({ ...data.comments[0], id: `c${index + 2}`, body, score: 100 - index, permalink: `/r/rust/comments/p1/is_rust_worth_learning/c${index + 2}/` }));
+  const discussion: SubredditData = { ...data, comments: [...data.comments, ...comments] };
+
+  // Classifies every listed comment as "for"; answers anything else in prose
+  const reply = (messages: ChatMessage[]) => messages[0].content.includes('classify the stance')
+    ? JSON.stringify({ stances: Array.from(messages[1].content.matchAll(/^\[(\d+)\]/gm), match => ({ id: Number(match[1]), stance: 'for' })) })
+    : 'Most commenters say it pays off [1].';
+
+  it('classifies without a response format when the model has no JSON schema support', async () => {
+    const provider = new FakeProvider(reply);
+    setLLMProvider('fake', provider);
+    const model = { ...getModel('fake')!, supportsJsonSchema: false };
+    const redditContent = buildRedditContext([discussion], { contextWindow: model.contextWindow, question });
+    expect(canAnalyzeStance(redditContent)).toBe(true);
+
+    const response = await generateAIResponse(createContext({ model, redditContent, analyzeStance: true }));
+    const stanceRequest = provider.requests.find(request => request.messages[0].content.includes('classify the stance'));
+
+    expect(stanceRequest?.jsonSchema).toBeUndefined();
+    expect(response.stance?.sides.find(side => side.stance === 'for')?.comments).toBeGreaterThanOrEqual(3);
+  });
+
+  it('has too few comments to classify in a thin discussion', () => {
+    expect(canAnalyzeStance(createContext().redditContent)).toBe(false);
+  });
+});
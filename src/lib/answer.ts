@@ -0,0 +1,315 @@
+import { CONFIG, TIMEFRAMES } from './constants';
+import { handleApiError, selectCitedSources } from './utils';
+import { calculateConfidence } from './confidence';
+import { encodeSSE } from './sse';
+import { getLLMProvider, jsonSchemaOption } from './llm';
+import type { ChatMessage, CompletionRequest, ModelDefinition } from './llm';
+import { appendTurn } from './conversations';
+import { RedditApiError } from './reddit';
+import { analyzeStance } from './stance';
+import { STRUCTURED_ANSWER_INSTRUCTIONS, STRUCTURED_ANSWER_SCHEMA, parseStructuredAnswer, structuredAnswerToText } from './structured-answer';
+import type {
+  AskQuestionStreamEvent,
+  AIResponse,
+  AnswerMode,
+  ExtractedContent,
+  SnapshotInfo,
+  StanceBreakdown,
+  StructuredAnswer,
+  Timeframe,
+  RetrievalMode,
+} from '@/types';
+
+// Everything needed to answer one question
+export interface AnswerContext {
+  question: string;
+  subreddits: string[];
+  timeframe: Timeframe;
+  retrieval: RetrievalMode;
+  mode: AnswerMode;
+  model: ModelDefinition;
+  redditContent: ExtractedContent;
+  snapshot: SnapshotInfo;
+  conversationId?: string;
+  analyzeStance?: boolean; // Also classify how the selected comments split on the question
+  history?: { question: string; answer: string }[]; // Earlier turns, oldest first, already fitted to the budget
+}
+
+/**
+ * Build the chat messages for a question over the extracted Reddit content
+ */
+function buildMessages({ question, subreddits, timeframe, mode, redditContent, history = [] }: AnswerContext): ChatMessage[] {
+  const subredditList = subreddits.map(name => `r/${name}`).join(', ');
+  const period = TIMEFRAMES[timeframe].hours === null ? 'all time' : `past ${TIMEFRAMES[timeframe].label.toLowerCase()}`;
+
+  const multiSubredditGuidelines = subreddits.length > 1 ? `
+
+Multiple subreddits:
+- The content is grouped by subreddit under headers such as "===== r/name ====="
+- Point out where the subreddits agree and where each one's view differs, naming the subreddit
+- Don't let one subreddit's opinion stand in for all of them` : '';
+
+  const systemPrompt = `You are an AI assistant that analyzes Reddit discussions and provides comprehensive, well-structured answers to user questions.
+
+Your task is to:
+1. Analyze the provided Reddit posts and comments from ${subredditList}
+2. Synthesize the information to answer the user's question
+3. Provide a balanced, informative response based on the community discussions
+4. Include relevant insights, trends, and perspectives from the Reddit content
+5. Be objective and acknowledge different viewpoints when they exist
+
+Guidelines:
+- Focus on factual information and community consensus
+- Highlight interesting insights or unique perspectives
+- If there are conflicting opinions, present multiple viewpoints
+- Keep your response structured and easy to read
+- Don't make assumptions beyond what's discussed in the Reddit content
+- If the Reddit content doesn't adequately address the question, mention this limitation
+
+Citations:
+- Every post and comment is prefixed with a reference number such as [3]
+- Lines starting with "↳" are replies to the comment above them; read them as part of that exchange
+- Back up each claim with the reference numbers it comes from, inline, e.g. "Most users prefer index funds [2][5]."
+- Only cite reference numbers that appear in the provided content${multiSubredditGuidelines}
+
+${mode === 'structured' ? STRUCTURED_ANSWER_INSTRUCTIONS : 'Format your response in a clear, readable manner with appropriate paragraphs.'}`;
+
+  const userPrompt = history.length
+    ? `Follow-up question: ${question}
+
+Reddit Content from ${subredditList} (${period}):
+${redditContent.text}
+
+Answer the follow-up based on the Reddit discussions above and the conversation so far. Earlier answers cited different reference numbers, so only cite the numbers shown above.`
+    : `Question: ${question}
+
+Reddit Content from ${subredditList} (${period}):
+${redditContent.text}
+
+Please provide a comprehensive answer based on the Reddit discussions above.`;
+
+  // Earlier turns go before the new question, without their Reddit content, to save tokens
+  const earlierTurns = history.flatMap((turn): ChatMessage[] => [
+    { role: 'user', content: turn.question },
+    { role: 'assistant', content: turn.answer },
+  ]);
+
+  return [
+    { role: 'system', content: systemPrompt },
+    ...earlierTurns,
+    { role: 'user', content: userPrompt },
+  ];
+}
+
+/**
+ * Assemble the final response once the full answer text is known
+ */
+function buildAIResponse(context: AnswerContext, answer: string, tokensUsed?: number, structured?: StructuredAnswer): AIResponse {
+  const { question, redditContent, model, snapshot } = context;
+  const { confidence, breakdown } = calculateConfidence(question, redditContent, answer);
+
+  return {
+    answer,
+    structured,
+    mode: context.mode,
+    sources: selectCitedSources(answer, redditContent.references),
+    confidence,
+    confidence_breakdown: breakdown,
+    model: model.id,
+    tokens_used: tokensUsed,
+    subreddits: context.subreddits,
+    timeframe: context.timeframe,
+    retrieval: context.retrieval,
+    snapshot,
+    context: redditContent.report,
+    conversation_id: context.conversationId,
+  };
+}
+
+function buildCompletionRequest(context: AnswerContext, signal?: AbortSignal): CompletionRequest {
+  return {
+    model: context.model.providerModel,
+    messages: buildMessages(context),
+    maxTokens: CONFIG.LLM.MAX_TOKENS,
+    temperature: CONFIG.LLM.TEMPERATURE,
+    ...(context.mode === 'structured' ? jsonSchemaOption(context.model, { name: 'structured_answer', schema: STRUCTURED_ANSWER_SCHEMA }) : {}),
+    signal,
+  };
+}
+
+// Remember the finished turn so follow-ups can build on it and it can be shared
+async function recordTurn(context: AnswerContext, response: AIResponse): Promise<AIResponse> {
+  if (!context.conversationId) return response;
+  try {
+    const recorded = await appendTurn(context.conversationId, { question: context.question, answer: response.answer, response });
+    if (!recorded) console.warn(`Conversation ${context.conversationId} expired or is full; the turn was not recorded`);
+  } catch (error) {
+    console.error(`Failed to record turn for conversation ${context.conversationId}:`, error);
+  }
+  return response;
+}
+
+type StanceResult = { breakdown: StanceBreakdown | null; tokensUsed?: number } | null;
+
+// Runs alongside the answer; a failed analysis only leaves the breakdown out
+function startStanceAnalysis(context: AnswerContext, signal?: AbortSignal): Promise<StanceResult> {
+  if (!context.analyzeStance) return Promise.resolve(null);
+  return analyzeStance(context.question, context.redditContent, context.model, signal).catch(error => {
+    if (!signal?.aborted) console.error('Stance analysis failed:', error);
+    return null;
+  });
+}
+
+async function withStance(response: AIResponse, stance: Promise<StanceResult>): Promise<AIResponse> {
+  const result = await stance;
+  if (!result) return response;
+
+  const tokensUsed = (response.tokens_used || 0) + (result.tokensUsed || 0);
+  return { ...response, stance: result.breakdown ?? undefined, tokens_used: tokensUsed || undefined };
+}
+
+/**
+ * Ask for a structured answer, sending invalid replies back with the validation
+ * errors until one passes or STRUCTURED_ATTEMPTS runs out
+ */
+async function generateStructuredAnswer(context: AnswerContext, signal?: AbortSignal): Promise<AIResponse> {
+  const provider = getLLMProvider(context.model.provider);
+  const request = buildCompletionRequest(context, signal);
+  let tokensUsed = 0;
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= CONFIG.LLM.STRUCTURED_ATTEMPTS; attempt++) {
+    const completion = await provider.complete(request);
+    tokensUsed += completion.tokensUsed || 0;
+
+    const parsed = parseStructuredAnswer(completion.content, context.redditContent.references);
+    if (parsed.answer) {
+      return buildAIResponse(context, structuredAnswerToText(parsed.answer), tokensUsed || undefined, parsed.answer);
+    }
+
+    errors = parsed.errors;
+    console.warn(`Structured answer attempt ${attempt} failed validation: ${errors.join('; ')}`);
+    request.messages = [
+      ...request.messages,
+      { role: 'assistant', content: completion.content },
+      { role: 'user', content: `That reply doesn't match the schema: ${errors.join('; ')}. Reply with only the corrected JSON object.` },
+    ];
+  }
+
+  throw new Error(`The model did not return a valid structured answer (${errors.join('; ')})`);
+}
+
+/**
+ * Generate AI response based on Reddit data and user question
+ */
+export async function generateAIResponse(context: AnswerContext): Promise<AIResponse> {
+  const stance = startStanceAnalysis(context);
+  try {
+    if (context.mode === 'structured') {
+      return await recordTurn(context, await withStance(await generateStructuredAnswer(context), stance));
+    }
+
+    const completion = await getLLMProvider(context.model.provider).complete(buildCompletionRequest(context));
+    const answer = completion.content || 'No response generated';
+    return await recordTurn(context, await withStance(buildAIResponse(context, answer, completion.tokensUsed), stance));
+  } catch (error) {
+    console.error(`LLM API Error (${context.model.provider}):`, error);
+    throw error;
+  }
+}
+
+/**
+ * Stream the AI response as server-sent events: one `token` event per delta,
+ * then a `done` event carrying sources, confidence, the stance breakdown and token usage.
+ * Structured answers must be validated whole, so they arrive in the `done` event only.
+ * When the client disconnects, the model requests are aborted and nothing more is sent.
+ */
+export function streamAIResponse(context: AnswerContext, headers: Record<string, string> = {}): Response {
+  const abort = new AbortController();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // The stream can be cancelled while a completion is in flight; stop writing once it is
+      const send = (event: AskQuestionStreamEvent) => {
+        if (abort.signal.aborted) return;
+        try {
+          controller.enqueue(encodeSSE<AskQuestionStreamEvent>(event));
+        } catch {
+          abort.abort();
+        }
+      };
+
+      const stance = startStanceAnalysis(context, abort.signal);
+      try {
+        if (context.mode === 'structured') {
+          const data = await recordTurn(context, await withStance(await generateStructuredAnswer(context, abort.signal), stance));
+          send({ type: 'done', data });
+          return;
+        }
+
+        const completion = getLLMProvider(context.model.provider).stream(buildCompletionRequest(context, abort.signal));
+
+        let answer = '';
+        let tokensUsed: number | undefined;
+
+        for await (const chunk of completion) {
+          if (abort.signal.aborted) break;
+          if (chunk.content) {
+            answer += chunk.content;
+            send({ type: 'token', content: chunk.content });
+          }
+          if (chunk.tokensUsed) {
+            tokensUsed = chunk.tokensUsed;
+          }
+        }
+        if (abort.signal.aborted) return;
+
+        answer = answer || 'No response generated';
+        const data = await recordTurn(context, await withStance(buildAIResponse(context, answer, tokensUsed), stance));
+        send({ type: 'done', data });
+      } catch (error) {
+        if (abort.signal.aborted) return;
+        console.error(`LLM API Error (${context.model.provider}):`, error);
+        send({ type: 'error', error: handleApiError(error).message });
+      } finally {
+        if (!abort.signal.aborted) {
+          try {
+            controller.close();
+          } catch {
+            // Already closed by a cancel that raced the last event
+          }
+        }
+      }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...headers,
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
+
+/**
+ * HTTP status for an error raised while answering
+ */
+export function getErrorStatus(error: unknown): number {
+  if (error instanceof RedditApiError) {
+    return error.status;
+  }
+  if (error && typeof error === 'object' && 'code' in error && error.code === 'insufficient_quota' || 
+      (error && typeof error === 'object' && 'message' in error && typeof error.message === 'string' && error.message.includes('quota'))) {
+    return 429;
+  }
+  if (error && typeof error === 'object' && 'status' in error && error.status === 401 || 
+      (error && typeof error === 'object' && 'message' in error && typeof error.message === 'string' && error.message.includes('API key'))) {
+    return 401;
+  }
+  return 500;
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { getErrorStatus } from '@/lib/answer';
+import { AskRequestError } from '@/lib/ask';
+import { RedditApiError } from '@/lib/reddit';
+import type { ApiErrorCode, ApiErrorResponse } from '@/types';
+
+// HTTP status of each error code, also listed in the OpenAPI document
+export const API_ERROR_STATUS: Record<ApiErrorCode, number> = {
+  invalid_request: 400,
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  rate_limited: 429,
+  internal_error: 500,
+  upstream_error: 502,
+  unavailable: 503,
+};
+
+/**
+ * An error the API reports to the caller as-is
+ */
+export class ApiError extends Error {
+  constructor(public readonly code: ApiErrorCode, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export function apiErrorResponse(code: ApiErrorCode, message: string, headers: Record<string, string> = {}): NextResponse<ApiErrorResponse> {
+  return NextResponse.json({ error: { code, message } }, { status: API_ERROR_STATUS[code], headers });
+}
+
+const ASK_ERROR_CODES: Record<number, ApiErrorCode> = {
+  400: 'invalid_request',
+  404: 'not_found',
+  503: 'unavailable',
+};
+
+/**
+ * Map anything thrown while handling a request to an error envelope. Failures of our own
+ * upstream credentials (Reddit, the model provider) are never reported as the caller's.
+ */
+export function toApiErrorResponse(error: unknown, headers: Record<string, string> = {}): NextResponse<ApiErrorResponse> {
+  if (error instanceof ApiError) {
+    return apiErrorResponse(error.code, error.message, headers);
+  }
+  if (error instanceof AskRequestError) {
+    return apiErrorResponse(ASK_ERROR_CODES[error.status] ?? 'invalid_request', error.message, headers);
+  }
+  if (error instanceof SyntaxError) {
+    return apiErrorResponse('invalid_request', 'Request body must be valid JSON', headers);
+  }
+
+  console.error('API v1 Error:', error);
+
+  if (error instanceof RedditApiError) {
+    if (error.status === 404) return apiErrorResponse('not_found', error.message, headers);
+    if (error.status === 403) return apiErrorResponse('forbidden', error.message, headers);
+    if (error.status === 429) return apiErrorResponse('unavailable', 'Reddit is rate limiting this server. Try again shortly.', headers);
+    return apiErrorResponse('upstream_error', 'Reddit request failed', headers);
+  }
+
+  const status = getErrorStatus(error);
+  if (status === 429) return apiErrorResponse('unavailable', 'The language model provider is over quota. Try again later.', headers);
+  if (status === 401) return apiErrorResponse('upstream_error', 'The language model provider rejected this server\'s credentials', headers);
+  return apiErrorResponse('internal_error', 'An unexpected error occurred', headers);
+}
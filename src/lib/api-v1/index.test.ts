@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryRateLimitStore, setRateLimitStore } from '@/lib/rate-limit';
+import { RedditApiError } from '@/lib/reddit';
+import { ApiError, authorizeApiRequest, toApiErrorResponse } from './index';
+import { findApiKey, getApiKeys } from './keys';
+
+const request = (headers: Record<string, string> = {}) => new Request('http://localhost/api/v1/usage', { headers });
+
+beforeEach(() => {
+  vi.stubEnv('API_KEYS', 'search:secret-key:2, other:other-key');
+  setRateLimitStore(new MemoryRateLimitStore());
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('API keys', () => {
+  it('reads names, keys and daily limits from API_KEYS, skipping malformed entries', () => {
+    vi.stubEnv('API_KEYS', 'search:secret-key:2,other:other-key,broken,:no-name,bad-limit:key:zero');
+
+    expect(getApiKeys().map(key => [key.name, key.dailyLimit])).toEqual([['search', 2], ['other', 1000]]);
+    expect(console.warn).toHaveBeenCalledTimes(3);
+  });
+
+  it('finds the key sent as a bearer token or in X-API-Key', () => {
+    expect(findApiKey(request({ authorization: 'Bearer secret-key' }))?.name).toBe('search');
+    expect(findApiKey(request({ authorization: 'bearer  other-key ' }))?.name).toBe('other');
+    expect(findApiKey(request({ 'x-api-key': 'secret-key' }))?.name).toBe('search');
+  });
+
+  it.each([
+    ['no key', {}],
+    ['an unknown key', { 'x-api-key': 'made-up' }],
+    ['a key under another scheme', { authorization: 'Basic secret-key' }],
+    ['an empty bearer token', { authorization: 'Bearer ' }],
+    ['a key with its name', { 'x-api-key': 'search:secret-key' }],
+  ])('finds nothing for %s', (_name, headers: Record<string, string>) => {
+    expect(findApiKey(request(headers))).toBeNull();
+  });
+});
+
+describe('authorizeApiRequest', () => {
+  it('reports the API as missing while API_KEYS is unset', async () => {
+    vi.stubEnv('API_KEYS', '');
+    const { denied } = await authorizeApiRequest(request({ 'x-api-key': 'secret-key' }));
+
+    expect(denied?.status).toBe(404);
+    expect(await denied?.json()).toEqual({ error: { code: 'not_found', message: 'The API is not enabled on this server' } });
+  });
+
+  it('rejects unknown keys with a 401 envelope', async () => {
+    const { denied } = await authorizeApiRequest(request({ authorization: 'Bearer made-up' }));
+
+    expect(denied?.status).toBe(401);
+    expect(denied?.headers.get('www-authenticate')).toBe('Bearer');
+    expect(await denied?.json()).toEqual({
+      error: { code: 'unauthorized', message: 'A valid API key is required in the Authorization or X-API-Key header' },
+    });
+  });
+
+  it('charges each metered request until the key\'s limit is used up', async () => {
+    const headers = { 'x-api-key': 'secret-key' };
+    const first = await authorizeApiRequest(request(headers));
+    const second = await authorizeApiRequest(request(headers));
+    const third = await authorizeApiRequest(request(headers));
+
+    expect(first.denied ? null : first.usage.remaining).toBe(1);
+    expect(second.denied ? null : second.usage.remaining).toBe(0);
+    expect(third.denied?.status).toBe(429);
+    expect(third.denied?.headers.get('retry-after')).toMatch(/^\d+$/);
+    expect(third.denied?.headers.get('x-ratelimit-remaining')).toBe('0');
+    expect(await third.denied?.json()).toEqual({
+      error: { code: 'rate_limited', message: 'Daily limit of 2 requests reached for this key' },
+    });
+  });
+
+  it('counts each key separately and gives released requests back', async () => {
+    const first = await authorizeApiRequest(request({ 'x-api-key': 'secret-key' }));
+    if (!first.denied) await first.release();
+
+    const usage = await authorizeApiRequest(request({ 'x-api-key': 'secret-key' }), { metered: false });
+    const other = await authorizeApiRequest(request({ 'x-api-key': 'other-key' }), { metered: false });
+
+    expect(usage.denied ? null : usage.usage.remaining).toBe(2);
+    expect(other.denied ? null : other.usage).toMatchObject({ limit: 1000, remaining: 1000 });
+  });
+});
+
+describe('toApiErrorResponse', () => {
+  it.each([
+    [new ApiError('invalid_request', 'limit must be an integer'), 400, 'invalid_request', 'limit must be an integer'],
+    [new SyntaxError('Unexpected token'), 400, 'invalid_request', 'Request body must be valid JSON'],
+    [new RedditApiError('Subreddit r/gone not found', 404), 404, 'not_found', 'Subreddit r/gone not found'],
+    [new RedditApiError('Reddit API error: 429', 429), 503, 'unavailable', 'Reddit is rate limiting this server. Try again shortly.'],
+    [new RedditApiError('Reddit API error: 500', 500), 502, 'upstream_error', 'Reddit request failed'],
+    [new Error('boom'), 500, 'internal_error', 'An unexpected error occurred'],
+  ])('wraps %s in the error envelope', async (error, status, code, message) => {
+    const response = toApiErrorResponse(error, { 'X-RateLimit-Limit': '2' });
+
+    expect(response.status).toBe(status);
+    expect(response.headers.get('x-ratelimit-limit')).toBe('2');
+    expect(await response.json()).toEqual({ error: { code, message } });
+  });
+});
@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { checkRateLimit, rateLimitHeaders, reserveRateLimit } from '@/lib/rate-limit';
+import { apiErrorResponse } from './errors';
+import { apiKeyIdentity, findApiKey, getApiKeys, type ApiKey } from './keys';
+import type { ApiErrorResponse, ApiUsage, RateLimitStatus } from '@/types';
+
+export { ApiError, API_ERROR_STATUS, apiErrorResponse, toApiErrorResponse } from './errors';
+export { buildOpenApiDocument } from './openapi';
+export type { ApiKey } from './keys';
+
+export type ApiAuthorization =
+  | { key: ApiKey; usage: RateLimitStatus; release(count?: number): Promise<void>; denied?: undefined }
+  | { denied: NextResponse<ApiErrorResponse> };
+
+export type ApiReservation =
+  | { usage: RateLimitStatus; release(count?: number): Promise<void>; denied?: undefined }
+  | { denied: NextResponse<ApiErrorResponse> };
+
+const keyClient = (key: ApiKey) => ({ identity: apiKeyIdentity(key), limit: key.dailyLimit });
+
+/**
+ * Reserve `cost` requests of the key's limit, for operations whose cost depends on the request
+ * body; authorize them with `metered: false` first. Call `release` for the requests that fail
+ * before they reach Reddit or the model.
+ */
+export async function reserveApiRequests(key: ApiKey, cost = 1): Promise<ApiReservation> {
+  const reservation = await reserveRateLimit(keyClient(key), cost);
+  if (!reservation.reserved) {
+    const { remaining } = reservation.status;
+    const message = remaining > 0 && cost > remaining
+      ? `This request uses ${cost} requests, but only ${remaining} of this key's daily limit of ${key.dailyLimit} are left`
+      : `Daily limit of ${key.dailyLimit} requests reached for this key`;
+    return { denied: apiErrorResponse('rate_limited', message, rateLimitHeaders(reservation.status, true)) };
+  }
+
+  return { usage: reservation.status, release: reservation.release };
+}
+
+/**
+ * Check the request's API key and, for metered operations, reserve one request of its limit
+ * before any work is done. Call `release` if the request fails before it reaches Reddit or the
+ * model. The API is off while API_KEYS is unset. Per-key limits apply in every environment,
+ * unlike the app's quota.
+ */
+export async function authorizeApiRequest(request: Request, { metered = true }: { metered?: boolean } = {}): Promise<ApiAuthorization> {
+  if (!getApiKeys().length) {
+    return { denied: apiErrorResponse('not_found', 'The API is not enabled on this server') };
+  }
+
+  const key = findApiKey(request);
+  if (!key) {
+    return {
+      denied: apiErrorResponse('unauthorized', 'A valid API key is required in the Authorization or X-API-Key header', {
+        'WWW-Authenticate': 'Bearer',
+      }),
+    };
+  }
+
+  if (!metered) {
+    return { key, usage: await checkRateLimit(keyClient(key)), release: async () => undefined };
+  }
+
+  const reservation = await reserveApiRequests(key);
+  return reservation.denied ? reservation : { key, ...reservation };
+}
+
+export function toApiUsage(key: ApiKey, usage: RateLimitStatus): ApiUsage {
+  return {
+    key: key.name,
+    limit: usage.limit,
+    used: usage.limit - usage.remaining,
+    remaining: usage.remaining,
+    reset_at: usage.resetTime,
+  };
+}
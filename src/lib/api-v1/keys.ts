@@ -0,0 +1,51 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { CONFIG } from '@/lib/constants';
+
+// A key from API_KEYS. Usage is counted per name, so a key can be rotated without resetting it.
+export interface ApiKey {
+  name: string;
+  dailyLimit: number;
+  hash: Buffer;
+}
+
+// Usage bucket in the rate limit store, shared by /api/v1 and the app's own routes
+export const apiKeyIdentity = (key: ApiKey) => `apikey:${key.name}`;
+
+const hashKey = (key: string) => createHash('sha256').update(key).digest();
+
+let parsedKeys: { source: string; keys: ApiKey[] } | null = null;
+
+/**
+ * Keys from API_KEYS: comma-separated "name:key" or "name:key:dailyLimit" entries.
+ * Malformed entries are skipped with a warning.
+ */
+export function getApiKeys(): ApiKey[] {
+  const source = process.env.API_KEYS || '';
+  if (parsedKeys?.source === source) return parsedKeys.keys;
+
+  const keys: ApiKey[] = [];
+  for (const entry of source.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [name, key, limit] = entry.split(':').map(part => part.trim());
+    const dailyLimit = limit ? Number(limit) : CONFIG.API.DEFAULT_DAILY_LIMIT;
+    if (!name || !key || !Number.isInteger(dailyLimit) || dailyLimit < 1) {
+      console.warn(`Ignoring malformed API_KEYS entry for "${name || '(unnamed)'}"`);
+      continue;
+    }
+    keys.push({ name, dailyLimit, hash: hashKey(key) });
+  }
+
+  parsedKeys = { source, keys };
+  return keys;
+}
+
+/**
+ * The key sent as "Authorization: Bearer <key>" or "X-API-Key: <key>", or null if none matches
+ */
+export function findApiKey(request: Request): ApiKey | null {
+  const sent = request.headers.get('x-api-key')?.trim()
+    || request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+  if (!sent) return null;
+
+  const hash = hashKey(sent);
+  return getApiKeys().find(key => timingSafeEqual(key.hash, hash)) ?? null;
+}
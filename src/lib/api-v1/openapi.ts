@@ -0,0 +1,131 @@
+import { API_ENDPOINTS, CONFIG } from '@/lib/constants';
+import { API_ERROR_STATUS } from './errors';
+import generated from './schemas.json';
+import type { ApiErrorCode } from '@/types';
+
+// Schemas are generated from src/types by `npm run openapi`; every name passed to
+// schemaRef is a root for the generator, which adds the types they reference.
+type SchemaName = keyof typeof generated.schemas;
+
+const schemaRef = (name: SchemaName) => ({ $ref: `#/components/schemas/${name}` });
+
+const json = (name: SchemaName) => ({ 'application/json': { schema: schemaRef(name) } });
+
+const USAGE_HEADERS = {
+  'X-RateLimit-Limit': { $ref: '#/components/headers/RateLimitLimit' },
+  'X-RateLimit-Remaining': { $ref: '#/components/headers/RateLimitRemaining' },
+  'X-RateLimit-Reset': { $ref: '#/components/headers/RateLimitReset' },
+};
+
+const ERROR_DESCRIPTIONS: Record<ApiErrorCode, string> = {
+  invalid_request: 'The request body or parameters are invalid',
+  unauthorized: 'The API key is missing or unknown',
+  forbidden: 'The subreddit is private, quarantined or banned',
+  not_found: 'The subreddit or its recent content was not found, or the API is disabled',
+  rate_limited: 'The key has used its daily limit; see Retry-After',
+  internal_error: 'Unexpected server error',
+  upstream_error: 'Reddit or the language model provider failed',
+  unavailable: 'A dependency is over quota or no model is configured; retry later',
+};
+
+// Error responses an operation can return, keyed by HTTP status
+function errors(...codes: ApiErrorCode[]) {
+  return Object.fromEntries(codes.map(code => [
+    String(API_ERROR_STATUS[code]),
+    { description: `\`${code}\`: ${ERROR_DESCRIPTIONS[code]}`, content: json('ApiErrorResponse') },
+  ]));
+}
+
+const METERED_ERRORS = ['unauthorized', 'rate_limited'] as const;
+
+/**
+ * OpenAPI 3.1 description of /api/v1, served at /api/v1/openapi.json
+ */
+export function buildOpenApiDocument(origin?: string) {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Ask Reddit AI API',
+      version: CONFIG.API.VERSION,
+      description: 'Answer questions from recent subreddit discussion and fetch the Reddit data behind them. '
+        + 'Every operation except this document needs an API key. Successful responses wrap their payload in `data`; '
+        + `failures return \`{ "error": { "code", "message" } }\`. Keys have a daily request limit reset every ${CONFIG.RATE_LIMIT.RESET_HOURS} hours.`,
+    },
+    servers: [{ url: `${origin ?? ''}${API_ENDPOINTS.API_V1}` }],
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+    paths: {
+      '/ask': {
+        post: {
+          operationId: 'askQuestion',
+          summary: 'Answer a question from one or more subreddits',
+          description: 'Counts against the key\'s daily limit once the question reaches the model, twice with `stance: true` unless there are too few comments to classify. '
+            + 'Send `stream: true` or `Accept: text/event-stream` to receive `AskQuestionStreamEvent` server-sent events instead of JSON.',
+          requestBody: { required: true, content: json('AskQuestionRequest') },
+          responses: {
+            200: {
+              description: 'The answer with its sources, confidence and context report',
+              headers: USAGE_HEADERS,
+              content: {
+                ...json('ApiAskResponse'),
+                'text/event-stream': { schema: schemaRef('AskQuestionStreamEvent') },
+              },
+            },
+            ...errors('invalid_request', ...METERED_ERRORS, 'forbidden', 'not_found', 'internal_error', 'upstream_error', 'unavailable'),
+          },
+        },
+      },
+      '/reddit-data': {
+        post: {
+          operationId: 'getRedditData',
+          summary: 'Fetch a subreddit\'s top posts and comments for a timeframe',
+          description: 'Counts against the key\'s daily limit when the fetch succeeds. Served from the snapshot cache when a recent fetch exists.',
+          requestBody: { required: true, content: json('RedditDataRequest') },
+          responses: {
+            200: { description: 'Posts, comments and snapshot freshness', headers: USAGE_HEADERS, content: json('ApiRedditDataResponse') },
+            ...errors('invalid_request', ...METERED_ERRORS, 'forbidden', 'not_found', 'internal_error', 'upstream_error', 'unavailable'),
+          },
+        },
+      },
+      '/models': {
+        get: {
+          operationId: 'listModels',
+          summary: 'List the models this server can answer with',
+          responses: {
+            200: { description: 'Available models and the default', content: json('ApiModelsResponse') },
+            ...errors('unauthorized'),
+          },
+        },
+      },
+      '/usage': {
+        get: {
+          operationId: 'getUsage',
+          summary: 'Report the key\'s usage in the current window without using any of it',
+          responses: {
+            200: { description: 'Requests used and remaining', headers: USAGE_HEADERS, content: json('ApiUsageResponse') },
+            ...errors('unauthorized'),
+          },
+        },
+      },
+      '/openapi.json': {
+        get: {
+          operationId: 'getOpenApiDocument',
+          summary: 'This document',
+          security: [],
+          responses: { 200: { description: 'OpenAPI 3.1 document', content: { 'application/json': {} } } },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'Authorization: Bearer <key>' },
+        apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      },
+      headers: {
+        RateLimitLimit: { description: 'Requests allowed per window for this key', schema: { type: 'integer' } },
+        RateLimitRemaining: { description: 'Requests left in the current window', schema: { type: 'integer' } },
+        RateLimitReset: { description: 'When the window resets, in epoch seconds', schema: { type: 'integer' } },
+      },
+      schemas: generated.schemas,
+    },
+  };
+}
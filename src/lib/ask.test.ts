@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AskRequestError, askCost, planAsk, resolveModel, resolveSubreddits } from './ask';
+import { FakeProvider, setLLMProvider } from './llm';
+import type { AskQuestionRequest } from '@/types';
+
+const body = (overrides: Partial<AskQuestionRequest> = {}): AskQuestionRequest => ({
+  subreddit: 'rust',
+  question: 'Is Rust worth learning for backend work?',
+  model: 'fake',
+  ...overrides,
+});
+
+describe('planAsk', () => {
+  beforeEach(() => {
+    setLLMProvider('fake', new FakeProvider());
+  });
+
+  it('leaves the stance analysis out unless it is asked for', () => {
+    const plan = planAsk(body());
+
+    expect(plan.analyzeStance).toBe(false);
+    expect(askCost(plan)).toBe(1);
+  });
+
+  it('charges one more request for the stance analysis', () => {
+    const plan = planAsk(body({ stance: true }));
+
+    expect(plan.analyzeStance).toBe(true);
+    expect(askCost(plan)).toBe(2);
+  });
+
+  it('rejects a stance flag that isn\'t a boolean', () => {
+    expect(() => planAsk(body({ stance: 'yes' as unknown as boolean }))).toThrow(AskRequestError);
+  });
+});
+
+describe('shared request rules', () => {
+  beforeEach(() => {
+    setLLMProvider('fake', new FakeProvider());
+  });
+
+  it('validates subreddit lists the same way for every route', () => {
+    expect(resolveSubreddits('rust+golang')).toEqual(['rust', 'golang']);
+    expect(() => resolveSubreddits(['rust', 7])).toThrow('Subreddit name is required');
+    expect(() => resolveSubreddits('a+b+c+d+e+f')).toThrow(AskRequestError);
+  });
+
+  it('rejects unknown and non-string model IDs', () => {
+    expect(resolveModel('fake').id).toBe('fake');
+    expect(() => resolveModel('gpt-9')).toThrow('Invalid model specified');
+    expect(() => resolveModel({ id: 'fake' })).toThrow('Invalid model specified');
+  });
+});
@@ -0,0 +1,157 @@
+import { CONFIG, ERROR_MESSAGES, TIMEFRAMES, RETRIEVAL_MODES, ANSWER_MODES } from './constants';
+import { isOwnKey, parseSubreddits, validateQuestion, validateSubreddit, buildSearchQuery } from './utils';
+import { buildRedditContext } from './context';
+import { createConversation } from './conversations';
+import { getMultiSubredditSnapshot } from './reddit';
+import { canAnalyzeStance } from './stance';
+import { getModel, getDefaultModel, isProviderConfigured } from './llm';
+import type { ModelDefinition } from './llm';
+import type { AnswerContext } from './answer';
+import type { AnswerMode, AskQuestionRequest, RetrievalMode, Timeframe } from '@/types';
+
+/**
+ * A question that can't be answered as asked, with the HTTP status to report
+ */
+export class AskRequestError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'AskRequestError';
+  }
+}
+
+// An ask request after validation, with its model resolved
+export interface AskPlan {
+  subreddits: string[];
+  question: string;
+  timeframe: Timeframe;
+  retrieval: RetrievalMode;
+  mode: AnswerMode;
+  model: ModelDefinition;
+  analyzeStance: boolean;
+}
+
+/**
+ * Subreddit names from a name, a list or Reddit's "a+b+c" syntax, validated
+ */
+export function resolveSubreddits(subreddit: unknown): string[] {
+  const subreddits = parseSubreddits(subreddit);
+  const invalidSubreddit = subreddits.map(validateSubreddit).find(validation => !validation.isValid);
+  if (!subreddits.length || invalidSubreddit) {
+    throw new AskRequestError(invalidSubreddit?.error || 'Subreddit name is required', 400);
+  }
+  if (subreddits.length > CONFIG.REDDIT.MAX_SUBREDDITS) {
+    throw new AskRequestError(ERROR_MESSAGES.TOO_MANY_SUBREDDITS, 400);
+  }
+  return subreddits;
+}
+
+export function resolveTimeframe(timeframe: unknown = CONFIG.REDDIT.DEFAULT_TIMEFRAME): Timeframe {
+  if (!isOwnKey(TIMEFRAMES, timeframe)) {
+    throw new AskRequestError('Invalid timeframe specified', 400);
+  }
+  return timeframe;
+}
+
+/**
+ * The requested model, or the default one, as long as its provider is configured
+ */
+export function resolveModel(modelId: unknown): ModelDefinition {
+  const model = modelId ? (typeof modelId === 'string' ? getModel(modelId) : undefined) : getDefaultModel();
+  if (!model) {
+    throw new AskRequestError(modelId ? 'Invalid model specified' : 'No language model is configured', modelId ? 400 : 503);
+  }
+  if (!isProviderConfigured(model.provider)) {
+    throw new AskRequestError(`Model ${model.id} is not available on this server`, 400);
+  }
+  return model;
+}
+
+/**
+ * Validate an ask request and resolve its model, before any quota is checked
+ */
+export function planAsk(body: AskQuestionRequest): AskPlan {
+  const {
+    subreddit,
+    question,
+    model: modelId,
+    timeframe,
+    retrieval = CONFIG.REDDIT.DEFAULT_RETRIEVAL,
+    mode = CONFIG.LLM.DEFAULT_ANSWER_MODE,
+    stance = false,
+  } = body;
+
+  if (!subreddit || !question) {
+    throw new AskRequestError('Subreddit and question are required', 400);
+  }
+
+  const questionValidation = validateQuestion(question);
+  if (!questionValidation.isValid) {
+    throw new AskRequestError(questionValidation.error || 'Question is required', 400);
+  }
+
+  const subreddits = resolveSubreddits(subreddit);
+  const resolvedTimeframe = resolveTimeframe(timeframe);
+
+  if (!isOwnKey(RETRIEVAL_MODES, retrieval)) {
+    throw new AskRequestError('Invalid retrieval mode specified', 400);
+  }
+  if (!isOwnKey(ANSWER_MODES, mode)) {
+    throw new AskRequestError('Invalid answer mode specified', 400);
+  }
+  if (typeof stance !== 'boolean') {
+    throw new AskRequestError('stance must be true or false', 400);
+  }
+
+  const model = resolveModel(modelId);
+
+  return { subreddits, question, timeframe: resolvedTimeframe, retrieval, mode, model, analyzeStance: stance };
+}
+
+/**
+ * Requests an ask counts against the quota: one for the answer, and one for the stance
+ * analysis when it is asked for. Routes refund the second when the context turns out to
+ * have too few comments to classify (see AnswerContext.analyzeStance).
+ */
+export function askCost(plan: AskPlan): number {
+  return plan.analyzeStance ? 2 : 1;
+}
+
+/**
+ * Fetch the subreddits, fit their content into the model's budget and start a
+ * conversation for follow-ups
+ */
+export async function prepareAnswerContext(plan: AskPlan): Promise<AnswerContext> {
+  const { subreddits, question, timeframe, retrieval, mode, model, analyzeStance } = plan;
+
+  // Fetch all subreddits concurrently (no HTTP request to our own API)
+  console.log(`🔍 Processing question for ${subreddits.map(name => `r/${name}`).join(', ')}: ${question}`);
+  const query = retrieval === 'best_match' ? buildSearchQuery(question, CONFIG.REDDIT.SEARCH_TERMS) : undefined;
+  const { datasets, snapshot } = await getMultiSubredditSnapshot(subreddits, { timeframe, limit: 25, query: query || undefined });
+
+  if (!datasets.some(data => data.posts.length)) {
+    throw new AskRequestError('No recent content available for this subreddit', 404);
+  }
+
+  // Fit the content into the model's context budget, sharing it across subreddits
+  const redditContent = buildRedditContext(datasets, { contextWindow: model.contextWindow, question });
+
+  if (!redditContent.text || redditContent.text.length < 100) {
+    throw new AskRequestError('Insufficient recent content in this subreddit', 404);
+  }
+
+  // Keep the snapshot so follow-up questions can reuse it
+  const conversation = await createConversation({ subreddits, timeframe, retrieval, model: model.id, datasets, snapshot });
+
+  return {
+    question,
+    subreddits,
+    timeframe,
+    retrieval,
+    mode,
+    model,
+    redditContent,
+    snapshot,
+    conversationId: conversation.id,
+    analyzeStance: analyzeStance && canAnalyzeStance(redditContent),
+  };
+}
@@ -0,0 +1,68 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FileCacheStore } from './file-store';
+
+let directory: string;
+
+const files = async () => (await fs.readdir(directory)).sort();
+
+// Backdate a file's modification time by `ageMs`
+const age = async (name: string, ageMs: number) => {
+  const time = new Date(Date.now() - ageMs);
+  await fs.utimes(path.join(directory, name), time, time);
+};
+
+describe('FileCacheStore', () => {
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'snapshot-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('round-trips entries', async () => {
+    const store = new FileCacheStore(directory);
+    await store.set('key', { value: { posts: 1 }, storedAt: Date.now() });
+
+    expect((await store.get<{ posts: number }>('key'))?.value).toEqual({ posts: 1 });
+    expect(await store.get('missing')).toBeNull();
+  });
+
+  it('never serves entries older than maxAgeMs', async () => {
+    const store = new FileCacheStore(directory, { maxAgeMs: 1000 });
+    await store.set('key', { value: 'old', storedAt: Date.now() - 2000 });
+
+    expect(await store.get('key')).toBeNull();
+  });
+
+  it('prunes expired files and the least recently written beyond maxEntries', async () => {
+    const store = new FileCacheStore(directory, { maxEntries: 2, maxAgeMs: 60_000, pruneIntervalMs: Infinity });
+    for (const key of ['a', 'b', 'c', 'd']) {
+      await store.set(key, { value: key, storedAt: Date.now() });
+    }
+    const [first, second, third, fourth] = await files();
+    await age(first, 120_000);
+    await age(second, 30_000);
+    await age(third, 20_000);
+    await age(fourth, 10_000);
+    await fs.writeFile(path.join(directory, 'crashed.json.123.tmp'), '{');
+    await age('crashed.json.123.tmp', 120_000);
+
+    await store.prune();
+
+    expect(await files()).toEqual([third, fourth].sort());
+  });
+
+  it('prunes on write once the interval has passed', async () => {
+    const store = new FileCacheStore(directory, { maxEntries: 1, pruneIntervalMs: 0 });
+    await store.set('a', { value: 'a', storedAt: Date.now() });
+    await age((await files())[0], 10_000);
+    await store.set('b', { value: 'b', storedAt: Date.now() });
+
+    expect(await files()).toHaveLength(1);
+    expect((await store.get('b'))?.value).toBe('b');
+  });
+});
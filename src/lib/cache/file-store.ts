@@ -0,0 +1,79 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CONFIG } from '@/lib/constants';
+import type { CacheEntry, CacheStore } from './types';
+
+export interface FileCacheOptions {
+  maxEntries: number; // The least recently written files beyond this are removed
+  maxAgeMs: number; // Entries stored longer ago than this are never served and their files are removed
+  pruneIntervalMs: number; // How often a write checks the directory for files to remove
+}
+
+const DEFAULT_OPTIONS: FileCacheOptions = {
+  maxEntries: CONFIG.CACHE.FILE_MAX_ENTRIES,
+  maxAgeMs: CONFIG.CACHE.FILE_MAX_AGE_HOURS * 60 * 60 * 1000,
+  pruneIntervalMs: 10 * 60 * 1000,
+};
+
+// One JSON file per key, so snapshots survive restarts and can be shared by workers on one host
+export class FileCacheStore implements CacheStore {
+  private readonly options: FileCacheOptions;
+  private lastPrunedAt = 0;
+
+  constructor(private readonly directory: string, options: Partial<FileCacheOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  private pathFor(key: string): string {
+    return path.join(this.directory, `${createHash('sha256').update(key).digest('hex').slice(0, 40)}.json`);
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    try {
+      const entry = JSON.parse(await fs.readFile(this.pathFor(key), 'utf8')) as CacheEntry<T>;
+      return Date.now() - entry.storedAt < this.options.maxAgeMs ? entry : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    const filePath = this.pathFor(key);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(entry));
+    await fs.rename(tempPath, filePath);
+
+    if (Date.now() - this.lastPrunedAt >= this.options.pruneIntervalMs) {
+      this.lastPrunedAt = Date.now();
+      await this.prune().catch(error => console.error(`Failed to prune ${this.directory}:`, error));
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.pathFor(key), { force: true });
+  }
+
+  /**
+   * Remove files older than maxAgeMs, including temp files left by a crash,
+   * then the least recently written ones beyond maxEntries
+   */
+  async prune(): Promise<void> {
+    const names = await fs.readdir(this.directory).catch(() => [] as string[]);
+    const files = await Promise.all(names.map(async name => {
+      const filePath = path.join(this.directory, name);
+      const stats = await fs.stat(filePath).catch(() => null);
+      return stats?.isFile() ? { filePath, modifiedAt: stats.mtimeMs } : null;
+    }));
+
+    const now = Date.now();
+    const expired = files
+      .filter((file): file is { filePath: string; modifiedAt: number } => file !== null)
+      .sort((a, b) => b.modifiedAt - a.modifiedAt)
+      .filter((file, index) => index >= this.options.maxEntries || now - file.modifiedAt >= this.options.maxAgeMs);
+
+    await Promise.all(expired.map(file => fs.rm(file.filePath, { force: true })));
+  }
+}
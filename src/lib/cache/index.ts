@@ -0,0 +1,87 @@
+import path from 'path';
+import { MemoryCacheStore } from './memory-store';
+import { FileCacheStore } from './file-store';
+import type { CacheStore } from './types';
+
+export { MemoryCacheStore } from './memory-store';
+export { FileCacheStore } from './file-store';
+export type { FileCacheOptions } from './file-store';
+export type { CacheStore, CacheEntry } from './types';
+
+export interface CachedResult<T> {
+  value: T;
+  cached: boolean; // Served from the cache rather than loaded for this call
+  storedAt: number;
+}
+
+export interface CacheOptions {
+  ttlMs: number; // Entries younger than this are served as-is
+  staleMs: number; // Older entries are served within this extra window while refreshing in the background
+}
+
+let sharedStore: CacheStore | null = null;
+
+// Loads in progress, so concurrent misses and refreshes for one key share a single fetch
+const inFlight = new Map<string, Promise<unknown>>();
+
+/**
+ * Store selected by SNAPSHOT_CACHE_STORE ('memory' or 'file'), created on first use
+ */
+export function getCacheStore(): CacheStore {
+  if (!sharedStore) {
+    sharedStore = process.env.SNAPSHOT_CACHE_STORE === 'file'
+      ? new FileCacheStore(process.env.SNAPSHOT_CACHE_DIR || path.join(process.cwd(), '.data', 'snapshots'))
+      : new MemoryCacheStore();
+  }
+  return sharedStore;
+}
+
+/**
+ * Replace the shared store, e.g. with a pre-seeded one in tests
+ */
+export function setCacheStore(store: CacheStore): void {
+  sharedStore = store;
+}
+
+async function load<T>(store: CacheStore, key: string, loader: () => Promise<T>): Promise<{ value: T; storedAt: number }> {
+  const pending = inFlight.get(key) as Promise<{ value: T; storedAt: number }> | undefined;
+  if (pending) return pending;
+
+  const task = (async () => {
+    const value = await loader();
+    const entry = { value, storedAt: Date.now() };
+    await store.set(key, entry);
+    return entry;
+  })();
+
+  inFlight.set(key, task);
+  try {
+    return await task;
+  } finally {
+    inFlight.delete(key);
+  }
+}
+
+/**
+ * Read through the cache with stale-while-revalidate semantics
+ */
+export async function getOrLoad<T>(key: string, loader: () => Promise<T>, options: CacheOptions): Promise<CachedResult<T>> {
+  const store = getCacheStore();
+  const entry = await store.get<T>(key);
+
+  if (entry) {
+    const age = Date.now() - entry.storedAt;
+
+    if (age < options.ttlMs) {
+      return { value: entry.value, cached: true, storedAt: entry.storedAt };
+    }
+
+    if (age < options.ttlMs + options.staleMs) {
+      load(store, key, loader).catch(error => console.error(`Background refresh failed for ${key}:`, error));
+      return { value: entry.value, cached: true, storedAt: entry.storedAt };
+    }
+  }
+
+  const fresh = await load(store, key, loader);
+  return { value: fresh.value, cached: false, storedAt: fresh.storedAt };
+}
@@ -0,0 +1,11 @@
+export interface CacheEntry<T> {
+  value: T;
+  storedAt: number; // Epoch ms
+}
+
+// Storage backend for cached snapshots
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,61 @@
+import { CONFIG } from './constants';
+import { getLLMProvider } from './llm';
+import type { ChatMessage, ModelDefinition } from './llm';
+import { stripCitations } from './utils';
+import type { CompareColumn, SubredditComparison } from '@/types';
+
+function buildMessages(question: string, columns: CompareColumn[]): ChatMessage[] {
+  const answers = columns
+    .map(column => `===== r/${column.subreddit} =====\n${stripCitations(column.answer!.answer)}`)
+    .join('\n\n');
+
+  return [
+    {
+      role: 'system',
+      content: `You compare how different subreddits answered the same question. You are given one answer per subreddit, each summarizing that community's discussions.
+
+Write the comparison in this format:
+
+## Where they agree
+
+One paragraph or a short list of bullet points.
+
+## Where they differ
+
+Bullet points, each naming the subreddits involved (e.g. "r/frugal favors ..., while r/personalfinance ...").
+
+Guidelines:
+- Only use what the answers below say; don't add outside knowledge
+- Name subreddits as r/name
+- If they agree on little or nothing, say so rather than stretching
+- Keep it under 300 words`,
+    },
+    { role: 'user', content: `Question: ${question}\n\n${answers}` },
+  ];
+}
+
+/**
+ * Synthesize where the subreddits' answers agree and disagree. Needs at least two
+ * answered columns; returns null otherwise.
+ */
+export async function generateComparison(
+  question: string,
+  columns: CompareColumn[],
+  model: ModelDefinition
+): Promise<SubredditComparison | null> {
+  const answered = columns.filter(column => column.answer);
+  if (answered.length < 2) return null;
+
+  const completion = await getLLMProvider(model.provider).complete({
+    model: model.providerModel,
+    messages: buildMessages(question, answered),
+    maxTokens: CONFIG.LLM.MAX_TOKENS,
+    temperature: CONFIG.LLM.TEMPERATURE,
+  });
+
+  return {
+    answer: completion.content || 'No comparison generated',
+    model: model.id,
+    tokens_used: completion.tokensUsed,
+  };
+}
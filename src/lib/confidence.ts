@@ -0,0 +1,104 @@
+import { CONFIG } from './constants';
+import { extractKeywords } from './utils';
+import type { ConfidenceFactor, ExtractedContent } from '@/types';
+
+// Phrases the model uses when the Reddit content doesn't answer the question
+const UNCOVERED_PATTERNS = [
+  /(?:does not|doesn't|do not|don't|did not|didn't) (?:directly |adequately |specifically |fully )?(?:address|cover|discuss|mention|answer)/i,
+  /(?:not enough|insufficient|limited|no relevant|little relevant) (?:information|content|discussion|data)/i,
+  /(?:unable|not able) to (?:find|determine|answer)/i,
+  /no (?:posts|comments|discussions) (?:directly |specifically )?(?:address|mention|discuss)/i,
+];
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function average(values: number[]): number {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+/**
+ * Whether the answer admits that the Reddit content doesn't cover the question
+ */
+export function answerAdmitsNoCoverage(answer: string): boolean {
+  return UNCOVERED_PATTERNS.some(pattern => pattern.test(answer));
+}
+
+/**
+ * Score how far an answer can be trusted, from the content it was built on.
+ * Returns the overall 0-1 score along with each contributing factor.
+ */
+export function calculateConfidence(
+  question: string,
+  content: ExtractedContent,
+  answer: string
+): { confidence: number; breakdown: ConfidenceFactor[] } {
+  const { WEIGHTS, TARGET_ITEMS, TARGET_SCORE, UNCOVERED_CAP } = CONFIG.CONFIDENCE;
+  const { posts, comments } = content;
+
+  // Content volume: how much material survived extraction
+  const itemCount = posts.length + comments.length;
+  const volume = clamp(itemCount / TARGET_ITEMS);
+
+  // Engagement: log-scaled upvotes across all items, plus post upvote ratios
+  const scores = [...posts.map(post => post.score), ...comments.map(comment => comment.score)];
+  const scoreSignal = average(scores.map(score => clamp(Math.log10(1 + Math.max(0, score)) / Math.log10(1 + TARGET_SCORE))));
+  const ratioSignal = posts.length ? average(posts.map(post => post.upvote_ratio)) : scoreSignal;
+  const engagement = clamp(scoreSignal * 0.7 + ratioSignal * 0.3);
+
+  // Relevance: share of question keywords that appear in the content
+  const questionKeywords = Array.from(new Set(extractKeywords(question)));
+  const contentKeywords = new Set(extractKeywords(content.text));
+  const matched = questionKeywords.filter(keyword => contentKeywords.has(keyword));
+  const relevance = questionKeywords.length ? matched.length / questionKeywords.length : 0.5;
+
+  // Answer coverage: whether the model flagged the content as insufficient
+  const uncovered = answerAdmitsNoCoverage(answer);
+  const coverage = uncovered ? 0.2 : 1;
+
+  const breakdown: ConfidenceFactor[] = [
+    {
+      name: 'content_volume',
+      label: 'Content volume',
+      score: volume,
+      weight: WEIGHTS.content_volume,
+      detail: `${posts.length} posts and ${comments.length} comments used`,
+    },
+    {
+      name: 'engagement',
+      label: 'Community engagement',
+      score: engagement,
+      weight: WEIGHTS.engagement,
+      detail: posts.length
+        ? `Average ${Math.round(average(scores))} upvotes, ${Math.round(ratioSignal * 100)}% upvote ratio`
+        : `Average ${Math.round(average(scores))} upvotes`,
+    },
+    {
+      name: 'relevance',
+      label: 'Question match',
+      score: relevance,
+      weight: WEIGHTS.relevance,
+      detail: questionKeywords.length
+        ? `${matched.length} of ${questionKeywords.length} question keywords found in discussions`
+        : 'Question has no distinctive keywords to match',
+    },
+    {
+      name: 'answer_coverage',
+      label: 'Answer coverage',
+      score: coverage,
+      weight: WEIGHTS.answer_coverage,
+      detail: uncovered
+        ? 'The AI noted the discussions do not fully cover this question'
+        : 'The AI found the discussions relevant to the question',
+    },
+  ];
+
+  const weighted = breakdown.reduce((sum, factor) => sum + factor.score * factor.weight, 0);
+  const confidence = uncovered ? Math.min(weighted, UNCOVERED_CAP) : weighted;
+
+  return {
+    confidence: Math.round(confidence * 100) / 100,
+    breakdown: breakdown.map(factor => ({ ...factor, score: Math.round(factor.score * 100) / 100 })),
+  };
+}
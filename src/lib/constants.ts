@@ -1,69 +1,58 @@
-import { PopularSubreddit, TrendingQuestion } from '@/types';
+import { PopularSubreddit, TrendingQuestion, Timeframe, RetrievalMode, AnswerMode, Stance, DigestMood, SubscriptionStyle, ExportFormat } from '@/types';
 
-// Popular subreddits with descriptions
+// Suggested subreddits. Live member counts, icons and flags come from /api/subreddits.
 export const POPULAR_SUBREDDITS: PopularSubreddit[] = [
   {
     name: 'AskReddit',
     description: 'Open-ended questions for discussion',
-    subscribers: '45M',
   },
   {
     name: 'technology',
     description: 'Latest tech news and discussions',
-    subscribers: '14M',
   },
   {
     name: 'programming',
     description: 'Computer programming discussions',
-    subscribers: '5M',
   },
-  { 
+  {
     name: 'wallstreetbets',
     description: 'Wall Street Bets discussions',
-    subscribers: '1.5M',
   },
-  { name: 'cursor',
+  {
+    name: 'cursor',
     description: 'Cursor discussions',
-    subscribers: '500M',
   },
   {
     name: 'science',
     description: 'Science news and research',
-    subscribers: '28M',
   },
   {
     name: 'investing',
     description: 'Investment strategies and market analysis',
-    subscribers: '2M',
   },
   {
     name: 'entrepreneur',
     description: 'Entrepreneurship and startup discussions',
-    subscribers: '1M',
   },
   {
     name: 'MachineLearning',
     description: 'ML research and applications',
-    subscribers: '2.5M',
   },
   {
     name: 'cryptocurrency',
     description: 'Crypto news and analysis',
-    subscribers: '6M',
   },
   {
     name: 'startups',
     description: 'Startup ecosystem discussions',
-    subscribers: '1.5M',
   },
   {
     name: 'datascience',
     description: 'Data science and analytics',
-    subscribers: '1.8M',
   },
 ];
 
-// Sample trending questions
+// Shown when trending questions can't be built from live Reddit activity, e.g. offline
 export const TRENDING_QUESTIONS: TrendingQuestion[] = [
   {
     id: '1',
@@ -102,17 +91,181 @@ export const TRENDING_QUESTIONS: TrendingQuestion[] = [
   },
 ];
 
+// Time windows a question can cover. `redditParam` is the smallest Reddit `t` window
+// containing it; results are then filtered on created_utc to the exact number of hours.
+export const TIMEFRAMES: Record<Timeframe, {
+  label: string;
+  redditParam: 'day' | 'week' | 'month' | 'year' | 'all';
+  hours: number | null;
+}> = {
+  '24h': { label: '24 hours', redditParam: 'day', hours: 24 },
+  '48h': { label: '48 hours', redditParam: 'week', hours: 48 },
+  'week': { label: 'Week', redditParam: 'week', hours: 24 * 7 },
+  'month': { label: 'Month', redditParam: 'month', hours: 24 * 30 },
+  'year': { label: 'Year', redditParam: 'year', hours: 24 * 365 },
+  'all': { label: 'All time', redditParam: 'all', hours: null },
+};
+
+export const RETRIEVAL_MODES: Record<RetrievalMode, { label: string; description: string }> = {
+  latest: { label: 'Latest discussions', description: 'Top posts in the chosen timeframe' },
+  best_match: { label: 'Best matching discussions', description: 'Also searches each subreddit for your question' },
+};
+
+export const ANSWER_MODES: Record<AnswerMode, { label: string; description: string }> = {
+  prose: { label: 'Written answer', description: 'A readable answer in paragraphs' },
+  structured: { label: 'Structured breakdown', description: 'Summary, key points, consensus, dissent, quotes and open questions' },
+};
+
+export const STANCES: Record<Stance, { label: string; description: string }> = {
+  for: { label: 'For', description: 'Agrees with the question\'s premise or answers it with yes' },
+  against: { label: 'Against', description: 'Disagrees with the premise or answers it with no' },
+  neutral: { label: 'Mixed', description: 'On topic but balanced, conditional or undecided' },
+  off_topic: { label: 'Off topic', description: 'Doesn\'t address the question' },
+};
+
+export const DIGEST_MOODS: Record<DigestMood, { label: string }> = {
+  positive: { label: 'Upbeat' },
+  negative: { label: 'Frustrated' },
+  mixed: { label: 'Divided' },
+  neutral: { label: 'Calm' },
+};
+
+export const SUBSCRIPTION_STYLES: Record<SubscriptionStyle, { label: string; description: string }> = {
+  digest: { label: 'Digest', description: 'Topics, threads and mood; no question needed' },
+  prose: { label: 'Written answer', description: 'An answer to the subscription\'s question with citations' },
+  structured: { label: 'Structured breakdown', description: 'The question answered as summary, key points, consensus and dissent' },
+};
+
+// `note` is shown under the format's label in the export menu
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; contentType: string; note?: string }> = {
+  markdown: { label: 'Markdown', extension: 'md', contentType: 'text/markdown; charset=utf-8' },
+  json: { label: 'JSON', extension: 'json', contentType: 'application/json; charset=utf-8' },
+  pdf: {
+    label: 'PDF',
+    extension: 'pdf',
+    contentType: 'application/pdf',
+    note: 'Western European text only; emoji and other scripts print as "?"',
+  },
+};
+
 // Configuration constants
 export const CONFIG = {
   REDDIT: {
     DEFAULT_LIMIT: 25,
     MAX_LIMIT: 100,
     DEFAULT_TIMEFRAME: '24h' as const,
+    MAX_SUBREDDITS: 5, // Per question
+    COMMENT_POSTS: 5, // Fetch comments for this many top posts
+    COMMENTS_PER_POST: 10,
+    COMMENT_DEPTH: 3, // Reply levels kept below each top-level comment
+    MORE_CHILDREN_BATCH: 100, // Reddit's cap on ids per /api/morechildren call
+    MORE_CHILDREN_REQUESTS: 2, // Calls per post spent expanding "load more" stubs
+    DEFAULT_RETRIEVAL: 'latest' as const,
+    SEARCH_TERMS: 6, // Question keywords sent to Reddit search
+    MIN_COMMENT_SCORE: 1, // Drop comments voted down to 0 or below
+    USER_AGENT: 'ask-rddt-ai by /u/Witty_Ticket_4101',
+    AUTH_BASE_URL: 'https://www.reddit.com',
+    API_BASE_URL: 'https://oauth.reddit.com',
+    ABOUT_TTL_SECONDS: 60 * 60, // Subreddit lookups are fresh for an hour
+    SEARCH_TTL_SECONDS: 10 * 60,
+    AUTOCOMPLETE_LIMIT: 8,
+    MAX_RETRIES: 2, // Retries of a request Reddit answers with 429 or 5xx
+    RETRY_BASE_MS: 1000, // Doubled on each retry, unless Reddit says how long to wait
+    MAX_RETRY_WAIT_MS: 10000, // Give up rather than wait longer than this
+    TOKEN_EXPIRY_MARGIN_SECONDS: 60, // Renew the OAuth token this long before it expires
+  },
+  CACHE: {
+    TTL_SECONDS: 5 * 60, // Snapshots are fresh for 5 minutes
+    STALE_SECONDS: 25 * 60, // then served while refreshing for up to 25 more
+    FILE_MAX_ENTRIES: 2000, // The file store removes the least recently written snapshots beyond this
+    FILE_MAX_AGE_HOURS: 24, // and any older than this, well past the longest stale window
   },
-  OPENAI: {
-    DEFAULT_MODEL: 'gpt-4o-mini' as const,
+  LLM: {
+    DEFAULT_MODEL: 'gpt-4o-mini', // Overridden by LLM_DEFAULT_MODEL
     MAX_TOKENS: 4000,
     TEMPERATURE: 0.7,
+    DEFAULT_ANSWER_MODE: 'prose' as const,
+    STRUCTURED_ATTEMPTS: 3, // First try plus repair requests when the reply fails validation
+  },
+  TRENDING: {
+    REFRESH_MINUTES: 30, // Overridden by TRENDING_REFRESH_MINUTES; 0 turns the schedule off
+    POSTS_PER_LISTING: 25, // From each subreddit's hot and top-of-the-day listings
+    MAX_PER_SUBREDDIT: 2,
+    MAX_QUESTIONS: 8,
+    TAGS: 3,
+    COMMENT_WEIGHT: 3, // A comment counts as this many upvotes of engagement
+  },
+  DIGEST: {
+    MAX_POSTS: 30, // Most upvoted posts clustered into topics
+    MAX_TOPICS: 6,
+    MIN_SIMILARITY: 0.12, // Cosine similarity needed to merge two topics
+    POST_CHARS: 300, // Post text shown to the model per thread
+    COMMENTS_PER_POST: 2,
+    COMMENT_CHARS: 200,
+    THREADS_PER_TOPIC: 5,
+    COMMENT_WEIGHT: 3, // A comment counts as this many upvotes when ranking topics
+  },
+  SUBSCRIPTIONS: {
+    TICK_SECONDS: 60, // How often the scheduler looks for due runs and retries
+    MIN_INTERVAL_MINUTES: 60, // Shortest gap allowed between scheduled runs
+    MAX_SUBSCRIPTIONS: 100,
+    MAX_RECIPIENTS: 10,
+    MAX_ATTEMPTS: 4, // First try plus retries
+    RETRY_DELAYS_MINUTES: [1, 5, 30], // Wait before each retry
+    DELIVERIES_KEPT: 50, // Delivery history per subscription
+    WEBHOOK_TIMEOUT_MS: 10000,
+    SMTP_TIMEOUT_MS: 15000,
+  },
+  STANCE: {
+    MAX_COMMENTS: 40, // Highest-scoring selected comments sent for classification
+    MAX_COMMENT_CHARS: 500,
+    MIN_ON_TOPIC: 3, // Fewer on-topic comments than this and no breakdown is returned
+    REPRESENTATIVES: 3, // Comments shown per side
+    MAX_TOKENS: 1500,
+  },
+  CONTEXT: {
+    MAX_CONTEXT_TOKENS: 12000, // Ceiling on Reddit content per prompt, even for large windows
+    PROMPT_RESERVE_TOKENS: 1000, // Instructions and the question itself
+    CHARS_PER_TOKEN: 4,
+    MAX_ITEM_TOKENS: 400, // Longer posts and comments are cut to this
+    MIN_ITEM_TOKENS: 40, // Don't squeeze an item into less room than this
+    HISTORY_SHARE: 0.4, // Most of the budget follow-up history may take from Reddit content
+  },
+  CONVERSATION: {
+    MAX_TURNS: 10, // The first question plus follow-ups
+    TTL_HOURS: 24, // Idle conversations expire after this
+    FILE_MAX_ENTRIES: 2000, // The file store removes the least recently updated conversations beyond this
+  },
+  SHARING: {
+    TTL_DAYS: 30, // Shared links stop working after this; the page says when
+    MAX_SHARES: 5000, // Publishing is refused, not evicting older links, once this many are live
+    MAX_PER_DAY: 20, // Shares each client may publish per RATE_LIMIT.RESET_HOURS
+  },
+  EXPORT: {
+    MAX_ANSWERS: 50, // Per export
+    MAX_ANSWER_LENGTH: 20000, // Characters per answer
+    MAX_TOTAL_LENGTH: 500000, // Characters across every question and answer in one export
+  },
+  CONFIDENCE: {
+    WEIGHTS: {
+      content_volume: 0.25,
+      engagement: 0.2,
+      relevance: 0.3,
+      answer_coverage: 0.25,
+    },
+    TARGET_ITEMS: 20, // Posts + comments needed for full volume score
+    TARGET_SCORE: 500, // Upvotes at which an item counts as fully engaged
+    UNCOVERED_CAP: 0.5, // Ceiling when the model says the content doesn't cover the question
+  },
+  RANKING: {
+    WEIGHTS: {
+      relevance: 0.6,
+      popularity: 0.3,
+      recency: 0.1,
+    },
+    BM25_K1: 1.2,
+    BM25_B: 0.75,
+    RECENCY_HALF_LIFE_HOURS: 24 * 7,
   },
   UI: {
     DEBOUNCE_DELAY: 300,
@@ -120,15 +273,21 @@ export const CONFIG = {
     TOAST_DURATION: 4000,
   },
   STORAGE: {
-    SAVED_ANSWERS_KEY: 'ask-reddit-ai-saved-answers',
+    LIBRARY_KEY: 'ask-reddit-ai-library',
+    LEGACY_SAVED_ANSWERS_KEY: 'ask-reddit-ai-saved-answers', // Question and answer text only; migrated into the library
     PREFERENCES_KEY: 'ask-reddit-ai-preferences',
-    RATE_LIMIT_KEY: 'ask-reddit-ai-rate-limit',
-    MAX_SAVED_ANSWERS: 50,
+    SHARES_KEY: 'ask-reddit-ai-shares', // Owner tokens of answers published from this browser
+    MAX_SAVED_ANSWERS: 200,
+    MAX_TAGS: 10, // Per saved answer
   },
   RATE_LIMIT: {
     MAX_REQUESTS: 3,
     RESET_HOURS: 24,
   },
+  API: {
+    VERSION: '1.0.0', // OpenAPI document version of /api/v1
+    DEFAULT_DAILY_LIMIT: 1000, // Requests per key per RATE_LIMIT.RESET_HOURS, unless API_KEYS sets one
+  },
   CONTACT: {
     LINKEDIN: 'https://www.linkedin.com/in/vladimir-bichev-383b1525/',
     GITHUB: 'https://github.com/Bichev/ask-reddit-ai',
@@ -139,8 +298,19 @@ export const CONFIG = {
 // API endpoints
 export const API_ENDPOINTS = {
   ASK_QUESTION: '/api/ask-question',
+  RATE_LIMIT: '/api/rate-limit',
+  MODELS: '/api/models',
+  FOLLOW_UP: '/api/follow-up',
+  COMPARE: '/api/compare',
+  SUBREDDITS: '/api/subreddits',
+  TRENDING: '/api/trending',
+  DIGEST: '/api/digest',
+  SUBSCRIPTIONS: '/api/subscriptions',
+  SHARES: '/api/shares',
+  EXPORT: '/api/export',
   FETCH_REDDIT_DATA: '/api/reddit-data',
   HEALTH_CHECK: '/api/health',
+  API_V1: '/api/v1',
 } as const;
 
 // Error messages
@@ -148,13 +318,29 @@ export const ERROR_MESSAGES = {
   SUBREDDIT_NOT_FOUND: 'Subreddit not found. Please check the spelling and try again.',
   QUESTION_TOO_SHORT: 'Please enter a question with at least 5 characters.',
   QUESTION_TOO_LONG: 'Question is too long. Please keep it under 500 characters.',
+  TOO_MANY_SUBREDDITS: 'Please choose at most 5 subreddits per question.',
+  TOO_FEW_TO_COMPARE: 'Please choose at least 2 subreddits to compare.',
   NO_REDDIT_DATA: 'No recent posts found in this subreddit. Try a different one.',
   OPENAI_ERROR: 'Failed to generate answer. Please try again.',
   NETWORK_ERROR: 'Network error. Please check your connection and try again.',
   RATE_LIMIT: 'Too many requests. Please wait a moment before trying again.',
+  DAILY_LIMIT: 'Daily request limit reached. Please try again later.',
+  INVALID_BODY: 'Request body must be a JSON object.',
   GENERIC_ERROR: 'Something went wrong. Please try again.',
 } as const;
 
+// Common English words ignored when matching questions against Reddit content
+export const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'your', 'all', 'any', 'can', 'had', 'her', 'was',
+  'one', 'our', 'out', 'has', 'have', 'him', 'his', 'how', 'its', 'may', 'new', 'now', 'old', 'see',
+  'two', 'way', 'who', 'did', 'get', 'got', 'let', 'say', 'she', 'too', 'use', 'that', 'this', 'with',
+  'what', 'when', 'where', 'which', 'while', 'will', 'would', 'could', 'should', 'there', 'their',
+  'they', 'them', 'then', 'than', 'these', 'those', 'from', 'into', 'about', 'been', 'being', 'were',
+  'does', 'doing', 'some', 'such', 'only', 'also', 'very', 'just', 'more', 'most', 'other', 'over',
+  'like', 'people', 'think', 'thing', 'things', 'really', 'best', 'good', 'want', 'know', 'anyone',
+  'why', 'whats', 'much', 'many', 'here', 'each', 'even', 'ever', 'make', 'going',
+]);
+
 // Validation rules
 export const VALIDATION = {
   SUBREDDIT: {
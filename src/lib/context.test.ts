@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { buildRedditContext, estimateTokens, getContextBudget, truncateToTokens } from './context';
+import { CONFIG } from './constants';
+import type { RedditComment, SubredditData } from '@/types';
+
+const now = Math.floor(Date.now() / 1000);
+
+// About chars / 4 tokens of filler ending in a full stop
+const comment = (id: string, chars: number, score: number, replies: RedditComment[] = [], depth = 0): RedditComment => ({
+  id,
+  body: `${'word '.repeat(chars / 5).trim()}.`,
+  author: `user_${id}`,
+  score,
+  created_utc: now,
+  permalink: `/r/test/comments/p1/_/${id}/`,
+  depth,
+  replies: replies.length ? replies : undefined,
+});
+
+const dataset = (comments: RedditComment[]): SubredditData => ({ subreddit: 'test', fetchedAt: Date.now(), posts: [], comments });
+
+// A context window that leaves exactly `tokens` for Reddit content
+const windowFor = (tokens: number) => tokens + CONFIG.LLM.MAX_TOKENS + CONFIG.CONTEXT.PROMPT_RESERVE_TOKENS;
+
+// No question terms match the filler, so items rank by score
+const question = 'zebra';
+
+describe('truncateToTokens', () => {
+  it('leaves text within the limit alone', () => {
+    expect(truncateToTokens('Short text.', 10)).toEqual({ text: 'Short text.', truncated: false });
+  });
+
+  it('cuts at a sentence end close to the limit and marks the cut', () => {
+    const text = `${'a'.repeat(60)}. ${'b'.repeat(60)}`;
+    const result = truncateToTokens(text, 20);
+
+    expect(result).toEqual({ text: `${'a'.repeat(60)}. […]`, truncated: true });
+  });
+
+  it('falls back to a word boundary, then to a hard cut', () => {
+    expect(truncateToTokens('one two three four five six seven', 5).text).toBe('one two three […]');
+    expect(truncateToTokens('x'.repeat(100), 5).text).toBe(`${'x'.repeat(16)} […]`);
+  });
+});
+
+describe('buildRedditContext', () => {
+  it('includes everything when the budget allows', () => {
+    const data = dataset([comment('a', 400, 100), comment('b', 400, 50, [comment('r', 60, 10, [], 1)])]);
+    const context = buildRedditContext([data], { contextWindow: windowFor(2000), question });
+
+    expect(context.comments.map(item => item.id)).toEqual(['a', 'b', 'r']);
+    expect(context.references).toHaveLength(3);
+    expect(context.report).toMatchObject({ budget_tokens: 2000, included: 3, truncated: 0, dropped: 0 });
+    expect(context.report.used_tokens).toBeLessThan(2000);
+  });
+
+  it('fills up to the budget and drops what does not fit', () => {
+    const data = dataset(Array.from({ length: 10 }, (_, i) => comment(`c${i}`, 400, 100 - i)));
+    const context = buildRedditContext([data], { contextWindow: windowFor(500), question });
+
+    expect(context.report.used_tokens).toBeLessThanOrEqual(500);
+    expect(context.report.included + context.report.dropped).toBe(10);
+    expect(context.report.dropped).toBeGreaterThan(0);
+    // Highest scored first
+    expect(context.comments.map(item => item.id)).toEqual(
+      Array.from({ length: context.report.included }, (_, i) => `c${i}`)
+    );
+  });
+
+  it('truncates the last item to the room left', () => {
+    const data = dataset([comment('a', 800, 100), comment('b', 800, 50)]);
+    const context = buildRedditContext([data], { contextWindow: windowFor(400), question });
+
+    expect(context.comments.map(item => item.id)).toEqual(['a', 'b']);
+    expect(context.report).toMatchObject({ included: 2, truncated: 1, dropped: 0 });
+    expect(context.report.used_tokens).toBeLessThanOrEqual(400);
+    expect(context.text).toMatch(/\[2\] COMMENT .* \[…\]$/m);
+    expect(context.text).not.toMatch(/\[1\] COMMENT .* \[…\]$/m);
+  });
+
+  it('drops replies whose parent comment was dropped, even when they would fit', () => {
+    const reply = comment('r', 60, 10, [], 1);
+    const data = dataset([comment('a', 800, 100), comment('b', 800, 50, [reply])]);
+    const context = buildRedditContext([data], { contextWindow: windowFor(250), question });
+
+    // Too little room left for b, but plenty for its short reply
+    expect(context.report.budget_tokens - context.report.used_tokens).toBeGreaterThan(estimateTokens(reply.body) + 15);
+    expect(context.comments.map(item => item.id)).toEqual(['a']);
+    expect(context.report.dropped).toBe(2);
+    expect(context.text).not.toContain('REPLY');
+  });
+
+  it('keeps replies under their parent when both fit', () => {
+    const data = dataset([comment('a', 200, 100, [comment('r', 60, 10, [], 1)])]);
+    const context = buildRedditContext([data], { contextWindow: windowFor(2000), question });
+
+    expect(context.text).toMatch(/\[1\] COMMENT .*\n {2}↳ \[2\] REPLY \(10 upvotes\) by u\/user_r to u\/user_a: /);
+  });
+
+  it('takes reserved tokens out of the budget', () => {
+    const context = buildRedditContext([dataset([])], { contextWindow: windowFor(1000), question, reservedTokens: 300 });
+
+    expect(context.report.budget_tokens).toBe(700);
+    expect(getContextBudget(100)).toBe(0);
+  });
+
+  it('returns an empty context for an empty dataset', () => {
+    const context = buildRedditContext([dataset([])], { contextWindow: windowFor(1000), question });
+
+    expect(context).toMatchObject({ text: '', references: [], posts: [], comments: [] });
+    expect(context.report).toMatchObject({ used_tokens: 0, included: 0, truncated: 0, dropped: 0 });
+  });
+});
@@ -0,0 +1,289 @@
+import { CONFIG } from './constants';
+import { cleanRedditText, stripCitations, toRedditUrl, truncateText } from './utils';
+import { rankItems } from './ranking';
+import type {
+  AnswerSource,
+  ExtractedContent,
+  RedditComment,
+  RedditPost,
+  SubredditData,
+} from '@/types';
+
+// A post, comment or reply waiting for room in the prompt
+interface Candidate {
+  section: number; // Index of the subreddit it came from
+  kind: 'post' | 'comment' | 'reply';
+  item: RedditPost | RedditComment;
+  parent?: RedditComment; // The comment a reply answers
+  body: string;
+  rank: number; // Blended relevance, popularity and recency
+}
+
+// A candidate that made it in, with the text actually used
+interface Selected extends Candidate {
+  text: string;
+}
+
+/**
+ * Rough token count for English text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CONFIG.CONTEXT.CHARS_PER_TOKEN);
+}
+
+/**
+ * Tokens available for Reddit content: the model's context window minus room for the
+ * answer and instructions, capped by MAX_CONTEXT_TOKENS
+ */
+export function getContextBudget(contextWindow: number): number {
+  const { MAX_CONTEXT_TOKENS, PROMPT_RESERVE_TOKENS } = CONFIG.CONTEXT;
+  return Math.max(0, Math.min(MAX_CONTEXT_TOKENS, contextWindow - CONFIG.LLM.MAX_TOKENS - PROMPT_RESERVE_TOKENS));
+}
+
+/**
+ * Cut text to roughly maxTokens, ending on a sentence or word boundary where one is close
+ */
+export function truncateToTokens(text: string, maxTokens: number): { text: string; truncated: boolean } {
+  const marker = ' […]';
+  if (text.length <= maxTokens * CONFIG.CONTEXT.CHARS_PER_TOKEN) return { text, truncated: false };
+
+  const maxChars = Math.max(0, maxTokens * CONFIG.CONTEXT.CHARS_PER_TOKEN - marker.length);
+  const cut = text.slice(0, maxChars);
+  const sentenceEnd = Math.max(cut.lastIndexOf('. '), cut.lastIndexOf('! '), cut.lastIndexOf('? '), cut.lastIndexOf('\n'));
+  const wordEnd = cut.lastIndexOf(' ');
+  const end = sentenceEnd > maxChars * 0.6 ? sentenceEnd + 1 : wordEnd > maxChars * 0.6 ? wordEnd : maxChars;
+
+  return { text: `${cut.slice(0, end).trimEnd()}${marker}`, truncated: true };
+}
+
+function formatItem(candidate: Candidate, id: number | string, text: string): string {
+  if (candidate.kind === 'post') {
+    const post = candidate.item as RedditPost;
+    return `[${id}] POST (${post.score} upvotes) by u/${post.author}: ${post.title}${text ? `\n${text}` : ''}`;
+  }
+
+  const comment = candidate.item as RedditComment;
+  if (candidate.kind === 'reply') {
+    const indent = '  '.repeat(comment.depth);
+    return `${indent}↳ [${id}] REPLY (${comment.score} upvotes) by u/${comment.author} to u/${candidate.parent!.author}: ${text}`;
+  }
+  return `[${id}] COMMENT (${comment.score} upvotes) by u/${comment.author}: ${text}`;
+}
+
+const isSubstantialPost = (post: RedditPost) => post.selftext.length > 50;
+const isSubstantialComment = (comment: RedditComment) => comment.body.length > 30 && comment.score > 0;
+
+type RankScores = Map<RedditPost | RedditComment, number>;
+
+const byRank = (a: Candidate, b: Candidate) => b.rank - a.rank;
+
+/**
+ * Every post, comment and reply across the datasets, for ranking against one shared index
+ */
+function collectItems(datasets: SubredditData[]): (RedditPost | RedditComment)[] {
+  const items: (RedditPost | RedditComment)[] = [];
+  const addComment = (comment: RedditComment) => {
+    items.push(comment);
+    (comment.replies || []).forEach(addComment);
+  };
+  datasets.forEach(data => {
+    items.push(...data.posts);
+    data.comments.forEach(addComment);
+  });
+  return items;
+}
+
+/**
+ * Keep the most recent question and answer turns that fit in budgetTokens.
+ * Citation markers are stripped from earlier answers, since reference numbers
+ * are reassigned each time the context is rebuilt.
+ */
+export function fitConversationHistory<T extends { question: string; answer: string }>(
+  turns: T[],
+  budgetTokens: number
+): { turns: T[]; usedTokens: number; dropped: number } {
+  const kept: T[] = [];
+  let usedTokens = 0;
+
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const answer = stripCitations(turns[i].answer);
+    const cost = estimateTokens(turns[i].question) + estimateTokens(answer) + 8;
+    if (usedTokens + cost > budgetTokens) break;
+    usedTokens += cost;
+    kept.unshift({ ...turns[i], answer });
+  }
+
+  return { turns: kept, usedTokens, dropped: turns.length - kept.length };
+}
+
+/**
+ * Order one subreddit's content by priority: substantial posts and comments interleaved by rank,
+ * then replies, then title-only posts and short comments to fill any room left over
+ */
+function rankCandidates(data: SubredditData, section: number, scores: RankScores): Candidate[] {
+  const rankOf = (item: RedditPost | RedditComment) => scores.get(item) ?? 0;
+  const posts = [...data.posts].sort((a, b) => rankOf(b) - rankOf(a));
+  const comments = [...data.comments].sort((a, b) => rankOf(b) - rankOf(a));
+  const toPost = (post: RedditPost): Candidate => ({
+    section, kind: 'post', item: post, body: cleanRedditText(post.selftext), rank: rankOf(post),
+  });
+  const toComment = (comment: RedditComment): Candidate => ({
+    section, kind: 'comment', item: comment, body: cleanRedditText(comment.body), rank: rankOf(comment),
+  });
+
+  const mainPosts = posts.filter(isSubstantialPost).map(toPost);
+  const mainComments = comments.filter(isSubstantialComment).map(toComment);
+  const primary: Candidate[] = [];
+  for (let i = 0; i < Math.max(mainPosts.length, mainComments.length); i++) {
+    if (mainPosts[i]) primary.push(mainPosts[i]);
+    if (mainComments[i]) primary.push(mainComments[i]);
+  }
+
+  // Shallow replies first so each one's parent has already been considered
+  const repliesTo = (parents: RedditComment[]): Candidate[] => {
+    const replies: Candidate[] = [];
+    const collect = (parent: RedditComment) => {
+      for (const reply of parent.replies || []) {
+        if (!isSubstantialComment(reply)) continue;
+        replies.push({ section, kind: 'reply', item: reply, parent, body: cleanRedditText(reply.body), rank: rankOf(reply) });
+        collect(reply);
+      }
+    };
+    parents.forEach(collect);
+    return replies.sort((a, b) => (a.item as RedditComment).depth - (b.item as RedditComment).depth || byRank(a, b));
+  };
+
+  const shortComments = comments.filter(comment => comment.body && comment.score > 0 && !isSubstantialComment(comment));
+  const filler = [
+    ...posts.filter(post => !isSubstantialPost(post)).map(toPost),
+    ...shortComments.map(toComment),
+  ];
+
+  return [
+    ...primary,
+    ...repliesTo(comments.filter(isSubstantialComment)),
+    ...filler,
+    ...repliesTo(shortComments),
+  ];
+}
+
+/**
+ * Take candidates from each subreddit in turn so a busy one can't crowd out the others
+ */
+function interleaveSections(queues: Candidate[][]): Candidate[] {
+  const merged: Candidate[] = [];
+  for (let i = 0; queues.some(queue => i < queue.length); i++) {
+    queues.forEach(queue => {
+      if (queue[i]) merged.push(queue[i]);
+    });
+  }
+  return merged;
+}
+
+/**
+ * Build the prompt context from one or more subreddits, filling the model's token budget
+ * in priority order, ranked against the question. Long items are truncated, and what doesn't fit is dropped and counted.
+ * Every item is tagged with a reference number so the model can cite it as [n], and each
+ * comment is followed by its included replies so parent→reply exchanges stay together.
+ */
+export function buildRedditContext(
+  datasets: SubredditData[],
+  options: { contextWindow: number; question: string; reservedTokens?: number }
+): ExtractedContent {
+  // Room already taken, e.g. by follow-up history, comes out of the Reddit content's share
+  const budget = Math.max(0, getContextBudget(options.contextWindow) - (options.reservedTokens ?? 0));
+  const multi = datasets.length > 1;
+
+  const { scores, info: ranking } = rankItems(options.question, collectItems(datasets), item => ({
+    text: 'title' in item ? `${item.title} ${item.selftext}` : item.body,
+    score: item.score,
+    created_utc: item.created_utc,
+  }));
+
+  let used = multi ? datasets.reduce((sum, data) => sum + estimateTokens(`===== r/${data.subreddit} =====`), 0) : 0;
+  let truncated = 0;
+  let dropped = 0;
+  const selected: Selected[] = [];
+  const includedComments = new Set<RedditComment>();
+
+  for (const candidate of interleaveSections(datasets.map((data, section) => rankCandidates(data, section, scores)))) {
+    // A reply only makes sense under the comment it answers
+    if (candidate.parent && !includedComments.has(candidate.parent)) {
+      dropped++;
+      continue;
+    }
+
+    const overhead = estimateTokens(formatItem(candidate, 99, '')) + 2;
+    const available = budget - used - overhead;
+    if (available < 0 || (estimateTokens(candidate.body) > available && available < CONFIG.CONTEXT.MIN_ITEM_TOKENS)) {
+      dropped++;
+      continue;
+    }
+
+    const fitted = truncateToTokens(candidate.body, Math.min(CONFIG.CONTEXT.MAX_ITEM_TOKENS, available));
+    if (fitted.truncated) truncated++;
+    used += overhead + estimateTokens(fitted.text);
+    selected.push({ ...candidate, text: fitted.text });
+    if (candidate.kind !== 'post') includedComments.add(candidate.item as RedditComment);
+  }
+
+  // Render per subreddit, posts then comment threads, most relevant first
+  const references: AnswerSource[] = [];
+  const addReference = (candidate: Selected): number => {
+    const id = references.length + 1;
+    const isPost = candidate.kind === 'post';
+    references.push({
+      id,
+      title: isPost ? (candidate.item as RedditPost).title : truncateText(candidate.text, 80),
+      url: toRedditUrl(candidate.item.permalink),
+      type: isPost ? 'post' : 'comment',
+      author: candidate.item.author,
+      score: candidate.item.score,
+    });
+    return id;
+  };
+
+  const sections = datasets.map((data, section) => {
+    const items = selected.filter(candidate => candidate.section === section);
+    const repliesByParent = new Map<RedditComment, Selected[]>();
+    items.filter(candidate => candidate.kind === 'reply').forEach(reply => {
+      repliesByParent.set(reply.parent!, [...(repliesByParent.get(reply.parent!) || []), reply]);
+    });
+
+    const renderThread = (candidate: Selected): string[] => [
+      formatItem(candidate, addReference(candidate), candidate.text),
+      ...(repliesByParent.get(candidate.item as RedditComment) || [])
+        .sort(byRank)
+        .flatMap(renderThread),
+    ];
+
+    const postContent = items
+      .filter(candidate => candidate.kind === 'post')
+      .sort(byRank)
+      .map(candidate => renderThread(candidate).join('\n'))
+      .join('\n\n---\n\n');
+    const commentContent = items
+      .filter(candidate => candidate.kind === 'comment')
+      .sort(byRank)
+      .map(candidate => renderThread(candidate).join('\n'))
+      .join('\n\n---\n\n');
+
+    const text = [postContent, commentContent].filter(Boolean).join('\n\n===POSTS_END===\n\n');
+    return text && multi ? `===== r/${data.subreddit} =====\n\n${text}` : text;
+  });
+
+  return {
+    text: sections.filter(Boolean).join('\n\n'),
+    references,
+    posts: selected.filter(candidate => candidate.kind === 'post').map(candidate => candidate.item as RedditPost),
+    comments: selected.filter(candidate => candidate.kind !== 'post').map(candidate => candidate.item as RedditComment),
+    report: {
+      budget_tokens: budget,
+      used_tokens: used,
+      included: selected.length,
+      truncated,
+      dropped,
+      ranking,
+    },
+  };
+}
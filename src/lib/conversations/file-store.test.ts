@@ -0,0 +1,76 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FileConversationStore } from './file-store';
+import type { Conversation } from './types';
+
+let directory: string;
+
+const files = async () => (await fs.readdir(directory)).sort();
+
+// Backdate a file's modification time by `ageMs`
+const age = async (name: string, ageMs: number) => {
+  const time = new Date(Date.now() - ageMs);
+  await fs.utimes(path.join(directory, name), time, time);
+};
+
+const conversation = (id: string): Conversation => ({
+  id,
+  subreddits: ['rust'],
+  timeframe: 'week',
+  retrieval: 'latest',
+  model: 'fake',
+  datasets: [],
+  snapshot: { cached: false, fetched_at: Date.now(), age_seconds: 0 },
+  turns: [],
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+});
+
+describe('FileConversationStore', () => {
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'conversations-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('round-trips and deletes conversations', async () => {
+    const store = new FileConversationStore(directory);
+    await store.save(conversation('a'));
+
+    expect((await store.get('a'))?.subreddits).toEqual(['rust']);
+    await store.delete('a');
+    expect(await store.get('a')).toBeNull();
+  });
+
+  it('prunes expired files and the least recently updated beyond maxEntries', async () => {
+    const store = new FileConversationStore(directory, { maxEntries: 2, maxAgeMs: 60_000, pruneIntervalMs: Infinity });
+    for (const id of ['a', 'b', 'c', 'd']) {
+      await store.save(conversation(id));
+    }
+    const [first, second, third, fourth] = await files();
+    await age(first, 120_000);
+    await age(second, 30_000);
+    await age(third, 20_000);
+    await age(fourth, 10_000);
+    await fs.writeFile(path.join(directory, 'crashed.json.123.tmp'), '{');
+    await age('crashed.json.123.tmp', 120_000);
+
+    await store.prune();
+
+    expect(await files()).toEqual([third, fourth].sort());
+  });
+
+  it('prunes on save once the interval has passed', async () => {
+    const store = new FileConversationStore(directory, { maxEntries: 1, pruneIntervalMs: 0 });
+    await store.save(conversation('a'));
+    await age((await files())[0], 10_000);
+    await store.save(conversation('b'));
+
+    expect(await files()).toHaveLength(1);
+    expect(await store.get('b')).not.toBeNull();
+  });
+});
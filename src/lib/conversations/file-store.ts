@@ -0,0 +1,78 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CONFIG } from '@/lib/constants';
+import type { Conversation, ConversationStore } from './types';
+
+export interface FileConversationOptions {
+  maxEntries: number; // The least recently updated files beyond this are removed
+  maxAgeMs: number; // Files not updated for longer than this are removed
+  pruneIntervalMs: number; // How often a save checks the directory for files to remove
+}
+
+const DEFAULT_OPTIONS: FileConversationOptions = {
+  maxEntries: CONFIG.CONVERSATION.FILE_MAX_ENTRIES,
+  maxAgeMs: CONFIG.CONVERSATION.TTL_HOURS * 60 * 60 * 1000,
+  pruneIntervalMs: 10 * 60 * 1000,
+};
+
+// One JSON file per conversation, so threads survive restarts
+export class FileConversationStore implements ConversationStore {
+  private readonly options: FileConversationOptions;
+  private lastPrunedAt = 0;
+
+  constructor(private readonly directory: string, options: Partial<FileConversationOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  private pathFor(id: string): string {
+    return path.join(this.directory, `${createHash('sha256').update(id).digest('hex').slice(0, 40)}.json`);
+  }
+
+  async get(id: string): Promise<Conversation | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.pathFor(id), 'utf8')) as Conversation;
+    } catch {
+      return null;
+    }
+  }
+
+  async save(conversation: Conversation): Promise<void> {
+    const filePath = this.pathFor(conversation.id);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(conversation));
+    await fs.rename(tempPath, filePath);
+
+    if (Date.now() - this.lastPrunedAt >= this.options.pruneIntervalMs) {
+      this.lastPrunedAt = Date.now();
+      await this.prune().catch(error => console.error(`Failed to prune ${this.directory}:`, error));
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    await fs.rm(this.pathFor(id), { force: true });
+  }
+
+  /**
+   * Remove files older than maxAgeMs, including temp files left by a crash,
+   * then the least recently updated ones beyond maxEntries
+   */
+  async prune(): Promise<void> {
+    const names = await fs.readdir(this.directory).catch(() => [] as string[]);
+    const files = await Promise.all(names.map(async name => {
+      const filePath = path.join(this.directory, name);
+      const stats = await fs.stat(filePath).catch(() => null);
+      return stats?.isFile() ? { filePath, modifiedAt: stats.mtimeMs } : null;
+    }));
+
+    const now = Date.now();
+    const expired = files
+      .filter((file): file is { filePath: string; modifiedAt: number } => file !== null)
+      .sort((a, b) => b.modifiedAt - a.modifiedAt)
+      .filter((file, index) => index >= this.options.maxEntries || now - file.modifiedAt >= this.options.maxAgeMs);
+
+    await Promise.all(expired.map(file => fs.rm(file.filePath, { force: true })));
+  }
+}
@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { CONFIG } from '@/lib/constants';
+import { appendTurn, createConversation, getConversation, MemoryConversationStore, setConversationStore } from './index';
+import type { Conversation } from './types';
+
+// Saves land a little later than they are asked for, like a slow disk
+class SlowStore extends MemoryConversationStore {
+  async save(conversation: Conversation): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await super.save(conversation);
+  }
+}
+
+const start = () => createConversation({
+  subreddits: ['rust'],
+  timeframe: 'week',
+  retrieval: 'latest',
+  model: 'fake',
+  datasets: [],
+  snapshot: { cached: false, fetched_at: Date.now(), age_seconds: 0 },
+});
+
+const turn = (index: number) => ({ question: `Question ${index}?`, answer: `Answer ${index}` });
+
+describe('appendTurn', () => {
+  beforeEach(() => {
+    setConversationStore(new SlowStore());
+  });
+
+  it('keeps every turn when follow-ups finish at the same time', async () => {
+    const { id } = await start();
+    const results = await Promise.all([1, 2, 3].map(index => appendTurn(id, turn(index))));
+
+    expect(results).toEqual([true, true, true]);
+    expect((await getConversation(id))?.turns.map(record => record.question)).toEqual(['Question 1?', 'Question 2?', 'Question 3?']);
+  });
+
+  it('stops at MAX_TURNS even when more follow-ups race for the last places', async () => {
+    const { id } = await start();
+    const attempts = CONFIG.CONVERSATION.MAX_TURNS + 3;
+    const results = await Promise.all(Array.from({ length: attempts }, (_, index) => appendTurn(id, turn(index))));
+
+    expect(results.filter(Boolean)).toHaveLength(CONFIG.CONVERSATION.MAX_TURNS);
+    expect((await getConversation(id))?.turns).toHaveLength(CONFIG.CONVERSATION.MAX_TURNS);
+  });
+
+  it('reports a missing conversation', async () => {
+    expect(await appendTurn('missing', turn(1))).toBe(false);
+  });
+
+  it('keeps appending after a failed write', async () => {
+    const store = new SlowStore();
+    setConversationStore(store);
+    const { id } = await start();
+    const save = store.save.bind(store);
+    store.save = async () => {
+      store.save = save;
+      throw new Error('disk full');
+    };
+
+    const [failed, recorded] = await Promise.allSettled([appendTurn(id, turn(1)), appendTurn(id, turn(2))]);
+
+    expect(failed.status).toBe('rejected');
+    expect(recorded).toEqual({ status: 'fulfilled', value: true });
+    expect((await getConversation(id))?.turns.map(record => record.question)).toEqual(['Question 2?']);
+  });
+});
@@ -0,0 +1,90 @@
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { CONFIG } from '@/lib/constants';
+import { MemoryConversationStore } from './memory-store';
+import { FileConversationStore } from './file-store';
+import type { Conversation, ConversationStore, ConversationTurnRecord } from './types';
+
+export { MemoryConversationStore } from './memory-store';
+export { FileConversationStore } from './file-store';
+export type { FileConversationOptions } from './file-store';
+export type { Conversation, ConversationStore, ConversationTurnRecord } from './types';
+
+let sharedStore: ConversationStore | null = null;
+
+// The latest pending write per conversation, so turns are appended one at a time
+const pendingWrites = new Map<string, Promise<boolean>>();
+
+/**
+ * Store selected by CONVERSATION_STORE ('memory' or 'file'), created on first use
+ */
+export function getConversationStore(): ConversationStore {
+  if (!sharedStore) {
+    sharedStore = process.env.CONVERSATION_STORE === 'file'
+      ? new FileConversationStore(process.env.CONVERSATION_DIR || path.join(process.cwd(), '.data', 'conversations'))
+      : new MemoryConversationStore();
+  }
+  return sharedStore;
+}
+
+/**
+ * Replace the shared store, e.g. with a pre-seeded one in tests
+ */
+export function setConversationStore(store: ConversationStore): void {
+  sharedStore = store;
+}
+
+/**
+ * Start a conversation with no turns yet
+ */
+export async function createConversation(
+  fields: Omit<Conversation, 'id' | 'turns' | 'createdAt' | 'updatedAt'>
+): Promise<Conversation> {
+  const now = Date.now();
+  const conversation: Conversation = { ...fields, id: randomUUID(), turns: [], createdAt: now, updatedAt: now };
+  await getConversationStore().save(conversation);
+  return conversation;
+}
+
+/**
+ * Load a conversation, treating ones idle for longer than TTL_HOURS as gone
+ */
+export async function getConversation(id: string): Promise<Conversation | null> {
+  const store = getConversationStore();
+  const conversation = await store.get(id);
+  if (!conversation) return null;
+
+  if (Date.now() - conversation.updatedAt > CONFIG.CONVERSATION.TTL_HOURS * 60 * 60 * 1000) {
+    await store.delete(id);
+    return null;
+  }
+  return conversation;
+}
+
+/**
+ * Record a finished question and answer. Writes to one conversation wait for each other,
+ * so concurrent follow-ups can't overwrite each other's turns. Returns false when the
+ * conversation is gone or already holds MAX_TURNS turns.
+ */
+export function appendTurn(id: string, turn: Omit<ConversationTurnRecord, 'createdAt'>): Promise<boolean> {
+  const previous = pendingWrites.get(id) ?? Promise.resolve(true);
+  const write = previous.catch(() => false).then(async () => {
+    const conversation = await getConversation(id);
+    if (!conversation || conversation.turns.length >= CONFIG.CONVERSATION.MAX_TURNS) return false;
+
+    const now = Date.now();
+    await getConversationStore().save({
+      ...conversation,
+      turns: [...conversation.turns, { ...turn, createdAt: now }],
+      updatedAt: now,
+    });
+    return true;
+  });
+
+  pendingWrites.set(id, write);
+  const cleanUp = () => {
+    if (pendingWrites.get(id) === write) pendingWrites.delete(id);
+  };
+  write.then(cleanUp, cleanUp);
+  return write;
+}
@@ -0,0 +1,32 @@
+import type { Conversation, ConversationStore } from './types';
+
+// Process-local store that evicts the least recently used conversation past maxEntries
+export class MemoryConversationStore implements ConversationStore {
+  private conversations = new Map<string, Conversation>();
+
+  constructor(private readonly maxEntries: number = 500) {}
+
+  async get(id: string): Promise<Conversation | null> {
+    const conversation = this.conversations.get(id);
+    if (!conversation) return null;
+
+    // Re-insert to mark as most recently used
+    this.conversations.delete(id);
+    this.conversations.set(id, conversation);
+    return conversation;
+  }
+
+  async save(conversation: Conversation): Promise<void> {
+    this.conversations.delete(conversation.id);
+    this.conversations.set(conversation.id, conversation);
+
+    if (this.conversations.size > this.maxEntries) {
+      const oldest = this.conversations.keys().next().value;
+      if (oldest !== undefined) this.conversations.delete(oldest);
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    this.conversations.delete(id);
+  }
+}
@@ -0,0 +1,29 @@
+import type { AIResponse, RetrievalMode, SnapshotInfo, SubredditData, Timeframe } from '@/types';
+
+export interface ConversationTurnRecord {
+  question: string;
+  answer: string;
+  response?: AIResponse; // The answer as returned, so it can be shared without trusting the client's copy
+  createdAt: number; // Epoch ms
+}
+
+// Everything needed to answer follow-ups against the same Reddit snapshot
+export interface Conversation {
+  id: string;
+  subreddits: string[];
+  timeframe: Timeframe;
+  retrieval: RetrievalMode;
+  model: string; // Model ID from the registry
+  datasets: SubredditData[];
+  snapshot: SnapshotInfo;
+  turns: ConversationTurnRecord[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Storage backend for conversations
+export interface ConversationStore {
+  get(id: string): Promise<Conversation | null>;
+  save(conversation: Conversation): Promise<void>;
+  delete(id: string): Promise<void>;
+}
@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CONFIG } from './constants';
+import { generateDigest } from './digest';
+import { FakeProvider, getModel, setLLMProvider, type ChatMessage } from './llm';
+import type { SnapshotInfo, SubredditData } from '@/types';
+
+const now = Math.floor(Date.now() / 1000);
+
+const data: SubredditData = {
+  subreddit: 'rust',
+  fetchedAt: Date.now(),
+  posts: ['Rust 2024 edition released', 'Async closures are stable'].map((title, index) => ({
+    id: `p${index + 1}`,
+    title,
+    selftext: '',
+    author: 'ferris',
+    score: 500 - index * 100,
+    num_comments: 40,
+    created_utc: now - 3600,
+    url: `https://reddit.com/r/rust/comments/p${index + 1}`,
+    subreddit: 'rust',
+    permalink: `/r/rust/comments/p${index + 1}/post/`,
+    upvote_ratio: 0.97,
+  })),
+  comments: [],
+};
+
+const snapshot: SnapshotInfo = { cached: false, fetched_at: data.fetchedAt, age_seconds: 0 };
+
+const digestReply = JSON.stringify({
+  topics: [{ topic: 1, headline: 'The 2024 edition ships', summary: 'People are upgrading.' }],
+  mood: { level: 'positive', summary: 'Upbeat.' },
+});
+
+describe('generateDigest', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('asks for the JSON schema response format when the model supports it', async () => {
+    const provider = new FakeProvider(digestReply);
+    setLLMProvider('fake', provider);
+
+    const digest = await generateDigest(['rust'], 'week', [data], snapshot, getModel('fake')!);
+
+    expect(provider.requests[0].jsonSchema?.name).toBe('subreddit_digest');
+    expect(digest.topics[0].headline).toBe('The 2024 edition ships');
+    expect(digest.mood.level).toBe('positive');
+  });
+
+  it('relies on the prompt without it, sending a reply that isn\'t JSON back once more', async () => {
+    const replies = ['Here is your digest: the 2024 edition shipped!', digestReply];
+    const provider = new FakeProvider(() => replies.shift()!);
+    setLLMProvider('fake', provider);
+    const model = { ...getModel('fake')!, supportsJsonSchema: false };
+
+    const digest = await generateDigest(['rust'], 'week', [data], snapshot, model);
+
+    expect(provider.requests).toHaveLength(2);
+    expect(provider.requests.every(request => request.jsonSchema === undefined)).toBe(true);
+    expect(provider.requests[1].messages.at(-1)?.content).toContain('not a JSON object');
+    expect(digest.topics[0].headline).toBe('The 2024 edition ships');
+  });
+
+  it('gives up when no attempt returns JSON', async () => {
+    const provider = new FakeProvider((messages: ChatMessage[]) => `Still prose after ${messages.length} messages`);
+    setLLMProvider('fake', provider);
+    const model = { ...getModel('fake')!, supportsJsonSchema: false };
+
+    await expect(generateDigest(['rust'], 'week', [data], snapshot, model)).rejects.toThrow('valid digest');
+    expect(provider.requests).toHaveLength(CONFIG.LLM.STRUCTURED_ATTEMPTS);
+  });
+});
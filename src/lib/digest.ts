@@ -0,0 +1,320 @@
+import { CONFIG, DIGEST_MOODS, TIMEFRAMES } from './constants';
+import { cleanRedditText, isOwnKey, toRedditUrl, truncateText } from './utils';
+import { tokenize } from './ranking';
+import { extractJson } from './structured-answer';
+import { getLLMProvider, jsonSchemaOption } from './llm';
+import type { ChatMessage, CompletionRequest, ModelDefinition } from './llm';
+import type {
+  Digest,
+  DigestThread,
+  DigestTopic,
+  RedditComment,
+  RedditPost,
+  SnapshotInfo,
+  SubredditData,
+  Timeframe,
+} from '@/types';
+
+const DIGEST_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['topics', 'mood'],
+  properties: {
+    topics: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['topic', 'headline', 'summary'],
+        properties: {
+          topic: { type: 'integer' },
+          headline: { type: 'string' },
+          summary: { type: 'string' },
+        },
+      },
+    },
+    mood: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['level', 'summary'],
+      properties: {
+        level: { type: 'string', enum: Object.keys(DIGEST_MOODS) },
+        summary: { type: 'string' },
+      },
+    },
+  },
+} as const;
+
+// A post with its top comments and term weights for clustering
+interface DigestPost {
+  post: RedditPost;
+  comments: RedditComment[];
+  vector: Map<string, number>;
+}
+
+type Cluster = DigestPost[];
+
+const engagementOf = (post: RedditPost) => post.score + post.num_comments * CONFIG.DIGEST.COMMENT_WEIGHT;
+
+const clusterEngagement = (cluster: Cluster) => cluster.reduce((sum, item) => sum + engagementOf(item.post), 0);
+
+/**
+ * The most upvoted posts across the datasets, each with its top comments.
+ * Comments are matched to their post by the post id in their permalink.
+ */
+function selectPosts(datasets: SubredditData[]): Omit<DigestPost, 'vector'>[] {
+  const commentsByPost = new Map<string, RedditComment[]>();
+  for (const comment of datasets.flatMap(data => data.comments)) {
+    const postId = comment.permalink.match(/\/comments\/([a-z0-9]+)\//i)?.[1];
+    if (postId) commentsByPost.set(postId, [...(commentsByPost.get(postId) || []), comment]);
+  }
+
+  return datasets
+    .flatMap(data => data.posts)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, CONFIG.DIGEST.MAX_POSTS)
+    .map(post => ({
+      post,
+      comments: (commentsByPost.get(post.id) || [])
+        .sort((a, b) => b.score - a.score)
+        .slice(0, CONFIG.DIGEST.COMMENTS_PER_POST),
+    }));
+}
+
+/**
+ * Unit-length TF-IDF vectors, counting title terms twice so the topic of a post
+ * outweighs its comments
+ */
+function vectorize(items: Omit<DigestPost, 'vector'>[]): DigestPost[] {
+  const documents = items.map(({ post, comments }) => [
+    ...tokenize(post.title),
+    ...tokenize(post.title),
+    ...tokenize(post.selftext.slice(0, 2000)),
+    ...comments.flatMap(comment => tokenize(comment.body.slice(0, 1000))),
+  ]);
+
+  const documentFrequency = new Map<string, number>();
+  documents.forEach(doc => new Set(doc).forEach(term => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)));
+
+  return items.map((item, index) => {
+    const vector = new Map<string, number>();
+    documents[index].forEach(term => vector.set(term, (vector.get(term) || 0) + 1));
+    vector.forEach((count, term) => vector.set(term, count * Math.log(1 + documents.length / documentFrequency.get(term)!)));
+    return { ...item, vector: normalize(vector) };
+  });
+}
+
+function normalize(vector: Map<string, number>): Map<string, number> {
+  const length = Math.sqrt(Array.from(vector.values()).reduce((sum, weight) => sum + weight * weight, 0));
+  if (!length) return vector;
+  return new Map(Array.from(vector.entries()).map(([term, weight]) => [term, weight / length]));
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  const [small, large] = a.size < b.size ? [a, b] : [b, a];
+  let dot = 0;
+  small.forEach((weight, term) => { dot += weight * (large.get(term) || 0); });
+  return dot;
+}
+
+// Mean of the members' vectors, renormalized
+function centroidOf(cluster: Cluster): Map<string, number> {
+  const sum = new Map<string, number>();
+  cluster.forEach(item => item.vector.forEach((weight, term) => sum.set(term, (sum.get(term) || 0) + weight)));
+  return normalize(sum);
+}
+
+/**
+ * Agglomerative clustering: keep merging the two most similar clusters until no pair
+ * reaches MIN_SIMILARITY. Returns the MAX_TOPICS most engaged clusters.
+ */
+function clusterPosts(posts: DigestPost[]): Cluster[] {
+  const clusters: Cluster[] = posts.map(post => [post]);
+  const centroids = clusters.map(centroidOf);
+
+  while (clusters.length > 1) {
+    let best = { similarity: 0, a: -1, b: -1 };
+    for (let a = 0; a < clusters.length; a++) {
+      for (let b = a + 1; b < clusters.length; b++) {
+        const similarity = cosine(centroids[a], centroids[b]);
+        if (similarity > best.similarity) best = { similarity, a, b };
+      }
+    }
+    if (best.similarity < CONFIG.DIGEST.MIN_SIMILARITY) break;
+
+    clusters[best.a] = [...clusters[best.a], ...clusters[best.b]];
+    centroids[best.a] = centroidOf(clusters[best.a]);
+    clusters.splice(best.b, 1);
+    centroids.splice(best.b, 1);
+  }
+
+  return clusters
+    .map(cluster => [...cluster].sort((a, b) => engagementOf(b.post) - engagementOf(a.post)))
+    .sort((a, b) => clusterEngagement(b) - clusterEngagement(a))
+    .slice(0, CONFIG.DIGEST.MAX_TOPICS);
+}
+
+function buildMessages(subreddits: string[], timeframe: Timeframe, clusters: Cluster[]): ChatMessage[] {
+  const topics = clusters.map((cluster, index) => {
+    const threads = cluster.slice(0, CONFIG.DIGEST.THREADS_PER_TOPIC).map(({ post, comments }) => {
+      const lines = [`- r/${post.subreddit}: "${cleanRedditText(post.title)}" (${post.score} upvotes, ${post.num_comments} comments)`];
+      if (post.selftext) lines.push(`  ${truncateText(cleanRedditText(post.selftext), CONFIG.DIGEST.POST_CHARS)}`);
+      comments.forEach(comment => lines.push(`  > ${truncateText(cleanRedditText(comment.body), CONFIG.DIGEST.COMMENT_CHARS)}`));
+      return lines.join('\n');
+    });
+    return `===== Topic ${index + 1} =====\n${threads.join('\n')}`;
+  });
+
+  return [
+    {
+      role: 'system',
+      content: `You write a digest of what is happening in ${subreddits.map(name => `r/${name}`).join(', ')} over the ${timeframe === 'all' ? 'all-time top posts' : `past ${TIMEFRAMES[timeframe].label.toLowerCase()}`}. The posts have already been grouped into numbered topics, most active first.
+
+For each topic write:
+- "headline": a short, specific headline (under 80 characters) naming what the threads are about
+- "summary": two or three sentences on what people are posting and how the comments react
+
+Then describe the overall "mood" of the community: a "level" of positive, negative, mixed or neutral, and a one or two sentence "summary".
+
+Guidelines:
+- Only use the posts and comments below; don't add outside knowledge
+- Keep each topic's number in "topic"
+- Stay neutral; report what people say rather than judging it
+
+Respond with a single JSON object and nothing else, matching this schema:
+${JSON.stringify(DIGEST_SCHEMA)}`,
+    },
+    { role: 'user', content: topics.join('\n\n') },
+  ];
+}
+
+function toThread(post: RedditPost): DigestThread {
+  return {
+    id: post.id,
+    title: cleanRedditText(post.title),
+    url: toRedditUrl(post.permalink),
+    subreddit: post.subreddit,
+    author: post.author,
+    score: post.score,
+    num_comments: post.num_comments,
+  };
+}
+
+/**
+ * Pair the model's headlines with the clusters by topic number. A topic the model
+ * skipped falls back to its top thread's title, so no cluster is lost. Null when the
+ * reply isn't a JSON object at all.
+ */
+function parseDigest(raw: string, clusters: Cluster[]): { topics: DigestTopic[]; mood: Digest['mood'] } | null {
+  let parsed: { topics?: unknown; mood?: { level?: unknown; summary?: unknown } } | null;
+  try {
+    parsed = extractJson(raw) as typeof parsed;
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return null;
+  }
+
+  const written = new Map<number, { headline: string; summary: string }>();
+  for (const item of Array.isArray(parsed.topics) ? parsed.topics : []) {
+    const topic = Number(item?.topic);
+    const headline = typeof item?.headline === 'string' ? item.headline.trim() : '';
+    if (topic >= 1 && topic <= clusters.length && headline) {
+      written.set(topic, { headline, summary: typeof item.summary === 'string' ? item.summary.trim() : '' });
+    }
+  }
+
+  const topics = clusters.map((cluster, index): DigestTopic => ({
+    headline: written.get(index + 1)?.headline || cleanRedditText(cluster[0].post.title),
+    summary: written.get(index + 1)?.summary || '',
+    threads: cluster.slice(0, CONFIG.DIGEST.THREADS_PER_TOPIC).map(item => toThread(item.post)),
+    engagement: clusterEngagement(cluster),
+  }));
+
+  const level = typeof parsed.mood?.level === 'string' ? parsed.mood.level.trim().toLowerCase() : '';
+  return {
+    topics,
+    mood: {
+      level: isOwnKey(DIGEST_MOODS, level) ? level : 'neutral',
+      summary: typeof parsed.mood?.summary === 'string' ? parsed.mood.summary.trim() : '',
+    },
+  };
+}
+
+/**
+ * Cluster the fetched posts into topics and have the model write a headline and
+ * summary for each, plus the community's overall mood, in one completion. Models
+ * without JSON schema support only have the prompt to go on, so a reply that isn't
+ * JSON is sent back until one is or STRUCTURED_ATTEMPTS runs out.
+ */
+export async function generateDigest(
+  subreddits: string[],
+  timeframe: Timeframe,
+  datasets: SubredditData[],
+  snapshot: SnapshotInfo,
+  model: ModelDefinition
+): Promise<Digest> {
+  const posts = vectorize(selectPosts(datasets));
+  const clusters = clusterPosts(posts);
+
+  const provider = getLLMProvider(model.provider);
+  const request: CompletionRequest = {
+    model: model.providerModel,
+    messages: buildMessages(subreddits, timeframe, clusters),
+    maxTokens: CONFIG.LLM.MAX_TOKENS,
+    temperature: CONFIG.LLM.TEMPERATURE,
+    ...jsonSchemaOption(model, { name: 'subreddit_digest', schema: DIGEST_SCHEMA }),
+  };
+  let tokensUsed = 0;
+
+  for (let attempt = 1; attempt <= CONFIG.LLM.STRUCTURED_ATTEMPTS; attempt++) {
+    const completion = await provider.complete(request);
+    tokensUsed += completion.tokensUsed || 0;
+
+    const written = parseDigest(completion.content, clusters);
+    if (written) {
+      return {
+        subreddits,
+        timeframe,
+        ...written,
+        posts_considered: posts.length,
+        model: model.id,
+        tokens_used: tokensUsed || undefined,
+        snapshot,
+        generated_at: Date.now(),
+      };
+    }
+
+    console.warn(`Digest attempt ${attempt} was not a JSON object`);
+    request.messages = [
+      ...request.messages,
+      { role: 'assistant', content: completion.content },
+      { role: 'user', content: 'That reply is not a JSON object. Reply with only the JSON object described above.' },
+    ];
+  }
+
+  throw new Error('The model did not return a valid digest');
+}
+
+/**
+ * Plain Markdown rendering of a digest, for email and other text-only destinations
+ */
+export function digestToMarkdown(digest: Digest): string {
+  const subreddits = digest.subreddits.map(name => `r/${name}`).join(', ');
+  const period = digest.timeframe === 'all' ? 'all time' : `the last ${TIMEFRAMES[digest.timeframe].label.toLowerCase()}`;
+  const parts = [
+    `# What's happening in ${subreddits}`,
+    `_${digest.topics.length} topics from the top posts of ${period}_`,
+    `**Mood: ${DIGEST_MOODS[digest.mood.level].label}.** ${digest.mood.summary}`.trim(),
+  ];
+
+  for (const topic of digest.topics) {
+    const threads = topic.threads.map(thread =>
+      `- [${thread.title.replace(/([\[\]\\])/g, '\\$1')}](${thread.url}) — r/${thread.subreddit}, ${thread.score} points, ${thread.num_comments} comments`
+    );
+    parts.push([`## ${topic.headline}`, topic.summary, threads.join('\n')].filter(Boolean).join('\n\n'));
+  }
+
+  return parts.join('\n\n') + '\n';
+}
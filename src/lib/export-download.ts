@@ -0,0 +1,44 @@
+import { API_ENDPOINTS } from './constants';
+import type { ExportFormat, ExportedAnswer, SavedAnswer } from '@/types';
+
+/**
+ * Export shape of a saved answer
+ */
+export function savedAnswerToExport(saved: SavedAnswer): ExportedAnswer {
+  return {
+    question: saved.question,
+    subreddits: saved.subreddits,
+    saved_at: new Date(saved.savedAt).toISOString(),
+    answer: saved.answer,
+    follow_ups: saved.followUps,
+  };
+}
+
+/**
+ * Render answers on the server and save the file through the browser
+ */
+export async function downloadExport(format: ExportFormat, answers: ExportedAnswer[]): Promise<void> {
+  const response = await fetch(API_ENDPOINTS.EXPORT, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ format, answers }),
+  });
+
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}));
+    throw new Error(result.error || 'Failed to export answers');
+  }
+
+  const filename = response.headers.get('content-disposition')?.match(/filename="([^"]+)"/)?.[1] || `ask-reddit-ai-export.${format}`;
+  const url = URL.createObjectURL(await response.blob());
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,29 @@
+import { TIMEFRAMES, RETRIEVAL_MODES } from '@/lib/constants';
+import { isOwnKey } from '@/lib/utils';
+import type { AIResponse, ExportedAnswer } from '@/types';
+
+/**
+ * Short facts shown under an exported question: subreddits, model, confidence, timeframe and dates
+ */
+export function describeAnswer(item: ExportedAnswer): string[] {
+  const { answer } = item;
+  return [
+    item.subreddits.map(name => `r/${name}`).join(', '),
+    answer.model,
+    answer.confidence ? `${Math.round(answer.confidence * 100)}% confidence` : null,
+    answer.timeframe && isOwnKey(TIMEFRAMES, answer.timeframe) ? `Timeframe: ${TIMEFRAMES[answer.timeframe].label}` : null,
+    answer.retrieval && isOwnKey(RETRIEVAL_MODES, answer.retrieval) ? RETRIEVAL_MODES[answer.retrieval].label : null,
+    answer.snapshot ? `Reddit data from ${new Date(answer.snapshot.fetched_at).toISOString().slice(0, 10)}` : null,
+    item.saved_at ? `Saved ${item.saved_at.slice(0, 10)}` : null,
+  ].filter((part): part is string => Boolean(part));
+}
+
+/**
+ * The answer and each follow-up, in reading order
+ */
+export function answerSections(item: ExportedAnswer): { heading: string | null; answer: AIResponse }[] {
+  return [
+    { heading: null, answer: item.answer },
+    ...item.follow_ups.map(turn => ({ heading: turn.question, answer: turn.answer })),
+  ];
+}
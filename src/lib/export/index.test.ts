@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { CONFIG } from '@/lib/constants';
+import { renderExport, validateExportRequest } from './index';
+import type { ExportRequest, ExportedAnswer } from '@/types';
+
+const exportedAnswer = (): ExportedAnswer => ({
+  question: 'Which index fund?',
+  subreddits: ['investing'],
+  saved_at: '2025-01-30T12:00:00.000Z',
+  answer: {
+    answer: 'Most people suggest a total market fund [1].',
+    sources: [{ id: 1, title: 'Index funds', url: 'https://reddit.com/r/investing/1', type: 'post', author: 'saver', score: 42 }],
+    confidence: 0.8,
+    model: 'fake',
+    timeframe: 'week',
+    snapshot: { cached: false, fetched_at: Date.parse('2025-01-29T00:00:00Z'), age_seconds: 0 },
+  },
+  follow_ups: [],
+});
+
+const request = (format: ExportRequest['format'], answer: unknown): ExportRequest =>
+  ({ format, answers: [answer] }) as ExportRequest;
+
+describe('validateExportRequest', () => {
+  it('accepts a well-formed answer', () => {
+    expect(validateExportRequest(request('markdown', exportedAnswer()))).toEqual({ isValid: true });
+  });
+
+  it.each([
+    ['a source without a title', (item: ExportedAnswer) => { (item.answer.sources[0] as unknown as Record<string, unknown>).title = 7; }],
+    ['a source of an unknown type', (item: ExportedAnswer) => { (item.answer.sources[0] as unknown as Record<string, unknown>).type = 'image'; }],
+    ['a null source', (item: ExportedAnswer) => { (item.answer.sources as unknown[])[0] = null; }],
+    ['a numeric saved_at', (item: ExportedAnswer) => { (item as unknown as Record<string, unknown>).saved_at = 1738238400000; }],
+    ['an unparseable saved_at', (item: ExportedAnswer) => { item.saved_at = 'yesterday'; }],
+    ['a non-string subreddit', (item: ExportedAnswer) => { (item.subreddits as unknown[]).push({}); }],
+    ['a snapshot without a fetch time', (item: ExportedAnswer) => { (item.answer.snapshot as unknown as Record<string, unknown>).fetched_at = 'soon'; }],
+    ['a javascript: source URL', (item: ExportedAnswer) => { item.answer.sources[0].url = 'javascript:alert(1)'; }],
+    ['a relative source URL', (item: ExportedAnswer) => { item.answer.sources[0].url = '/r/investing/1'; }],
+    ['a follow-up with a malformed source', (item: ExportedAnswer) => {
+      item.follow_ups.push({ question: 'And bonds?', answer: { ...item.answer, sources: [{ id: 1 } as never] } });
+    }],
+  ])('rejects %s instead of failing to render it', (_name, corrupt) => {
+    const item = exportedAnswer();
+    corrupt(item);
+
+    expect(validateExportRequest(request('pdf', item)).isValid).toBe(false);
+  });
+
+  it('accepts plain http source URLs', () => {
+    const item = exportedAnswer();
+    item.answer.sources[0].url = 'http://reddit.com/r/investing/1';
+
+    expect(validateExportRequest(request('markdown', item))).toEqual({ isValid: true });
+  });
+
+  it('rejects more follow-ups than a conversation can hold', () => {
+    const item = exportedAnswer();
+    const followUp = { question: 'And bonds?', answer: item.answer };
+    item.follow_ups = Array(CONFIG.CONVERSATION.MAX_TURNS - 1).fill(followUp);
+
+    expect(validateExportRequest(request('json', item))).toEqual({ isValid: true });
+    item.follow_ups.push(followUp);
+    expect(validateExportRequest(request('json', item))).toEqual({
+      isValid: false,
+      error: `Each answer can have at most ${CONFIG.CONVERSATION.MAX_TURNS - 1} follow-ups`,
+    });
+  });
+
+  it('caps the text across all answers in one export', () => {
+    const item = exportedAnswer();
+    item.answer.answer = 'x'.repeat(CONFIG.EXPORT.MAX_ANSWER_LENGTH);
+    const count = Math.ceil(CONFIG.EXPORT.MAX_TOTAL_LENGTH / CONFIG.EXPORT.MAX_ANSWER_LENGTH) + 1;
+
+    const result = validateExportRequest({ format: 'markdown', answers: Array(count).fill(item) });
+
+    expect(result.isValid).toBe(false);
+    expect(result.error).toContain(`${CONFIG.EXPORT.MAX_TOTAL_LENGTH} characters`);
+  });
+});
+
+describe('renderExport', () => {
+  it('stamps the PDF with the export time it was given', () => {
+    const { body } = renderExport(request('pdf', exportedAnswer()), new Date('2025-01-31T08:09:10Z'));
+
+    expect(Buffer.from(body).toString('latin1')).toContain('/CreationDate (D:20250131080910Z)');
+  });
+
+  it('renders every validated format', () => {
+    for (const format of ['markdown', 'json', 'pdf'] as const) {
+      expect(() => renderExport(request(format, exportedAnswer()))).not.toThrow();
+    }
+  });
+});
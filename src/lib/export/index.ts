@@ -0,0 +1,123 @@
+import { CONFIG, EXPORT_FORMATS } from '@/lib/constants';
+import { isOwnKey } from '@/lib/utils';
+import { toMarkdown } from './markdown';
+import { toJsonExport } from './json';
+import { toPdf } from './pdf';
+import type { AIResponse, AnswerSource, ExportRequest } from '@/types';
+
+export { toMarkdown } from './markdown';
+export { toJsonExport } from './json';
+export { toPdf } from './pdf';
+
+const isOptional = (value: unknown, type: 'string' | 'number') => value === undefined || typeof value === type;
+
+// Source URLs become PDF link annotations and Markdown links, so only web links are allowed
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// The renderers read every field of a source, so each one must have the right type
+function isValidSource(source: AnswerSource | undefined): boolean {
+  return Boolean(source)
+    && Number.isInteger(source!.id)
+    && typeof source!.title === 'string'
+    && isHttpUrl(source!.url)
+    && (source!.type === 'post' || source!.type === 'comment')
+    && typeof source!.author === 'string'
+    && Number.isFinite(source!.score);
+}
+
+function isValidAnswer(answer: AIResponse | undefined): boolean {
+  return Boolean(answer)
+    && typeof answer!.answer === 'string'
+    && answer!.answer.length <= CONFIG.EXPORT.MAX_ANSWER_LENGTH
+    && Array.isArray(answer!.sources)
+    && answer!.sources.every(isValidSource)
+    && isOptional(answer!.model, 'string')
+    && isOptional(answer!.confidence, 'number')
+    && isOptional(answer!.timeframe, 'string')
+    && isOptional(answer!.retrieval, 'string')
+    && (answer!.snapshot === undefined || Number.isFinite(answer!.snapshot?.fetched_at));
+}
+
+// saved_at is optional, but when present it must be a date the renderers can print
+const isValidSavedAt = (savedAt: unknown) =>
+  savedAt === undefined || (typeof savedAt === 'string' && !Number.isNaN(Date.parse(savedAt)));
+
+/**
+ * Check an export request before rendering anything
+ */
+export function validateExportRequest(body: ExportRequest): { isValid: boolean; error?: string } {
+  if (!body.format || !isOwnKey(EXPORT_FORMATS, body.format)) {
+    return { isValid: false, error: `Format must be one of: ${Object.keys(EXPORT_FORMATS).join(', ')}` };
+  }
+  if (!Array.isArray(body.answers) || body.answers.length === 0) {
+    return { isValid: false, error: 'At least one answer is required' };
+  }
+  if (body.answers.length > CONFIG.EXPORT.MAX_ANSWERS) {
+    return { isValid: false, error: `At most ${CONFIG.EXPORT.MAX_ANSWERS} answers can be exported at once` };
+  }
+
+  const invalid = body.answers.some(item =>
+    typeof item?.question !== 'string'
+    || !Array.isArray(item.subreddits)
+    || item.subreddits.some(name => typeof name !== 'string')
+    || !isValidSavedAt(item.saved_at)
+    || !isValidAnswer(item.answer)
+    || !Array.isArray(item.follow_ups ?? [])
+    || (item.follow_ups ?? []).some(turn => typeof turn?.question !== 'string' || !isValidAnswer(turn.answer))
+  );
+  if (invalid) {
+    return { isValid: false, error: 'Each answer needs a question, subreddits, an optional ISO 8601 saved_at and an answer with well-formed sources' };
+  }
+
+  const maxFollowUps = CONFIG.CONVERSATION.MAX_TURNS - 1;
+  if (body.answers.some(item => (item.follow_ups ?? []).length > maxFollowUps)) {
+    return { isValid: false, error: `Each answer can have at most ${maxFollowUps} follow-ups` };
+  }
+
+  const totalLength = body.answers.reduce((sum, item) => sum + item.question.length + item.answer.answer.length
+    + (item.follow_ups ?? []).reduce((turns, turn) => turns + turn.question.length + turn.answer.answer.length, 0), 0);
+  if (totalLength > CONFIG.EXPORT.MAX_TOTAL_LENGTH) {
+    return { isValid: false, error: `Exports are limited to ${CONFIG.EXPORT.MAX_TOTAL_LENGTH} characters of questions and answers` };
+  }
+
+  return { isValid: true };
+}
+
+// "ask-reddit-ai-best-index-funds-2025-01-31.md", or "ask-reddit-ai-3-answers-..." for several
+function exportFilename(request: ExportRequest, exportedAt: Date): string {
+  const subject = request.answers.length === 1
+    ? request.answers[0].question.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 50).replace(/-$/, '')
+    : `${request.answers.length}-answers`;
+  const date = exportedAt.toISOString().slice(0, 10);
+  return `ask-reddit-ai-${subject || 'answer'}-${date}.${EXPORT_FORMATS[request.format].extension}`;
+}
+
+/**
+ * Render answers in the requested format
+ */
+export function renderExport(
+  request: ExportRequest,
+  exportedAt: Date = new Date()
+): { body: string | Uint8Array; contentType: string; filename: string } {
+  const answers = request.answers.map(item => ({ ...item, follow_ups: item.follow_ups ?? [] }));
+
+  const body = request.format === 'pdf'
+    ? toPdf(answers, exportedAt)
+    : request.format === 'json'
+      ? JSON.stringify(toJsonExport(answers, exportedAt), null, 2)
+      : toMarkdown(answers, exportedAt);
+
+  return {
+    body,
+    contentType: EXPORT_FORMATS[request.format].contentType,
+    filename: exportFilename(request, exportedAt),
+  };
+}
@@ -0,0 +1,39 @@
+import type { AIResponse, AnswerExport, ExportedAnswer } from '@/types';
+
+// Everything in AIResponse except the conversation ID, which only means something to this server
+function exportResponse(answer: AIResponse): AIResponse {
+  return {
+    answer: answer.answer,
+    sources: answer.sources,
+    confidence: answer.confidence,
+    confidence_breakdown: answer.confidence_breakdown,
+    model: answer.model,
+    tokens_used: answer.tokens_used,
+    subreddits: answer.subreddits,
+    timeframe: answer.timeframe,
+    retrieval: answer.retrieval,
+    snapshot: answer.snapshot,
+    context: answer.context,
+    stance: answer.stance,
+    structured: answer.structured,
+    mode: answer.mode,
+  };
+}
+
+/**
+ * The JSON export document (see AnswerExport)
+ */
+export function toJsonExport(answers: ExportedAnswer[], exportedAt: Date): AnswerExport {
+  return {
+    format: 'ask-reddit-ai.answers',
+    version: 1,
+    exported_at: exportedAt.toISOString(),
+    answers: answers.map(item => ({
+      question: item.question,
+      subreddits: item.subreddits,
+      saved_at: item.saved_at,
+      answer: exportResponse(item.answer),
+      follow_ups: item.follow_ups.map(turn => ({ question: turn.question, answer: exportResponse(turn.answer) })),
+    })),
+  };
+}
@@ -0,0 +1,52 @@
+import { CITATION_PATTERN, parseCitationIds } from '@/lib/utils';
+import { answerSections, describeAnswer } from './format';
+import type { AIResponse, ExportedAnswer } from '@/types';
+
+// Markdown link text with brackets escaped
+const escapeLinkText = (text: string) => text.replace(/([\[\]\\])/g, '\\$1');
+
+/**
+ * Answer text with [n] markers turned into footnote references, followed by the footnotes
+ */
+function renderSection(answer: AIResponse, label: (id: number) => string): string {
+  const sourcesById = new Map(answer.sources.map(source => [source.id, source]));
+
+  const body = answer.answer.replace(CITATION_PATTERN, (marker, ids: string) => {
+    const cited = parseCitationIds(ids).filter(id => sourcesById.has(id));
+    return cited.length ? cited.map(id => `[^${label(id)}]`).join('') : marker;
+  });
+
+  const footnotes = answer.sources.map(source =>
+    `[^${label(source.id)}]: [${escapeLinkText(source.title)}](${source.url}) — ${source.type} by u/${source.author}, ${source.score} points`
+  );
+
+  return footnotes.length ? `${body.trim()}\n\n${footnotes.join('\n')}` : body.trim();
+}
+
+/**
+ * Markdown document with footnote-style citations. Footnote labels are prefixed with
+ * the section number when several answers or follow-ups share the document.
+ */
+export function toMarkdown(answers: ExportedAnswer[], exportedAt: Date): string {
+  const sectionCount = answers.reduce((count, item) => count + 1 + item.follow_ups.length, 0);
+  const headingLevel = answers.length > 1 ? '##' : '#';
+  let sectionNumber = 0;
+
+  const documents = answers.map(item => {
+    const parts = [`${headingLevel} ${item.question}`, `_${describeAnswer(item).join(' · ')}_`];
+
+    for (const section of answerSections(item)) {
+      sectionNumber++;
+      const prefix = sectionCount > 1 ? `${sectionNumber}-` : '';
+      if (section.heading) {
+        parts.push(`${headingLevel}# Follow-up: ${section.heading}`);
+      }
+      parts.push(renderSection(section.answer, id => `${prefix}${id}`));
+    }
+
+    return parts.join('\n\n');
+  });
+
+  const header = answers.length > 1 ? [`# Ask Reddit AI answers`, `_Exported ${exportedAt.toISOString().slice(0, 10)}_`] : [];
+  return [...header, documents.join('\n\n---\n\n')].join('\n\n') + '\n';
+}
@@ -0,0 +1,295 @@
+import { deflateSync } from 'zlib';
+
+// A minimal PDF 1.4 writer for flowing text. It uses the standard Helvetica fonts every
+// PDF reader ships with, so nothing is embedded, fetched or rendered in a browser.
+
+export type PdfFont = 'regular' | 'bold' | 'italic';
+type Color = [number, number, number];
+
+export interface PdfTextOptions {
+  font?: PdfFont;
+  size?: number;
+  color?: Color;
+  indent?: number; // Left offset from the margin, in points
+  bullet?: string; // Drawn in the indent, before the first line
+  link?: string; // Make the whole block a clickable URI
+  lineHeight?: number; // Multiple of the font size
+  spaceAfter?: number;
+}
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const FOOTER_HEIGHT = 24;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+  regular: { name: 'F1', baseFont: 'Helvetica' },
+  bold: { name: 'F2', baseFont: 'Helvetica-Bold' },
+  italic: { name: 'F3', baseFont: 'Helvetica-Oblique' },
+};
+
+// Advance widths (1/1000 em) of the printable ASCII range, from the Adobe font metrics
+const HELVETICA_WIDTHS = (
+  '278 278 355 556 556 889 667 191 333 333 389 584 278 333 278 278 556 556 556 556 556 556 556 556 556 556 ' +
+  '278 278 584 584 584 556 1015 667 667 722 722 667 611 778 722 278 500 667 556 833 722 778 667 778 722 667 ' +
+  '611 722 667 944 667 667 611 278 278 278 469 556 333 556 556 500 556 556 278 556 556 222 222 500 222 833 ' +
+  '556 556 556 556 333 500 278 556 500 722 500 500 500 334 260 334 584'
+).split(' ').map(Number);
+
+const HELVETICA_BOLD_WIDTHS = (
+  '278 333 474 556 556 889 722 238 333 333 389 584 278 333 278 278 556 556 556 556 556 556 556 556 556 556 ' +
+  '333 333 584 584 584 611 975 722 722 722 722 667 611 778 722 278 556 722 611 833 722 778 667 778 722 667 ' +
+  '611 722 667 944 667 667 611 333 278 333 584 556 333 556 611 556 611 556 333 611 611 278 278 556 278 889 ' +
+  '611 611 611 611 389 556 333 611 556 778 556 556 500 389 280 389 584'
+).split(' ').map(Number);
+
+// Characters outside Latin-1 that WinAnsiEncoding still covers, with their widths
+const WIN_ANSI_EXTRAS: Record<string, { code: number; width: number }> = {
+  '€': { code: 0x80, width: 556 },
+  '‚': { code: 0x82, width: 222 },
+  '„': { code: 0x84, width: 333 },
+  '…': { code: 0x85, width: 1000 },
+  '‘': { code: 0x91, width: 222 },
+  '’': { code: 0x92, width: 222 },
+  '“': { code: 0x93, width: 333 },
+  '”': { code: 0x94, width: 333 },
+  '•': { code: 0x95, width: 350 },
+  '–': { code: 0x96, width: 556 },
+  '—': { code: 0x97, width: 1000 },
+  '™': { code: 0x99, width: 1000 },
+};
+
+/**
+ * Map text to WinAnsi character codes. Characters the standard fonts can't draw,
+ * such as emoji, become "?" so the layout stays predictable.
+ */
+function toWinAnsi(text: string): number[] {
+  const codes: number[] = [];
+  for (const char of text.normalize('NFC')) {
+    const code = char.codePointAt(0)!;
+    if (code === 0x09) codes.push(0x20);
+    else if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) codes.push(code);
+    else if (WIN_ANSI_EXTRAS[char]) codes.push(WIN_ANSI_EXTRAS[char].code);
+    else if (code >= 0xfe00 && code <= 0xfe0f) continue; // Variation selectors
+    else codes.push(0x3f);
+  }
+  return codes;
+}
+
+const EXTRA_WIDTHS = new Map(Object.values(WIN_ANSI_EXTRAS).map(({ code, width }) => [code, width]));
+
+function textWidth(codes: number[], font: PdfFont, size: number): number {
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const units = codes.reduce((sum, code) => {
+    if (code >= 0x20 && code <= 0x7e) return sum + widths[code - 0x20];
+    return sum + (EXTRA_WIDTHS.get(code) ?? 556);
+  }, 0);
+  return units * size / 1000;
+}
+
+// PDF literal string, with bytes outside printable ASCII written as octal escapes
+function pdfString(codes: number[]): string {
+  return '(' + codes.map(code => {
+    if (code === 0x28 || code === 0x29 || code === 0x5c) return '\\' + String.fromCharCode(code);
+    if (code < 0x20 || code > 0x7e) return '\\' + code.toString(8).padStart(3, '0');
+    return String.fromCharCode(code);
+  }).join('') + ')';
+}
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString();
+
+interface PdfPage {
+  operations: string[];
+  links: { rect: [number, number, number, number]; uri: string }[];
+}
+
+export class PdfWriter {
+  private pages: PdfPage[] = [];
+  private y = 0;
+
+  constructor(private readonly info: { title: string; footer?: string; createdAt: Date }) {
+    this.addPage();
+  }
+
+  private get page(): PdfPage {
+    return this.pages[this.pages.length - 1];
+  }
+
+  addPage(): void {
+    this.pages.push({ operations: [], links: [] });
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  /**
+   * Start a new page unless `height` points still fit above the footer
+   */
+  ensureSpace(height: number): void {
+    if (this.y - height < MARGIN + FOOTER_HEIGHT) {
+      this.addPage();
+    }
+  }
+
+  space(points: number): void {
+    this.y -= points;
+  }
+
+  /**
+   * Horizontal rule across the content width
+   */
+  rule(color: Color = [0.85, 0.85, 0.85]): void {
+    this.ensureSpace(12);
+    this.y -= 6;
+    this.page.operations.push(
+      `${color.map(formatNumber).join(' ')} RG 0.5 w ${MARGIN} ${formatNumber(this.y)} m ${formatNumber(PAGE_WIDTH - MARGIN)} ${formatNumber(this.y)} l S`
+    );
+    this.y -= 6;
+  }
+
+  /**
+   * Split text into lines that fit the width, breaking words longer than a line
+   */
+  private wrap(text: string, font: PdfFont, size: number, width: number): number[][] {
+    const lines: number[][] = [];
+    let line: number[] = [];
+    const space = toWinAnsi(' ');
+
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      let codes = toWinAnsi(word);
+      const candidate = line.length ? [...line, ...space, ...codes] : codes;
+
+      if (textWidth(candidate, font, size) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line.length) lines.push(line);
+
+      // Hard-break words (usually URLs) that don't fit on a line of their own
+      while (textWidth(codes, font, size) > width) {
+        let fit = codes.length - 1;
+        while (fit > 1 && textWidth(codes.slice(0, fit), font, size) > width) fit--;
+        lines.push(codes.slice(0, fit));
+        codes = codes.slice(fit);
+      }
+      line = codes;
+    }
+
+    if (line.length) lines.push(line);
+    return lines;
+  }
+
+  /**
+   * Write a wrapped block of text at the cursor, moving to new pages as needed
+   */
+  text(text: string, options: PdfTextOptions = {}): void {
+    const {
+      font = 'regular',
+      size = 11,
+      color = [0.13, 0.13, 0.13],
+      indent = 0,
+      bullet,
+      link,
+      lineHeight = 1.4,
+      spaceAfter = 0,
+    } = options;
+
+    const leading = size * lineHeight;
+    const x = MARGIN + indent;
+    const lines = this.wrap(text, font, size, CONTENT_WIDTH - indent);
+
+    lines.forEach((line, index) => {
+      this.ensureSpace(leading);
+      this.y -= leading;
+      const baseline = this.y + (leading - size) / 2;
+      const fontName = FONT_RESOURCES[font].name;
+      const fill = `${color.map(formatNumber).join(' ')} rg`;
+
+      if (bullet && index === 0) {
+        const bulletCodes = toWinAnsi(bullet);
+        const bulletX = x - textWidth(bulletCodes, font, size) - 6;
+        this.page.operations.push(
+          `BT /${fontName} ${size} Tf ${fill} ${formatNumber(bulletX)} ${formatNumber(baseline)} Td ${pdfString(bulletCodes)} Tj ET`
+        );
+      }
+      this.page.operations.push(
+        `BT /${fontName} ${size} Tf ${fill} ${formatNumber(x)} ${formatNumber(baseline)} Td ${pdfString(line)} Tj ET`
+      );
+
+      if (link) {
+        this.page.links.push({
+          rect: [x, this.y, x + textWidth(line, font, size), this.y + leading],
+          uri: link,
+        });
+      }
+    });
+
+    this.y -= spaceAfter;
+  }
+
+  /**
+   * Serialize the document, adding the footer and page numbers to every page
+   */
+  finish(): Uint8Array {
+    const objects: string[] = [];
+    const add = (body: string) => {
+      objects.push(body);
+      return objects.length;
+    };
+
+    const catalogId = add('');
+    const pagesId = add('');
+    const fontIds = Object.fromEntries(
+      (Object.keys(FONT_RESOURCES) as PdfFont[]).map(font => [
+        font,
+        add(`<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_RESOURCES[font].baseFont} /Encoding /WinAnsiEncoding >>`),
+      ])
+    ) as Record<PdfFont, number>;
+    const fontDictionary = (Object.keys(FONT_RESOURCES) as PdfFont[])
+      .map(font => `/${FONT_RESOURCES[font].name} ${fontIds[font]} 0 R`)
+      .join(' ');
+
+    const pageIds = this.pages.map((page, index) => {
+      const footerSize = 8;
+      const footerY = MARGIN - FOOTER_HEIGHT + 8;
+      const pageLabel = toWinAnsi(`Page ${index + 1} of ${this.pages.length}`);
+      const footer = [
+        `BT /F1 ${footerSize} Tf 0.5 0.5 0.5 rg ${MARGIN} ${footerY} Td ${pdfString(toWinAnsi(this.info.footer || this.info.title))} Tj ET`,
+        `BT /F1 ${footerSize} Tf 0.5 0.5 0.5 rg ${formatNumber(PAGE_WIDTH - MARGIN - textWidth(pageLabel, 'regular', footerSize))} ${footerY} Td ${pdfString(pageLabel)} Tj ET`,
+      ];
+
+      const content = deflateSync(Buffer.from([...page.operations, ...footer].join('\n'), 'latin1'));
+      const contentId = add(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n${content.toString('latin1')}\nendstream`);
+
+      const annotationIds = page.links.map(({ rect, uri }) => add(
+        `<< /Type /Annot /Subtype /Link /Rect [${rect.map(formatNumber).join(' ')}] /Border [0 0 0] /A << /S /URI /URI ${pdfString(toWinAnsi(uri))} >> >>`
+      ));
+      const annotations = annotationIds.length ? ` /Annots [${annotationIds.map(id => `${id} 0 R`).join(' ')}]` : '';
+
+      return add(
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << ${fontDictionary} >> >> /Contents ${contentId} 0 R${annotations} >>`
+      );
+    });
+
+    objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+    objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+    const pdfDate = `D:${this.info.createdAt.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+    const infoId = add(`<< /Title ${pdfString(toWinAnsi(this.info.title))} /Producer (Ask Reddit AI) /CreationDate (${pdfDate}) >>`);
+
+    // Objects are latin1 strings, so string length equals byte length for the xref offsets
+    let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets = objects.map((body, index) => {
+      const offset = output.length;
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+      return offset;
+    });
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return new Uint8Array(Buffer.from(output, 'latin1'));
+  }
+}
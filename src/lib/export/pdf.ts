@@ -0,0 +1,99 @@
+import { PdfWriter } from './pdf-writer';
+import { answerSections, describeAnswer } from './format';
+import type { AIResponse, ExportedAnswer } from '@/types';
+
+const MUTED: [number, number, number] = [0.42, 0.45, 0.5];
+const LINK: [number, number, number] = [0.15, 0.39, 0.92];
+
+// Markdown emphasis markers have no meaning in plain PDF text
+const stripEmphasis = (text: string) => text.replace(/(\*\*|__)(.+?)\1/g, '$2').replace(/`([^`]+)`/g, '$1');
+
+/**
+ * Lay out answer text: headings, bullet and numbered lists, and paragraphs
+ */
+function writeAnswerText(pdf: PdfWriter, text: string): void {
+  for (const block of text.split(/\n\s*\n/)) {
+    let paragraph: string[] = [];
+    const flushParagraph = () => {
+      if (paragraph.length) {
+        pdf.text(stripEmphasis(paragraph.join(' ')), { spaceAfter: 6 });
+        paragraph = [];
+      }
+    };
+
+    for (const rawLine of block.split('\n')) {
+      const line = rawLine.trim();
+      if (!line) continue;
+
+      const heading = line.match(/^#{1,6}\s+(.*)$/);
+      const bullet = line.match(/^[-•*]\s+(.*)$/);
+      const numbered = line.match(/^(\d+)[.)]\s+(.*)$/);
+
+      if (heading) {
+        flushParagraph();
+        pdf.ensureSpace(36);
+        pdf.text(stripEmphasis(heading[1]), { font: 'bold', size: 12, spaceAfter: 4 });
+      } else if (bullet) {
+        flushParagraph();
+        pdf.text(stripEmphasis(bullet[1]), { indent: 16, bullet: '•', spaceAfter: 3 });
+      } else if (numbered) {
+        flushParagraph();
+        pdf.text(stripEmphasis(numbered[2]), { indent: 16, bullet: `${numbered[1]}.`, spaceAfter: 3 });
+      } else {
+        paragraph.push(line);
+      }
+    }
+
+    flushParagraph();
+    pdf.space(4);
+  }
+}
+
+function writeSources(pdf: PdfWriter, answer: AIResponse): void {
+  if (!answer.sources.length) return;
+
+  pdf.ensureSpace(40);
+  pdf.text('Sources', { font: 'bold', size: 10, spaceAfter: 2 });
+  for (const source of answer.sources) {
+    pdf.text(`${source.title} — ${source.type} by u/${source.author}, ${source.score} points`, {
+      size: 9,
+      indent: 20,
+      bullet: `[${source.id}]`,
+      link: source.url,
+      lineHeight: 1.3,
+    });
+    pdf.text(source.url, { size: 7.5, indent: 20, color: LINK, link: source.url, spaceAfter: 3 });
+  }
+}
+
+/**
+ * Print-ready A4 PDF of the answers, one answer per page, with their sources as clickable links
+ */
+export function toPdf(answers: ExportedAnswer[], exportedAt: Date): Uint8Array {
+  const title = answers.length === 1 ? answers[0].question : `${answers.length} answers from Ask Reddit AI`;
+  const pdf = new PdfWriter({
+    title,
+    footer: `Ask Reddit AI · Exported ${exportedAt.toISOString().slice(0, 10)} · AI-generated from Reddit discussions, not professional advice`,
+    createdAt: exportedAt,
+  });
+
+  answers.forEach((item, index) => {
+    if (index > 0) pdf.addPage();
+
+    pdf.text(item.question, { font: 'bold', size: 16, lineHeight: 1.3, spaceAfter: 4 });
+    pdf.text(describeAnswer(item).join(' · '), { font: 'italic', size: 9, color: MUTED });
+    pdf.rule();
+
+    for (const section of answerSections(item)) {
+      if (section.heading) {
+        pdf.space(8);
+        pdf.ensureSpace(48);
+        pdf.text(`Follow-up: ${section.heading}`, { font: 'bold', size: 13, spaceAfter: 4 });
+      }
+      writeAnswerText(pdf, section.answer.answer);
+      writeSources(pdf, section.answer);
+    }
+  });
+
+  return pdf.finish();
+}
@@ -0,0 +1,47 @@
+import type { ChatMessage, CompletionChunk, CompletionRequest, CompletionResult, LLMProvider, ProviderId } from './types';
+
+export type FakeReply = string | ((messages: ChatMessage[]) => string);
+
+// Canned completions for tests and offline development. Streams the reply word by word.
+export class FakeProvider implements LLMProvider {
+  readonly id: ProviderId = 'fake';
+  // The most recent requests, oldest first; capped so a long-running dev server doesn't grow without bound
+  readonly requests: CompletionRequest[] = [];
+
+  constructor(private reply: FakeReply = 'Redditors mostly agree on this [1].', private readonly maxRequests: number = 50) {}
+
+  /**
+   * Forget the recorded requests, e.g. between tests sharing one provider
+   */
+  reset(): void {
+    this.requests.length = 0;
+  }
+
+  private respond(request: CompletionRequest): string {
+    request.signal?.throwIfAborted();
+    this.requests.push(request);
+    if (this.requests.length > this.maxRequests) {
+      this.requests.splice(0, this.requests.length - this.maxRequests);
+    }
+    return typeof this.reply === 'function' ? this.reply(request.messages) : this.reply;
+  }
+
+  private countTokens(request: CompletionRequest, content: string): number {
+    const characters = request.messages.reduce((sum, message) => sum + message.content.length, content.length);
+    return Math.ceil(characters / 4);
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const content = this.respond(request);
+    return { content, tokensUsed: this.countTokens(request, content) };
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<CompletionChunk> {
+    const content = this.respond(request);
+    for (const word of content.match(/\S+\s*/g) || []) {
+      request.signal?.throwIfAborted();
+      yield { content: word };
+    }
+    yield { tokensUsed: this.countTokens(request, content) };
+  }
+}
@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeProvider, getAvailableModels, getDefaultModel, getLLMProvider, getModelRegistry, isProviderConfigured, setLLMProvider } from './index';
+
+const ask = (content: string) => ({ model: 'fake', messages: [{ role: 'user' as const, content }], maxTokens: 10, temperature: 0 });
+
+describe('provider switching', () => {
+  beforeEach(() => {
+    vi.stubEnv('OPENAI_API_KEY', '');
+    vi.stubEnv('LOCAL_LLM_BASE_URL', '');
+    vi.stubEnv('LLM_FAKE_PROVIDER', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('serves only models whose provider is configured', () => {
+    expect(isProviderConfigured('fake')).toBe(false);
+    expect(getAvailableModels()).toEqual([]);
+    expect(getDefaultModel()).toBeUndefined();
+
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+    expect(getAvailableModels().map(model => model.id)).toEqual(['gpt-4o-mini', 'gpt-3.5-turbo']);
+    expect(getDefaultModel()?.id).toBe('gpt-4o-mini');
+  });
+
+  it('routes requests to a provider swapped in with setLLMProvider', async () => {
+    const first = new FakeProvider('first');
+    setLLMProvider('fake', first);
+
+    expect(isProviderConfigured('fake')).toBe(true);
+    expect(getDefaultModel()?.id).toBe('fake');
+    expect((await getLLMProvider('fake').complete(ask('Hi'))).content).toBe('first');
+
+    const second = new FakeProvider(messages => `echo: ${messages[0].content}`);
+    setLLMProvider('fake', second);
+
+    expect((await getLLMProvider('fake').complete(ask('Hi'))).content).toBe('echo: Hi');
+    expect(first.requests).toHaveLength(1);
+    expect(second.requests).toHaveLength(1);
+  });
+
+  it('prefers LLM_DEFAULT_MODEL when it is available', () => {
+    setLLMProvider('fake', new FakeProvider());
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+    vi.stubEnv('LLM_DEFAULT_MODEL', 'fake');
+
+    expect(getDefaultModel()?.id).toBe('fake');
+  });
+});
+
+describe('local model', () => {
+  const localContextWindow = () => getModelRegistry().find(model => model.provider === 'local')!.contextWindow;
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('reads its context window from LOCAL_LLM_CONTEXT_WINDOW', () => {
+    vi.stubEnv('LOCAL_LLM_CONTEXT_WINDOW', '32768');
+
+    expect(localContextWindow()).toBe(32768);
+  });
+
+  it.each(['', 'lots', '0', '-4096'])('falls back to 8192 tokens when LOCAL_LLM_CONTEXT_WINDOW is %j', value => {
+    vi.stubEnv('LOCAL_LLM_CONTEXT_WINDOW', value);
+
+    expect(localContextWindow()).toBe(8192);
+  });
+});
+
+describe('FakeProvider', () => {
+  it('keeps only the most recent requests', async () => {
+    const provider = new FakeProvider('ok', 2);
+    for (const content of ['one', 'two', 'three']) {
+      await provider.complete(ask(content));
+    }
+
+    expect(provider.requests.map(request => request.messages[0].content)).toEqual(['two', 'three']);
+  });
+
+  it('forgets recorded requests on reset', async () => {
+    const provider = new FakeProvider();
+    await provider.complete(ask('one'));
+    provider.reset();
+
+    expect(provider.requests).toEqual([]);
+  });
+
+  it('streams the reply word by word and reports usage last', async () => {
+    const chunks = [];
+    for await (const chunk of new FakeProvider('Most people agree [1].').stream(ask('Hi'))) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.slice(0, -1).map(chunk => chunk.content)).toEqual(['Most ', 'people ', 'agree ', '[1].']);
+    expect(chunks.at(-1)?.tokensUsed).toBeGreaterThan(0);
+  });
+});
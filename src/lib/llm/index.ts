@@ -0,0 +1,102 @@
+import { CONFIG } from '@/lib/constants';
+import type { ModelSummary } from '@/types';
+import { OpenAIProvider } from './openai-provider';
+import { LocalProvider } from './local-provider';
+import { FakeProvider } from './fake-provider';
+import { getModelRegistry } from './models';
+import type { CompletionRequest, LLMProvider, ModelDefinition, ProviderId } from './types';
+
+export { OpenAIProvider } from './openai-provider';
+export { LocalProvider } from './local-provider';
+export { FakeProvider } from './fake-provider';
+export { getModelRegistry } from './models';
+export type * from './types';
+
+const providers = new Map<ProviderId, LLMProvider>();
+
+/**
+ * Whether a provider can serve requests: OpenAI needs OPENAI_API_KEY, the local provider
+ * LOCAL_LLM_BASE_URL, and the fake one LLM_FAKE_PROVIDER=true or an override via setLLMProvider
+ */
+export function isProviderConfigured(id: ProviderId): boolean {
+  switch (id) {
+    case 'openai':
+      return providers.has('openai') || Boolean(process.env.OPENAI_API_KEY);
+    case 'local':
+      return providers.has('local') || Boolean(process.env.LOCAL_LLM_BASE_URL);
+    case 'fake':
+      return providers.has('fake') || process.env.LLM_FAKE_PROVIDER === 'true';
+  }
+}
+
+/**
+ * Shared provider instance, created on first use from environment variables
+ */
+export function getLLMProvider(id: ProviderId): LLMProvider {
+  let provider = providers.get(id);
+  if (!provider) {
+    provider = id === 'openai' ? new OpenAIProvider() : id === 'local' ? new LocalProvider() : new FakeProvider();
+    providers.set(id, provider);
+  }
+  return provider;
+}
+
+/**
+ * Replace a provider, e.g. with a FakeProvider in tests
+ */
+export function setLLMProvider(id: ProviderId, provider: LLMProvider): void {
+  providers.set(id, provider);
+}
+
+/**
+ * Look up a model by ID, whether or not its provider is configured
+ */
+export function getModel(id: string): ModelDefinition | undefined {
+  return getModelRegistry().find(model => model.id === id);
+}
+
+/**
+ * Models whose provider is configured
+ */
+export function getAvailableModels(): ModelDefinition[] {
+  return getModelRegistry().filter(model => isProviderConfigured(model.provider));
+}
+
+/**
+ * LLM_DEFAULT_MODEL when set and available, else the configured default, else the first available model
+ */
+export function getDefaultModel(): ModelDefinition | undefined {
+  const available = getAvailableModels();
+  return available.find(model => model.id === process.env.LLM_DEFAULT_MODEL)
+    || available.find(model => model.id === CONFIG.LLM.DEFAULT_MODEL)
+    || available[0];
+}
+
+/**
+ * The `jsonSchema` part of a completion request for this model: the schema when the model
+ * accepts one, otherwise nothing, so the reply is held to the schema only by the prompt's
+ * instructions and the caller's validation
+ */
+export function jsonSchemaOption(
+  model: ModelDefinition,
+  jsonSchema: NonNullable<CompletionRequest['jsonSchema']>
+): Pick<CompletionRequest, 'jsonSchema'> {
+  return model.supportsJsonSchema ? { jsonSchema } : {};
+}
+
+/**
+ * Client-facing description of a model
+ */
+export function toModelSummary(model: ModelDefinition): ModelSummary {
+  return {
+    id: model.id,
+    label: model.label,
+    provider: model.provider,
+    context_window: model.contextWindow,
+    supports_json_schema: model.supportsJsonSchema,
+    pricing: {
+      input_per_million: model.pricing.input,
+      output_per_million: model.pricing.output,
+    },
+  };
+}
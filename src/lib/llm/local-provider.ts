@@ -0,0 +1,22 @@
+import { OpenAIProvider } from './openai-provider';
+import type { ProviderId } from './types';
+
+export interface LocalProviderOptions {
+  baseURL?: string;
+  apiKey?: string;
+}
+
+// Any server speaking the OpenAI chat completions API, such as llama.cpp's server or Ollama
+export class LocalProvider extends OpenAIProvider {
+  readonly id: ProviderId = 'local';
+
+  constructor(options: LocalProviderOptions = {}) {
+    super({
+      baseURL: options.baseURL ?? process.env.LOCAL_LLM_BASE_URL,
+      // Most local servers ignore the key, but the client requires one
+      apiKey: options.apiKey ?? process.env.LOCAL_LLM_API_KEY ?? 'local',
+    });
+    // Not every local server supports stream_options
+    this.streamUsage = process.env.LOCAL_LLM_STREAM_USAGE === 'true';
+  }
+}
@@ -0,0 +1,56 @@
+import type { ModelDefinition } from './types';
+
+// Hosted models, priced per million tokens
+const HOSTED_MODELS: ModelDefinition[] = [
+  {
+    id: 'gpt-4o-mini',
+    label: 'GPT-4o mini',
+    provider: 'openai',
+    providerModel: 'gpt-4o-mini',
+    contextWindow: 128000,
+    supportsJsonSchema: true,
+    pricing: { input: 0.15, output: 0.6 },
+  },
+  {
+    id: 'gpt-3.5-turbo',
+    label: 'GPT-3.5 Turbo',
+    provider: 'openai',
+    providerModel: 'gpt-3.5-turbo',
+    contextWindow: 16385,
+    supportsJsonSchema: false,
+    pricing: { input: 0.5, output: 1.5 },
+  },
+];
+
+/**
+ * Every model the app knows about. The local model is described by LOCAL_LLM_MODEL,
+ * LOCAL_LLM_CONTEXT_WINDOW and LOCAL_LLM_STRUCTURED_OUTPUT, so it is read from the
+ * environment on each call.
+ */
+export function getModelRegistry(): ModelDefinition[] {
+  const localModel = process.env.LOCAL_LLM_MODEL || 'llama3.1';
+  // A missing or unreadable value falls back to 8192 rather than a NaN budget
+  const localContextWindow = parseInt(process.env.LOCAL_LLM_CONTEXT_WINDOW || '', 10);
+
+  return [
+    ...HOSTED_MODELS,
+    {
+      id: 'local',
+      label: `Local (${localModel})`,
+      provider: 'local',
+      providerModel: localModel,
+      contextWindow: Number.isFinite(localContextWindow) && localContextWindow > 0 ? localContextWindow : 8192,
+      supportsJsonSchema: process.env.LOCAL_LLM_STRUCTURED_OUTPUT === 'true',
+      pricing: { input: 0, output: 0 },
+    },
+    {
+      id: 'fake',
+      label: 'Fake (testing)',
+      provider: 'fake',
+      providerModel: 'fake',
+      contextWindow: 16385,
+      supportsJsonSchema: true,
+      pricing: { input: 0, output: 0 },
+    },
+  ];
+}
@@ -0,0 +1,64 @@
+import OpenAI from 'openai';
+import type { CompletionChunk, CompletionRequest, CompletionResult, LLMProvider, ProviderId } from './types';
+
+export interface OpenAIProviderOptions {
+  apiKey?: string;
+  baseURL?: string;
+}
+
+// Chat completions through the OpenAI API
+export class OpenAIProvider implements LLMProvider {
+  readonly id: ProviderId = 'openai';
+  protected client: OpenAI;
+
+  // Whether the server reports token usage at the end of a stream
+  protected streamUsage = true;
+
+  constructor(options: OpenAIProviderOptions = {}) {
+    this.client = new OpenAI({
+      apiKey: options.apiKey ?? process.env.OPENAI_API_KEY,
+      baseURL: options.baseURL,
+    });
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const completion = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(request.jsonSchema ? {
+        response_format: {
+          type: 'json_schema' as const,
+          json_schema: { name: request.jsonSchema.name, schema: request.jsonSchema.schema, strict: true },
+        },
+      } : {}),
+    }, { signal: request.signal });
+
+    return {
+      content: completion.choices[0]?.message?.content || '',
+      tokensUsed: completion.usage?.total_tokens,
+    };
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<CompletionChunk> {
+    const completion = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      stream: true,
+      ...(this.streamUsage ? { stream_options: { include_usage: true } } : {}),
+    }, { signal: request.signal });
+
+    for await (const chunk of completion) {
+      const content = chunk.choices[0]?.delta?.content;
+      if (content) {
+        yield { content };
+      }
+      if (chunk.usage) {
+        yield { tokensUsed: chunk.usage.total_tokens };
+      }
+    }
+  }
+}
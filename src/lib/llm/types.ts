@@ -0,0 +1,50 @@
+export type ProviderId = 'openai' | 'local' | 'fake';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  model: string; // The provider's own model name
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature: number;
+  // Ask for a JSON reply matching this schema; only sent for models with supportsJsonSchema
+  jsonSchema?: { name: string; schema: Record<string, unknown> };
+  signal?: AbortSignal; // Abandons the request, e.g. when the client disconnects
+}
+
+export interface CompletionResult {
+  content: string;
+  tokensUsed?: number;
+}
+
+// One piece of a streamed completion: text as it arrives, usage once known
+export interface CompletionChunk {
+  content?: string;
+  tokensUsed?: number;
+}
+
+// A chat completion backend
+export interface LLMProvider {
+  readonly id: ProviderId;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  stream(request: CompletionRequest): AsyncIterable<CompletionChunk>;
+}
+
+// A model users can pick, and what it costs to run
+export interface ModelDefinition {
+  id: string; // Sent by clients as `model`
+  label: string;
+  provider: ProviderId;
+  providerModel: string; // Name passed to the provider
+  contextWindow: number; // Tokens
+  // Accepts a JSON schema response format. Without it, callers rely on the prompt's
+  // schema instructions and validate the reply themselves.
+  supportsJsonSchema: boolean;
+  pricing: {
+    input: number; // USD per million prompt tokens
+    output: number; // USD per million completion tokens
+  };
+}
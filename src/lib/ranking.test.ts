@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { bm25Scores, rankItems, tokenize, type RankableItem } from './ranking';
+
+const now = Date.UTC(2026, 0, 15);
+const createdAt = now / 1000 - 60 * 60;
+
+const item = (text: string, score: number, created_utc = createdAt): RankableItem => ({ text, score, created_utc });
+
+// Items in descending rank order; Array.prototype.sort is stable, so ties keep their input order
+const ranked = (question: string, items: RankableItem[]) => {
+  const { scores, info } = rankItems(question, items, rankable => rankable, now);
+  return { order: [...items].sort((a, b) => scores.get(b)! - scores.get(a)!), scores, info };
+};
+
+describe('tokenize', () => {
+  it('drops stop words and short words and strips simple plurals', () => {
+    expect(tokenize('What are the best index funds for a beginner?')).toEqual(['index', 'fund', 'beginner']);
+    expect(tokenize('glass bus')).toEqual(['glass', 'bus']);
+  });
+});
+
+describe('bm25Scores', () => {
+  it('scores documents without the query terms at zero', () => {
+    expect(bm25Scores(['fund'], [['fund', 'index'], ['stock', 'bond']])).toEqual([expect.any(Number), 0]);
+  });
+
+  it('weights rare terms above common ones', () => {
+    const [common, rare] = bm25Scores(['fund', 'etf'], [['fund', 'x'], ['etf', 'x'], ['fund', 'y'], ['fund', 'z']]);
+
+    expect(rare).toBeGreaterThan(common);
+  });
+
+  it('favours more matches but saturates, and penalises long documents', () => {
+    const [once, twice, often] = bm25Scores(['fund'], [['fund', 'a'], ['fund', 'fund'], Array(20).fill('fund')]);
+    const [short, long] = bm25Scores(['fund'], [['fund', 'a'], ['fund', ...Array(20).fill('b')]]);
+
+    expect(twice).toBeGreaterThan(once);
+    expect(often).toBeLessThan(twice * 2.2);
+    expect(short).toBeGreaterThan(long);
+  });
+
+  it('handles no documents and no terms', () => {
+    expect(bm25Scores(['fund'], [])).toEqual([]);
+    expect(bm25Scores([], [['fund']])).toEqual([0]);
+  });
+});
+
+describe('rankItems', () => {
+  it('puts items matching the question above more upvoted ones that do not', () => {
+    const popular = item('My cat knocked over the plant again', 5000);
+    const relevant = item('Index funds are the easiest start for a beginner investor', 3);
+    const { order, info } = ranked('Which index fund should a beginner buy?', [popular, relevant]);
+
+    expect(order).toEqual([relevant, popular]);
+    expect(info.method).toBe('bm25');
+    expect(info.weights).toEqual({ relevance: 0.6, popularity: 0.3, recency: 0.1 });
+    expect(info.query_terms).toEqual(['index', 'fund', 'beginner', 'buy']);
+  });
+
+  it('breaks equal relevance by upvotes', () => {
+    const low = item('index fund', 2);
+    const high = item('index fund', 200);
+
+    expect(ranked('index fund', [low, high]).order).toEqual([high, low]);
+  });
+
+  it('falls back to upvotes and recency when the question has no usable terms', () => {
+    const old = item('Anything at all', 100, createdAt - 60 * 60 * 24 * 60);
+    const recent = item('Something else', 100);
+    const top = item('Another thing', 900);
+    const { order, info } = ranked('Is it?', [old, recent, top]);
+
+    expect(info.method).toBe('score');
+    expect(info.query_terms).toEqual([]);
+    expect(info.weights).toEqual({ relevance: 0, popularity: 0.75, recency: 0.25 });
+    expect(order).toEqual([top, recent, old]);
+  });
+
+  it('falls back the same way when no item matches the question terms', () => {
+    const { order, info } = ranked('quantum chromodynamics', [item('a b c', 1), item('d e f', 50)]);
+
+    expect(info.method).toBe('score');
+    expect(order.map(entry => entry.score)).toEqual([50, 1]);
+  });
+
+  it('gives tied items equal scores so their order stays stable', () => {
+    const items = [item('same text', 10), item('text same', 10), item('Same, text!', 10)];
+    const { order, scores } = ranked('text', items);
+
+    expect(new Set(scores.values()).size).toBe(1);
+    expect(order).toEqual(items);
+    expect(ranked('', items).order).toEqual(items);
+  });
+
+  it('keeps scores between 0 and 1 and copes with negative or zero upvotes', () => {
+    const { scores } = ranked('fund', [item('fund', -5), item('other', 0)]);
+
+    for (const score of scores.values()) {
+      expect(score).toBeGreaterThanOrEqual(0);
+      expect(score).toBeLessThanOrEqual(1);
+    }
+  });
+});
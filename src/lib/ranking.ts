@@ -0,0 +1,102 @@
+import { CONFIG } from './constants';
+import { extractKeywords } from './utils';
+import type { RankingInfo } from '@/types';
+
+// What the ranker needs to know about a post or comment
+export interface RankableItem {
+  text: string;
+  score: number;
+  created_utc: number;
+}
+
+/**
+ * Keywords with a light plural stem, so "funds" matches "fund"
+ */
+export function tokenize(text: string): string[] {
+  return extractKeywords(text).map(word =>
+    word.length > 4 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word
+  );
+}
+
+/**
+ * Okapi BM25 score of each document against the query terms
+ */
+export function bm25Scores(queryTerms: string[], documents: string[][]): number[] {
+  const { BM25_K1: k1, BM25_B: b } = CONFIG.RANKING;
+  const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / (documents.length || 1);
+
+  const documentFrequency = new Map<string, number>();
+  for (const doc of documents) {
+    for (const term of new Set(doc)) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  return documents.map(doc => {
+    const termFrequency = new Map<string, number>();
+    doc.forEach(term => termFrequency.set(term, (termFrequency.get(term) || 0) + 1));
+
+    return queryTerms.reduce((score, term) => {
+      const tf = termFrequency.get(term) || 0;
+      if (!tf) return score;
+      const df = documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+      return score + idf * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * doc.length / (averageLength || 1)));
+    }, 0);
+  });
+}
+
+/**
+ * Score items against a question, blending BM25 relevance with upvotes and recency.
+ * Each component is normalised to 0-1 across the items before weighting. Falls back to
+ * upvotes and recency alone when nothing matches the question.
+ */
+export function rankItems<T>(
+  question: string,
+  items: T[],
+  toRankable: (item: T) => RankableItem,
+  now: number = Date.now()
+): { scores: Map<T, number>; info: RankingInfo } {
+  const queryTerms = Array.from(new Set(tokenize(question)));
+  const rankables = items.map(toRankable);
+
+  const relevance = bm25Scores(queryTerms, rankables.map(item => tokenize(item.text)));
+  const maxRelevance = Math.max(0, ...relevance);
+  const method = maxRelevance > 0 ? 'bm25' : 'score';
+
+  const { relevance: relevanceWeight, popularity: popularityWeight, recency: recencyWeight } = CONFIG.RANKING.WEIGHTS;
+  const weights = method === 'bm25'
+    ? { relevance: relevanceWeight, popularity: popularityWeight, recency: recencyWeight }
+    : {
+        relevance: 0,
+        popularity: popularityWeight / (popularityWeight + recencyWeight),
+        recency: recencyWeight / (popularityWeight + recencyWeight),
+      };
+
+  const maxPopularity = Math.log1p(Math.max(0, ...rankables.map(item => item.score)));
+  const halfLifeSeconds = CONFIG.RANKING.RECENCY_HALF_LIFE_HOURS * 60 * 60;
+
+  const scores = new Map<T, number>();
+  items.forEach((item, index) => {
+    const { score, created_utc } = rankables[index];
+    const popularity = maxPopularity ? Math.log1p(Math.max(0, score)) / maxPopularity : 0;
+    const ageSeconds = Math.max(0, now / 1000 - created_utc);
+    const recency = Math.pow(0.5, ageSeconds / halfLifeSeconds);
+    const relevanceScore = maxRelevance ? relevance[index] / maxRelevance : 0;
+
+    scores.set(item, weights.relevance * relevanceScore + weights.popularity * popularity + weights.recency * recency);
+  });
+
+  return {
+    scores,
+    info: {
+      method,
+      weights: {
+        relevance: Math.round(weights.relevance * 100) / 100,
+        popularity: Math.round(weights.popularity * 100) / 100,
+        recency: Math.round(weights.recency * 100) / 100,
+      },
+      query_terms: queryTerms,
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { RateLimitRecord, RateLimitReserveResult, RateLimitStore } from './types';
+
+// JSON file store so counters survive restarts on a single server
+export class FileRateLimitStore implements RateLimitStore {
+  private records: Record<string, RateLimitRecord> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  private async load(): Promise<Record<string, RateLimitRecord>> {
+    if (!this.records) {
+      try {
+        this.records = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+      } catch {
+        this.records = {};
+      }
+    }
+    return this.records!;
+  }
+
+  private async save(records: Record<string, RateLimitRecord>): Promise<void> {
+    const now = Date.now();
+    for (const [key, record] of Object.entries(records)) {
+      if (now >= record.resetTime) delete records[key];
+    }
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(records));
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  // Run file operations one at a time so concurrent reservations can't both pass the limit
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  async get(key: string): Promise<RateLimitRecord | null> {
+    return this.serialize(async () => {
+      const record = (await this.load())[key];
+      if (!record || Date.now() >= record.resetTime) {
+        return null;
+      }
+      return record;
+    });
+  }
+
+  async reserve(key: string, cost: number, limit: number, windowMs: number): Promise<RateLimitReserveResult> {
+    return this.serialize(async () => {
+      const records = await this.load();
+      const current = records[key] && Date.now() < records[key].resetTime
+        ? records[key]
+        : { count: 0, resetTime: Date.now() + windowMs };
+      if (current.count + cost > limit) {
+        return { record: current, reserved: false };
+      }
+
+      const record = { ...current, count: current.count + cost };
+      records[key] = record;
+      await this.save(records);
+      return { record, reserved: true };
+    });
+  }
+
+  async release(key: string, cost: number): Promise<void> {
+    return this.serialize(async () => {
+      const records = await this.load();
+      const current = records[key];
+      if (!current || Date.now() >= current.resetTime) return;
+
+      records[key] = { ...current, count: Math.max(0, current.count - cost) };
+      await this.save(records);
+    });
+  }
+}
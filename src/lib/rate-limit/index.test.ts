@@ -0,0 +1,116 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  FileRateLimitStore,
+  MemoryRateLimitStore,
+  checkRateLimit,
+  getClientIp,
+  getRateLimitClient,
+  reserveRateLimit,
+  setRateLimitStore,
+  type RateLimitStore,
+} from './index';
+
+const WINDOW_MS = 60_000;
+
+const request = (headers: Record<string, string>) => new Request('http://localhost/api/ask-question', { headers });
+
+describe.each([
+  ['memory', async () => new MemoryRateLimitStore()],
+  ['file', async () => new FileRateLimitStore(path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'rate-limit-')), 'limits.json'))],
+])('%s store', (_name, createStore: () => Promise<RateLimitStore>) => {
+  let store: RateLimitStore;
+
+  beforeEach(async () => {
+    store = await createStore();
+  });
+
+  it('lets only as many concurrent reservations through as the limit allows', async () => {
+    const results = await Promise.all(Array.from({ length: 10 }, () => store.reserve('ip:1', 1, 3, WINDOW_MS)));
+
+    expect(results.filter(result => result.reserved)).toHaveLength(3);
+    expect((await store.get('ip:1'))?.count).toBe(3);
+  });
+
+  it('rejects a reservation that would go over the limit without counting it', async () => {
+    await store.reserve('ip:1', 2, 3, WINDOW_MS);
+    const result = await store.reserve('ip:1', 2, 3, WINDOW_MS);
+
+    expect(result.reserved).toBe(false);
+    expect(result.record.count).toBe(2);
+    expect((await store.reserve('ip:1', 1, 3, WINDOW_MS)).reserved).toBe(true);
+  });
+
+  it('gives released requests back', async () => {
+    await store.reserve('ip:1', 3, 3, WINDOW_MS);
+    await store.release('ip:1', 2);
+
+    expect((await store.get('ip:1'))?.count).toBe(1);
+  });
+
+  it('starts a new window once the old one expires', async () => {
+    await store.reserve('ip:1', 3, 3, 1);
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    expect(await store.get('ip:1')).toBeNull();
+    expect((await store.reserve('ip:1', 1, 3, WINDOW_MS)).record.count).toBe(1);
+  });
+});
+
+describe('reserveRateLimit', () => {
+  beforeEach(() => {
+    setRateLimitStore(new MemoryRateLimitStore());
+  });
+
+  it('releases each reserved request at most once', async () => {
+    const client = { identity: 'ip:1', limit: 5 };
+    const reservation = await reserveRateLimit(client, 3);
+    expect(reservation.status.remaining).toBe(2);
+
+    await reservation.release(1);
+    expect(reservation.status.remaining).toBe(3);
+    await reservation.release();
+    await reservation.release();
+
+    expect((await checkRateLimit(client)).remaining).toBe(5);
+  });
+
+  it('has nothing to release when the reservation was rejected', async () => {
+    const client = { identity: 'ip:1', limit: 2 };
+    await reserveRateLimit(client, 2);
+    const rejected = await reserveRateLimit(client);
+
+    expect(rejected.reserved).toBe(false);
+    await rejected.release();
+    expect((await checkRateLimit(client)).remaining).toBe(0);
+  });
+});
+
+describe('client identity', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('takes the address recorded by the trusted proxy, not the ones the client sent', () => {
+    expect(getClientIp(request({ 'x-forwarded-for': 'forged, 203.0.113.7' }))).toBe('203.0.113.7');
+
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '2');
+    expect(getClientIp(request({ 'x-forwarded-for': 'forged, 203.0.113.7, 10.0.0.2' }))).toBe('203.0.113.7');
+    expect(getClientIp(request({ 'x-forwarded-for': '203.0.113.7' }))).toBe('203.0.113.7');
+  });
+
+  it('falls back to X-Real-IP without X-Forwarded-For', () => {
+    expect(getClientIp(request({ 'x-real-ip': '203.0.113.7' }))).toBe('203.0.113.7');
+    expect(getClientIp(request({}))).toBe('unknown');
+  });
+
+  it('uses a known API key\'s bucket and limit, and ignores unknown keys', () => {
+    vi.stubEnv('API_KEYS', 'search:secret-key:50');
+
+    expect(getRateLimitClient(request({ 'x-api-key': 'secret-key' }))).toEqual({ identity: 'apikey:search', limit: 50 });
+    expect(getRateLimitClient(request({ authorization: 'Bearer made-up', 'x-forwarded-for': '203.0.113.7' })))
+      .toEqual({ identity: 'ip:203.0.113.7', limit: 3 });
+  });
+});
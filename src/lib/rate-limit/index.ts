@@ -0,0 +1,146 @@
+import path from 'path';
+import { CONFIG } from '@/lib/constants';
+import { apiKeyIdentity, findApiKey } from '@/lib/api-v1/keys';
+import type { RateLimitStatus } from '@/types';
+import { MemoryRateLimitStore } from './memory-store';
+import { FileRateLimitStore } from './file-store';
+import type { RateLimitStore } from './types';
+
+export { MemoryRateLimitStore } from './memory-store';
+export { FileRateLimitStore } from './file-store';
+export type { RateLimitStore, RateLimitRecord, RateLimitReserveResult } from './types';
+
+const WINDOW_MS = CONFIG.RATE_LIMIT.RESET_HOURS * 60 * 60 * 1000;
+
+let sharedStore: RateLimitStore | null = null;
+
+/**
+ * Store selected by RATE_LIMIT_STORE ('memory' or 'file'), created on first use
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!sharedStore) {
+    sharedStore = process.env.RATE_LIMIT_STORE === 'file'
+      ? new FileRateLimitStore(process.env.RATE_LIMIT_FILE || path.join(process.cwd(), '.data', 'rate-limits.json'))
+      : new MemoryRateLimitStore();
+  }
+  return sharedStore;
+}
+
+/**
+ * Replace the shared store, e.g. with a pre-seeded one in tests
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  sharedStore = store;
+}
+
+/**
+ * Rate limiting is skipped in development, matching the unlimited localhost experience
+ */
+export function isRateLimitEnabled(): boolean {
+  return process.env.NODE_ENV !== 'development' && process.env.RATE_LIMIT_DISABLED !== 'true';
+}
+
+// A caller and the number of requests it gets per window
+export interface RateLimitClient {
+  identity: string;
+  limit: number;
+}
+
+// Result of reserving requests up front; see reserveRateLimit
+export interface RateLimitReservation {
+  status: RateLimitStatus;
+  reserved: boolean; // False when the requests didn't fit in what is left; nothing was counted
+  release(count?: number): Promise<void>; // Give back `count` of the reserved requests, all of them by default
+}
+
+/**
+ * The client's IP as recorded by the outermost trusted proxy. Each of the TRUSTED_PROXY_HOPS
+ * proxies in front of the app appends the address it received the request from to
+ * X-Forwarded-For, so entries further left were sent by the client and can be forged.
+ */
+export function getClientIp(request: Request): string {
+  const hops = Math.max(1, Number.parseInt(process.env.TRUSTED_PROXY_HOPS || '', 10) || 1);
+  const forwarded = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+
+  if (forwarded.length) {
+    return forwarded[Math.max(0, forwarded.length - hops)];
+  }
+  return request.headers.get('x-real-ip') || 'unknown';
+}
+
+/**
+ * Identify the caller: by API key when the request carries one from API_KEYS, sharing that
+ * key's /api/v1 limit, otherwise by client IP. Unknown keys are ignored rather than trusted,
+ * so inventing keys doesn't get a fresh quota.
+ */
+export function getRateLimitClient(request: Request): RateLimitClient {
+  const key = findApiKey(request);
+  if (key) {
+    return { identity: apiKeyIdentity(key), limit: key.dailyLimit };
+  }
+  return { identity: `ip:${getClientIp(request)}`, limit: CONFIG.RATE_LIMIT.MAX_REQUESTS };
+}
+
+function toStatus(count: number, resetTime: number, limit: number): RateLimitStatus {
+  return {
+    allowed: count < limit,
+    limit,
+    remaining: Math.max(0, limit - count),
+    resetTime,
+  };
+}
+
+/**
+ * Current quota for a client, without using any of it
+ */
+export async function checkRateLimit(client: RateLimitClient): Promise<RateLimitStatus> {
+  const record = await getRateLimitStore().get(client.identity);
+  return record
+    ? toStatus(record.count, record.resetTime, client.limit)
+    : toStatus(0, Date.now() + WINDOW_MS, client.limit);
+}
+
+/**
+ * Count `cost` requests against a client's quota before doing the work, if they fit. Checking
+ * and counting happen in one step, so concurrent requests can't overrun the limit. Call
+ * `release` to give the requests back when the work fails before reaching the model.
+ */
+export async function reserveRateLimit(client: RateLimitClient, cost: number = 1): Promise<RateLimitReservation> {
+  const store = getRateLimitStore();
+  const { record, reserved } = await store.reserve(client.identity, cost, client.limit, WINDOW_MS);
+  // `allowed` reports whether another request would be
+  const status = toStatus(record.count, record.resetTime, client.limit);
+  let outstanding = reserved ? cost : 0;
+
+  return {
+    status,
+    reserved,
+    release: async (count = outstanding) => {
+      const released = Math.min(count, outstanding);
+      if (released <= 0) return;
+      outstanding -= released;
+      Object.assign(status, toStatus(client.limit - status.remaining - released, status.resetTime, client.limit));
+      await store.release(client.identity, released);
+    },
+  };
+}
+
+/**
+ * Standard rate limit headers, plus Retry-After when the request was rejected
+ */
+export function rateLimitHeaders(status: RateLimitStatus, rejected: boolean = false): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(status.limit),
+    'X-RateLimit-Remaining': String(status.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(status.resetTime / 1000)),
+  };
+
+  if (rejected) {
+    headers['Retry-After'] = String(Math.max(0, Math.ceil((status.resetTime - Date.now()) / 1000)));
+  }
+
+  return headers;
+}
@@ -0,0 +1,37 @@
+import type { RateLimitRecord, RateLimitReserveResult, RateLimitStore } from './types';
+
+// Process-local store; counters reset when the server restarts
+export class MemoryRateLimitStore implements RateLimitStore {
+  private records = new Map<string, RateLimitRecord>();
+
+  private current(key: string): RateLimitRecord | null {
+    const record = this.records.get(key);
+    if (!record || Date.now() >= record.resetTime) {
+      return null;
+    }
+    return record;
+  }
+
+  async get(key: string): Promise<RateLimitRecord | null> {
+    return this.current(key);
+  }
+
+  // Nothing is awaited between reading and writing the record, so reservations can't interleave
+  async reserve(key: string, cost: number, limit: number, windowMs: number): Promise<RateLimitReserveResult> {
+    const current = this.current(key) ?? { count: 0, resetTime: Date.now() + windowMs };
+    if (current.count + cost > limit) {
+      return { record: current, reserved: false };
+    }
+
+    const record = { ...current, count: current.count + cost };
+    this.records.set(key, record);
+    return { record, reserved: true };
+  }
+
+  async release(key: string, cost: number): Promise<void> {
+    const current = this.current(key);
+    if (current) {
+      this.records.set(key, { ...current, count: Math.max(0, current.count - cost) });
+    }
+  }
+}
@@ -0,0 +1,20 @@
+export interface RateLimitRecord {
+  count: number;
+  resetTime: number; // Epoch ms when the window ends
+}
+
+export interface RateLimitReserveResult {
+  record: RateLimitRecord;
+  reserved: boolean; // False when `cost` didn't fit under the limit; nothing was counted
+}
+
+// Storage backend for per-client request counters
+export interface RateLimitStore {
+  get(key: string): Promise<RateLimitRecord | null>;
+  // Add `cost` requests to the key's window only if the total stays within `limit`, starting a
+  // new window if the old one expired. Checking and counting must happen as one step, so
+  // concurrent requests can't all pass the check before any of them is counted.
+  reserve(key: string, cost: number, limit: number, windowMs: number): Promise<RateLimitReserveResult>;
+  // Give back requests reserved in the current window, e.g. when the work failed before reaching the model
+  release(key: string, cost: number): Promise<void>;
+}
@@ -0,0 +1,275 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RedditClient, RedditApiError } from './client';
+
+type Handler = (request: http.IncomingMessage, response: http.ServerResponse, token: string) => void;
+
+// A fake Reddit: the OAuth endpoint hands out numbered tokens, API calls go to `handle`
+let server: http.Server;
+let baseUrl: string;
+let tokensIssued: number;
+let expiresIn: number;
+let apiCalls: { path: string; token: string }[];
+let handle: Handler;
+
+const sendJson = (response: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  response.end(JSON.stringify(body));
+};
+
+const listing = {
+  kind: 'Listing',
+  data: {
+    after: null,
+    before: null,
+    children: [{
+      kind: 't3',
+      data: {
+        id: 'abc',
+        name: 't3_abc',
+        title: 'A post',
+        selftext: 'Body',
+        author: 'someone',
+        score: 42,
+        num_comments: 3,
+        created_utc: 1700000000,
+        url: 'https://example.com',
+        subreddit: 'test',
+        permalink: '/r/test/comments/abc/a_post/',
+        upvote_ratio: 0.9,
+      },
+    }],
+  },
+};
+
+const ok: Handler = (request, response) => sendJson(response, 200, listing);
+
+// Answer each API call with the next handler, repeating the last one
+const sequence = (...handlers: Handler[]): Handler => {
+  let call = 0;
+  return (request, response, token) => handlers[Math.min(call++, handlers.length - 1)](request, response, token);
+};
+
+const createClient = (options: { maxRetries?: number; retryBaseMs?: number } = {}) => new RedditClient({
+  clientId: 'id',
+  clientSecret: 'secret',
+  authBaseUrl: baseUrl,
+  apiBaseUrl: baseUrl,
+  retryBaseMs: 1,
+  ...options,
+});
+
+beforeAll(async () => {
+  server = http.createServer((request, response) => {
+    if (request.url === '/api/v1/access_token') {
+      tokensIssued++;
+      sendJson(response, 200, { access_token: `token-${tokensIssued}`, token_type: 'bearer', expires_in: expiresIn });
+      return;
+    }
+    const token = (request.headers.authorization || '').replace(/^Bearer /, '');
+    apiCalls.push({ path: request.url || '', token });
+    handle(request, response, token);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  tokensIssued = 0;
+  expiresIn = 3600;
+  apiCalls = [];
+  handle = ok;
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+describe('RedditClient OAuth tokens', () => {
+  it('reuses a token until it is about to expire', async () => {
+    const client = createClient();
+    await client.getListing('test');
+    await client.getListing('test');
+
+    expect(tokensIssued).toBe(1);
+    expect(apiCalls.map(call => call.token)).toEqual(['token-1', 'token-1']);
+  });
+
+  it('renews a token that expires within the safety margin', async () => {
+    expiresIn = 30;
+    const client = createClient();
+    await client.getListing('test');
+    await client.getListing('test');
+
+    expect(tokensIssued).toBe(2);
+    expect(apiCalls.map(call => call.token)).toEqual(['token-1', 'token-2']);
+  });
+
+  it('shares one token request between concurrent calls', async () => {
+    const client = createClient();
+    await Promise.all([client.getListing('a'), client.getListing('b'), client.getListing('c')]);
+
+    expect(tokensIssued).toBe(1);
+  });
+
+  it('renews a revoked token once and retries the call', async () => {
+    handle = (request, response, token) => token === 'token-1' ? sendJson(response, 401, { message: 'Unauthorized' }) : ok(request, response, token);
+    const posts = await createClient().getListing('test');
+
+    expect(posts.map(post => post.id)).toEqual(['abc']);
+    expect(tokensIssued).toBe(2);
+    expect(apiCalls.map(call => call.token)).toEqual(['token-1', 'token-2']);
+  });
+
+  it('fails when the renewed token is rejected too', async () => {
+    handle = (request, response) => sendJson(response, 401, { message: 'Unauthorized' });
+
+    await expect(createClient().getListing('test')).rejects.toMatchObject({ status: 401 });
+    expect(apiCalls).toHaveLength(2);
+  });
+});
+
+describe('RedditClient retries', () => {
+  const tooManyRequests = (headers: Record<string, string> = {}): Handler =>
+    (request, response) => sendJson(response, 429, { message: 'Too Many Requests' }, headers);
+
+  it('retries a 429 after the Retry-After delay', async () => {
+    handle = sequence(tooManyRequests({ 'Retry-After': '0' }), ok);
+    const posts = await createClient().getListing('test');
+
+    expect(posts).toHaveLength(1);
+    expect(apiCalls).toHaveLength(2);
+  });
+
+  it('backs off exponentially when Reddit sends no delay', async () => {
+    handle = sequence(tooManyRequests(), tooManyRequests(), ok);
+    const started = Date.now();
+    await createClient({ retryBaseMs: 25 }).getListing('test');
+
+    expect(apiCalls).toHaveLength(3);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(25 + 50);
+  });
+
+  it('retries server errors', async () => {
+    handle = sequence((request, response) => sendJson(response, 503, {}), ok);
+    await createClient().getListing('test');
+
+    expect(apiCalls).toHaveLength(2);
+  });
+
+  it('backs off from a server error even though Reddit says its rate limit resets much later', async () => {
+    handle = sequence((request, response) => sendJson(response, 503, {}, { 'x-ratelimit-reset': '300' }), ok);
+    const posts = await createClient().getListing('test');
+
+    expect(posts).toHaveLength(1);
+    expect(apiCalls).toHaveLength(2);
+  });
+
+  it('gives up after maxRetries', async () => {
+    handle = tooManyRequests({ 'Retry-After': '0' });
+    const error = await createClient({ maxRetries: 2 }).getListing('test').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(RedditApiError);
+    expect(error.status).toBe(429);
+    expect(apiCalls).toHaveLength(3);
+  });
+
+  it('gives up at once when asked to wait longer than MAX_RETRY_WAIT_MS', async () => {
+    handle = tooManyRequests({ 'Retry-After': '3600' });
+
+    await expect(createClient().getListing('test')).rejects.toMatchObject({ status: 429 });
+    expect(apiCalls).toHaveLength(1);
+  });
+
+  it('does not retry a missing subreddit', async () => {
+    handle = (request, response) => sendJson(response, 404, {});
+
+    await expect(createClient().getListing('missing')).rejects.toThrow('Subreddit r/missing not found');
+    expect(apiCalls).toHaveLength(1);
+  });
+});
+
+describe('RedditClient.getComments', () => {
+  const comment = (id: string, parent: string, replies: unknown[] = [], fields: Record<string, unknown> = {}) => ({
+    kind: 't1',
+    data: {
+      id,
+      name: `t1_${id}`,
+      body: `Comment ${id}`,
+      author: 'someone',
+      score: 1,
+      created_utc: 1700000000,
+      permalink: `/r/test/comments/abc/_/${id}/`,
+      parent_id: parent,
+      replies: replies.length ? { kind: 'Listing', data: { after: null, before: null, children: replies } } : '',
+      ...fields,
+    },
+  });
+  const more = (id: string, parent: string, children: string[], depth: number) => ({
+    kind: 'more',
+    data: { id, name: `t1_${id}`, parent_id: parent, count: children.length, depth, children },
+  });
+  const thread = (...children: unknown[]): Handler => (request, response) =>
+    sendJson(response, 200, [listing, { kind: 'Listing', data: { after: null, before: null, children } }]);
+  const moreChildren = (...things: unknown[]): Handler => (request, response) =>
+    sendJson(response, 200, { json: { errors: [], data: { things } } });
+
+  it('rebuilds nested replies down to the requested depth', async () => {
+    handle = thread(comment('a', 't3_abc', [comment('b', 't1_a', [comment('c', 't1_b')])]));
+    const comments = await createClient().getComments('abc', { depth: 1 });
+
+    expect(new URL(apiCalls[0].path, baseUrl).searchParams.get('depth')).toBe('2');
+    expect(comments).toHaveLength(1);
+    expect(comments[0].replies).toEqual([expect.objectContaining({ id: 'b', depth: 1 })]);
+    expect(comments[0].replies?.[0].replies).toBeUndefined();
+  });
+
+  it('skips deleted and removed comments but keeps their replies', async () => {
+    handle = thread(
+      comment('a', 't3_abc', [comment('b', 't1_a', [comment('c', 't1_b')], { body: '[deleted]' })]),
+      comment('d', 't3_abc', [comment('e', 't1_d')], { body: '[removed]' })
+    );
+    const comments = await createClient().getComments('abc');
+
+    expect(comments.map(node => node.id).sort()).toEqual(['a', 'e']);
+    expect(comments.find(node => node.id === 'a')?.replies).toEqual([expect.objectContaining({ id: 'c', depth: 1 })]);
+  });
+
+  it('expands "load more" stubs through /api/morechildren', async () => {
+    handle = sequence(
+      thread(comment('a', 't3_abc', [more('m', 't1_a', ['b'], 1)])),
+      moreChildren(comment('b', 't1_a', [], { depth: 1 }), more('n', 't1_b', ['c'], 2)),
+      moreChildren(comment('c', 't1_b', [], { depth: 2 }))
+    );
+    const comments = await createClient().getComments('abc');
+
+    const expansions = apiCalls.slice(1).map(call => new URL(call.path, baseUrl));
+    expect(expansions.map(url => url.pathname)).toEqual(['/api/morechildren', '/api/morechildren']);
+    expect(expansions.map(url => url.searchParams.get('children'))).toEqual(['b', 'c']);
+    expect(expansions[0].searchParams.get('link_id')).toBe('t3_abc');
+    expect(comments[0].replies?.[0]).toMatchObject({ id: 'b', replies: [expect.objectContaining({ id: 'c', depth: 2 })] });
+  });
+
+  it('leaves stubs below the depth limit, and all of them when expandMore is off', async () => {
+    handle = thread(comment('a', 't3_abc', [comment('b', 't1_a', [more('m', 't1_b', ['c'], 2)])]));
+    await createClient().getComments('abc', { depth: 1 });
+    await createClient().getComments('abc', { depth: 3, expandMore: false });
+
+    expect(apiCalls.map(call => new URL(call.path, baseUrl).pathname)).toEqual(['/comments/abc', '/comments/abc']);
+  });
+
+  it('keeps the listed comments when expanding fails', async () => {
+    handle = sequence(
+      thread(comment('a', 't3_abc', [more('m', 't1_a', ['b'], 1)])),
+      (request, response) => sendJson(response, 404, {})
+    );
+    const comments = await createClient().getComments('abc');
+
+    expect(comments.map(node => node.id)).toEqual(['a']);
+    expect(apiCalls).toHaveLength(2);
+  });
+});
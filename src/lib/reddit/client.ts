@@ -0,0 +1,395 @@
+import { CONFIG, TIMEFRAMES } from '@/lib/constants';
+import type { RedditPost, RedditComment, SubredditData, SubredditInfo, Timeframe } from '@/types';
+import { mapPost, mapSubredditAbout } from './mappers';
+import { flattenCommentListing, buildCommentTree, sortCommentTree } from './comment-tree';
+import type {
+  RedditClientOptions,
+  RedditTransport,
+  RedditListing,
+  RawRedditPost,
+  RawRedditComment,
+  RawMoreComments,
+  RawMoreChildrenResponse,
+  RawSubredditAbout,
+  ListingOptions,
+  CommentOptions,
+  SearchOptions,
+  RedditTimeParam,
+  ListingSort,
+} from './types';
+
+/**
+ * Error raised for non-2xx Reddit responses, carrying the HTTP status
+ */
+export class RedditApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'RedditApiError';
+  }
+}
+
+// Length of each Reddit `t` window, to tell when a timeframe only covers part of it
+const REDDIT_WINDOW_HOURS: Record<RedditTimeParam, number | null> = {
+  hour: 1,
+  day: 24,
+  week: 24 * 7,
+  month: 24 * 30,
+  year: 24 * 365,
+  all: null,
+};
+
+// Rate limits and server errors pass; anything else will fail the same way again
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * How long to wait before retrying. For a 429, Retry-After or Reddit's x-ratelimit-reset when
+ * sent. Reddit sends x-ratelimit-reset on every response, so it says nothing about when a
+ * server error will clear; those, and 429s without a delay, back off exponentially from baseMs.
+ */
+function retryDelay(response: Response, retry: number, baseMs: number): number {
+  const backoff = baseMs * 2 ** retry;
+  if (response.status !== 429) return backoff;
+
+  const header = response.headers.get('retry-after') ?? response.headers.get('x-ratelimit-reset');
+  const seconds = header === null ? NaN : Number(header);
+  return Number.isFinite(seconds) ? Math.max(0, seconds * 1000) : backoff;
+}
+
+// Reddit OAuth2 client using the client credentials flow
+export class RedditClient {
+  private accessToken: string | null = null;
+  private tokenExpiry: Date | null = null;
+  private tokenRequest: Promise<string> | null = null;
+  private config: Required<RedditClientOptions>;
+
+  constructor(options: RedditClientOptions = {}) {
+    this.config = {
+      clientId: options.clientId ?? process.env.REDDIT_CLIENT_ID ?? '',
+      clientSecret: options.clientSecret ?? process.env.REDDIT_CLIENT_SECRET ?? '',
+      userAgent: options.userAgent ?? CONFIG.REDDIT.USER_AGENT,
+      transport: options.transport ?? ((url, init) => fetch(url, init)),
+      authBaseUrl: options.authBaseUrl ?? process.env.REDDIT_AUTH_BASE_URL ?? CONFIG.REDDIT.AUTH_BASE_URL,
+      apiBaseUrl: options.apiBaseUrl ?? process.env.REDDIT_API_BASE_URL ?? CONFIG.REDDIT.API_BASE_URL,
+      maxRetries: options.maxRetries ?? CONFIG.REDDIT.MAX_RETRIES,
+      retryBaseMs: options.retryBaseMs ?? CONFIG.REDDIT.RETRY_BASE_MS,
+    };
+
+    if (!this.config.clientId || !this.config.clientSecret) {
+      throw new Error('Reddit API credentials not configured. Please set REDDIT_CLIENT_ID and REDDIT_CLIENT_SECRET');
+    }
+  }
+
+  private get transport(): RedditTransport {
+    return this.config.transport;
+  }
+
+  // Get OAuth2 access token using client credentials
+  private async getAccessToken(): Promise<string> {
+    // Check if we have a valid token
+    if (this.accessToken && this.tokenExpiry && new Date() < this.tokenExpiry) {
+      return this.accessToken;
+    }
+
+    // Concurrent requests share one token request
+    this.tokenRequest ??= this.requestAccessToken().finally(() => {
+      this.tokenRequest = null;
+    });
+    return this.tokenRequest;
+  }
+
+  private async requestAccessToken(): Promise<string> {
+    try {
+      console.log('🔑 Requesting new Reddit OAuth2 token...');
+
+      const auth = Buffer.from(`${this.config.clientId}:${this.config.clientSecret}`).toString('base64');
+
+      const response = await this.transport(`${this.config.authBaseUrl}/api/v1/access_token`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${auth}`,
+          'User-Agent': this.config.userAgent,
+          'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        body: 'grant_type=client_credentials'
+      });
+
+      if (!response.ok) {
+        throw new Error(`Reddit OAuth failed: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      this.accessToken = data.access_token;
+
+      if (!this.accessToken) {
+        throw new Error('No access token received from Reddit API');
+      }
+
+      // Renew a little early so a token doesn't expire mid-request; Reddit's last an hour
+      const expiresIn = Number(data.expires_in) || 60 * 60;
+      this.tokenExpiry = new Date(Date.now() + Math.max(0, expiresIn - CONFIG.REDDIT.TOKEN_EXPIRY_MARGIN_SECONDS) * 1000);
+
+      console.log('✅ Reddit OAuth2 token obtained successfully');
+      return this.accessToken;
+    } catch (error) {
+      console.error('❌ Error getting Reddit access token:', error);
+      throw new Error(`Failed to authenticate with Reddit API: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Authenticated GET against the Reddit API, mapping error statuses to readable messages.
+   * A rejected token is renewed once; 429 and 5xx responses are retried with backoff.
+   */
+  private async request<T>(path: string, params: Record<string, string | number | boolean | undefined> = {}, subreddit?: string): Promise<T> {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) query.set(key, String(value));
+    }
+    query.set('raw_json', '1');
+
+    let response: Response;
+    let renewedToken = false;
+    let retries = 0;
+
+    while (true) {
+      response = await this.transport(`${this.config.apiBaseUrl}${path}?${query}`, {
+        headers: {
+          'Authorization': `Bearer ${await this.getAccessToken()}`,
+          'User-Agent': this.config.userAgent
+        }
+      });
+
+      // Reddit can revoke a token before it expires
+      if (response.status === 401 && !renewedToken) {
+        renewedToken = true;
+        this.accessToken = null;
+        await response.body?.cancel();
+        continue;
+      }
+
+      if (!isRetryableStatus(response.status) || retries >= this.config.maxRetries) break;
+      const delay = retryDelay(response, retries, this.config.retryBaseMs);
+      if (delay > CONFIG.REDDIT.MAX_RETRY_WAIT_MS) break;
+
+      console.warn(`⏳ Reddit answered ${response.status} for ${path}, retrying in ${delay}ms...`);
+      await response.body?.cancel();
+      await sleep(delay);
+      retries++;
+    }
+
+    if (!response.ok) {
+      if (subreddit && response.status === 404) {
+        throw new RedditApiError(`Subreddit r/${subreddit} not found`, 404);
+      }
+      if (subreddit && response.status === 403) {
+        throw new RedditApiError(`Subreddit r/${subreddit} is private or banned`, 403);
+      }
+      throw new RedditApiError(`Reddit API error: ${response.status} ${response.statusText}`, response.status);
+    }
+
+    return response.json() as Promise<T>;
+  }
+
+  // List submissions from a subreddit
+  async getListing(subreddit: string, options: ListingOptions = {}): Promise<RedditPost[]> {
+    const { sort = 'top', t, limit = CONFIG.REDDIT.DEFAULT_LIMIT, after } = options;
+
+    const data = await this.request<RedditListing<RawRedditPost>>(
+      `/r/${subreddit}/${sort}`,
+      { t: sort === 'top' ? t : undefined, limit, after },
+      subreddit
+    );
+
+    if (!data?.data?.children) {
+      throw new Error(`No data received from r/${subreddit}`);
+    }
+
+    return data.data.children
+      .filter(child => child.kind === 't3' && !child.data.stickied)
+      .map(child => mapPost(child.data));
+  }
+
+  // Fetch a submission's comments as trees, with replies nested up to `depth` levels
+  async getComments(postId: string, options: CommentOptions = {}): Promise<RedditComment[]> {
+    const {
+      limit = CONFIG.REDDIT.COMMENTS_PER_POST,
+      depth = CONFIG.REDDIT.COMMENT_DEPTH,
+      sort = 'top',
+      expandMore = true,
+    } = options;
+
+    // Reddit's limit counts replies too, so ask for more than the top-level comments we keep
+    const data = await this.request<[RedditListing<RawRedditPost>, RedditListing<RawRedditComment | RawMoreComments>]>(
+      `/comments/${postId}`,
+      { limit: Math.max(limit, CONFIG.REDDIT.MAX_LIMIT), depth: depth + 1, sort }
+    );
+
+    if (!data?.[1]?.data?.children) {
+      return [];
+    }
+
+    const { comments, more } = flattenCommentListing(data[1].data.children);
+    const topLevelCount = comments.filter(comment => comment.parent_id?.startsWith('t3_')).length;
+
+    // Only expand stubs that can add kept comments: replies within depth, or
+    // more top-level comments when the listing came up short
+    const isWanted = (stub: RawMoreComments) =>
+      stub.parent_id.startsWith('t3_') ? topLevelCount < limit : (stub.depth ?? 0) <= depth;
+    const pending = more.filter(isWanted).flatMap(stub => stub.children);
+
+    for (let round = 0; expandMore && pending.length && round < CONFIG.REDDIT.MORE_CHILDREN_REQUESTS; round++) {
+      try {
+        const expanded = await this.getMoreChildren(postId, pending.splice(0, CONFIG.REDDIT.MORE_CHILDREN_BATCH), sort);
+        comments.push(...expanded.comments);
+        pending.push(...expanded.more.filter(isWanted).flatMap(stub => stub.children));
+      } catch (error) {
+        console.error(`Error expanding comments for post ${postId}:`, error);
+        break;
+      }
+    }
+
+    return sortCommentTree(buildCommentTree(comments, depth)).slice(0, limit);
+  }
+
+  // Resolve the ids behind "load more comments" stubs
+  async getMoreChildren(
+    postId: string,
+    ids: string[],
+    sort: CommentOptions['sort'] = 'top'
+  ): Promise<{ comments: RawRedditComment[]; more: RawMoreComments[] }> {
+    const data = await this.request<RawMoreChildrenResponse>('/api/morechildren', {
+      api_type: 'json',
+      link_id: `t3_${postId}`,
+      children: ids.join(','),
+      sort,
+      limit_children: false,
+    });
+
+    return flattenCommentListing(data?.json?.data?.things || []);
+  }
+
+  // Search submissions within a subreddit
+  async search(subreddit: string, query: string, options: SearchOptions = {}): Promise<RedditPost[]> {
+    const { sort = 'relevance', t = 'all', limit = CONFIG.REDDIT.DEFAULT_LIMIT } = options;
+
+    const data = await this.request<RedditListing<RawRedditPost>>(
+      `/r/${subreddit}/search`,
+      { q: query, restrict_sr: true, sort, t, limit },
+      subreddit
+    );
+
+    return (data?.data?.children || [])
+      .filter(child => child.kind === 't3' && !child.data.stickied)
+      .map(child => mapPost(child.data));
+  }
+
+  // Fetch a subreddit's metadata
+  async getAbout(subreddit: string): Promise<SubredditInfo> {
+    const data = await this.request<{ kind: string; data: RawSubredditAbout }>(`/r/${subreddit}/about`, {}, subreddit);
+
+    if (data?.kind !== 't5' || !data.data) {
+      throw new RedditApiError(`Subreddit r/${subreddit} not found`, 404);
+    }
+
+    return mapSubredditAbout(data.data);
+  }
+
+  // Search subreddits by name and description, NSFW ones included so they can be flagged
+  async searchSubreddits(query: string, limit: number = CONFIG.REDDIT.AUTOCOMPLETE_LIMIT): Promise<SubredditInfo[]> {
+    const data = await this.request<RedditListing<RawSubredditAbout>>('/subreddits/search', {
+      q: query,
+      limit,
+      include_over_18: true,
+    });
+
+    return (data?.data?.children || [])
+      .filter(child => child.kind === 't5')
+      .map(child => mapSubredditAbout(child.data));
+  }
+
+  // Fetch a listing of posts plus comments from the highest-ranked ones.
+  // With a search query, matching posts from subreddit search are merged in.
+  async fetchSubredditData(
+    subreddit: string,
+    timeframe: Timeframe = CONFIG.REDDIT.DEFAULT_TIMEFRAME,
+    limit: number = CONFIG.REDDIT.DEFAULT_LIMIT,
+    sort: ListingSort = 'top',
+    query?: string
+  ): Promise<SubredditData> {
+    try {
+      console.log(`📥 Fetching submissions from r/${subreddit} via OAuth...`);
+
+      const { redditParam, hours } = TIMEFRAMES[timeframe] || TIMEFRAMES[CONFIG.REDDIT.DEFAULT_TIMEFRAME];
+      const windowHours = REDDIT_WINDOW_HOURS[redditParam];
+
+      // When the timeframe is narrower than Reddit's window (e.g. 48h inside "week"),
+      // fetch the most we can so enough posts survive the created_utc filter
+      const narrower = hours !== null && (windowHours === null || hours < windowHours);
+      const fetchLimit = narrower ? CONFIG.REDDIT.MAX_LIMIT : limit;
+      const [listing, matches] = await Promise.all([
+        this.getListing(subreddit, { sort, t: redditParam, limit: fetchLimit }),
+        query
+          ? this.search(subreddit, query, { sort: 'relevance', t: redditParam, limit: fetchLimit })
+          : Promise.resolve([] as RedditPost[]),
+      ]);
+
+      const cutoff = hours === null ? 0 : Date.now() / 1000 - hours * 60 * 60;
+      const inWindow = (post: RedditPost) => post.created_utc >= cutoff;
+      const searchPosts = matches.filter(inWindow).slice(0, limit);
+      const listingPosts = listing.filter(inWindow).slice(0, limit);
+
+      // Alternate search matches with the listing, dropping duplicates, so both get comments fetched
+      const seen = new Set<string>();
+      const posts: RedditPost[] = [];
+      for (let i = 0; i < Math.max(searchPosts.length, listingPosts.length); i++) {
+        for (const post of [searchPosts[i], listingPosts[i]]) {
+          if (post && !seen.has(post.id)) {
+            seen.add(post.id);
+            posts.push(post);
+          }
+        }
+      }
+
+      const commentBatches = await Promise.all(
+        posts.slice(0, CONFIG.REDDIT.COMMENT_POSTS).map(post =>
+          this.getComments(post.id, { limit: CONFIG.REDDIT.COMMENTS_PER_POST }).catch(error => {
+            console.error(`Error fetching comments for post ${post.id}:`, error);
+            return [] as RedditComment[];
+          })
+        )
+      );
+
+      // Top-level comments, each carrying its reply tree
+      const comments = commentBatches
+        .flat()
+        .filter(comment => comment.score >= CONFIG.REDDIT.MIN_COMMENT_SCORE);
+
+      console.log(`📊 Fetched ${posts.length} posts${query ? ` (${searchPosts.length} from search)` : ''} and ${comments.length} comments from r/${subreddit}`);
+
+      return {
+        posts: posts.sort((a, b) => b.score - a.score),
+        comments: comments.sort((a, b) => b.score - a.score),
+        subreddit,
+        fetchedAt: Date.now()
+      };
+    } catch (error) {
+      console.error(`❌ Error fetching from r/${subreddit}:`, error);
+      throw error;
+    }
+  }
+
+  // Test connection
+  async testConnection(): Promise<boolean> {
+    try {
+      console.log('🔍 Testing Reddit OAuth connection...');
+      await this.getListing('test', { sort: 'hot', limit: 1 });
+      console.log('✅ Reddit OAuth connection successful');
+      return true;
+    } catch (error) {
+      console.error('❌ Reddit OAuth connection test failed:', error);
+      return false;
+    }
+  }
+}
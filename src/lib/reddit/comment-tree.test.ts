@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { buildCommentTree, flattenCommentListing, sortCommentTree } from './comment-tree';
+import type { RawMoreComments, RawRedditComment, RedditThing } from './types';
+
+type Thing = RedditThing<RawRedditComment | RawMoreComments>;
+
+const comment = (id: string, parent: string, fields: Partial<RawRedditComment> = {}, replies: Thing[] = []): Thing => ({
+  kind: 't1',
+  data: {
+    id,
+    name: `t1_${id}`,
+    body: `Comment ${id}`,
+    author: 'someone',
+    score: 1,
+    created_utc: 1700000000,
+    permalink: `/r/test/comments/post/_/${id}/`,
+    parent_id: parent,
+    replies: replies.length ? { kind: 'Listing', data: { after: null, before: null, children: replies } } : '',
+    ...fields,
+  },
+});
+
+const more = (id: string, parent: string, children: string[]): Thing => ({
+  kind: 'more',
+  data: { id, name: `t1_${id}`, parent_id: parent, count: children.length, children },
+});
+
+describe('flattenCommentListing', () => {
+  it('lists nested replies after their parents and collects "load more" stubs', () => {
+    const { comments, more: stubs } = flattenCommentListing([
+      comment('a', 't3_post', {}, [
+        comment('b', 't1_a', {}, [comment('c', 't1_b')]),
+        more('m1', 't1_a', ['d', 'e']),
+      ]),
+      comment('f', 't3_post'),
+      more('m2', 't3_post', ['g']),
+    ]);
+
+    expect(comments.map(raw => raw.id)).toEqual(['a', 'b', 'c', 'f']);
+    expect(stubs.map(stub => stub.children)).toEqual([['d', 'e'], ['g']]);
+  });
+
+  it('skips empty "continue this thread" stubs', () => {
+    const { more: stubs } = flattenCommentListing([more('m', 't1_a', [])]);
+
+    expect(stubs).toEqual([]);
+  });
+});
+
+describe('buildCommentTree', () => {
+  const raw = (things: Thing[]) => flattenCommentListing(things).comments;
+
+  it('rebuilds the reply tree with depths', () => {
+    const tree = buildCommentTree(raw([
+      comment('a', 't3_post', {}, [comment('b', 't1_a', {}, [comment('c', 't1_b')])]),
+      comment('d', 't3_post'),
+    ]), 3);
+
+    expect(tree.map(node => node.id)).toEqual(['a', 'd']);
+    expect(tree[0].depth).toBe(0);
+    expect(tree[0].replies?.[0]).toMatchObject({ id: 'b', depth: 1 });
+    expect(tree[0].replies?.[0].replies?.[0]).toMatchObject({ id: 'c', depth: 2 });
+    expect(tree[1].replies).toBeUndefined();
+  });
+
+  it('drops replies deeper than maxDepth along with their descendants', () => {
+    const tree = buildCommentTree(raw([
+      comment('a', 't3_post', {}, [comment('b', 't1_a', {}, [comment('c', 't1_b', {}, [comment('d', 't1_c')])])]),
+    ]), 1);
+
+    expect(tree[0].replies?.[0].id).toBe('b');
+    expect(tree[0].replies?.[0].replies).toBeUndefined();
+  });
+
+  it('leaves out deleted and removed comments but keeps their replies under the nearest kept ancestor', () => {
+    const tree = buildCommentTree(raw([
+      comment('a', 't3_post', {}, [
+        comment('b', 't1_a', { body: '[deleted]', author: '[deleted]' }, [comment('c', 't1_b')]),
+      ]),
+      comment('d', 't3_post', { body: '[removed]' }, [comment('e', 't1_d')]),
+    ]), 3);
+
+    expect(tree.map(node => node.id)).toEqual(['a', 'e']);
+    expect(tree[0].replies).toEqual([expect.objectContaining({ id: 'c', depth: 1 })]);
+    expect(tree[1].depth).toBe(0);
+  });
+
+  it('ignores comments whose parent never arrived and comments listed twice', () => {
+    const comments = raw([comment('a', 't3_post'), comment('b', 't1_missing')]);
+    const tree = buildCommentTree([...comments, ...comments], 3);
+
+    expect(tree.map(node => node.id)).toEqual(['a']);
+  });
+});
+
+describe('sortCommentTree', () => {
+  it('sorts every level by score', () => {
+    const tree = buildCommentTree(flattenCommentListing([
+      comment('a', 't3_post', { score: 1 }, [comment('b', 't1_a', { score: 2 }), comment('c', 't1_a', { score: 9 })]),
+      comment('d', 't3_post', { score: 5 }),
+    ]).comments, 3);
+    const sorted = sortCommentTree(tree);
+
+    expect(sorted.map(node => node.id)).toEqual(['d', 'a']);
+    expect(sorted[1].replies?.map(node => node.id)).toEqual(['c', 'b']);
+  });
+});
@@ -0,0 +1,80 @@
+import type { RedditComment } from '@/types';
+import { mapComment, isRemovedComment } from './mappers';
+import type { RedditThing, RawRedditComment, RawMoreComments } from './types';
+
+type RawCommentThing = RedditThing<RawRedditComment | RawMoreComments>;
+
+/**
+ * Flatten a nested comment listing into raw comments in thread order (parents before
+ * replies), collecting any "load more" stubs along the way
+ */
+export function flattenCommentListing(
+  things: RawCommentThing[],
+  comments: RawRedditComment[] = [],
+  more: RawMoreComments[] = []
+): { comments: RawRedditComment[]; more: RawMoreComments[] } {
+  for (const thing of things) {
+    if (thing.kind === 'more') {
+      const stub = thing.data as RawMoreComments;
+      // An empty "continue this thread" stub has no ids to expand
+      if (stub.children?.length) more.push(stub);
+    } else if (thing.kind === 't1') {
+      const raw = thing.data as RawRedditComment;
+      comments.push(raw);
+      if (raw.replies && raw.replies.data?.children) {
+        flattenCommentListing(raw.replies.data.children, comments, more);
+      }
+    }
+  }
+  return { comments, more };
+}
+
+/**
+ * Build RedditComment trees from raw comments listed parents-first.
+ * Deleted or removed comments are left out but their replies are kept, moved up to
+ * the nearest surviving ancestor. Replies deeper than maxDepth are dropped.
+ */
+export function buildCommentTree(rawComments: RawRedditComment[], maxDepth: number): RedditComment[] {
+  const roots: RedditComment[] = [];
+  // Where each comment's replies should go: its own node, or its nearest kept ancestor for removed ones
+  const anchors = new Map<string, { node: RedditComment | null; depth: number }>();
+  const seen = new Set<string>();
+
+  for (const raw of rawComments) {
+    if (seen.has(raw.name)) continue;
+    seen.add(raw.name);
+
+    const isTopLevel = !raw.parent_id || raw.parent_id.startsWith('t3_');
+    const parent = isTopLevel ? { node: null, depth: -1 } : anchors.get(raw.parent_id!);
+
+    // The parent was cut off by maxDepth, or never arrived
+    if (!parent) continue;
+
+    if (isRemovedComment(raw)) {
+      anchors.set(raw.name, parent);
+      continue;
+    }
+
+    const depth = parent.depth + 1;
+    if (depth > maxDepth) continue;
+
+    const node = mapComment(raw, depth);
+    if (parent.node) {
+      (parent.node.replies ??= []).push(node);
+    } else {
+      roots.push(node);
+    }
+    anchors.set(raw.name, { node, depth });
+  }
+
+  return roots;
+}
+
+/**
+ * Sort a comment tree by score at every level
+ */
+export function sortCommentTree(comments: RedditComment[]): RedditComment[] {
+  return comments
+    .map(comment => (comment.replies ? { ...comment, replies: sortCommentTree(comment.replies) } : comment))
+    .sort((a, b) => b.score - a.score);
+}
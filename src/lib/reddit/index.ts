@@ -0,0 +1,129 @@
+import { CONFIG } from '@/lib/constants';
+import { getOrLoad } from '@/lib/cache';
+import type { SubredditData, SubredditInfo, SubredditLookup, SnapshotInfo, Timeframe } from '@/types';
+import { RedditClient, RedditApiError } from './client';
+import type { ListingSort } from './types';
+
+export { RedditClient, RedditApiError } from './client';
+export { mapPost, mapComment, mapSubredditAbout } from './mappers';
+export { flattenCommentListing, buildCommentTree, sortCommentTree } from './comment-tree';
+export type * from './types';
+
+let sharedClient: RedditClient | null = null;
+
+/**
+ * Shared client for API routes, created on first use from environment variables
+ */
+export function getRedditClient(): RedditClient {
+  if (!sharedClient) {
+    sharedClient = new RedditClient();
+  }
+  return sharedClient;
+}
+
+export interface SnapshotRequest {
+  subreddit: string;
+  timeframe?: Timeframe;
+  limit?: number;
+  sort?: ListingSort;
+  query?: string; // Reddit search query to merge in ahead of the listing
+}
+
+/**
+ * Fetch subreddit data through the shared snapshot cache
+ */
+export async function getSubredditSnapshot(
+  request: SnapshotRequest,
+  client: RedditClient = getRedditClient()
+): Promise<{ data: SubredditData; snapshot: SnapshotInfo }> {
+  const {
+    subreddit,
+    timeframe = CONFIG.REDDIT.DEFAULT_TIMEFRAME,
+    limit = CONFIG.REDDIT.DEFAULT_LIMIT,
+    sort = 'top',
+    query,
+  } = request;
+
+  const key = ['subreddit', subreddit.toLowerCase(), timeframe, limit, sort, query?.toLowerCase() ?? ''].join(':');
+  const result = await getOrLoad(
+    key,
+    () => client.fetchSubredditData(subreddit, timeframe, limit, sort, query),
+    { ttlMs: CONFIG.CACHE.TTL_SECONDS * 1000, staleMs: CONFIG.CACHE.STALE_SECONDS * 1000 }
+  );
+
+  return {
+    data: result.value,
+    snapshot: {
+      cached: result.cached,
+      fetched_at: result.value.fetchedAt,
+      age_seconds: Math.round((Date.now() - result.value.fetchedAt) / 1000),
+    },
+  };
+}
+
+/**
+ * Fetch several subreddits concurrently through the snapshot cache.
+ * The combined snapshot counts as cached only if every subreddit was, and reports the oldest fetch.
+ */
+export async function getMultiSubredditSnapshot(
+  subreddits: string[],
+  options: Omit<SnapshotRequest, 'subreddit'> = {},
+  client: RedditClient = getRedditClient()
+): Promise<{ datasets: SubredditData[]; snapshot: SnapshotInfo }> {
+  const results = await Promise.all(
+    subreddits.map(subreddit => getSubredditSnapshot({ ...options, subreddit }, client))
+  );
+
+  const oldest = results.reduce((a, b) => (b.snapshot.fetched_at < a.snapshot.fetched_at ? b : a));
+
+  return {
+    datasets: results.map(result => result.data),
+    snapshot: {
+      ...oldest.snapshot,
+      cached: results.every(result => result.snapshot.cached),
+    },
+  };
+}
+
+// Subreddit types that exist but can't be read with app-only credentials
+const UNREADABLE_TYPES = new Set(['private', 'employees_only', 'gold_only']);
+
+/**
+ * Whether a subreddit exists and can be read, with its metadata, through the snapshot cache.
+ * Reddit answers 403 for private and quarantined subreddits and 404 for missing or banned ones.
+ */
+export async function lookupSubreddit(
+  name: string,
+  client: RedditClient = getRedditClient()
+): Promise<SubredditLookup> {
+  const ttlMs = CONFIG.REDDIT.ABOUT_TTL_SECONDS * 1000;
+  const result = await getOrLoad(`about:${name.toLowerCase()}`, async (): Promise<SubredditLookup> => {
+    try {
+      const info = await client.getAbout(name);
+      return { name, status: UNREADABLE_TYPES.has(info.type) ? 'private' : 'available', info };
+    } catch (error) {
+      if (error instanceof RedditApiError && error.status === 404) return { name, status: 'not_found' };
+      if (error instanceof RedditApiError && error.status === 403) return { name, status: 'private' };
+      throw error;
+    }
+  }, { ttlMs, staleMs: ttlMs });
+
+  return result.value;
+}
+
+/**
+ * Subreddits matching a search, for autocomplete, through the snapshot cache
+ */
+export async function searchSubreddits(
+  query: string,
+  client: RedditClient = getRedditClient()
+): Promise<SubredditInfo[]> {
+  const ttlMs = CONFIG.REDDIT.SEARCH_TTL_SECONDS * 1000;
+  const result = await getOrLoad(
+    `subreddit-search:${query.toLowerCase()}`,
+    () => client.searchSubreddits(query),
+    { ttlMs, staleMs: ttlMs }
+  );
+
+  return result.value;
+}
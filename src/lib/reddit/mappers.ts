@@ -0,0 +1,61 @@
+import type { RedditPost, RedditComment, SubredditInfo } from '@/types';
+import type { RawRedditPost, RawRedditComment, RawSubredditAbout } from './types';
+
+/**
+ * Map a raw Reddit submission to a RedditPost
+ */
+export function mapPost(raw: RawRedditPost): RedditPost {
+  return {
+    id: raw.id,
+    title: raw.title,
+    selftext: raw.selftext || '',
+    author: raw.author || '[deleted]',
+    score: raw.score || 0,
+    num_comments: raw.num_comments || 0,
+    created_utc: raw.created_utc,
+    url: raw.url,
+    subreddit: raw.subreddit,
+    permalink: raw.permalink,
+    upvote_ratio: raw.upvote_ratio || 0,
+  };
+}
+
+/**
+ * Map a raw Reddit comment to a RedditComment
+ */
+export function mapComment(raw: RawRedditComment, depth: number = raw.depth ?? 0): RedditComment {
+  return {
+    id: raw.id,
+    body: raw.body || '',
+    author: raw.author || '[deleted]',
+    score: raw.score || 0,
+    created_utc: raw.created_utc,
+    permalink: raw.permalink,
+    depth,
+  };
+}
+
+/**
+ * Map a raw subreddit /about payload to SubredditInfo
+ */
+export function mapSubredditAbout(raw: RawSubredditAbout): SubredditInfo {
+  // Reddit returns HTML-escaped icon URLs with query strings
+  const icon = (raw.community_icon || raw.icon_img || '').replace(/&amp;/g, '&') || undefined;
+
+  return {
+    name: raw.display_name,
+    title: raw.title,
+    description: raw.public_description || '',
+    subscribers: raw.subscribers ?? 0,
+    icon,
+    over18: Boolean(raw.over18),
+    type: raw.subreddit_type,
+  };
+}
+
+/**
+ * Whether a comment body was deleted or removed by moderators
+ */
+export function isRemovedComment(raw: RawRedditComment): boolean {
+  return !raw.body || raw.body === '[deleted]' || raw.body === '[removed]';
+}
@@ -0,0 +1,112 @@
+// Raw Reddit API shapes (only the fields we read)
+
+export interface RedditThing<T> {
+  kind: string;
+  data: T;
+}
+
+export interface RedditListing<T> {
+  kind: 'Listing';
+  data: {
+    after: string | null;
+    before: string | null;
+    children: RedditThing<T>[];
+  };
+}
+
+export interface RawRedditPost {
+  id: string;
+  name: string;
+  title: string;
+  selftext?: string;
+  author?: string;
+  score?: number;
+  num_comments?: number;
+  created_utc: number;
+  url: string;
+  subreddit: string;
+  permalink: string;
+  upvote_ratio?: number;
+  stickied?: boolean;
+  over_18?: boolean;
+}
+
+export interface RawRedditComment {
+  id: string;
+  name: string;
+  body?: string;
+  author?: string;
+  score?: number;
+  created_utc: number;
+  permalink: string;
+  parent_id?: string; // Fullname of the parent comment (t1_) or submission (t3_)
+  depth?: number;
+  replies?: RedditListing<RawRedditComment | RawMoreComments> | '';
+}
+
+// "Load more comments" stub standing in for replies Reddit left out of the listing
+export interface RawMoreComments {
+  id: string;
+  name: string;
+  parent_id: string;
+  count: number;
+  depth?: number;
+  children: string[];
+}
+
+export interface RawMoreChildrenResponse {
+  json: {
+    errors?: unknown[];
+    data?: {
+      things: RedditThing<RawRedditComment | RawMoreComments>[];
+    };
+  };
+}
+
+export interface RawSubredditAbout {
+  display_name: string;
+  title: string;
+  public_description?: string;
+  subscribers?: number | null;
+  icon_img?: string;
+  community_icon?: string;
+  over18?: boolean;
+  subreddit_type: string;
+}
+
+// Pluggable HTTP transport. Defaults to global fetch; swap it to run against a fake Reddit server.
+export type RedditTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface RedditClientOptions {
+  clientId?: string;
+  clientSecret?: string;
+  userAgent?: string;
+  transport?: RedditTransport;
+  authBaseUrl?: string; // Where the OAuth token is requested
+  apiBaseUrl?: string; // Where authenticated API calls go
+  maxRetries?: number; // Defaults to CONFIG.REDDIT.MAX_RETRIES
+  retryBaseMs?: number; // Defaults to CONFIG.REDDIT.RETRY_BASE_MS
+}
+
+export type ListingSort = 'hot' | 'new' | 'top' | 'rising';
+export type RedditTimeParam = 'hour' | 'day' | 'week' | 'month' | 'year' | 'all';
+
+export interface ListingOptions {
+  sort?: ListingSort;
+  t?: RedditTimeParam;
+  limit?: number;
+  after?: string;
+}
+
+export interface CommentOptions {
+  limit?: number; // Top-level comments to keep
+  depth?: number; // Deepest reply level to keep, 0 for top-level only
+  sort?: 'top' | 'best' | 'new' | 'controversial';
+  expandMore?: boolean; // Resolve "load more" stubs through /api/morechildren
+}
+
+export interface SearchOptions {
+  sort?: 'relevance' | 'top' | 'new' | 'comments';
+  t?: RedditTimeParam;
+  limit?: number;
+}
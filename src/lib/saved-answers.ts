@@ -0,0 +1,160 @@
+import { CONFIG } from './constants';
+import {
+  generateId,
+  loadFromLocalStorage,
+  saveToLocalStorage,
+  removeFromLocalStorage,
+  parseSubreddits,
+} from './utils';
+import type { AIResponse, ConversationTurn, SavedAnswer, SavedAnswerFilters, ShareableAnswer } from '@/types';
+
+// What the library key holds; bump the version when SavedAnswer changes shape
+interface SavedAnswerLibrary {
+  version: 1;
+  answers: SavedAnswer[];
+}
+
+export const EMPTY_FILTERS: SavedAnswerFilters = {
+  search: '',
+  subreddit: null,
+  tag: null,
+  from: null,
+  to: null,
+};
+
+/**
+ * Convert an answer saved before the library existed. Only the question and
+ * answer text were kept, so sources, model and confidence are left empty.
+ */
+export function migrateLegacyAnswer(legacy: ShareableAnswer): SavedAnswer {
+  return {
+    id: legacy.id || generateId(),
+    question: legacy.question,
+    subreddits: parseSubreddits(legacy.subreddit || ''),
+    answer: {
+      answer: legacy.answer,
+      sources: [],
+      confidence: 0,
+      model: 'unknown',
+    },
+    followUps: [],
+    tags: [],
+    savedAt: legacy.timestamp || Date.now(),
+    migrated: true,
+  };
+}
+
+/**
+ * Load the library, migrating answers stored under the legacy key on first run
+ */
+export function loadSavedAnswers(): SavedAnswer[] {
+  const library = loadFromLocalStorage<SavedAnswerLibrary | null>(CONFIG.STORAGE.LIBRARY_KEY, null);
+  if (library && Array.isArray(library.answers)) {
+    return library.answers;
+  }
+
+  const legacy = loadFromLocalStorage<ShareableAnswer[]>(CONFIG.STORAGE.LEGACY_SAVED_ANSWERS_KEY, []);
+  const answers = Array.isArray(legacy) ? legacy.map(migrateLegacyAnswer) : [];
+
+  // Only drop the old data once the migrated copy is safely stored
+  if (storeSavedAnswers(answers) && legacy.length) {
+    removeFromLocalStorage(CONFIG.STORAGE.LEGACY_SAVED_ANSWERS_KEY);
+  }
+  return answers;
+}
+
+/**
+ * Persist the library. Returns false when storage is full or unavailable.
+ */
+export function storeSavedAnswers(answers: SavedAnswer[]): boolean {
+  const library: SavedAnswerLibrary = { version: 1, answers };
+  return saveToLocalStorage(CONFIG.STORAGE.LIBRARY_KEY, library);
+}
+
+/**
+ * Add an answer to the front of the library. An answer already saved from the
+ * same conversation is replaced, so saving again picks up new follow-ups.
+ */
+export function addSavedAnswer(
+  answers: SavedAnswer[],
+  entry: { question: string; subreddits: string[]; answer: AIResponse; followUps: ConversationTurn[] }
+): { answers: SavedAnswer[]; updated: boolean } {
+  const conversationId = entry.answer.conversation_id;
+  const existing = conversationId
+    ? answers.find(saved => saved.answer.conversation_id === conversationId)
+    : undefined;
+
+  const saved: SavedAnswer = {
+    id: existing?.id || generateId(),
+    question: entry.question,
+    subreddits: entry.subreddits,
+    answer: entry.answer,
+    followUps: entry.followUps,
+    tags: existing?.tags || [],
+    savedAt: Date.now(),
+  };
+
+  return {
+    answers: [saved, ...answers.filter(answer => answer !== existing)].slice(0, CONFIG.STORAGE.MAX_SAVED_ANSWERS),
+    updated: Boolean(existing),
+  };
+}
+
+/**
+ * Lowercase, hyphenated form tags are stored in
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/^#/, '').replace(/\s+/g, '-').slice(0, 30);
+}
+
+/**
+ * Everything search matches against: question, answer, follow-ups, source titles and tags
+ */
+function searchableText(saved: SavedAnswer): string {
+  return [
+    saved.question,
+    saved.answer.answer,
+    ...saved.followUps.flatMap(turn => [turn.question, turn.answer.answer]),
+    ...saved.answer.sources.map(source => source.title),
+    ...saved.subreddits,
+    ...saved.tags,
+  ].join('\n').toLowerCase();
+}
+
+/**
+ * Apply the library filters. Every search word must appear somewhere in the answer.
+ */
+export function filterSavedAnswers(answers: SavedAnswer[], filters: SavedAnswerFilters): SavedAnswer[] {
+  const words = filters.search.toLowerCase().split(/\s+/).filter(Boolean);
+  const subreddit = filters.subreddit?.toLowerCase();
+
+  return answers.filter(saved => {
+    if (subreddit && !saved.subreddits.some(name => name.toLowerCase() === subreddit)) return false;
+    if (filters.tag && !saved.tags.includes(filters.tag)) return false;
+    if (filters.from !== null && saved.savedAt < filters.from) return false;
+    if (filters.to !== null && saved.savedAt > filters.to) return false;
+    if (words.length) {
+      const text = searchableText(saved);
+      return words.every(word => text.includes(word));
+    }
+    return true;
+  });
+}
+
+/**
+ * Subreddits and tags used across the library, most common first, for the filter menus
+ */
+export function collectFacets(answers: SavedAnswer[]): { subreddits: string[]; tags: string[] } {
+  const count = (values: string[]) => {
+    const counts = new Map<string, number>();
+    values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .map(([value]) => value);
+  };
+
+  return {
+    subreddits: count(answers.flatMap(saved => saved.subreddits)),
+    tags: count(answers.flatMap(saved => saved.tags)),
+  };
+}
@@ -0,0 +1,78 @@
+import { API_ENDPOINTS, CONFIG } from './constants';
+import { loadFromLocalStorage, saveToLocalStorage } from './utils';
+import type { ShareAnswerRequest, ShareAnswerResponse } from '@/types';
+
+// A share published from this browser; the owner token is what allows unpublishing it
+export interface OwnedShare {
+  id: string;
+  url: string;
+  ownerToken: string;
+  question: string;
+  createdAt: number;
+}
+
+function loadOwnedShares(): Record<string, OwnedShare> {
+  return loadFromLocalStorage<Record<string, OwnedShare>>(CONFIG.STORAGE.SHARES_KEY, {});
+}
+
+/**
+ * The share with this ID, if it was published from this browser
+ */
+export function getOwnedShare(id: string): OwnedShare | null {
+  return loadOwnedShares()[id] || null;
+}
+
+/**
+ * Publish a conversation's answers and remember the owner token
+ */
+export async function publishAnswer(request: ShareAnswerRequest, question: string): Promise<OwnedShare> {
+  const response = await fetch(API_ENDPOINTS.SHARES, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(request),
+  });
+  const result: ShareAnswerResponse = await response.json();
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to share answer');
+  }
+
+  const share: OwnedShare = {
+    id: result.data.id,
+    url: result.data.url,
+    ownerToken: result.data.owner_token,
+    question,
+    createdAt: Date.now(),
+  };
+  saveToLocalStorage(CONFIG.STORAGE.SHARES_KEY, { ...loadOwnedShares(), [share.id]: share });
+  return share;
+}
+
+/**
+ * Take down a share published from this browser
+ */
+export async function unpublishAnswer(id: string): Promise<void> {
+  const share = getOwnedShare(id);
+  if (!share) {
+    throw new Error('This answer was not shared from this browser');
+  }
+
+  const response = await fetch(`${API_ENDPOINTS.SHARES}/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+    headers: {
+      'X-Owner-Token': share.ownerToken,
+    },
+  });
+
+  // Already gone counts as unpublished
+  if (!response.ok && response.status !== 404) {
+    const result = await response.json().catch(() => ({}));
+    throw new Error(result.error || 'Failed to unpublish answer');
+  }
+
+  const shares = loadOwnedShares();
+  delete shares[id];
+  saveToLocalStorage(CONFIG.STORAGE.SHARES_KEY, shares);
+}
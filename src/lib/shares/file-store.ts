@@ -0,0 +1,64 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ShareRecord, ShareStore } from './types';
+
+// One JSON file per published answer, so links survive restarts. Files are never rewritten,
+// so a file's modification time is when its share was created.
+export class FileShareStore implements ShareStore {
+  constructor(
+    private readonly directory: string,
+    private readonly maxEntries: number = 5000,
+    private readonly ttlMs: number = 30 * 24 * 60 * 60 * 1000
+  ) {}
+
+  private pathFor(id: string): string {
+    return path.join(this.directory, `${createHash('sha256').update(id).digest('hex').slice(0, 40)}.json`);
+  }
+
+  async get(id: string): Promise<ShareRecord | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.pathFor(id), 'utf8')) as ShareRecord;
+    } catch {
+      return null;
+    }
+  }
+
+  // Remove expired shares and temp files left by a crash, returning how many shares are live
+  private async prune(): Promise<number> {
+    const names = await fs.readdir(this.directory).catch(() => [] as string[]);
+    const now = Date.now();
+    let live = 0;
+
+    await Promise.all(names.map(async name => {
+      const filePath = path.join(this.directory, name);
+      const stats = await fs.stat(filePath).catch(() => null);
+      if (!stats?.isFile()) return;
+
+      if (now - stats.mtimeMs >= this.ttlMs) {
+        await fs.rm(filePath, { force: true });
+      } else if (name.endsWith('.json')) {
+        live++;
+      }
+    }));
+    return live;
+  }
+
+  async save(share: ShareRecord): Promise<boolean> {
+    if (await this.prune() >= this.maxEntries) {
+      return false;
+    }
+
+    const filePath = this.pathFor(share.id);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(share));
+    await fs.rename(tempPath, filePath);
+    return true;
+  }
+
+  async delete(id: string): Promise<void> {
+    await fs.rm(this.pathFor(id), { force: true });
+  }
+}
@@ -0,0 +1,116 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { appendTurn, createConversation, MemoryConversationStore, setConversationStore } from '@/lib/conversations';
+import { createShare, FileShareStore, getShare, MemoryShareStore, setShareStore, ShareCapacityError, type ShareRecord } from './index';
+import type { AIResponse } from '@/types';
+
+const response = (answer: string): AIResponse => ({
+  answer,
+  sources: [{ id: 1, title: 'A post', url: 'https://www.reddit.com/r/rust/comments/p1/', type: 'post', author: 'crab', score: 10 }],
+  confidence: 0.8,
+  model: 'fake',
+  tokens_used: 1234,
+  conversation_id: 'internal',
+});
+
+const record = (id: string, expiresAt: number): ShareRecord => ({
+  id,
+  question: 'Is Rust worth it?',
+  subreddits: ['rust'],
+  answer: response('Yes [1].'),
+  follow_ups: [],
+  created_at: Date.now(),
+  expires_at: expiresAt,
+  ownerTokenHash: 'hash',
+});
+
+async function startConversation(answers: string[]): Promise<string> {
+  const conversation = await createConversation({
+    subreddits: ['rust'],
+    timeframe: 'week',
+    retrieval: 'latest',
+    model: 'fake',
+    datasets: [],
+    snapshot: { cached: false, fetched_at: Date.now(), age_seconds: 0 },
+  });
+  for (const [index, answer] of answers.entries()) {
+    await appendTurn(conversation.id, { question: `Question ${index + 1}?`, answer, response: response(answer) });
+  }
+  return conversation.id;
+}
+
+describe('createShare', () => {
+  beforeEach(() => {
+    setConversationStore(new MemoryConversationStore());
+    setShareStore(new MemoryShareStore());
+  });
+
+  it('publishes the answers the server recorded, without usage or the conversation ID', async () => {
+    const conversationId = await startConversation(['First [1].', 'Second [1].', 'Third [1].']);
+    const created = await createShare({ conversation_id: conversationId, turns: 2 });
+
+    expect(created?.share.question).toBe('Question 1?');
+    expect(created?.share.answer.answer).toBe('First [1].');
+    expect(created?.share.answer.tokens_used).toBeUndefined();
+    expect(created?.share.answer.conversation_id).toBeUndefined();
+    expect(created?.share.follow_ups.map(turn => turn.answer.answer)).toEqual(['Second [1].']);
+    expect(await getShare(created!.share.id)).toEqual(created?.share);
+  });
+
+  it('publishes nothing for unknown conversations or turns that were never recorded', async () => {
+    const conversationId = await startConversation(['First [1].']);
+
+    expect(await createShare({ conversation_id: 'made-up' })).toBeNull();
+    expect(await createShare({ conversation_id: conversationId, turns: 2 })).toBeNull();
+  });
+
+  it('refuses to publish when the store is full', async () => {
+    setShareStore(new MemoryShareStore(1));
+    const conversationId = await startConversation(['First [1].']);
+    const first = await createShare({ conversation_id: conversationId });
+
+    await expect(createShare({ conversation_id: conversationId })).rejects.toBeInstanceOf(ShareCapacityError);
+    expect(await getShare(first!.share.id)).not.toBeNull();
+  });
+
+  it('stops serving shares once they expire', async () => {
+    const store = new MemoryShareStore();
+    setShareStore(store);
+    await store.save(record('old', Date.now() - 1));
+
+    expect(await getShare('old')).toBeNull();
+    expect(await store.get('old')).toBeNull();
+  });
+});
+
+describe.each([
+  ['memory', async () => new MemoryShareStore(2)],
+  ['file', async () => new FileShareStore(await fs.mkdtemp(path.join(os.tmpdir(), 'shares-')), 2, 60_000)],
+])('%s share store', (_name, createStore) => {
+  it('keeps live shares when full and makes room only by dropping expired ones', async () => {
+    const store = await createStore();
+
+    expect(await store.save(record('a', Date.now() + 60_000))).toBe(true);
+    expect(await store.save(record('b', Date.now() + 60_000))).toBe(true);
+    expect(await store.save(record('c', Date.now() + 60_000))).toBe(false);
+    expect(await store.get('a')).not.toBeNull();
+    expect(await store.get('c')).toBeNull();
+  });
+});
+
+describe('FileShareStore', () => {
+  it('removes shares older than its lifetime before counting', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'shares-'));
+    const store = new FileShareStore(directory, 1, 60_000);
+    await store.save(record('a', Date.now() + 60_000));
+    const [file] = await fs.readdir(directory);
+    const longAgo = new Date(Date.now() - 120_000);
+    await fs.utimes(path.join(directory, file), longAgo, longAgo);
+
+    expect(await store.save(record('b', Date.now() + 60_000))).toBe(true);
+    expect(await store.get('a')).toBeNull();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+});
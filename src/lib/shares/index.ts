@@ -0,0 +1,158 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import path from 'path';
+import { CONFIG } from '@/lib/constants';
+import { getConversation } from '@/lib/conversations';
+import { getRateLimitClient, type RateLimitClient } from '@/lib/rate-limit';
+import { MemoryShareStore } from './memory-store';
+import { FileShareStore } from './file-store';
+import type { ShareStore } from './types';
+import type { AIResponse, ShareAnswerRequest, SharedAnswer } from '@/types';
+
+export { MemoryShareStore } from './memory-store';
+export { FileShareStore } from './file-store';
+export type { ShareRecord, ShareStore } from './types';
+
+const TTL_MS = CONFIG.SHARING.TTL_DAYS * 24 * 60 * 60 * 1000;
+
+let sharedStore: ShareStore | null = null;
+
+/**
+ * Store selected by SHARE_STORE ('memory' or 'file'), created on first use
+ */
+export function getShareStore(): ShareStore {
+  if (!sharedStore) {
+    sharedStore = process.env.SHARE_STORE === 'file'
+      ? new FileShareStore(process.env.SHARE_DIR || path.join(process.cwd(), '.data', 'shares'), CONFIG.SHARING.MAX_SHARES, TTL_MS)
+      : new MemoryShareStore(CONFIG.SHARING.MAX_SHARES);
+  }
+  return sharedStore;
+}
+
+/**
+ * Replace the shared store, e.g. with a pre-seeded one in tests
+ */
+export function setShareStore(store: ShareStore): void {
+  sharedStore = store;
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Check a publish request before anything is looked up
+ */
+export function validateShareRequest(body: ShareAnswerRequest): { isValid: boolean; error?: string } {
+  if (typeof body.conversation_id !== 'string' || !body.conversation_id) {
+    return { isValid: false, error: 'A conversation ID is required' };
+  }
+  if (body.turns !== undefined && (!Number.isInteger(body.turns) || body.turns < 1 || body.turns > CONFIG.CONVERSATION.MAX_TURNS)) {
+    return { isValid: false, error: `turns must be an integer between 1 and ${CONFIG.CONVERSATION.MAX_TURNS}` };
+  }
+  return { isValid: true };
+}
+
+/**
+ * Publishing has its own daily allowance per client, apart from the question quota
+ */
+export function getShareRateLimitClient(request: Request): RateLimitClient {
+  return { identity: `share:${getRateLimitClient(request).identity}`, limit: CONFIG.SHARING.MAX_PER_DAY };
+}
+
+// Copy only the fields a public page shows, dropping usage, context and the conversation ID
+function pickAnswer(answer: AIResponse): AIResponse {
+  return {
+    answer: answer.answer,
+    sources: answer.sources.map(({ id, title, url, type, author, score }) => ({ id, title, url, type, author, score })),
+    confidence: answer.confidence,
+    confidence_breakdown: answer.confidence_breakdown,
+    model: answer.model,
+    subreddits: answer.subreddits,
+    timeframe: answer.timeframe,
+    retrieval: answer.retrieval,
+    snapshot: answer.snapshot,
+    structured: answer.structured,
+    mode: answer.mode,
+  };
+}
+
+/**
+ * Thrown when the store already holds CONFIG.SHARING.MAX_SHARES live shares
+ */
+export class ShareCapacityError extends Error {
+  constructor() {
+    super('Too many answers are shared right now. Please try again later.');
+    this.name = 'ShareCapacityError';
+  }
+}
+
+/**
+ * Publish the first `turns` answers the server recorded for a conversation, or null when the
+ * conversation has expired or hasn't recorded that many. The owner token is returned once and
+ * needed to unpublish.
+ */
+export async function createShare(body: ShareAnswerRequest): Promise<{ share: SharedAnswer; ownerToken: string } | null> {
+  const conversation = await getConversation(body.conversation_id);
+  const turns = conversation?.turns.slice(0, body.turns ?? conversation.turns.length) ?? [];
+  if (!conversation || !turns.length || turns.length < (body.turns ?? 1) || turns.some(turn => !turn.response)) {
+    return null;
+  }
+
+  const [first, ...followUps] = turns;
+  const ownerToken = randomBytes(24).toString('base64url');
+  const createdAt = Date.now();
+  const share: SharedAnswer = {
+    id: randomBytes(9).toString('base64url'),
+    question: first.question,
+    subreddits: conversation.subreddits,
+    answer: pickAnswer(first.response!),
+    follow_ups: followUps.map(turn => ({ question: turn.question, answer: pickAnswer(turn.response!) })),
+    created_at: createdAt,
+    expires_at: createdAt + TTL_MS,
+  };
+
+  if (!await getShareStore().save({ ...share, ownerTokenHash: hashToken(ownerToken) })) {
+    throw new ShareCapacityError();
+  }
+  return { share, ownerToken };
+}
+
+/**
+ * Load a published answer without its owner token hash
+ */
+export async function getShare(id: string): Promise<SharedAnswer | null> {
+  const store = getShareStore();
+  const record = await store.get(id);
+  if (!record) return null;
+
+  // Shares from before links expired get the same lifetime from when they were created
+  const { question, subreddits, answer, follow_ups, created_at, expires_at = created_at + TTL_MS } = record;
+  if (Date.now() >= expires_at) {
+    await store.delete(id);
+    return null;
+  }
+  return { id, question, subreddits, answer, follow_ups, created_at, expires_at };
+}
+
+/**
+ * Remove a published answer if the token matches the one issued when it was created
+ */
+export async function unpublishShare(id: string, ownerToken: string): Promise<'deleted' | 'not_found' | 'forbidden'> {
+  const store = getShareStore();
+  const record = await store.get(id);
+  if (!record) return 'not_found';
+
+  const expected = Buffer.from(record.ownerTokenHash, 'hex');
+  const actual = Buffer.from(hashToken(ownerToken), 'hex');
+  if (!timingSafeEqual(expected, actual)) return 'forbidden';
+
+  await store.delete(id);
+  return 'deleted';
+}
+
+/**
+ * Public URL of a shared answer. NEXT_PUBLIC_SITE_URL wins over the request origin.
+ */
+export function getShareUrl(id: string, origin: string): string {
+  return `${(process.env.NEXT_PUBLIC_SITE_URL || origin).replace(/\/$/, '')}/a/${id}`;
+}
@@ -0,0 +1,30 @@
+import type { ShareRecord, ShareStore } from './types';
+
+// Process-local store holding up to maxEntries live shares.
+// Shares are lost on restart, so use the file store for links meant to last.
+export class MemoryShareStore implements ShareStore {
+  private shares = new Map<string, ShareRecord>();
+
+  constructor(private readonly maxEntries: number = 1000) {}
+
+  async get(id: string): Promise<ShareRecord | null> {
+    return this.shares.get(id) ?? null;
+  }
+
+  async save(share: ShareRecord): Promise<boolean> {
+    const now = Date.now();
+    for (const [id, stored] of this.shares) {
+      if (now >= stored.expires_at) this.shares.delete(id);
+    }
+
+    if (!this.shares.has(share.id) && this.shares.size >= this.maxEntries) {
+      return false;
+    }
+    this.shares.set(share.id, share);
+    return true;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.shares.delete(id);
+  }
+}
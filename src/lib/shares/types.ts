@@ -0,0 +1,15 @@
+import type { SharedAnswer } from '@/types';
+
+// A published answer as stored; the owner token itself is never kept
+export interface ShareRecord extends SharedAnswer {
+  ownerTokenHash: string;
+}
+
+// Storage backend for published answers
+export interface ShareStore {
+  get(id: string): Promise<ShareRecord | null>;
+  // Store a share, removing expired ones first. Returns false, storing nothing, when the
+  // store is full: live links are never evicted to make room.
+  save(share: ShareRecord): Promise<boolean>;
+  delete(id: string): Promise<void>;
+}
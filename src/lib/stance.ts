@@ -0,0 +1,152 @@
+import { CONFIG, STANCES } from './constants';
+import { cleanRedditText, isOwnKey, toRedditUrl, truncateText } from './utils';
+import { extractJson } from './structured-answer';
+import { getLLMProvider, jsonSchemaOption } from './llm';
+import type { ChatMessage, ModelDefinition } from './llm';
+import type { AnswerSource, ExtractedContent, RedditComment, Stance, StanceBreakdown, StanceSide } from '@/types';
+
+const SIDES: StanceSide['stance'][] = ['for', 'against', 'neutral'];
+
+const STANCE_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['stances'],
+  properties: {
+    stances: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['id', 'stance'],
+        properties: {
+          id: { type: 'integer' },
+          stance: { type: 'string', enum: Object.keys(STANCES) },
+        },
+      },
+    },
+  },
+} as const;
+
+// A selected comment with the reference number the answer cites it by
+interface StanceCandidate {
+  comment: RedditComment;
+  source: AnswerSource;
+}
+
+/**
+ * The highest-scoring comments that made it into the prompt, paired with their references
+ */
+function selectCandidates(redditContent: ExtractedContent): StanceCandidate[] {
+  const sourcesByUrl = new Map(redditContent.references
+    .filter(reference => reference.type === 'comment')
+    .map(reference => [reference.url, reference]));
+
+  return redditContent.comments
+    .map(comment => ({ comment, source: sourcesByUrl.get(toRedditUrl(comment.permalink)) }))
+    .filter((candidate): candidate is StanceCandidate => candidate.source !== undefined)
+    .sort((a, b) => b.comment.score - a.comment.score)
+    .slice(0, CONFIG.STANCE.MAX_COMMENTS);
+}
+
+/**
+ * Whether the prompt has enough comments for analyzeStance to make its completion
+ */
+export function canAnalyzeStance(redditContent: ExtractedContent): boolean {
+  return selectCandidates(redditContent).length >= CONFIG.STANCE.MIN_ON_TOPIC;
+}
+
+function buildMessages(question: string, candidates: StanceCandidate[]): ChatMessage[] {
+  const labels = (Object.keys(STANCES) as Stance[])
+    .map(stance => `- "${stance}": ${STANCES[stance].description}`)
+    .join('\n');
+  const comments = candidates
+    .map(({ comment, source }) => `[${source.id}] ${truncateText(cleanRedditText(comment.body), CONFIG.STANCE.MAX_COMMENT_CHARS)}`)
+    .join('\n\n');
+
+  return [
+    {
+      role: 'system',
+      content: `You classify the stance of Reddit comments on a question. Use one of:
+${labels}
+
+Respond with a single JSON object and nothing else, matching this schema:
+${JSON.stringify(STANCE_SCHEMA)}`,
+    },
+    { role: 'user', content: `Question: ${question}\n\nComments:\n${comments}` },
+  ];
+}
+
+/**
+ * Stance of each comment by reference number. Unknown ids and labels are ignored,
+ * so a partly valid reply still classifies what it can.
+ */
+function parseStances(raw: string, candidates: StanceCandidate[]): Map<number, Stance> {
+  const known = new Set(candidates.map(candidate => candidate.source.id));
+  const parsed = extractJson(raw) as { stances?: unknown };
+  const stances = new Map<number, Stance>();
+
+  for (const item of Array.isArray(parsed?.stances) ? parsed.stances : []) {
+    const id = Number(item?.id);
+    const stance = typeof item?.stance === 'string' ? item.stance.trim().toLowerCase().replace(/[\s-]+/g, '_') : '';
+    if (known.has(id) && isOwnKey(STANCES, stance)) {
+      stances.set(id, stance);
+    }
+  }
+  return stances;
+}
+
+/**
+ * Weight each side by the scores of its comments and pick the top comments to show
+ */
+function summarizeStances(candidates: StanceCandidate[], stances: Map<number, Stance>): StanceBreakdown | null {
+  const classified = candidates.filter(candidate => stances.has(candidate.source.id));
+  const onTopic = classified.filter(candidate => stances.get(candidate.source.id) !== 'off_topic');
+  if (onTopic.length < CONFIG.STANCE.MIN_ON_TOPIC) return null;
+
+  const weightOf = (candidate: StanceCandidate) => Math.max(1, candidate.comment.score);
+  const total = onTopic.reduce((sum, candidate) => sum + weightOf(candidate), 0);
+
+  const sides = SIDES.map((stance): StanceSide => {
+    const members = onTopic
+      .filter(candidate => stances.get(candidate.source.id) === stance)
+      .sort((a, b) => b.comment.score - a.comment.score);
+    const weightedScore = members.reduce((sum, candidate) => sum + weightOf(candidate), 0);
+    return {
+      stance,
+      comments: members.length,
+      weighted_score: weightedScore,
+      share: weightedScore / total,
+      representatives: members.slice(0, CONFIG.STANCE.REPRESENTATIVES).map(candidate => candidate.source),
+    };
+  });
+
+  return { sides, classified: classified.length, off_topic: classified.length - onTopic.length };
+}
+
+/**
+ * Classify the stance of the selected comments on the question with one extra completion.
+ * Returns null when there are too few on-topic comments for a meaningful split.
+ */
+export async function analyzeStance(
+  question: string,
+  redditContent: ExtractedContent,
+  model: ModelDefinition,
+  signal?: AbortSignal
+): Promise<{ breakdown: StanceBreakdown | null; tokensUsed?: number }> {
+  const candidates = selectCandidates(redditContent);
+  if (candidates.length < CONFIG.STANCE.MIN_ON_TOPIC) return { breakdown: null };
+
+  const completion = await getLLMProvider(model.provider).complete({
+    model: model.providerModel,
+    messages: buildMessages(question, candidates),
+    maxTokens: CONFIG.STANCE.MAX_TOKENS,
+    temperature: 0,
+    ...jsonSchemaOption(model, { name: 'comment_stances', schema: STANCE_SCHEMA }),
+    signal,
+  });
+
+  return {
+    breakdown: summarizeStances(candidates, parseStances(completion.content, candidates)),
+    tokensUsed: completion.tokensUsed,
+  };
+}
@@ -0,0 +1,227 @@
+import { CITATION_PATTERN, parseCitationIds, stripCitations } from './utils';
+import type { AnswerSource, ConsensusLevel, StructuredAnswer } from '@/types';
+
+// JSON schema the model must follow in structured mode. Written in the subset OpenAI's
+// strict structured outputs accept: every property required, no additional properties.
+// Quote authors aren't asked for; they are filled in from the cited source.
+const citations = { type: 'array', items: { type: 'integer' } };
+
+export const STRUCTURED_ANSWER_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['summary', 'key_points', 'consensus', 'dissenting_views', 'notable_quotes', 'open_questions'],
+  properties: {
+    summary: { type: 'string', description: 'Two to four sentences answering the question directly' },
+    key_points: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['point', 'citations'],
+        properties: { point: { type: 'string' }, citations },
+      },
+    },
+    consensus: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['level', 'statement', 'citations'],
+      properties: {
+        level: { type: 'string', enum: ['strong', 'moderate', 'weak', 'none'] },
+        statement: { type: 'string', description: 'What most of the discussion agrees on, or why it does not' },
+        citations,
+      },
+    },
+    dissenting_views: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['view', 'citations'],
+        properties: { view: { type: 'string' }, citations },
+      },
+    },
+    notable_quotes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['quote', 'citation'],
+        properties: {
+          quote: { type: 'string', description: 'Copied word for word from the cited post or comment' },
+          citation: { type: 'integer' },
+        },
+      },
+    },
+    open_questions: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'What the discussion leaves unanswered',
+    },
+  },
+} as const;
+
+export const STRUCTURED_ANSWER_INSTRUCTIONS = `Respond with a single JSON object and nothing else, matching this schema:
+${JSON.stringify(STRUCTURED_ANSWER_SCHEMA)}
+
+- Put reference numbers in the "citations" arrays (or "citation" for quotes), not in the text
+- Use empty arrays for sections the discussion has nothing for
+- Use consensus level "none" when the discussion is split or too thin to agree on anything`;
+
+const CONSENSUS_LEVELS: ConsensusLevel[] = ['strong', 'moderate', 'weak', 'none'];
+
+// Words models use instead of the allowed consensus levels
+const CONSENSUS_SYNONYMS: Record<string, ConsensusLevel> = {
+  high: 'strong',
+  medium: 'moderate',
+  mixed: 'moderate',
+  partial: 'moderate',
+  low: 'weak',
+  divided: 'none',
+  split: 'none',
+  no: 'none',
+};
+
+/**
+ * The JSON object in a reply, tolerating code fences and text around it
+ */
+export function extractJson(raw: string): unknown {
+  const unfenced = raw.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '');
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('no JSON object found');
+  }
+  return JSON.parse(unfenced.slice(start, end + 1));
+}
+
+const asText = (value: unknown) => typeof value === 'string' ? stripCitations(value).trim() : '';
+
+/**
+ * Parse and validate a structured reply, repairing what can be repaired: stray inline
+ * citations are moved into the citations arrays, unknown reference numbers and empty
+ * items are dropped, and consensus synonyms are mapped to allowed levels. Anything
+ * that can't be repaired is reported in `errors` so the model can be asked again.
+ */
+export function parseStructuredAnswer(
+  raw: string,
+  references: AnswerSource[]
+): { answer?: StructuredAnswer; errors: string[] } {
+  let value: Record<string, unknown>;
+  try {
+    const parsed = extractJson(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      return { errors: ['The reply must be a JSON object'] };
+    }
+    value = parsed as Record<string, unknown>;
+  } catch (error) {
+    return { errors: [`The reply is not valid JSON (${error instanceof Error ? error.message : 'parse error'})`] };
+  }
+
+  const errors: string[] = [];
+  const byId = new Map(references.map(reference => [reference.id, reference]));
+
+  // Cited numbers from the array, plus any the model left inline in the text
+  const citationsOf = (ids: unknown, text: unknown): number[] => {
+    const inline = typeof text === 'string'
+      ? Array.from(text.matchAll(CITATION_PATTERN)).flatMap(match => parseCitationIds(match[1]))
+      : [];
+    const listed = Array.isArray(ids) ? ids.map(Number) : [];
+    return Array.from(new Set([...listed, ...inline])).filter(id => byId.has(id));
+  };
+
+  const listOf = (key: string): Record<string, unknown>[] => {
+    const list = value[key];
+    if (list === undefined || list === null) return [];
+    if (!Array.isArray(list)) {
+      errors.push(`"${key}" must be an array`);
+      return [];
+    }
+    return list.map(item => typeof item === 'string' ? { text: item } : (item as Record<string, unknown>) || {});
+  };
+
+  const summary = asText(value.summary);
+  if (!summary) {
+    errors.push('"summary" must be a non-empty string');
+  }
+
+  const keyPoints = listOf('key_points')
+    .map(item => ({ point: asText(item.point ?? item.text), citations: citationsOf(item.citations, item.point ?? item.text) }))
+    .filter(item => item.point);
+
+  const dissentingViews = listOf('dissenting_views')
+    .map(item => ({ view: asText(item.view ?? item.text), citations: citationsOf(item.citations, item.view ?? item.text) }))
+    .filter(item => item.view);
+
+  const notableQuotes = listOf('notable_quotes')
+    .map(item => {
+      const citation = citationsOf(item.citation !== undefined ? [item.citation] : item.citations, undefined)[0];
+      const quote = asText(item.quote ?? item.text).replace(/^["“]|["”]$/g, '');
+      return citation !== undefined && quote ? { quote, citation, author: byId.get(citation)!.author } : null;
+    })
+    .filter((item): item is StructuredAnswer['notable_quotes'][number] => item !== null);
+
+  const openQuestions = listOf('open_questions')
+    .map(item => asText(item.text ?? item.question))
+    .filter(Boolean);
+
+  const rawConsensus = value.consensus;
+  let consensus: StructuredAnswer['consensus'] = { level: 'none', statement: '', citations: [] };
+  if (rawConsensus && typeof rawConsensus === 'object') {
+    const { level, statement, citations: ids } = rawConsensus as Record<string, unknown>;
+    const normalizedLevel = typeof level === 'string' ? level.trim().toLowerCase() : '';
+    const mappedLevel = CONSENSUS_LEVELS.find(allowed => allowed === normalizedLevel) ?? CONSENSUS_SYNONYMS[normalizedLevel];
+    if (!mappedLevel) {
+      errors.push(`"consensus.level" must be one of ${CONSENSUS_LEVELS.join(', ')}`);
+    }
+    consensus = { level: mappedLevel ?? 'none', statement: asText(statement), citations: citationsOf(ids, statement) };
+  } else if (typeof rawConsensus === 'string') {
+    consensus = { level: 'moderate', statement: asText(rawConsensus), citations: citationsOf(undefined, rawConsensus) };
+  } else {
+    errors.push('"consensus" must be an object with level, statement and citations');
+  }
+
+  if (errors.length) {
+    return { errors };
+  }
+
+  return {
+    answer: {
+      summary,
+      key_points: keyPoints,
+      consensus,
+      dissenting_views: dissentingViews,
+      notable_quotes: notableQuotes,
+      open_questions: openQuestions,
+    },
+    errors: [],
+  };
+}
+
+const citationMarkers = (ids: number[]) => ids.map(id => `[${id}]`).join('');
+
+/**
+ * Prose version of a structured answer with inline [n] citations, used wherever
+ * plain answer text is expected: follow-up history, sharing and exports.
+ */
+export function structuredAnswerToText(answer: StructuredAnswer): string {
+  const withCitations = (text: string, ids: number[]) => ids.length ? `${text} ${citationMarkers(ids)}` : text;
+  const sections: string[] = [`## Summary\n\n${answer.summary}`];
+
+  if (answer.key_points.length) {
+    sections.push(`## Key points\n\n${answer.key_points.map(item => `- ${withCitations(item.point, item.citations)}`).join('\n')}`);
+  }
+  if (answer.consensus.statement) {
+    sections.push(`## Consensus (${answer.consensus.level})\n\n${withCitations(answer.consensus.statement, answer.consensus.citations)}`);
+  }
+  if (answer.dissenting_views.length) {
+    sections.push(`## Dissenting views\n\n${answer.dissenting_views.map(item => `- ${withCitations(item.view, item.citations)}`).join('\n')}`);
+  }
+  if (answer.notable_quotes.length) {
+    sections.push(`## Notable quotes\n\n${answer.notable_quotes.map(item => `- "${item.quote}" — u/${item.author} [${item.citation}]`).join('\n')}`);
+  }
+  if (answer.open_questions.length) {
+    sections.push(`## Open questions\n\n${answer.open_questions.map(question => `- ${question}`).join('\n')}`);
+  }
+
+  return sections.join('\n\n');
+}
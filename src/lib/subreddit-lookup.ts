@@ -0,0 +1,62 @@
+import { API_ENDPOINTS } from './constants';
+import type { SubredditInfo, SubredditLookup, SubredditLookupResponse, SubredditSearchResponse } from '@/types';
+
+// Lookups for this page load, shared by the selector and the submit check
+const lookups = new Map<string, Promise<SubredditLookup | null>>();
+
+/**
+ * Whether a subreddit exists and can be read. Resolves to null when the lookup itself
+ * fails, e.g. Reddit is unreachable, so callers can let the question through.
+ */
+export function fetchSubredditLookup(name: string): Promise<SubredditLookup | null> {
+  const key = name.toLowerCase();
+  const cached = lookups.get(key);
+  if (cached) return cached;
+
+  const lookup = (async () => {
+    try {
+      const response = await fetch(`${API_ENDPOINTS.SUBREDDITS}/${encodeURIComponent(name)}`);
+      const result: SubredditLookupResponse = await response.json();
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Failed to look up subreddit');
+      }
+      return result.data;
+    } catch (error) {
+      console.error(`Error looking up r/${name}:`, error);
+      lookups.delete(key); // Try again next time
+      return null;
+    }
+  })();
+
+  lookups.set(key, lookup);
+  return lookup;
+}
+
+/**
+ * Subreddits matching a partial name, for autocomplete
+ */
+export async function fetchSubredditSuggestions(query: string, signal?: AbortSignal): Promise<SubredditInfo[]> {
+  const response = await fetch(`${API_ENDPOINTS.SUBREDDITS}?q=${encodeURIComponent(query)}`, { signal });
+  const result: SubredditSearchResponse = await response.json();
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to search subreddits');
+  }
+  return result.data.subreddits;
+}
+
+/**
+ * Why a subreddit can't be asked, or null when it can (or couldn't be checked)
+ */
+export function describeLookupProblem(lookup: SubredditLookup | null | undefined): string | null {
+  if (lookup?.status === 'not_found') return `r/${lookup.name} doesn't exist`;
+  if (lookup?.status === 'private') return `r/${lookup.name} is private and can't be read`;
+  return null;
+}
+
+/**
+ * Problems with any of the subreddits, checked before a question is sent
+ */
+export async function findSubredditProblems(names: string[]): Promise<string[]> {
+  const results = await Promise.all(names.map(fetchSubredditLookup));
+  return results.map(describeLookupProblem).filter((problem): problem is string => problem !== null);
+}
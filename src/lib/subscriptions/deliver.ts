@@ -0,0 +1,153 @@
+import { randomBytes } from 'crypto';
+import { CONFIG } from '@/lib/constants';
+import { buildRedditContext } from '@/lib/context';
+import { generateAIResponse } from '@/lib/answer';
+import { generateDigest, digestToMarkdown } from '@/lib/digest';
+import { toMarkdown } from '@/lib/export';
+import { getMultiSubredditSnapshot, RedditApiError } from '@/lib/reddit';
+import { getModel, getDefaultModel, isProviderConfigured } from '@/lib/llm';
+import { DeliveryError } from './errors';
+import { getSmtpConfig, sendMail } from './smtp';
+import { postWebhook } from './webhook';
+import type { BriefingContent, DeliveryRecord } from './types';
+import type { Delivery, DeliveryAttempt, Subscription } from '@/types';
+
+/**
+ * Generate what a subscription sends: a digest, or an answer to its question
+ */
+async function generateBriefing(subscription: Subscription): Promise<BriefingContent> {
+  const { name, subreddits, timeframe, style, question } = subscription;
+  const model = subscription.model ? getModel(subscription.model) : getDefaultModel();
+  if (!model || !isProviderConfigured(model.provider)) {
+    throw new DeliveryError(`Model ${subscription.model || '(default)'} is not available on this server`, false);
+  }
+
+  const subject = `${name} — ${new Date().toISOString().slice(0, 10)}`;
+  const about = { id: subscription.id, name, subreddits, style };
+
+  const { datasets, snapshot } = await getMultiSubredditSnapshot(subreddits, { timeframe, limit: 25 });
+  if (!datasets.some(data => data.posts.length)) {
+    throw new DeliveryError('No recent content available for this subreddit', false);
+  }
+
+  if (style === 'digest') {
+    const digest = await generateDigest(subreddits, timeframe, datasets, snapshot, model);
+    const text = digestToMarkdown(digest);
+    return { subject, text, payload: { subscription: about, text, digest } };
+  }
+
+  // Every style but 'digest' is validated to have a question
+  const standingQuestion = question!;
+  const redditContent = buildRedditContext(datasets, { contextWindow: model.contextWindow, question: standingQuestion });
+  if (!redditContent.text || redditContent.text.length < 100) {
+    throw new DeliveryError('Insufficient recent content in this subreddit', false);
+  }
+
+  const answer = await generateAIResponse({
+    question: standingQuestion,
+    subreddits,
+    timeframe,
+    retrieval: CONFIG.REDDIT.DEFAULT_RETRIEVAL,
+    mode: style,
+    model,
+    redditContent,
+    snapshot,
+  });
+  const text = toMarkdown([{ question: standingQuestion, subreddits, answer, follow_ups: [] }], new Date());
+  return { subject, text, payload: { subscription: about, text, question: standingQuestion, answer } };
+}
+
+async function send(subscription: Subscription, content: BriefingContent, deliveryId: string): Promise<{ code: number }> {
+  const { channel } = subscription;
+
+  if (channel.type === 'email') {
+    const config = getSmtpConfig();
+    if (!config) {
+      throw new DeliveryError('Email delivery needs SMTP_HOST to be configured', false);
+    }
+    return sendMail(config, { to: channel.to, subject: content.subject, text: content.text });
+  }
+
+  return postWebhook(
+    channel.url,
+    { event: 'subscription.briefing', delivery_id: deliveryId, subject: content.subject, ...content.payload, generated_at: Date.now() },
+    { secret: channel.secret, deliveryId }
+  );
+}
+
+// Missing subreddits and bad requests fail the same way every time
+function isRetryable(error: unknown): boolean {
+  if (error instanceof DeliveryError) return error.retryable;
+  if (error instanceof RedditApiError) return error.status >= 500 || error.status === 429;
+  return true;
+}
+
+// A delivery due now, with no attempts yet
+export function createDelivery(subscription: Subscription, trigger: Delivery['trigger']): DeliveryRecord {
+  return {
+    id: randomBytes(9).toString('base64url'),
+    subscription_id: subscription.id,
+    trigger,
+    status: 'pending',
+    attempts: [],
+    next_attempt_at: Date.now(),
+    created_at: Date.now(),
+  };
+}
+
+/**
+ * Make one attempt at a delivery, generating the briefing first if no earlier attempt did.
+ * A failure is retried after RETRY_DELAYS_MINUTES until MAX_ATTEMPTS, unless retrying can't help.
+ */
+export async function attemptDelivery(subscription: Subscription, delivery: DeliveryRecord): Promise<DeliveryRecord> {
+  const attempt: DeliveryAttempt = {
+    attempt: delivery.attempts.length + 1,
+    started_at: Date.now(),
+    finished_at: 0,
+    ok: false,
+  };
+  let updated: DeliveryRecord = { ...delivery };
+
+  try {
+    const content = delivery.content ?? await generateBriefing(subscription);
+    updated = { ...updated, content, subject: content.subject };
+
+    const { code } = await send(subscription, content, delivery.id);
+    const finishedAt = Date.now();
+    updated = {
+      ...updated,
+      status: 'delivered',
+      attempts: [...delivery.attempts, { ...attempt, finished_at: finishedAt, ok: true, response_code: code }],
+      next_attempt_at: null,
+      delivered_at: finishedAt,
+    };
+  } catch (error) {
+    console.error(`Delivery ${delivery.id} for subscription ${subscription.id} failed (attempt ${attempt.attempt}):`, error);
+
+    const finishedAt = Date.now();
+    const retry = isRetryable(error) && attempt.attempt < CONFIG.SUBSCRIPTIONS.MAX_ATTEMPTS;
+    const delays = CONFIG.SUBSCRIPTIONS.RETRY_DELAYS_MINUTES;
+    const delayMinutes = delays[Math.min(attempt.attempt, delays.length) - 1];
+    updated = {
+      ...updated,
+      status: retry ? 'pending' : 'failed',
+      attempts: [...delivery.attempts, {
+        ...attempt,
+        finished_at: finishedAt,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        response_code: error instanceof DeliveryError ? error.code : undefined,
+      }],
+      next_attempt_at: retry ? finishedAt + delayMinutes * 60 * 1000 : null,
+    };
+  }
+
+  return updated;
+}
+
+/**
+ * Public view of a delivery, without the stored briefing
+ */
+export function toDeliveryView(delivery: DeliveryRecord): Delivery {
+  const { id, subscription_id, trigger, status, subject, attempts, next_attempt_at, created_at, delivered_at } = delivery;
+  return { id, subscription_id, trigger, status, subject, attempts, next_attempt_at, created_at, delivered_at };
+}
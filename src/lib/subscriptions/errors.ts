@@ -0,0 +1,10 @@
+/**
+ * A failed delivery attempt. retryable is false when trying again can't help,
+ * e.g. a rejected recipient or a webhook answering 404.
+ */
+export class DeliveryError extends Error {
+  constructor(message: string, public readonly retryable: boolean, public readonly code?: number) {
+    super(message);
+    this.name = 'DeliveryError';
+  }
+}
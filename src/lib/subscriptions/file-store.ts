@@ -0,0 +1,77 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { DeliveryRecord, SubscriptionStore } from './types';
+import type { Subscription } from '@/types';
+
+const fileName = (id: string) => `${createHash('sha256').update(id).digest('hex').slice(0, 40)}.json`;
+
+async function readJson<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8')) as T;
+  } catch {
+    return null;
+  }
+}
+
+async function writeJson(filePath: string, value: unknown): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(tempPath, JSON.stringify(value));
+  await fs.rename(tempPath, filePath);
+}
+
+// JSON files under subscriptions/ and deliveries/<subscription>/, so schedules survive restarts
+export class FileSubscriptionStore implements SubscriptionStore {
+  constructor(private readonly directory: string, private readonly maxDeliveries: number) {}
+
+  private subscriptionPath(id: string): string {
+    return path.join(this.directory, 'subscriptions', fileName(id));
+  }
+
+  private deliveryDirectory(subscriptionId: string): string {
+    return path.join(this.directory, 'deliveries', fileName(subscriptionId).replace(/\.json$/, ''));
+  }
+
+  async list(): Promise<Subscription[]> {
+    const directory = path.join(this.directory, 'subscriptions');
+    const files = await fs.readdir(directory).catch(() => [] as string[]);
+    const subscriptions = await Promise.all(files
+      .filter(file => file.endsWith('.json'))
+      .map(file => readJson<Subscription>(path.join(directory, file))));
+    return subscriptions.filter((subscription): subscription is Subscription => subscription !== null);
+  }
+
+  async get(id: string): Promise<Subscription | null> {
+    return readJson<Subscription>(this.subscriptionPath(id));
+  }
+
+  async save(subscription: Subscription): Promise<void> {
+    await writeJson(this.subscriptionPath(subscription.id), subscription);
+  }
+
+  async delete(id: string): Promise<void> {
+    await fs.rm(this.subscriptionPath(id), { force: true });
+    await fs.rm(this.deliveryDirectory(id), { recursive: true, force: true });
+  }
+
+  async listDeliveries(subscriptionId: string): Promise<DeliveryRecord[]> {
+    const directory = this.deliveryDirectory(subscriptionId);
+    const files = await fs.readdir(directory).catch(() => [] as string[]);
+    const deliveries = await Promise.all(files
+      .filter(file => file.endsWith('.json'))
+      .map(file => readJson<DeliveryRecord>(path.join(directory, file))));
+    return deliveries
+      .filter((delivery): delivery is DeliveryRecord => delivery !== null)
+      .sort((a, b) => b.created_at - a.created_at);
+  }
+
+  async saveDelivery(delivery: DeliveryRecord): Promise<void> {
+    const directory = this.deliveryDirectory(delivery.subscription_id);
+    await writeJson(path.join(directory, fileName(delivery.id)), delivery);
+
+    // Drop the oldest beyond maxDeliveries
+    const stale = (await this.listDeliveries(delivery.subscription_id)).slice(this.maxDeliveries);
+    await Promise.all(stale.map(old => fs.rm(path.join(directory, fileName(old.id)), { force: true })));
+  }
+}
@@ -0,0 +1,301 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import path from 'path';
+import { CONFIG, SUBSCRIPTION_STYLES, TIMEFRAMES } from '@/lib/constants';
+import { isOwnKey, parseSubreddits, validateQuestion, validateSubreddit } from '@/lib/utils';
+import { getModel } from '@/lib/llm';
+import { MemorySubscriptionStore } from './memory-store';
+import { FileSubscriptionStore } from './file-store';
+import { attemptDelivery, createDelivery, toDeliveryView } from './deliver';
+import { getSmtpConfig } from './smtp';
+import { nextRunAfter, validateSchedule } from './schedule';
+import type { DeliveryRecord, SubscriptionStore } from './types';
+import type { Delivery, Subscription, SubscriptionChannel, SubscriptionRequest } from '@/types';
+
+export { MemorySubscriptionStore } from './memory-store';
+export { FileSubscriptionStore } from './file-store';
+export { DeliveryError } from './errors';
+export { nextRunAfter, validateSchedule } from './schedule';
+export { signWebhookBody } from './webhook';
+export type { BriefingContent, DeliveryRecord, SubscriptionStore } from './types';
+
+let sharedStore: SubscriptionStore | null = null;
+
+/**
+ * Store selected by SUBSCRIPTION_STORE ('memory' or 'file'), created on first use
+ */
+export function getSubscriptionStore(): SubscriptionStore {
+  if (!sharedStore) {
+    sharedStore = process.env.SUBSCRIPTION_STORE === 'file'
+      ? new FileSubscriptionStore(process.env.SUBSCRIPTION_DIR || path.join(process.cwd(), '.data', 'subscriptions'), CONFIG.SUBSCRIPTIONS.DELIVERIES_KEPT)
+      : new MemorySubscriptionStore(CONFIG.SUBSCRIPTIONS.DELIVERIES_KEPT);
+  }
+  return sharedStore;
+}
+
+/**
+ * Replace the shared store, e.g. with a pre-seeded one in tests
+ */
+export function setSubscriptionStore(store: SubscriptionStore): void {
+  sharedStore = store;
+}
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest();
+
+/**
+ * Check the request's "Authorization: Bearer <token>" header against SUBSCRIPTIONS_ADMIN_TOKEN.
+ * Returns the error response to send, or null when allowed. Subscriptions are off
+ * entirely while the variable is unset.
+ */
+export function authorizeSubscriptionRequest(request: Request): { status: number; error: string } | null {
+  const adminToken = process.env.SUBSCRIPTIONS_ADMIN_TOKEN;
+  if (!adminToken) {
+    return { status: 404, error: 'Subscriptions are not enabled on this server' };
+  }
+
+  const token = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+  if (!token || !timingSafeEqual(hashToken(token), hashToken(adminToken))) {
+    return { status: 401, error: 'A valid admin token is required' };
+  }
+  return null;
+}
+
+const EMAIL_PATTERN = /^[^\s@<>,;"]+@[^\s@<>,;"]+\.[^\s@<>,;"]+$/;
+
+function validateChannel(channel: SubscriptionChannel | undefined): string | null {
+  if (channel?.type === 'email') {
+    if (!Array.isArray(channel.to) || !channel.to.length || channel.to.length > CONFIG.SUBSCRIPTIONS.MAX_RECIPIENTS) {
+      return `Email channels need between 1 and ${CONFIG.SUBSCRIPTIONS.MAX_RECIPIENTS} recipients`;
+    }
+    const invalid = channel.to.find(address => typeof address !== 'string' || !EMAIL_PATTERN.test(address));
+    if (invalid !== undefined) return `Invalid email address: ${invalid}`;
+    if (!getSmtpConfig()) return 'Email delivery needs SMTP_HOST to be configured';
+    return null;
+  }
+
+  if (channel?.type === 'webhook') {
+    let url: URL;
+    try {
+      url = new URL(channel.url);
+    } catch {
+      return 'Webhook URL is invalid';
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return 'Webhook URL must use http or https';
+    if (channel.secret !== undefined && (typeof channel.secret !== 'string' || channel.secret.length > 256)) {
+      return 'Webhook secret must be a string of at most 256 characters';
+    }
+    return null;
+  }
+
+  return 'Channel type must be "email" or "webhook"';
+}
+
+/**
+ * Check a subscription before anything is stored
+ */
+export function validateSubscriptionRequest(body: SubscriptionRequest): { isValid: boolean; error?: string } {
+  if (typeof body.name !== 'string' || !body.name.trim() || body.name.length > 100) {
+    return { isValid: false, error: 'A name of up to 100 characters is required' };
+  }
+
+  const subreddits = parseSubreddits(body.subreddits || []);
+  if (!subreddits.length || subreddits.length > CONFIG.REDDIT.MAX_SUBREDDITS) {
+    return { isValid: false, error: `Between 1 and ${CONFIG.REDDIT.MAX_SUBREDDITS} subreddits are required` };
+  }
+  const invalidSubreddit = subreddits.map(validateSubreddit).find(validation => !validation.isValid);
+  if (invalidSubreddit) return invalidSubreddit;
+
+  const scheduleValidation = validateSchedule(body.schedule);
+  if (!scheduleValidation.isValid) return scheduleValidation;
+
+  const channelError = validateChannel(body.channel);
+  if (channelError) return { isValid: false, error: channelError };
+
+  const style = body.style ?? 'digest';
+  if (!isOwnKey(SUBSCRIPTION_STYLES, style)) {
+    return { isValid: false, error: `Style must be one of: ${Object.keys(SUBSCRIPTION_STYLES).join(', ')}` };
+  }
+  if (style !== 'digest') {
+    const questionValidation = validateQuestion(body.question || '');
+    if (!questionValidation.isValid) return questionValidation;
+  }
+
+  if (body.timeframe !== undefined && !isOwnKey(TIMEFRAMES, body.timeframe)) {
+    return { isValid: false, error: 'Invalid timeframe specified' };
+  }
+  if (body.model !== undefined && !getModel(body.model)) {
+    return { isValid: false, error: 'Invalid model specified' };
+  }
+  if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+    return { isValid: false, error: 'enabled must be true or false' };
+  }
+
+  return { isValid: true };
+}
+
+// Copy only known fields; the webhook secret is kept as given
+function pickChannel(channel: SubscriptionChannel): SubscriptionChannel {
+  return channel.type === 'email'
+    ? { type: 'email', to: channel.to.map(address => address.trim()) }
+    : { type: 'webhook', url: channel.url, secret: channel.secret || undefined };
+}
+
+/**
+ * Public view of a subscription: the webhook secret is replaced by whether one is set
+ */
+export function toSubscriptionView(subscription: Subscription): Subscription {
+  const { channel } = subscription;
+  return {
+    ...subscription,
+    channel: channel.type === 'webhook' ? { type: 'webhook', url: channel.url, signed: Boolean(channel.secret) } : channel,
+  };
+}
+
+// The fields of a stored subscription that a request can set
+function fromRequest(body: SubscriptionRequest): Omit<Subscription, 'id' | 'next_run_at' | 'created_at' | 'updated_at'> {
+  const style = body.style ?? 'digest';
+  return {
+    name: body.name.trim(),
+    subreddits: parseSubreddits(body.subreddits),
+    schedule: body.schedule.trim(),
+    channel: pickChannel(body.channel),
+    style,
+    question: style === 'digest' ? undefined : body.question!.trim(),
+    timeframe: body.timeframe ?? CONFIG.REDDIT.DEFAULT_TIMEFRAME,
+    model: body.model,
+    enabled: body.enabled ?? true,
+  };
+}
+
+/**
+ * Create a subscription, scheduled from now. Returns null when MAX_SUBSCRIPTIONS is reached.
+ */
+export async function createSubscription(body: SubscriptionRequest): Promise<Subscription | null> {
+  const store = getSubscriptionStore();
+  if ((await store.list()).length >= CONFIG.SUBSCRIPTIONS.MAX_SUBSCRIPTIONS) return null;
+
+  const now = Date.now();
+  const fields = fromRequest(body);
+  const subscription: Subscription = {
+    ...fields,
+    id: randomBytes(9).toString('base64url'),
+    next_run_at: fields.enabled ? nextRunAfter(fields.schedule, now) : null,
+    created_at: now,
+    updated_at: now,
+  };
+
+  await store.save(subscription);
+  return subscription;
+}
+
+/**
+ * Apply a partial update. The result is validated as a whole; a new channel replaces
+ * the old one, secret included.
+ */
+export async function updateSubscription(
+  id: string,
+  changes: Partial<SubscriptionRequest>
+): Promise<{ subscription?: Subscription; error?: string }> {
+  const store = getSubscriptionStore();
+  const current = await store.get(id);
+  if (!current) return {};
+
+  const merged: SubscriptionRequest = {
+    name: current.name,
+    subreddits: current.subreddits,
+    schedule: current.schedule,
+    channel: current.channel,
+    style: current.style,
+    question: current.question,
+    timeframe: current.timeframe,
+    model: current.model,
+    enabled: current.enabled,
+    ...changes,
+  };
+  const validation = validateSubscriptionRequest(merged);
+  if (!validation.isValid) return { error: validation.error };
+
+  const now = Date.now();
+  const fields = fromRequest(merged);
+  const rescheduled = fields.schedule !== current.schedule || fields.enabled !== current.enabled;
+  const subscription: Subscription = {
+    ...current,
+    ...fields,
+    next_run_at: !fields.enabled ? null : rescheduled ? nextRunAfter(fields.schedule, now) : current.next_run_at,
+    updated_at: now,
+  };
+
+  await store.save(subscription);
+  return { subscription };
+}
+
+export async function deleteSubscription(id: string): Promise<boolean> {
+  const store = getSubscriptionStore();
+  if (!(await store.get(id))) return false;
+
+  await store.delete(id);
+  return true;
+}
+
+export async function listDeliveries(subscriptionId: string): Promise<Delivery[]> {
+  return (await getSubscriptionStore().listDeliveries(subscriptionId)).map(toDeliveryView);
+}
+
+/**
+ * Run a subscription now, outside its schedule. The first attempt is made before returning;
+ * if it fails and can be retried, the scheduler retries it later.
+ */
+export async function runSubscriptionNow(id: string): Promise<Delivery | null> {
+  const store = getSubscriptionStore();
+  const subscription = await store.get(id);
+  if (!subscription) return null;
+
+  const delivery = await attemptDelivery(subscription, createDelivery(subscription, 'manual'));
+  await store.saveDelivery(delivery);
+  return toDeliveryView(delivery);
+}
+
+let scheduleTimer: ReturnType<typeof setInterval> | null = null;
+let ticking = false;
+
+/**
+ * Start due subscriptions and retry due deliveries. A run that was missed while the server
+ * was down happens once, then the schedule continues from now.
+ */
+export async function runDueSubscriptions(now: number = Date.now()): Promise<void> {
+  const store = getSubscriptionStore();
+
+  for (const subscription of await store.list()) {
+    const due: DeliveryRecord[] = (await store.listDeliveries(subscription.id))
+      .filter(delivery => delivery.status === 'pending' && delivery.next_attempt_at !== null && delivery.next_attempt_at <= now);
+
+    if (subscription.enabled && subscription.next_run_at !== null && subscription.next_run_at <= now) {
+      // Move the schedule on before running, so a failing run isn't started again every tick
+      await store.save({ ...subscription, last_run_at: now, next_run_at: nextRunAfter(subscription.schedule, now) });
+      due.push(createDelivery(subscription, 'schedule'));
+    }
+
+    for (const delivery of due) {
+      await store.saveDelivery(await attemptDelivery(subscription, delivery));
+    }
+  }
+}
+
+/**
+ * Check for due runs every TICK_SECONDS, once per server process
+ */
+export function startSubscriptionSchedule(): void {
+  if (scheduleTimer) return;
+
+  scheduleTimer = setInterval(async () => {
+    if (ticking) return;
+    ticking = true;
+    try {
+      await runDueSubscriptions();
+    } catch (error) {
+      console.error('Scheduled subscription run failed:', error);
+    } finally {
+      ticking = false;
+    }
+  }, CONFIG.SUBSCRIPTIONS.TICK_SECONDS * 1000);
+  scheduleTimer.unref?.();
+}
@@ -0,0 +1,38 @@
+import type { DeliveryRecord, SubscriptionStore } from './types';
+import type { Subscription } from '@/types';
+
+// Process-local store keeping the last maxDeliveries deliveries per subscription.
+// Everything is lost on restart, so use the file store for real schedules.
+export class MemorySubscriptionStore implements SubscriptionStore {
+  private subscriptions = new Map<string, Subscription>();
+  private deliveries = new Map<string, DeliveryRecord[]>();
+
+  constructor(private readonly maxDeliveries: number) {}
+
+  async list(): Promise<Subscription[]> {
+    return Array.from(this.subscriptions.values());
+  }
+
+  async get(id: string): Promise<Subscription | null> {
+    return this.subscriptions.get(id) ?? null;
+  }
+
+  async save(subscription: Subscription): Promise<void> {
+    this.subscriptions.set(subscription.id, subscription);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.subscriptions.delete(id);
+    this.deliveries.delete(id);
+  }
+
+  async listDeliveries(subscriptionId: string): Promise<DeliveryRecord[]> {
+    return [...(this.deliveries.get(subscriptionId) || [])];
+  }
+
+  async saveDelivery(delivery: DeliveryRecord): Promise<void> {
+    const others = (this.deliveries.get(delivery.subscription_id) || []).filter(item => item.id !== delivery.id);
+    const updated = [delivery, ...others].sort((a, b) => b.created_at - a.created_at);
+    this.deliveries.set(delivery.subscription_id, updated.slice(0, this.maxDeliveries));
+  }
+}
@@ -0,0 +1,126 @@
+import { CONFIG } from '@/lib/constants';
+
+// Parsed five-field cron expression; all times are UTC
+interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>; // 0 = Sunday
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+const FIELD_RANGES: [number, number][] = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+
+const PRESETS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+// Give up looking for the next run after this long, e.g. for "0 0 30 2 *"
+const SEARCH_LIMIT_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+/**
+ * Values of one field: "*", "5", "1-5", "*\/15", "0-30/10" or a comma-separated list of those
+ */
+function parseField(field: string, [min, max]: [number, number]): Set<number> | null {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) return null;
+
+    const start = match[1] === '*' ? min : Number(match[2]);
+    const end = match[1] === '*' ? max : match[3] !== undefined ? Number(match[3]) : match[4] ? max : start;
+    const step = match[4] ? Number(match[4]) : 1;
+    if (start < min || end > max || start > end || step < 1) return null;
+
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return values;
+}
+
+function parseCron(expression: string): CronSchedule | null {
+  const fields = (PRESETS[expression.trim()] || expression).trim().split(/\s+/);
+  if (fields.length !== 5) return null;
+
+  const parsed = fields.map((field, index) => parseField(field, FIELD_RANGES[index]));
+  if (parsed.some(values => values === null)) return null;
+
+  const [minutes, hours, days, months, weekdays] = parsed as Set<number>[];
+  if (weekdays.has(7)) weekdays.add(0);
+
+  return { minutes, hours, days, months, weekdays, anyDay: fields[2] === '*', anyWeekday: fields[4] === '*' };
+}
+
+// As in cron, a day matches either field when both day of month and weekday are restricted
+function dayMatches(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.days.has(date.getUTCDate());
+  const weekday = schedule.weekdays.has(date.getUTCDay());
+  if (schedule.anyDay) return weekday;
+  if (schedule.anyWeekday) return dayOfMonth;
+  return dayOfMonth || weekday;
+}
+
+function nextMatch(schedule: CronSchedule, after: number): number | null {
+  const date = new Date(after);
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+  const limit = after + SEARCH_LIMIT_MS;
+
+  // Skip whole months, days and hours that can't match instead of testing every minute
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!dayMatches(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return date.getTime();
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a cron expression and that its runs are at least MIN_INTERVAL_MINUTES apart
+ */
+export function validateSchedule(expression: string): { isValid: boolean; error?: string } {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : null;
+  if (!schedule) {
+    return { isValid: false, error: 'Schedule must be a cron expression such as "0 7 * * 1-5" (UTC)' };
+  }
+
+  // Gaps between the next few runs; a week of them covers daily and weekly patterns
+  const minGap = CONFIG.SUBSCRIPTIONS.MIN_INTERVAL_MINUTES * 60 * 1000;
+  let previous = nextMatch(schedule, Date.now());
+  if (previous === null) {
+    return { isValid: false, error: 'Schedule never runs' };
+  }
+  for (let i = 0; i < 8; i++) {
+    const next = nextMatch(schedule, previous);
+    if (next === null) break;
+    if (next - previous < minGap) {
+      return { isValid: false, error: `Schedules may run at most once every ${CONFIG.SUBSCRIPTIONS.MIN_INTERVAL_MINUTES} minutes` };
+    }
+    previous = next;
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Epoch ms of the first run strictly after `after`, or null if the expression is invalid or never matches
+ */
+export function nextRunAfter(expression: string, after: number = Date.now()): number | null {
+  const schedule = parseCron(expression);
+  return schedule ? nextMatch(schedule, after) : null;
+}
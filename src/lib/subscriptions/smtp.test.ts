@@ -0,0 +1,219 @@
+import net from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { attemptDelivery, createDelivery } from './deliver';
+import { DeliveryError } from './errors';
+import { sendMail, type SmtpConfig } from './smtp';
+import type { Subscription } from '@/types';
+
+// What the test server received in one session
+interface SmtpTranscript {
+  commands: string[];
+  data: string;
+}
+
+/**
+ * A minimal in-process SMTP server. `replies` overrides the reply to a command by its verb,
+ * e.g. { RCPT: '450 4.2.1 Mailbox busy' }.
+ */
+function startSmtpServer(replies: Record<string, string> = {}): Promise<{ port: number; sessions: SmtpTranscript[]; close(): Promise<void> }> {
+  const sessions: SmtpTranscript[] = [];
+  const server = net.createServer(socket => {
+    const transcript: SmtpTranscript = { commands: [], data: '' };
+    sessions.push(transcript);
+    let buffer = '';
+    let inData = false;
+
+    socket.write('220 test.local ESMTP\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) return;
+        transcript.data = buffer.slice(0, end);
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write(`${replies.MESSAGE ?? '250 2.0.0 Queued'}\r\n`);
+      }
+
+      let newline: number;
+      while (!inData && (newline = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        transcript.commands.push(line);
+        const verb = line.split(/[ :]/)[0].toUpperCase();
+
+        if (replies[verb]) {
+          socket.write(`${replies[verb]}\r\n`);
+        } else if (verb === 'EHLO') {
+          socket.write('250-test.local\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n');
+        } else if (verb === 'AUTH') {
+          socket.write('235 2.7.0 Authenticated\r\n');
+        } else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 2.0.0 Bye\r\n');
+        } else {
+          socket.write('250 2.1.0 OK\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => resolve({
+      port: (server.address() as net.AddressInfo).port,
+      sessions,
+      close: () => new Promise(done => server.close(() => done())),
+    }));
+  });
+}
+
+const config = (port: number): SmtpConfig => ({
+  host: '127.0.0.1',
+  port,
+  secure: false,
+  user: 'briefings',
+  password: 'hunter2',
+  from: 'briefings@example.com',
+});
+
+const message = { to: ['reader@example.com'], subject: 'Rust — 2025-01-31', text: 'Weekly digest\n.\nThe end' };
+
+async function deliveryError(promise: Promise<unknown>): Promise<DeliveryError> {
+  const error = await promise.then(() => null, (reason: unknown) => reason);
+  expect(error).toBeInstanceOf(DeliveryError);
+  return error as DeliveryError;
+}
+
+describe('sendMail', () => {
+  let server: Awaited<ReturnType<typeof startSmtpServer>>;
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  describe('with a server that accepts the message', () => {
+    beforeEach(async () => {
+      server = await startSmtpServer();
+    });
+
+    it('authenticates, sends the envelope and delivers a base64 body', async () => {
+      expect(await sendMail(config(server.port), message)).toEqual({ code: 250 });
+
+      const [session] = server.sessions;
+      const credentials = Buffer.from('\0briefings\0hunter2').toString('base64');
+      expect(session.commands).toEqual([
+        'EHLO example.com',
+        `AUTH PLAIN ${credentials}`,
+        'MAIL FROM:<briefings@example.com>',
+        'RCPT TO:<reader@example.com>',
+        'DATA',
+        'QUIT',
+      ]);
+
+      const [headers, body] = session.data.split('\r\n\r\n');
+      expect(headers).toContain('To: reader@example.com');
+      expect(headers).toContain(`Subject: =?UTF-8?B?${Buffer.from(message.subject).toString('base64')}?=`);
+      expect(Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8')).toBe(message.text);
+    });
+  });
+
+  it('reports a 4xx reply as worth retrying', async () => {
+    server = await startSmtpServer({ RCPT: '450 4.2.1 Mailbox busy' });
+
+    const error = await deliveryError(sendMail(config(server.port), message));
+
+    expect(error.retryable).toBe(true);
+    expect(error.code).toBe(450);
+    expect(error.message).toContain('SMTP RCPT failed: 450');
+  });
+
+  it('reports a 5xx reply as a permanent failure', async () => {
+    server = await startSmtpServer({ RCPT: '550 5.1.1 No such user' });
+
+    const error = await deliveryError(sendMail(config(server.port), message));
+
+    expect(error.retryable).toBe(false);
+    expect(error.code).toBe(550);
+  });
+
+  it('reports a rejected message the same way as a rejected command', async () => {
+    server = await startSmtpServer({ MESSAGE: '554 5.6.0 Message rejected' });
+
+    const error = await deliveryError(sendMail(config(server.port), message));
+
+    expect(error.retryable).toBe(false);
+    expect(error.message).toContain('SMTP message failed: 554');
+  });
+
+  it('reports a refused connection as worth retrying', async () => {
+    server = await startSmtpServer();
+    const { port } = server;
+    await server.close();
+    server = { ...server, close: async () => undefined };
+
+    const error = await deliveryError(sendMail(config(port), message));
+
+    expect(error.retryable).toBe(true);
+  });
+});
+
+describe('email deliveries', () => {
+  const subscription: Subscription = {
+    id: 'sub1',
+    name: 'Rust weekly',
+    subreddits: ['rust'],
+    schedule: '0 8 * * 1',
+    channel: { type: 'email', to: ['reader@example.com'] },
+    style: 'digest',
+    timeframe: 'week',
+    enabled: true,
+    next_run_at: null,
+    created_at: 0,
+    updated_at: 0,
+  };
+  // Already generated, so the attempt only sends it
+  const content = { subject: 'Rust weekly — 2025-01-31', text: 'Weekly digest', payload: {} };
+  let server: Awaited<ReturnType<typeof startSmtpServer>>;
+
+  const attempt = async (replies: Record<string, string>) => {
+    server = await startSmtpServer(replies);
+    vi.stubEnv('SMTP_HOST', '127.0.0.1');
+    vi.stubEnv('SMTP_PORT', String(server.port));
+    vi.stubEnv('SMTP_FROM', 'briefings@example.com');
+    return attemptDelivery(subscription, { ...createDelivery(subscription, 'manual'), content });
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await server.close();
+  });
+
+  it('is delivered once the server queues the message', async () => {
+    const delivery = await attempt({});
+
+    expect(delivery.status).toBe('delivered');
+    expect(delivery.attempts[0]).toMatchObject({ ok: true, response_code: 250 });
+  });
+
+  it('is retried later after a 4xx reply', async () => {
+    const delivery = await attempt({ MAIL: '421 4.3.2 Try again later' });
+
+    expect(delivery.status).toBe('pending');
+    expect(delivery.next_attempt_at).toBeGreaterThan(Date.now());
+    expect(delivery.attempts[0]).toMatchObject({ ok: false, response_code: 421 });
+  });
+
+  it('fails for good after a 5xx reply', async () => {
+    const delivery = await attempt({ RCPT: '550 5.1.1 No such user' });
+
+    expect(delivery.status).toBe('failed');
+    expect(delivery.next_attempt_at).toBeNull();
+    expect(delivery.attempts[0]).toMatchObject({ ok: false, response_code: 550 });
+  });
+});
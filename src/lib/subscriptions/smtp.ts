@@ -0,0 +1,216 @@
+import { randomBytes } from 'crypto';
+import net from 'net';
+import tls from 'tls';
+import { CONFIG } from '@/lib/constants';
+import { DeliveryError } from './errors';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (usually port 465); otherwise STARTTLS when offered
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * SMTP settings from SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD and SMTP_FROM,
+ * or null when no host is set
+ */
+export function getSmtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST;
+  if (!host) return null;
+
+  const secure = process.env.SMTP_SECURE === 'true';
+  return {
+    host,
+    port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+    from: process.env.SMTP_FROM || `ask-reddit-ai@${host}`,
+  };
+}
+
+// A line-oriented SMTP session over a plain or TLS socket
+class SmtpSession {
+  private buffer = '';
+  private replies: SmtpReply[] = [];
+  private pending: SmtpReply['lines'] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setTimeout(CONFIG.SUBSCRIPTIONS.SMTP_TIMEOUT_MS, () => {
+      this.fail(new DeliveryError('SMTP server timed out', true));
+      socket.destroy();
+    });
+    socket.on('data', (chunk: Buffer) => this.receive(chunk.toString('utf8')));
+    socket.on('error', error => this.fail(new DeliveryError(`SMTP connection failed: ${error.message}`, true)));
+    socket.on('close', () => this.fail(new DeliveryError('SMTP server closed the connection', true)));
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(newline + 1);
+
+      // "250-..." continues a multi-line reply; "250 ..." ends it
+      this.pending.push(line.slice(4));
+      if (line.charAt(3) !== '-') {
+        this.replies.push({ code: parseInt(line.slice(0, 3), 10), lines: this.pending });
+        this.pending = [];
+      }
+    }
+    this.flush();
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    this.flush();
+  }
+
+  private flush(): void {
+    if (!this.waiting) return;
+    const reply = this.replies.shift();
+    if (reply) {
+      this.waiting.resolve(reply);
+      this.waiting = null;
+    } else if (this.failure) {
+      this.waiting.reject(this.failure);
+      this.waiting = null;
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.flush();
+    });
+  }
+
+  /**
+   * Send a command and expect a reply code. 4xx replies are worth retrying, 5xx are not.
+   */
+  async command(line: string | null, expected: number[], label = line?.split(' ')[0] ?? 'greeting'): Promise<SmtpReply> {
+    if (line !== null) this.socket.write(`${line}\r\n`);
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new DeliveryError(`SMTP ${label} failed: ${reply.code} ${reply.lines.join(' ')}`, reply.code < 500, reply.code);
+    }
+    return reply;
+  }
+
+  // Swap the socket for a TLS one after STARTTLS
+  async upgrade(host: string): Promise<void> {
+    this.socket.removeAllListeners();
+    const secureSocket = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secureSocket.once('secureConnect', resolve);
+      secureSocket.once('error', error => reject(new DeliveryError(`SMTP TLS upgrade failed: ${error.message}`, true)));
+    });
+    this.socket = secureSocket;
+    this.attach(secureSocket);
+  }
+
+  close(): void {
+    this.socket.end();
+    this.socket.destroy();
+  }
+}
+
+// RFC 2047 encoded-word for non-ASCII header values
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+/**
+ * The message with headers, a base64 text body and dot-stuffing for the DATA command
+ */
+function buildMessage(config: SmtpConfig, message: MailMessage): string {
+  const domain = config.from.split('@')[1] || config.host;
+  const body = Buffer.from(message.text, 'utf8').toString('base64').replace(/.{1,76}/g, '$&\r\n');
+  const headers = [
+    `From: ${config.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomBytes(12).toString('hex')}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+  ];
+  return `${headers.join('\r\n')}\r\n\r\n${body}`.replace(/^\./gm, '..');
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const onError = (error: Error) => {
+      socket.destroy();
+      reject(new DeliveryError(`SMTP connection failed: ${error.message}`, true));
+    };
+    // The session installs its own handlers once connected
+    const onConnect = () => {
+      socket.removeListener('error', onError);
+      socket.setTimeout(0);
+      resolve(socket);
+    };
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, onConnect)
+      : net.connect({ host: config.host, port: config.port }, onConnect);
+    socket.once('error', onError);
+    socket.setTimeout(CONFIG.SUBSCRIPTIONS.SMTP_TIMEOUT_MS, () => onError(new Error('timed out')));
+  });
+}
+
+/**
+ * Send a plain text email. Throws a DeliveryError saying whether a retry could succeed.
+ * Uses STARTTLS when the server offers it and AUTH PLAIN when a user is configured.
+ */
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<{ code: number }> {
+  const session = new SmtpSession(await connect(config));
+  const hostname = config.from.split('@')[1] || 'localhost';
+
+  try {
+    await session.command(null, [220]);
+    const hello = await session.command(`EHLO ${hostname}`, [250]);
+
+    if (!config.secure && hello.lines.some(line => /^STARTTLS\b/i.test(line))) {
+      await session.command('STARTTLS', [220]);
+      await session.upgrade(config.host);
+      await session.command(`EHLO ${hostname}`, [250]);
+    }
+
+    if (config.user) {
+      const credentials = Buffer.from(`\0${config.user}\0${config.password || ''}`, 'utf8').toString('base64');
+      await session.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await session.command(`MAIL FROM:<${config.from}>`, [250]);
+    for (const recipient of message.to) {
+      await session.command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await session.command('DATA', [354]);
+    const accepted = await session.command(`${buildMessage(config, message)}\r\n.`, [250], 'message');
+    await session.command('QUIT', [221]).catch(() => undefined);
+    return { code: accepted.code };
+  } finally {
+    session.close();
+  }
+}
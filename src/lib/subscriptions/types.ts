@@ -0,0 +1,23 @@
+import type { Delivery, Subscription } from '@/types';
+
+// What a run delivers, generated once so retries resend the same briefing
+export interface BriefingContent {
+  subject: string;
+  text: string; // Markdown, used as the email body
+  payload: Record<string, unknown>; // Webhook body
+}
+
+// A delivery as stored, with the briefing it sends
+export interface DeliveryRecord extends Delivery {
+  content?: BriefingContent;
+}
+
+// Storage backend for subscriptions and their delivery history
+export interface SubscriptionStore {
+  list(): Promise<Subscription[]>;
+  get(id: string): Promise<Subscription | null>;
+  save(subscription: Subscription): Promise<void>;
+  delete(id: string): Promise<void>; // Also drops its deliveries
+  listDeliveries(subscriptionId: string): Promise<DeliveryRecord[]>; // Newest first
+  saveDelivery(delivery: DeliveryRecord): Promise<void>;
+}
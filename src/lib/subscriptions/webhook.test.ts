@@ -0,0 +1,163 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { attemptDelivery, createDelivery } from './deliver';
+import { DeliveryError } from './errors';
+import { postWebhook, signWebhookBody } from './webhook';
+import type { Subscription } from '@/types';
+
+interface ReceivedRequest {
+  method?: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+// An in-process receiver that answers every request with `status`
+function startReceiver(status: number, headers: Record<string, string> = {}): Promise<{ url: string; received: ReceivedRequest[]; close(): Promise<void> }> {
+  const received: ReceivedRequest[] = [];
+  const server = http.createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => { body += chunk; });
+    request.on('end', () => {
+      received.push({ method: request.method, headers: request.headers, body });
+      response.writeHead(status, headers).end();
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => resolve({
+      url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks/briefing`,
+      received,
+      close: () => new Promise(done => server.close(() => done())),
+    }));
+  });
+}
+
+const payload = { event: 'subscription.briefing', subject: 'Rust — 2025-01-31' };
+
+async function deliveryError(promise: Promise<unknown>): Promise<DeliveryError> {
+  const error = await promise.then(() => null, (reason: unknown) => reason);
+  expect(error).toBeInstanceOf(DeliveryError);
+  return error as DeliveryError;
+}
+
+describe('postWebhook', () => {
+  let receiver: Awaited<ReturnType<typeof startReceiver>>;
+
+  afterEach(async () => {
+    await receiver.close();
+  });
+
+  it('posts the JSON payload with a signature the receiver can verify', async () => {
+    receiver = await startReceiver(204);
+
+    expect(await postWebhook(receiver.url, payload, { secret: 'shh', deliveryId: 'd1' })).toEqual({ code: 204 });
+
+    const [request] = receiver.received;
+    expect(request.method).toBe('POST');
+    expect(JSON.parse(request.body)).toEqual(payload);
+    expect(request.headers['content-type']).toBe('application/json');
+    expect(request.headers['x-delivery-id']).toBe('d1');
+    expect(request.headers['x-signature-256']).toBe(signWebhookBody(request.body, 'shh'));
+  });
+
+  it('leaves the signature out without a secret', async () => {
+    receiver = await startReceiver(200);
+
+    await postWebhook(receiver.url, payload, { deliveryId: 'd1' });
+
+    expect(receiver.received[0].headers['x-signature-256']).toBeUndefined();
+  });
+
+  it.each([500, 503, 429, 408])('reports a %i response as worth retrying', async status => {
+    receiver = await startReceiver(status);
+
+    const error = await deliveryError(postWebhook(receiver.url, payload, { deliveryId: 'd1' }));
+
+    expect(error.retryable).toBe(true);
+    expect(error.code).toBe(status);
+  });
+
+  it.each([400, 404, 410])('reports a %i response as a permanent failure', async status => {
+    receiver = await startReceiver(status);
+
+    const error = await deliveryError(postWebhook(receiver.url, payload, { deliveryId: 'd1' }));
+
+    expect(error.retryable).toBe(false);
+    expect(error.code).toBe(status);
+  });
+
+  it('does not follow redirects', async () => {
+    receiver = await startReceiver(302, { Location: 'http://127.0.0.1:9/elsewhere' });
+
+    const error = await deliveryError(postWebhook(receiver.url, payload, { deliveryId: 'd1' }));
+
+    expect(error.retryable).toBe(false);
+    expect(receiver.received).toHaveLength(1);
+  });
+
+  it('reports an unreachable receiver as worth retrying', async () => {
+    receiver = await startReceiver(200);
+    const { url } = receiver;
+    await receiver.close();
+    receiver = { ...receiver, close: async () => undefined };
+
+    const error = await deliveryError(postWebhook(url, payload, { deliveryId: 'd1' }));
+
+    expect(error.retryable).toBe(true);
+  });
+});
+
+describe('webhook deliveries', () => {
+  // Already generated, so the attempt only sends it
+  const content = { subject: 'Rust weekly — 2025-01-31', text: 'Weekly digest', payload: { text: 'Weekly digest' } };
+  let receiver: Awaited<ReturnType<typeof startReceiver>>;
+
+  const attempt = async (status: number) => {
+    receiver = await startReceiver(status);
+    const subscription: Subscription = {
+      id: 'sub1',
+      name: 'Rust weekly',
+      subreddits: ['rust'],
+      schedule: '0 8 * * 1',
+      channel: { type: 'webhook', url: receiver.url, secret: 'shh' },
+      style: 'digest',
+      timeframe: 'week',
+      enabled: true,
+      next_run_at: null,
+      created_at: 0,
+      updated_at: 0,
+    };
+    return attemptDelivery(subscription, { ...createDelivery(subscription, 'manual'), content });
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await receiver.close();
+  });
+
+  it('is delivered on a 2xx response, with the delivery ID in the body', async () => {
+    const delivery = await attempt(200);
+
+    expect(delivery.status).toBe('delivered');
+    expect(JSON.parse(receiver.received[0].body)).toMatchObject({ delivery_id: delivery.id, text: 'Weekly digest' });
+  });
+
+  it('is retried later after a 5xx response', async () => {
+    const delivery = await attempt(502);
+
+    expect(delivery.status).toBe('pending');
+    expect(delivery.next_attempt_at).toBeGreaterThan(Date.now());
+    expect(delivery.attempts[0]).toMatchObject({ ok: false, response_code: 502 });
+  });
+
+  it('fails for good after a 4xx response other than 408 and 429', async () => {
+    const delivery = await attempt(404);
+
+    expect(delivery.status).toBe('failed');
+    expect(delivery.next_attempt_at).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+import { createHmac } from 'crypto';
+import { CONFIG } from '@/lib/constants';
+import { DeliveryError } from './errors';
+
+/**
+ * Signature of a webhook body, sent as "X-Signature-256: sha256=<hex>" when the
+ * subscription has a secret. Receivers recompute it over the raw body to verify.
+ */
+export function signWebhookBody(body: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+/**
+ * POST a JSON payload. Network errors, timeouts, 408, 429 and 5xx responses are worth
+ * retrying; other non-2xx responses are not.
+ */
+export async function postWebhook(
+  url: string,
+  payload: Record<string, unknown>,
+  options: { secret?: string; deliveryId: string }
+): Promise<{ code: number }> {
+  const body = JSON.stringify(payload);
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'ask-reddit-ai/1.0',
+    'X-Delivery-Id': options.deliveryId,
+  };
+  if (options.secret) {
+    headers['X-Signature-256'] = signWebhookBody(body, options.secret);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(CONFIG.SUBSCRIPTIONS.WEBHOOK_TIMEOUT_MS),
+      redirect: 'manual',
+    });
+  } catch (error) {
+    const reason = error instanceof Error && error.name === 'TimeoutError' ? 'timed out' : (error as Error)?.message;
+    throw new DeliveryError(`Webhook request failed: ${reason}`, true);
+  }
+
+  if (!response.ok) {
+    const retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+    throw new DeliveryError(`Webhook responded with ${response.status}`, retryable, response.status);
+  }
+  return { code: response.status };
+}
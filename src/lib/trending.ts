@@ -0,0 +1,214 @@
+import { CONFIG, POPULAR_SUBREDDITS, TRENDING_QUESTIONS } from './constants';
+import { cleanRedditText, extractKeywords, toRedditUrl, validateQuestion } from './utils';
+import { extractJson } from './structured-answer';
+import { getCacheStore, getOrLoad } from './cache';
+import { getRedditClient } from './reddit';
+import { getDefaultModel, getLLMProvider, jsonSchemaOption } from './llm';
+import type { RedditPost, TrendingQuestion, TrendingResponse } from '@/types';
+
+type TrendingData = NonNullable<TrendingResponse['data']>;
+
+const CACHE_KEY = 'trending:questions';
+
+const QUESTION_STARTERS = /^(what|how|why|when|where|who|which|should|is|are|do|does|did|can|could|would|will|has|have|any|anyone)\b/i;
+
+const REPHRASE_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['questions'],
+  properties: {
+    questions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['id', 'question'],
+        properties: { id: { type: 'string' }, question: { type: 'string' } },
+      },
+    },
+  },
+} as const;
+
+/**
+ * Subreddits trending questions are drawn from: TRENDING_SUBREDDITS (comma-separated)
+ * or the suggested subreddits
+ */
+export function getTrackedSubreddits(): string[] {
+  const configured = (process.env.TRENDING_SUBREDDITS || '').split(',').map(name => name.trim()).filter(Boolean);
+  return configured.length ? configured : POPULAR_SUBREDDITS.map(subreddit => subreddit.name);
+}
+
+/**
+ * Minutes between scheduled refreshes, 0 when the schedule is off
+ */
+export function getRefreshMinutes(): number {
+  const configured = process.env.TRENDING_REFRESH_MINUTES ? Number(process.env.TRENDING_REFRESH_MINUTES) : NaN;
+  return Number.isFinite(configured) ? Math.max(0, configured) : CONFIG.TRENDING.REFRESH_MINUTES;
+}
+
+// Titles without Reddit conventions such as "[Serious]" or "(OC)"
+const cleanTitle = (title: string) => cleanRedditText(title).replace(/^\s*[[(][^\])]{1,20}[\])]\s*/, '').trim();
+
+const isQuestionTitle = (title: string) => title.endsWith('?') || QUESTION_STARTERS.test(title);
+
+const engagementOf = (post: RedditPost) => post.score + post.num_comments * CONFIG.TRENDING.COMMENT_WEIGHT;
+
+/**
+ * Most frequent keywords in the post, counting title words twice
+ */
+function extractTags(post: RedditPost): string[] {
+  const counts = new Map<string, number>();
+  const subreddit = post.subreddit.toLowerCase();
+  const add = (words: string[], weight: number) => words.forEach(word => {
+    if (word !== subreddit && !/^\d/.test(word)) counts.set(word, (counts.get(word) || 0) + weight);
+  });
+  add(extractKeywords(cleanTitle(post.title)), 2);
+  add(extractKeywords(post.selftext.slice(0, 2000)), 1);
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, CONFIG.TRENDING.TAGS)
+    .map(([word]) => word);
+}
+
+/**
+ * The hot and top-of-the-day posts of each subreddit, most engaged first.
+ * Subreddits that fail are skipped; if every one fails, the first error is thrown.
+ */
+async function fetchCandidates(subreddits: string[]): Promise<RedditPost[]> {
+  const client = getRedditClient();
+  const limit = CONFIG.TRENDING.POSTS_PER_LISTING;
+  const results = await Promise.allSettled(subreddits.map(async subreddit => {
+    const [hot, top] = await Promise.all([
+      client.getListing(subreddit, { sort: 'hot', limit }),
+      client.getListing(subreddit, { sort: 'top', t: 'day', limit }),
+    ]);
+
+    const seen = new Set<string>();
+    return [...hot, ...top]
+      .filter(post => !seen.has(post.id) && seen.add(post.id))
+      .filter(post => validateQuestion(cleanTitle(post.title)).isValid)
+      .sort((a, b) => engagementOf(b) - engagementOf(a))
+      .slice(0, CONFIG.TRENDING.MAX_PER_SUBREDDIT);
+  }));
+
+  if (results.every(result => result.status === 'rejected')) {
+    throw (results[0] as PromiseRejectedResult).reason;
+  }
+
+  return results
+    .flatMap(result => result.status === 'fulfilled' ? result.value : [])
+    .sort((a, b) => engagementOf(b) - engagementOf(a))
+    .slice(0, CONFIG.TRENDING.MAX_QUESTIONS);
+}
+
+/**
+ * Reword titles that aren't questions with the default model, one request for all of them.
+ * Without a model, or if it fails, a plain template is used instead.
+ */
+async function rephraseTitles(posts: RedditPost[]): Promise<Map<string, string>> {
+  const template = (post: RedditPost) => `What does r/${post.subreddit} think about "${cleanTitle(post.title)}"?`;
+  const rephrased = new Map(posts.map(post => [post.id, template(post)]));
+  const model = getDefaultModel();
+  if (!posts.length || !model) return rephrased;
+
+  try {
+    const completion = await getLLMProvider(model.provider).complete({
+      model: model.providerModel,
+      messages: [
+        {
+          role: 'system',
+          content: `Rewrite each Reddit post title as one short, neutral question someone could ask that community, under 120 characters. Keep the topic; don't invent facts.
+
+Respond with a single JSON object and nothing else, matching this schema:
+${JSON.stringify(REPHRASE_SCHEMA)}`,
+        },
+        {
+          role: 'user',
+          content: posts.map(post => `[${post.id}] r/${post.subreddit}: ${cleanTitle(post.title)}`).join('\n'),
+        },
+      ],
+      maxTokens: 1000,
+      temperature: 0.3,
+      ...jsonSchemaOption(model, { name: 'trending_questions', schema: REPHRASE_SCHEMA }),
+    });
+
+    const parsed = extractJson(completion.content) as { questions?: { id?: unknown; question?: unknown }[] };
+    for (const item of Array.isArray(parsed?.questions) ? parsed.questions : []) {
+      const question = typeof item?.question === 'string' ? item.question.trim() : '';
+      if (typeof item?.id === 'string' && rephrased.has(item.id) && question.endsWith('?') && validateQuestion(question).isValid) {
+        rephrased.set(item.id, question);
+      }
+    }
+  } catch (error) {
+    console.error('Failed to rephrase trending titles:', error);
+  }
+  return rephrased;
+}
+
+/**
+ * Build trending questions from what the tracked subreddits are discussing right now.
+ * Popularity is each post's engagement on a log scale against the most engaged one.
+ */
+export async function buildTrendingQuestions(subreddits: string[] = getTrackedSubreddits()): Promise<TrendingQuestion[]> {
+  const posts = await fetchCandidates(subreddits);
+  const rephrased = await rephraseTitles(posts.filter(post => !isQuestionTitle(cleanTitle(post.title))));
+  const maxEngagement = Math.max(1, ...posts.map(engagementOf));
+
+  return posts.map(post => {
+    const title = cleanTitle(post.title);
+    return {
+      id: post.id,
+      question: rephrased.get(post.id) ?? title,
+      subreddit: post.subreddit,
+      popularity: Math.max(1, Math.round(100 * Math.log1p(Math.max(0, engagementOf(post))) / Math.log1p(maxEngagement))),
+      tags: extractTags(post),
+      post_url: toRedditUrl(post.permalink),
+      score: post.score,
+      num_comments: post.num_comments,
+      rephrased: rephrased.has(post.id),
+    };
+  });
+}
+
+/**
+ * Rebuild the trending questions and store them, for the scheduled refresh
+ */
+export async function refreshTrendingQuestions(): Promise<TrendingQuestion[]> {
+  const questions = await buildTrendingQuestions();
+  await getCacheStore().set(CACHE_KEY, { value: questions, storedAt: Date.now() });
+  console.log(`📈 Refreshed ${questions.length} trending questions`);
+  return questions;
+}
+
+/**
+ * Cached trending questions, built on demand when the schedule hasn't run yet.
+ * Falls back to the built-in list when nothing can be fetched.
+ */
+export async function getTrendingQuestions(): Promise<TrendingData> {
+  const ttlMs = Math.max(getRefreshMinutes(), 1) * 60 * 1000;
+  try {
+    const result = await getOrLoad(CACHE_KEY, buildTrendingQuestions, { ttlMs, staleMs: ttlMs * 2 });
+    if (result.value.length) {
+      return { questions: result.value, generated_at: result.storedAt, source: 'live' };
+    }
+  } catch (error) {
+    console.error('Failed to build trending questions:', error);
+  }
+  return { questions: TRENDING_QUESTIONS, generated_at: null, source: 'fallback' };
+}
+
+let refreshTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Refresh trending questions now and then every REFRESH_MINUTES, once per server process
+ */
+export function startTrendingSchedule(): void {
+  const minutes = getRefreshMinutes();
+  if (refreshTimer || !minutes) return;
+
+  const refresh = () => refreshTrendingQuestions().catch(error => console.error('Scheduled trending refresh failed:', error));
+  refresh();
+  refreshTimer = setInterval(refresh, minutes * 60 * 1000);
+  refreshTimer.unref?.();
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { TIMEFRAMES } from './constants';
+import {
+  extractCitations,
+  isOwnKey,
+  parseSubreddits,
+  readJsonObject,
+  stripCitations,
+  validateQuestion,
+  validateSubreddit,
+} from './utils';
+
+const jsonRequest = (body: string) => new Request('http://localhost/api/ask-question', { method: 'POST', body });
+
+describe('isOwnKey', () => {
+  it('accepts the table\'s own keys only', () => {
+    expect(isOwnKey(TIMEFRAMES, 'week')).toBe(true);
+    expect(isOwnKey(TIMEFRAMES, 'constructor')).toBe(false);
+    expect(isOwnKey(TIMEFRAMES, 'toString')).toBe(false);
+    expect(isOwnKey(TIMEFRAMES, 7)).toBe(false);
+    expect(isOwnKey(TIMEFRAMES, null)).toBe(false);
+  });
+});
+
+describe('parseSubreddits', () => {
+  it('splits, strips prefixes and drops duplicates', () => {
+    expect(parseSubreddits('r/AskReddit+askreddit+ /r/python ')).toEqual(['AskReddit', 'python']);
+    expect(parseSubreddits(['a', 'b+c'])).toEqual(['a', 'b', 'c']);
+  });
+
+  it('names no subreddits for anything but strings', () => {
+    expect(parseSubreddits(42)).toEqual([]);
+    expect(parseSubreddits({ name: 'python' })).toEqual([]);
+    expect(parseSubreddits(['python', 7])).toEqual([]);
+  });
+});
+
+describe('request validation', () => {
+  it('rejects non-string questions and subreddits', () => {
+    expect(validateQuestion(['What is Rust?']).isValid).toBe(false);
+    expect(validateSubreddit({}).isValid).toBe(false);
+  });
+
+  it('reads only JSON objects as request bodies', async () => {
+    expect(await readJsonObject(jsonRequest('{"subreddit":"python"}'))).toEqual({ subreddit: 'python' });
+    expect(await readJsonObject(jsonRequest('null'))).toBeNull();
+    expect(await readJsonObject(jsonRequest('[1]'))).toBeNull();
+    expect(await readJsonObject(jsonRequest('{'))).toBeNull();
+  });
+});
+
+describe('citations', () => {
+  const answer = 'Index funds win [1]. Fees matter most [2, 4][1]. See [note] or [ 3].';
+
+  it('collects each cited reference number once, in order', () => {
+    expect(extractCitations(answer)).toEqual([1, 2, 4]);
+    // Again, since the shared pattern is global and must not carry state between calls
+    expect(extractCitations(answer)).toEqual([1, 2, 4]);
+  });
+
+  it('strips markers and the space before them, leaving other brackets', () => {
+    expect(stripCitations(answer)).toBe('Index funds win. Fees matter most. See [note] or [ 3].');
+  });
+});
@@ -1,7 +1,11 @@
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
-import { VALIDATION, ERROR_MESSAGES, CONFIG } from './constants';
-import type { AppError, RedditPost, RedditComment } from '@/types';
+import { VALIDATION, ERROR_MESSAGES, STOP_WORDS } from './constants';
+import type {
+  AppError,
+  AnswerSource,
+  RateLimitStatus,
+} from '@/types';
 
 /**
  * Utility function to merge Tailwind CSS classes
@@ -10,11 +14,27 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+/**
+ * Whether `key` is one of the object's own keys. Unlike `in`, inherited names such as
+ * "constructor" don't count, so this is safe for checking request values against a lookup table.
+ */
+export function isOwnKey<T extends object>(object: T, key: unknown): key is keyof T {
+  return typeof key === 'string' && Object.hasOwn(object, key);
+}
+
+/**
+ * A request's JSON body, or null when it isn't valid JSON or isn't an object
+ */
+export async function readJsonObject<T extends object>(request: Request): Promise<T | null> {
+  const body: unknown = await request.json().catch(() => null);
+  return body && typeof body === 'object' && !Array.isArray(body) ? body as T : null;
+}
+
 /**
  * Validate subreddit name
  */
-export function validateSubreddit(subreddit: string): { isValid: boolean; error?: string } {
-  if (!subreddit) {
+export function validateSubreddit(subreddit: unknown): { isValid: boolean; error?: string } {
+  if (!subreddit || typeof subreddit !== 'string') {
     return { isValid: false, error: 'Subreddit name is required' };
   }
 
@@ -33,11 +53,34 @@ export function validateSubreddit(subreddit: string): { isValid: boolean; error?
   return { isValid: true };
 }
 
+/**
+ * Normalize one or more subreddit names: accepts a list or Reddit's "a+b+c" syntax,
+ * strips "r/" prefixes and drops case-insensitive duplicates
+ */
+export function parseSubreddits(input: unknown): string[] {
+  const entries: unknown[] = Array.isArray(input) ? input : [input];
+  // Anything but strings names no subreddits, which callers reject as missing
+  if (!entries.every(entry => typeof entry === 'string')) return [];
+
+  const names = (entries as string[])
+    .flatMap(entry => entry.split('+'))
+    .map(name => name.trim().replace(/^\/?r\//i, ''))
+    .filter(Boolean);
+
+  const seen = new Set<string>();
+  return names.filter(name => {
+    const key = name.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
 /**
  * Validate question
  */
-export function validateQuestion(question: string): { isValid: boolean; error?: string } {
-  if (!question || question.trim().length === 0) {
+export function validateQuestion(question: unknown): { isValid: boolean; error?: string } {
+  if (typeof question !== 'string' || question.trim().length === 0) {
     return { isValid: false, error: 'Question is required' };
   }
 
@@ -118,31 +161,70 @@ export function cleanRedditText(text: string): string {
 }
 
 /**
- * Extract meaningful content from Reddit posts and comments
+ * Build an absolute Reddit URL from a permalink
  */
-export function extractRedditContent(posts: RedditPost[], comments: RedditComment[]): string {
-  const postContent = posts
-    .filter(post => post.selftext && post.selftext.length > 50)
-    .slice(0, 10) // Limit to top 10 posts
-    .map(post => {
-      const title = post.title;
-      const content = cleanRedditText(post.selftext);
-      const score = post.score;
-      return `POST (${score} upvotes): ${title}\n${content}`;
-    })
-    .join('\n\n---\n\n');
-
-  const commentContent = comments
-    .filter(comment => comment.body && comment.body.length > 30 && comment.score > 0)
-    .slice(0, 15) // Limit to top 15 comments
-    .map(comment => {
-      const content = cleanRedditText(comment.body);
-      const score = comment.score;
-      return `COMMENT (${score} upvotes): ${content}`;
-    })
-    .join('\n\n---\n\n');
-
-  return [postContent, commentContent].filter(Boolean).join('\n\n===POSTS_END===\n\n');
+export function toRedditUrl(permalink: string): string {
+  return `https://www.reddit.com${permalink}`;
+}
+
+/**
+ * Extract lowercase keywords from text, dropping stop words and short tokens
+ */
+export function extractKeywords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Turn a question into a Reddit search query: its distinct keywords, any of which may match
+ */
+export function buildSearchQuery(question: string, maxTerms: number = 6): string {
+  return Array.from(new Set(extractKeywords(question)))
+    .slice(0, maxTerms)
+    .join(' OR ');
+}
+
+// Inline citation markers such as [3] or [1, 4]; the group holds the reference numbers.
+// Global, so only use it with matchAll, replace and split, which don't keep state between calls.
+export const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+const CITATION_WITH_SPACE_PATTERN = new RegExp(`\\s*${CITATION_PATTERN.source}`, 'g');
+
+/**
+ * Reference numbers in a marker's group, e.g. "1, 4" → [1, 4]
+ */
+export function parseCitationIds(ids: string): number[] {
+  return ids.split(',').map(id => parseInt(id, 10));
+}
+
+/**
+ * Text without its citation markers or the whitespace before them
+ */
+export function stripCitations(text: string): string {
+  return text.replace(CITATION_WITH_SPACE_PATTERN, '');
+}
+
+/**
+ * Collect the reference numbers cited in an answer, e.g. "[2]" or "[1, 3]"
+ */
+export function extractCitations(text: string): number[] {
+  const cited = new Set<number>();
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    parseCitationIds(match[1]).forEach(id => cited.add(id));
+  }
+  return Array.from(cited);
+}
+
+/**
+ * Keep only the references an answer actually cites, in citation order
+ */
+export function selectCitedSources(answer: string, references: AnswerSource[]): AnswerSource[] {
+  const byId = new Map(references.map(ref => [ref.id, ref]));
+  return extractCitations(answer)
+    .map(id => byId.get(id))
+    .filter((ref): ref is AnswerSource => Boolean(ref));
 }
 
 /**
@@ -239,13 +321,24 @@ export function loadFromLocalStorage<T>(key: string, defaultValue: T): T {
 }
 
 /**
- * Format text for sharing
+ * Remove data from localStorage safely
  */
-export function formatForSharing(question: string, subreddit: string, answer: string): string {
+export function removeFromLocalStorage(key: string): void {
+  try {
+    localStorage.removeItem(key);
+  } catch (error) {
+    console.error('Failed to remove from localStorage:', error);
+  }
+}
+
+/**
+ * Format text for sharing, linking to the published answer when there is one
+ */
+export function formatForSharing(question: string, subreddit: string, answer: string, url?: string): string {
   const header = `🤖 AI Answer from r/${subreddit}`;
   const questionLine = `❓ Q: ${question}`;
-  const answerLine = `💡 A: ${truncateText(answer, 200)}`;
-  const footer = `\n\nGenerated by Ask Reddit AI`;
+  const answerLine = `💡 A: ${truncateText(stripCitations(answer), 200)}`;
+  const footer = url ? `\n\n🔗 Full answer with sources: ${url}` : `\n\nGenerated by Ask Reddit AI`;
   
   return `${header}\n\n${questionLine}\n\n${answerLine}${footer}`;
 }
@@ -272,87 +365,30 @@ export async function copyToClipboard(text: string): Promise<boolean> {
 }
 
 /**
- * Rate limiting functions
+ * Requests a comparison counts against the quota: one per subreddit's answer plus one for the comparison
  */
-interface RateLimitData {
-  count: number;
-  resetTime: number;
+export function compareCost(subredditCount: number): number {
+  return subredditCount + 1;
 }
 
-// Check if we're in development mode (localhost)
-function isDevelopment(): boolean {
-  if (typeof window === 'undefined') return false;
-  return window.location.hostname === 'localhost' || 
-         window.location.hostname === '127.0.0.1' ||
-         window.location.hostname === '0.0.0.0' ||
-         process.env.NODE_ENV === 'development';
-}
-
-export function checkRateLimit(): { allowed: boolean; remaining: number; resetTime: number } {
-  // Skip rate limiting in development
-  if (isDevelopment()) {
-    return {
-      allowed: true,
-      remaining: 999, // Show high number for dev
-      resetTime: Date.now() + (24 * 60 * 60 * 1000)
-    };
-  }
-
-  try {
-    const data = loadFromLocalStorage<RateLimitData>(CONFIG.STORAGE.RATE_LIMIT_KEY, {
-      count: 0,
-      resetTime: Date.now() + (CONFIG.RATE_LIMIT.RESET_HOURS * 60 * 60 * 1000)
-    });
-
-    const now = Date.now();
-    
-    // Reset if time has passed
-    if (now >= data.resetTime) {
-      const newData: RateLimitData = {
-        count: 0,
-        resetTime: now + (CONFIG.RATE_LIMIT.RESET_HOURS * 60 * 60 * 1000)
-      };
-      saveToLocalStorage(CONFIG.STORAGE.RATE_LIMIT_KEY, newData);
-      return {
-        allowed: true,
-        remaining: CONFIG.RATE_LIMIT.MAX_REQUESTS,
-        resetTime: newData.resetTime
-      };
-    }
-
-    const remaining = CONFIG.RATE_LIMIT.MAX_REQUESTS - data.count;
-    return {
-      allowed: remaining > 0,
-      remaining: Math.max(0, remaining),
-      resetTime: data.resetTime
-    };
-  } catch (error) {
-    console.error('Error checking rate limit:', error);
-    return { allowed: true, remaining: CONFIG.RATE_LIMIT.MAX_REQUESTS, resetTime: Date.now() };
-  }
-}
+/**
+ * Read the server's X-RateLimit-* headers, or null when the server sent none
+ */
+export function parseRateLimitHeaders(headers: Headers): RateLimitStatus | null {
+  const limit = headers.get('X-RateLimit-Limit');
+  const remaining = headers.get('X-RateLimit-Remaining');
+  const reset = headers.get('X-RateLimit-Reset');
 
-export function incrementRateLimit(): void {
-  // Skip incrementing in development
-  if (isDevelopment()) {
-    return;
+  if (limit === null || remaining === null || reset === null) {
+    return null;
   }
 
-  try {
-    const data = loadFromLocalStorage<RateLimitData>(CONFIG.STORAGE.RATE_LIMIT_KEY, {
-      count: 0,
-      resetTime: Date.now() + (CONFIG.RATE_LIMIT.RESET_HOURS * 60 * 60 * 1000)
-    });
-
-    const updatedData: RateLimitData = {
-      count: data.count + 1,
-      resetTime: data.resetTime
-    };
-
-    saveToLocalStorage(CONFIG.STORAGE.RATE_LIMIT_KEY, updatedData);
-  } catch (error) {
-    console.error('Error incrementing rate limit:', error);
-  }
+  return {
+    allowed: parseInt(remaining, 10) > 0,
+    limit: parseInt(limit, 10),
+    remaining: parseInt(remaining, 10),
+    resetTime: parseInt(reset, 10) * 1000,
+  };
 }
 
 export function formatTimeRemaining(resetTime: number): string {
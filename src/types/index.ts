@@ -1,4 +1,12 @@
 // Reddit API types
+export type Timeframe = '24h' | '48h' | 'week' | 'month' | 'year' | 'all';
+// 'latest': the subreddit's top posts; 'best_match': also search the subreddit for the question
+export type RetrievalMode = 'latest' | 'best_match';
+// 'prose': free text; 'structured': a validated StructuredAnswer object
+export type AnswerMode = 'prose' | 'structured';
+
+export type Stance = 'for' | 'against' | 'neutral' | 'off_topic';
+
 export interface RedditPost {
   id: string;
   title: string;
@@ -19,10 +27,30 @@ export interface RedditComment {
   author: string;
   score: number;
   created_utc: number;
+  permalink: string;
   replies?: RedditComment[];
   depth: number;
 }
 
+export interface SubredditInfo {
+  name: string;
+  title: string;
+  description: string;
+  subscribers: number;
+  icon?: string;
+  over18: boolean;
+  type: string; // 'public', 'private', 'restricted', ...
+}
+
+// 'private' covers any subreddit that exists but can't be read: private, employees-only or quarantined
+export type SubredditStatus = 'available' | 'private' | 'not_found';
+
+export interface SubredditLookup {
+  name: string; // As requested; info.name has Reddit's capitalization
+  status: SubredditStatus;
+  info?: SubredditInfo; // Missing when Reddit doesn't reveal it
+}
+
 export interface SubredditData {
   posts: RedditPost[];
   comments: RedditComment[];
@@ -30,60 +58,485 @@ export interface SubredditData {
   fetchedAt: number;
 }
 
+export interface SnapshotInfo {
+  cached: boolean; // Served from the snapshot cache instead of fetched for this request
+  fetched_at: number; // When the data was fetched from Reddit (SubredditData.fetchedAt)
+  age_seconds: number;
+}
+
 // AI Response types
+export interface AnswerSource {
+  id: number; // Reference number used by the inline [n] markers
+  title: string;
+  url: string;
+  type: 'post' | 'comment';
+  author: string;
+  score: number;
+}
+
+// How candidate posts and comments were ordered before filling the context
+export interface RankingInfo {
+  method: 'bm25' | 'score'; // 'score' when the question has no terms to match
+  weights: {
+    relevance: number;
+    popularity: number;
+    recency: number;
+  };
+  query_terms: string[];
+}
+
+// How the Reddit content was fitted into the model's context budget
+export interface ContextReport {
+  budget_tokens: number;
+  used_tokens: number;
+  included: number;
+  truncated: number; // Included, but cut short
+  dropped: number;
+  ranking: RankingInfo;
+}
+
+export interface ExtractedContent {
+  text: string;
+  references: AnswerSource[];
+  // Items that made it into the prompt
+  posts: RedditPost[];
+  comments: RedditComment[];
+  report: ContextReport;
+}
+
+export interface ConfidenceFactor {
+  name: 'content_volume' | 'engagement' | 'relevance' | 'answer_coverage';
+  label: string;
+  score: number; // 0-1
+  weight: number;
+  detail: string;
+}
+
+export type ConsensusLevel = 'strong' | 'moderate' | 'weak' | 'none';
+
+// Answer sections returned in structured mode. Numbers refer to AnswerSource ids.
+export interface StructuredAnswer {
+  summary: string;
+  key_points: { point: string; citations: number[] }[];
+  consensus: { level: ConsensusLevel; statement: string; citations: number[] };
+  dissenting_views: { view: string; citations: number[] }[];
+  notable_quotes: { quote: string; author: string; citation: number }[];
+  open_questions: string[];
+}
+
+// One side of the community's split on the question, weighted by comment score
+export interface StanceSide {
+  stance: Exclude<Stance, 'off_topic'>;
+  comments: number;
+  weighted_score: number; // Sum of the comments' scores, each counted as at least 1
+  share: number; // 0-1 of the on-topic weighted score
+  representatives: AnswerSource[]; // Highest-scoring comments on this side
+}
+
+export interface StanceBreakdown {
+  sides: StanceSide[]; // for, against, neutral
+  classified: number; // Comments classified, including off-topic ones
+  off_topic: number;
+}
+
 export interface AIResponse {
-  answer: string;
-  sources: {
-    title: string;
-    url: string;
-    type: 'post' | 'comment';
-  }[];
+  answer: string; // In structured mode, a prose rendering of `structured`
+  structured?: StructuredAnswer;
+  mode?: AnswerMode;
+  sources: AnswerSource[];
   confidence: number;
+  confidence_breakdown?: ConfidenceFactor[];
   model: string;
   tokens_used?: number;
+  subreddits?: string[];
+  timeframe?: Timeframe;
+  retrieval?: RetrievalMode;
+  snapshot?: SnapshotInfo; // For several subreddits: the oldest snapshot used
+  context?: ContextReport;
+  stance?: StanceBreakdown; // First questions only, when enough comments were on topic
+  conversation_id?: string; // Send with follow-up questions to continue this thread
 }
 
 // API Request/Response types
 export interface AskQuestionRequest {
-  subreddit: string;
+  subreddit: string | string[]; // One name, a list, or Reddit's "a+b+c" syntax
+  question: string;
+  timeframe?: Timeframe;
+  retrieval?: RetrievalMode;
+  mode?: AnswerMode;
+  model?: string; // A model ID from /api/models; defaults to the server's default model
+  stance?: boolean; // Also classify how the comments split on the question; counts as one more request
+  stream?: boolean; // Respond with server-sent events instead of JSON
+}
+
+// A follow-up answered against the same Reddit snapshot as the first question
+export interface FollowUpRequest {
+  conversation_id: string;
+  question: string;
+  mode?: AnswerMode;
+  stream?: boolean;
+}
+
+// One follow-up shown below the first answer
+export interface ConversationTurn {
   question: string;
-  model?: 'gpt-4o-mini' | 'gpt-3.5-turbo';
+  answer: AIResponse;
 }
 
+// Server-sent events emitted by /api/ask-question, /api/v1/ask and /api/follow-up in streaming mode
+export type AskQuestionStreamEvent =
+  | { type: 'token'; content: string }
+  | { type: 'done'; data: AIResponse }
+  | { type: 'error'; error: string };
+
 export interface AskQuestionResponse {
   success: boolean;
   data?: AIResponse;
   error?: string;
 }
 
+// The same question answered separately for each subreddit, then compared
+export interface CompareRequest {
+  subreddits: string | string[]; // Two or more, as a list or Reddit's "a+b+c" syntax
+  question: string;
+  timeframe?: Timeframe;
+  retrieval?: RetrievalMode;
+  mode?: AnswerMode;
+  model?: string;
+}
+
+export interface CompareColumn {
+  subreddit: string;
+  answer?: AIResponse;
+  error?: string; // Set instead of answer when this subreddit couldn't be answered
+}
+
+// Where the subreddits' answers agree and differ, written from the column answers
+export interface SubredditComparison {
+  answer: string;
+  model: string;
+  tokens_used?: number;
+}
+
+export interface CompareResult {
+  question: string;
+  columns: CompareColumn[];
+  comparison: SubredditComparison | null; // Null when fewer than two columns have answers
+}
+
+export interface CompareResponse {
+  success: boolean;
+  data?: CompareResult;
+  error?: string;
+}
+
+// "What's happening in r/X": the fetched posts grouped into topics, no question needed
+export interface DigestRequest {
+  subreddit: string | string[];
+  timeframe?: Timeframe;
+  model?: string;
+}
+
+export type DigestMood = 'positive' | 'negative' | 'mixed' | 'neutral';
+
+export interface DigestThread {
+  id: string;
+  title: string;
+  url: string;
+  subreddit: string;
+  author: string;
+  score: number;
+  num_comments: number;
+}
+
+export interface DigestTopic {
+  headline: string;
+  summary: string;
+  threads: DigestThread[]; // Most engaged first
+  engagement: number; // Upvotes plus weighted comments across the threads
+}
+
+export interface Digest {
+  subreddits: string[];
+  timeframe: Timeframe;
+  topics: DigestTopic[]; // Most engaged first
+  mood: { level: DigestMood; summary: string };
+  posts_considered: number;
+  model: string;
+  tokens_used?: number;
+  snapshot: SnapshotInfo;
+  generated_at: number;
+}
+
+export interface DigestResponse {
+  success: boolean;
+  data?: Digest;
+  error?: string;
+}
+
+// Scheduled briefings: a digest, or an answer to a standing question, delivered on a cron schedule
+export type SubscriptionStyle = 'digest' | AnswerMode;
+
+export type SubscriptionChannel =
+  | { type: 'email'; to: string[] }
+  // secret signs each request body; it is write-only, responses report signed instead
+  | { type: 'webhook'; url: string; secret?: string; signed?: boolean };
+
+export interface SubscriptionRequest {
+  name: string;
+  subreddits: string | string[];
+  schedule: string; // Cron expression in UTC, e.g. "0 7 * * 1-5"
+  channel: SubscriptionChannel;
+  style?: SubscriptionStyle;
+  question?: string; // Required unless style is 'digest'
+  timeframe?: Timeframe;
+  model?: string;
+  enabled?: boolean;
+}
+
+export interface Subscription {
+  id: string;
+  name: string;
+  subreddits: string[];
+  schedule: string;
+  channel: SubscriptionChannel;
+  style: SubscriptionStyle;
+  question?: string;
+  timeframe: Timeframe;
+  model?: string; // The server's default model when unset
+  enabled: boolean;
+  next_run_at: number | null; // null while disabled
+  last_run_at?: number;
+  created_at: number;
+  updated_at: number;
+}
+
+export type DeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface DeliveryAttempt {
+  attempt: number; // 1-based
+  started_at: number;
+  finished_at: number;
+  ok: boolean;
+  error?: string;
+  response_code?: number; // HTTP status of the webhook or SMTP reply code
+}
+
+export interface Delivery {
+  id: string;
+  subscription_id: string;
+  trigger: 'schedule' | 'manual';
+  status: DeliveryStatus;
+  subject?: string; // Set once the briefing has been generated
+  attempts: DeliveryAttempt[];
+  next_attempt_at: number | null; // When a pending delivery is retried
+  created_at: number;
+  delivered_at?: number;
+}
+
+export interface SubscriptionResponse {
+  success: boolean;
+  data?: Subscription;
+  error?: string;
+}
+
+export interface SubscriptionListResponse {
+  success: boolean;
+  data?: Subscription[];
+  error?: string;
+}
+
+export interface DeliveryResponse {
+  success: boolean;
+  data?: Delivery;
+  error?: string;
+}
+
+export interface DeliveryListResponse {
+  success: boolean;
+  data?: Delivery[]; // Newest first
+  error?: string;
+}
+
+// A model from the server's registry
+export interface ModelSummary {
+  id: string;
+  label: string;
+  provider: 'openai' | 'local' | 'fake';
+  context_window: number;
+  supports_json_schema: boolean; // Structured answers are held to the schema by the provider, not only by the prompt
+  pricing: {
+    input_per_million: number; // USD
+    output_per_million: number;
+  };
+}
+
+export interface ModelsResponse {
+  success: boolean;
+  data?: {
+    models: ModelSummary[];
+    default_model: string | null;
+  };
+  error?: string;
+}
+
+export interface SubredditLookupResponse {
+  success: boolean;
+  data?: SubredditLookup;
+  error?: string;
+}
+
+export interface SubredditSearchResponse {
+  success: boolean;
+  data?: {
+    subreddits: SubredditInfo[];
+  };
+  error?: string;
+}
+
 export interface RedditDataRequest {
   subreddit: string;
-  timeframe?: '24h' | '48h' | 'week';
+  timeframe?: Timeframe;
   limit?: number;
 }
 
 export interface RedditDataResponse {
   success: boolean;
   data?: SubredditData;
+  snapshot?: SnapshotInfo;
   error?: string;
 }
 
+// Public versioned API (/api/v1). Request bodies are the same as the app's routes;
+// successful responses wrap their payload in `data`, failures in `error`.
+
+export type ApiErrorCode =
+  | 'invalid_request'
+  | 'unauthorized'
+  | 'not_found'
+  | 'forbidden'
+  | 'rate_limited'
+  | 'upstream_error'
+  | 'unavailable'
+  | 'internal_error';
+
+export interface ApiErrorResponse {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+  };
+}
+
+export interface ApiAskResponse {
+  data: AIResponse;
+}
+
+export interface ApiRedditDataResponse {
+  data: SubredditData;
+  snapshot: SnapshotInfo;
+}
+
+export interface ApiModelsResponse {
+  data: {
+    models: ModelSummary[];
+    default_model: string | null;
+  };
+}
+
+// The calling key's usage in the current window
+export interface ApiUsage {
+  key: string; // The key's name, never the key itself
+  limit: number;
+  used: number;
+  remaining: number;
+  reset_at: number; // Epoch ms
+}
+
+export interface ApiUsageResponse {
+  data: ApiUsage;
+}
+
 // UI Component types
 export interface PopularSubreddit {
   name: string;
   description: string;
-  subscribers: string;
-  icon?: string;
 }
 
 export interface TrendingQuestion {
   id: string;
   question: string;
   subreddit: string;
-  popularity: number;
+  popularity: number; // 1-100, relative to the most engaged post in the same batch
   tags: string[];
+  post_url?: string; // The post the question came from; missing for fallback questions
+  score?: number;
+  num_comments?: number;
+  rephrased?: boolean; // The post title wasn't a question and was reworded into one
+}
+
+export interface TrendingResponse {
+  success: boolean;
+  data?: {
+    questions: TrendingQuestion[];
+    generated_at: number | null; // Null for the built-in fallback list
+    source: 'live' | 'fallback';
+  };
+  error?: string;
+}
+
+// An answer published at /a/[id]
+export interface SharedAnswer {
+  id: string;
+  question: string;
+  subreddits: string[];
+  answer: AIResponse;
+  follow_ups: ConversationTurn[];
+  created_at: number; // Epoch ms
+  expires_at: number; // Epoch ms; the link stops working after this
+}
+
+// Shares are published from the answers the server recorded, never from a client's copy
+export interface ShareAnswerRequest {
+  conversation_id: string; // AIResponse.conversation_id of the first answer
+  turns?: number; // How many answers to publish: the first plus this many minus one follow-ups. Defaults to all.
 }
 
+export interface ShareAnswerResponse {
+  success: boolean;
+  data?: {
+    id: string;
+    url: string;
+    owner_token: string; // Shown once; send as X-Owner-Token to unpublish
+    expires_at: number;
+  };
+  error?: string;
+}
+
+export type ExportFormat = 'markdown' | 'json' | 'pdf';
+
+// One answer in an export, with the question and subreddits it was asked about
+export interface ExportedAnswer {
+  question: string;
+  subreddits: string[];
+  saved_at?: string; // ISO 8601, for answers exported from the library
+  answer: AIResponse;
+  follow_ups: ConversationTurn[];
+}
+
+// The JSON export document; `version` changes whenever a field changes meaning
+export interface AnswerExport {
+  format: 'ask-reddit-ai.answers';
+  version: 1;
+  exported_at: string; // ISO 8601
+  answers: ExportedAnswer[];
+}
+
+export interface ExportRequest {
+  format: ExportFormat;
+  answers: ExportedAnswer[];
+}
+
+// Format of saved answers before the library kept full answers; migrated on load
 export interface ShareableAnswer {
   question: string;
   subreddit: string;
@@ -92,15 +545,53 @@ export interface ShareableAnswer {
   id: string;
 }
 
+// An answer in the saved-answers library, kept exactly as it was shown
+export interface SavedAnswer {
+  id: string;
+  question: string;
+  subreddits: string[];
+  answer: AIResponse;
+  followUps: ConversationTurn[];
+  tags: string[];
+  savedAt: number; // Epoch ms
+  migrated?: boolean; // Converted from a ShareableAnswer, so sources and details are missing
+}
+
+export interface SavedAnswerFilters {
+  search: string;
+  subreddit: string | null;
+  tag: string | null;
+  from: number | null; // Epoch ms, inclusive
+  to: number | null;
+}
+
+export interface RateLimitStatus {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetTime: number; // Epoch ms
+}
+
 // App State types
 export interface AppState {
-  selectedSubreddit: string;
-  customSubreddit: string;
+  selectedSubreddits: string[];
+  selectedTimeframe: Timeframe;
+  selectedRetrieval: RetrievalMode;
+  selectedMode: AnswerMode;
   question: string;
   isLoading: boolean;
+  isStreaming: boolean;
   currentAnswer: AIResponse | null;
-  savedAnswers: ShareableAnswer[];
-  selectedModel: 'gpt-4o-mini' | 'gpt-3.5-turbo';
+  followUps: ConversationTurn[]; // Follow-ups on currentAnswer, oldest first
+  isFollowUpLoading: boolean;
+  isFollowUpStreaming: boolean;
+  activeTab: 'ask' | 'digest';
+  digest: Digest | null;
+  compareMode: boolean; // Answer each selected subreddit separately, side by side
+  analyzeStance: boolean; // Ask for the community split too, at the cost of a second request
+  comparison: CompareResult | null;
+  savedAnswers: SavedAnswer[];
+  selectedModel: string;
 }
 
 // Error types